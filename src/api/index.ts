@@ -3,10 +3,25 @@ import cors from 'cors';
 import { createAgentRouter } from './routes/agents';
 import { createTaskRouter } from './routes/tasks';
 import { createAnalyticsRouter } from './routes/analytics';
-import { apiKeyAuth } from './middleware/auth';
+import { createCapabilityRouter } from './routes/capabilities';
+import { createSigningRouter } from './routes/signing';
+import { createTemplateRouter } from './routes/templates';
+import { createScheduleRouter } from './routes/schedules';
+import { createTriggerRouter } from './routes/triggers';
+import { apiKeyAuth, captureRawBody, ethSignatureAuth, parseAdminKeys } from './middleware/auth';
 import { AgentRegistry } from '../core/registry/types';
 import { TaskOrchestrationEngine } from '../core/orchestration/types';
 import { DecisionEngine } from '../core/decision/types';
+import { CapabilityTaxonomy } from '../core/capabilities/types';
+import { WorkflowTemplateStore } from '../core/templates/types';
+import { TaskScheduler } from '../core/schedules/types';
+import { TriggerManager } from '../core/triggers/types';
+import { NonceStore, SigningDomain } from '../core/signing/types';
+import { createSigningDomain, DEFAULT_MAX_SIGNATURE_TTL } from '../core/signing/typed-data';
+import { InMemoryNonceStore } from '../core/signing/nonces';
+
+// YAML agent manifests are read as text
+const MANIFEST_CONTENT_TYPES = ['application/yaml', 'application/x-yaml', 'text/yaml'];
 
 /**
  * Configure and create the Express app
@@ -15,15 +30,33 @@ export function createApp(
   agentRegistry: AgentRegistry,
   taskOrchestration: TaskOrchestrationEngine,
   decisionEngine: DecisionEngine,
+  capabilityTaxonomy: CapabilityTaxonomy,
+  templateStore: WorkflowTemplateStore,
+  taskScheduler: TaskScheduler,
+  triggerManager: TriggerManager,
   config: {
     apiKey?: string;
+    adminKeys?: string;
     enableCors?: boolean;
+    requireSignatures?: boolean;
+    signingDomain?: SigningDomain;
+    nonceStore?: NonceStore;
+    maxSignatureTtl?: number;
   } = {}
 ) {
   const app = express();
+  const signingDomain = config.signingDomain ?? createSigningDomain();
+  const maxSignatureTtl = config.maxSignatureTtl ?? DEFAULT_MAX_SIGNATURE_TTL;
+  const requireSignature = ethSignatureAuth(
+    signingDomain,
+    config.nonceStore ?? new InMemoryNonceStore(),
+    maxSignatureTtl
+  );
   
   // Middleware setup
-  app.use(express.json());
+  // Bodies are parsed before authentication, keeping the raw bytes that signatures cover
+  app.use(express.json({ verify: captureRawBody }));
+  app.use(express.text({ type: MANIFEST_CONTENT_TYPES, verify: captureRawBody }));
   
   // Enable CORS if configured
   if (config.enableCors) {
@@ -35,9 +68,20 @@ export function createApp(
     app.use(apiKeyAuth(config.apiKey));
   }
   
+  // EIP-712 request signatures if configured
+  // Routes acting for an owner require them either way
+  if (config.requireSignatures) {
+    app.use(requireSignature);
+  }
+  
   // API routes
-  app.use('/api/agents', createAgentRouter(agentRegistry));
-  app.use('/api/tasks', createTaskRouter(taskOrchestration));
+  app.use('/api/agents', createAgentRouter(agentRegistry, requireSignature, parseAdminKeys(config.adminKeys)));
+  app.use('/api/tasks', createTaskRouter(taskOrchestration, templateStore));
+  app.use('/api/templates', createTemplateRouter(templateStore, requireSignature));
+  app.use('/api/schedules', createScheduleRouter(taskScheduler));
+  app.use('/api/triggers', createTriggerRouter(triggerManager));
+  app.use('/api/capabilities', createCapabilityRouter(capabilityTaxonomy));
+  app.use('/api/signing', createSigningRouter(signingDomain, maxSignatureTtl));
   app.use('/api/analytics', createAnalyticsRouter(
     decisionEngine,
     agentRegistry,
@@ -1,5 +1,26 @@
+import { IncomingMessage, ServerResponse } from 'http';
 import { Request, Response, NextFunction } from 'express';
 import { ethers } from 'ethers';
+import { handleError } from '../../utils/errors';
+import { NonceStore, SigningDomain } from '../../core/signing/types';
+import {
+  API_REQUEST_TYPES,
+  checkSignedPayload,
+  checkTypedSignature,
+  DEFAULT_MAX_SIGNATURE_TTL
+} from '../../core/signing/typed-data';
+
+// Request carrying the exact bytes of its body, as read by the body parsers
+export type RawBodyRequest = Request & { rawBody?: Buffer };
+
+/**
+ * Keep the raw body of a request so signatures are checked against the bytes
+ * that were sent rather than the parsed body
+ * Pass as the verify option of express.json and express.text
+ */
+export function captureRawBody(req: IncomingMessage, res: ServerResponse, buffer: Buffer): void {
+  (req as RawBodyRequest).rawBody = buffer;
+}
 
 /**
  * Simple authentication middleware using an API key
@@ -20,47 +41,129 @@ export function apiKeyAuth(apiKey: string) {
   };
 }
 
+/**
+ * Parse admin credentials of the form "name:key,name:key"
+ * The name is recorded as the actor of admin actions
+ */
+export function parseAdminKeys(value?: string): Map<string, string> {
+  const admins = new Map<string, string>();
+  
+  for (const entry of (value || '').split(',')) {
+    const separator = entry.indexOf(':');
+    if (separator > 0) {
+      admins.set(entry.slice(separator + 1).trim(), entry.slice(0, separator).trim());
+    }
+  }
+  
+  return admins;
+}
+
+/**
+ * Admin authentication middleware
+ * Requires an admin key in the x-admin-key header and attaches the
+ * admin's name to the request as the admin-actor header
+ */
+export function adminAuth(admins: Map<string, string>) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const providedKey = req.headers['x-admin-key'];
+    const actor = typeof providedKey === 'string' ? admins.get(providedKey) : undefined;
+    
+    if (!actor) {
+      return res.status(401).json({
+        success: false,
+        error: 'Unauthorized: Admin credentials required'
+      });
+    }
+    
+    req.headers['admin-actor'] = actor;
+    next();
+  };
+}
+
 /**
  * Ethereum signature-based authentication
- * Validates requests are signed by the specified address
+ * Requests are signed as EIP-712 ApiRequest typed data over the method, path
+ * and the hash of the raw body, with a single-use nonce and an expiry, so a
+ * signature cannot be replayed or reused for another route or body.
+ * Bodies the parsers did not capture are rejected as they cannot be checked.
+ * The same middleware can guard the whole app and single routes; a request it
+ * has verified is not checked again.
  */
-export function ethSignatureAuth() {
+export function ethSignatureAuth(
+  domain: SigningDomain,
+  nonceStore: NonceStore,
+  maxSignatureTtl: number = DEFAULT_MAX_SIGNATURE_TTL
+) {
+  const verified = new WeakSet<Request>();
+  
   return async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const { signature, address, message } = req.headers;
+      if (verified.has(req)) {
+        return next();
+      }
+      
+      // Only this middleware sets the verified address
+      delete req.headers['verified-address'];
+      
+      const { signature, address, nonce, expiry } = req.headers;
       
       // Only check routes that require authentication
       if (req.path.includes('/admin') || req.method !== 'GET') {
-        if (!signature || !address || !message) {
+        if (!signature || !address || !nonce || !expiry) {
           return res.status(401).json({
             success: false,
             error: 'Unauthorized: Missing authentication parameters'
           });
         }
         
-        // Verify the signature
+        const { rawBody } = req as RawBodyRequest;
+        
+        if (!rawBody && hasBody(req)) {
+          return res.status(401).json({
+            success: false,
+            error: 'Unauthorized: Request body could not be verified'
+          });
+        }
+        
+        const payload = {
+          signature: signature as string,
+          nonce: nonce as string,
+          expiry: Number(expiry)
+        };
+        
+        // Verify the expiry, signature and nonce, in that order
         try {
-          const messageHash = ethers.utils.hashMessage(message as string);
-          const recoveredAddress = ethers.utils.recoverAddress(
-            messageHash, 
-            signature as string
-          );
+          const expiresAt = checkSignedPayload(payload, 'Request', maxSignatureTtl);
           
-          if (recoveredAddress.toLowerCase() !== (address as string).toLowerCase()) {
-            return res.status(401).json({
-              success: false,
-              error: 'Unauthorized: Invalid signature'
-            });
-          }
+          checkTypedSignature(
+            domain,
+            API_REQUEST_TYPES,
+            {
+              method: req.method,
+              path: req.originalUrl,
+              bodyHash: ethers.utils.keccak256(rawBody || '0x'),
+              nonce: payload.nonce,
+              expiry: payload.expiry
+            },
+            payload.signature,
+            address as string,
+            'Request',
+            address as string
+          );
           
-          // Attach the verified address to the request
-          req.headers['verified-address'] = recoveredAddress;
+          await nonceStore.consume(address as string, payload.nonce, expiresAt);
         } catch (error) {
-          return res.status(401).json({
+          const { status, message } = handleError(error);
+          
+          return res.status(status).json({
             success: false,
-            error: 'Unauthorized: Invalid signature format'
+            error: status === 500 ? 'Authentication error' : `Unauthorized: ${message}`
           });
         }
+        
+        // Attach the verified address to the request
+        req.headers['verified-address'] = ethers.utils.getAddress(address as string);
+        verified.add(req);
       }
       
       next();
@@ -73,4 +176,9 @@ export function ethSignatureAuth() {
       });
     }
   };
-}
\ No newline at end of file
+}
+
+function hasBody(req: Request): boolean {
+  const length = req.headers['content-length'];
+  return req.headers['transfer-encoding'] !== undefined || (length !== undefined && length !== '0');
+}
@@ -1,5 +1,63 @@
 import { Request, Response, NextFunction } from 'express';
 import Joi from 'joi';
+import { StepErrorKind } from '../../core/types';
+
+// Step conditions nest through all, any and not
+const stepCondition = Joi.alternatives().try(
+  Joi.object({ all: Joi.array().items(Joi.link('#stepCondition')).min(1).required() }),
+  Joi.object({ any: Joi.array().items(Joi.link('#stepCondition')).min(1).required() }),
+  Joi.object({ not: Joi.link('#stepCondition').required() }),
+  Joi.object({
+    value: Joi.any().required(),
+    operator: Joi.string().valid('eq', 'ne', 'gt', 'gte', 'lt', 'lte', 'in', 'exists').required(),
+    compareTo: Joi.any().optional()
+  })
+).id('stepCondition');
+
+// Workflow of a task or template; sub-workflows nest it
+const workflowSchema = Joi.object({
+  steps: Joi.array().items(Joi.object({
+    id: Joi.string().required(),
+    name: Joi.string().required(),
+    agentRequirements: Joi.object({
+      capabilities: Joi.array().items(Joi.string()).required(),
+      networks: Joi.array().items(Joi.string()).optional()
+    }).required(),
+    input: Joi.object().allow(null).optional(),
+    dependsOn: Joi.array().items(Joi.string()).required(),
+    when: stepCondition.optional(),
+    skipDescendants: Joi.boolean().optional(),
+    map: Joi.object({
+      items: Joi.alternatives().try(Joi.string(), Joi.array()).required(),
+      concurrency: Joi.number().integer().min(1).optional(),
+      maxFailures: Joi.number().integer().min(0).optional()
+    }).optional(),
+    subWorkflow: Joi.object({
+      workflow: Joi.link('#workflowDefinition'),
+      template: Joi.string()
+    }).xor('workflow', 'template').optional(),
+    compensate: Joi.object({
+      name: Joi.string().optional(),
+      agentRequirements: Joi.object({
+        capabilities: Joi.array().items(Joi.string()).required(),
+        networks: Joi.array().items(Joi.string()).optional()
+      }).optional(),
+      input: Joi.object().allow(null).required(),
+      timeout: Joi.number().integer().min(1).optional()
+    }).optional(),
+    timeout: Joi.number().integer().min(1).optional(),
+    retryPolicy: Joi.object({
+      maxAttempts: Joi.number().integer().min(1).required(),
+      backoff: Joi.object({
+        initialDelay: Joi.number().min(0).required(),
+        multiplier: Joi.number().min(1).optional(),
+        maxDelay: Joi.number().min(0).optional()
+      }).optional(),
+      retryOn: Joi.array().items(Joi.string().valid(...Object.values(StepErrorKind))).optional(),
+      switchAgent: Joi.boolean().optional()
+    }).optional()
+  })).required()
+}).id('workflowDefinition');
 
 /**
  * Middleware for validating request body
@@ -74,27 +132,106 @@ export const schemas = {
     metadata: Joi.object().optional()
   }),
   
+  // Agent profile update schema
+  agentProfileUpdate: Joi.object({
+    capabilities: Joi.array().items(Joi.string()).optional(),
+    supportedNetworks: Joi.array().items(Joi.string()).optional(),
+    endpoint: Joi.string().uri().optional(),
+    metadata: Joi.object().optional(),
+    signature: Joi.string().required()
+  }).or('capabilities', 'supportedNetworks', 'endpoint', 'metadata'),
+  
+  // Agent suspension schema (admin only)
+  agentSuspension: Joi.object({
+    reason: Joi.string().trim().required(),
+    expiresAt: Joi.date().iso().optional()
+  }),
+  
+  // Agent reinstatement schema (admin only)
+  agentReinstatement: Joi.object({
+    reason: Joi.string().optional()
+  }),
+  
+  // Suspension appeal schema, signed by the owner
+  suspensionAppeal: Joi.object({
+    note: Joi.string().required(),
+    signature: Joi.string().required()
+  }),
+  
   // Task creation schema
   taskCreation: Joi.object({
     name: Joi.string().required(),
     description: Joi.string().required(),
     creator: Joi.string().required(),
-    workflow: Joi.object({
-      steps: Joi.array().items(Joi.object({
-        id: Joi.string().required(),
-        name: Joi.string().required(),
-        agentRequirements: Joi.object({
-          capabilities: Joi.array().items(Joi.string()).required(),
-          networks: Joi.array().items(Joi.string()).optional()
-        }).required(),
-        input: Joi.object().allow(null).optional(),
-        dependsOn: Joi.array().items(Joi.string()).required()
-      })).required()
-    }).required(),
+    workflow: workflowSchema.optional(),
+    template: Joi.string().optional(),
+    parameters: Joi.object().optional(),
+    budget: Joi.object({
+      amount: Joi.string().required(),
+      token: Joi.string().required()
+    }).optional(),
+    deadline: Joi.date().iso().optional(),
+    priority: Joi.number().integer().strict().optional()
+  }).xor('workflow', 'template'),
+  
+  // Task schedule creation schema
+  scheduleCreation: Joi.object({
+    name: Joi.string().required(),
+    description: Joi.string().required(),
+    creator: Joi.string().required(),
+    workflow: workflowSchema.optional(),
+    template: Joi.string().optional(),
+    parameters: Joi.object().optional(),
+    budget: Joi.object({
+      amount: Joi.string().required(),
+      token: Joi.string().required()
+    }).optional(),
+    priority: Joi.number().integer().strict().optional(),
+    runDeadline: Joi.number().integer().min(1).optional(),
+    startAt: Joi.date().iso().optional(),
+    cron: Joi.string().optional()
+  }).xor('workflow', 'template').or('startAt', 'cron'),
+  
+  // Event trigger creation schema
+  triggerCreation: Joi.object({
+    name: Joi.string().required(),
+    description: Joi.string().required(),
+    creator: Joi.string().required(),
+    event: Joi.string().required(),
+    address: Joi.string().optional(),
+    topics: Joi.array().items(
+      Joi.string(),
+      Joi.array().items(Joi.string()).min(1),
+      Joi.valid(null)
+    ).max(3).optional(),
+    where: stepCondition.optional(),
+    template: Joi.string().required(),
+    parameters: Joi.object().optional(),
     budget: Joi.object({
       amount: Joi.string().required(),
       token: Joi.string().required()
     }).optional(),
-    deadline: Joi.date().iso().optional()
+    priority: Joi.number().integer().strict().optional(),
+    runDeadline: Joi.number().integer().min(1).optional()
+  }),
+  
+  // Workflow template publication schema
+  templatePublication: Joi.object({
+    name: Joi.string().required(),
+    version: Joi.string().required(),
+    description: Joi.string().optional(),
+    parameters: Joi.array().items(Joi.object({
+      name: Joi.string().required(),
+      type: Joi.string().valid('string', 'number', 'boolean', 'array', 'object').required(),
+      description: Joi.string().optional(),
+      required: Joi.boolean().optional(),
+      default: Joi.any().optional()
+    })).optional(),
+    workflow: workflowSchema.required()
+  }),
+  
+  // Workflow template deprecation schema
+  templateDeprecation: Joi.object({
+    reason: Joi.string().optional()
   })
 };
\ No newline at end of file
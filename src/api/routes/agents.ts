@@ -1,12 +1,28 @@
-import express, { Request, Response } from 'express';
-import { AgentRegistry } from '../../core/registry/types';
+import express, { Request, RequestHandler, Response } from 'express';
+import {
+  AgentRegistry,
+  AgentProfileUpdate,
+  AgentSearchQuery,
+  MetadataFilter,
+  MetadataFilterOperator,
+  VerificationFailureReason
+} from '../../core/registry/types';
+import { parseAgentManifest, importAgentManifest } from '../../core/registry/manifest';
 import { AgentStatus } from '../../core/types';
+import { handleError, ValidationError } from '../../utils/errors';
+import { validateBody, schemas } from '../middleware/validation';
+import { adminAuth } from '../middleware/auth';
 
 /**
  * Create agent router
  */
-export function createAgentRouter(registry: AgentRegistry): express.Router {
+export function createAgentRouter(
+  registry: AgentRegistry,
+  requireSignature: RequestHandler,
+  admins: Map<string, string> = new Map()
+): express.Router {
   const router = express.Router();
+  const requireAdmin = adminAuth(admins);
 
   /**
    * Register a new agent
@@ -39,15 +55,42 @@ export function createAgentRouter(registry: AgentRegistry): express.Router {
         data: result
       });
     } catch (error) {
-      console.error('Error registering agent:', error);
+      const { status, message } = handleError(error);
       
-      return res.status(500).json({
+      return res.status(status).json({
         success: false,
-        error: 'Failed to register agent'
+        error: status === 500 ? 'Failed to register agent' : message
       });
     }
   });
 
+  /**
+   * Import agents from a manifest
+   * Accepts a YAML body, which the app reads as text, or JSON with the
+   * manifest document
+   */
+  router.post(
+    '/import',
+    async (req: Request, res: Response) => {
+      try {
+        const entries = parseAgentManifest(req.body);
+        const results = await importAgentManifest(registry, entries);
+        
+        return res.json({
+          success: true,
+          data: results
+        });
+      } catch (error) {
+        const { status, message } = handleError(error);
+        
+        return res.status(status).json({
+          success: false,
+          error: status === 500 ? 'Failed to import agents' : message
+        });
+      }
+    }
+  );
+
   /**
    * Get agent by ID
    */
@@ -79,18 +122,96 @@ export function createAgentRouter(registry: AgentRegistry): express.Router {
   });
 
   /**
-   * Find agents by query
+   * Get agent profile history
+   * With ?at=<timestamp>, returns only the version in effect at that time
+   */
+  router.get('/:id/history', async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      const { at } = req.query;
+      
+      if (at && isNaN(Date.parse(at as string))) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid timestamp'
+        });
+      }
+      
+      const history = await registry.getAgentHistory(id);
+      
+      if (history.length === 0) {
+        return res.status(404).json({
+          success: false,
+          error: 'Agent not found'
+        });
+      }
+      
+      if (at) {
+        const time = new Date(at as string).getTime();
+        const version = [...history]
+          .reverse()
+          .find(entry => entry.validFrom.getTime() <= time);
+        
+        if (!version) {
+          return res.status(404).json({
+            success: false,
+            error: 'Agent was not registered at the given time'
+          });
+        }
+        
+        return res.json({
+          success: true,
+          data: version
+        });
+      }
+      
+      return res.json({
+        success: true,
+        data: history
+      });
+    } catch (error) {
+      console.error('Error getting agent history:', error);
+      
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to get agent history'
+      });
+    }
+  });
+
+  /**
+   * Get on-chain anchors of an agent
+   */
+  router.get('/:id/anchors', async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      
+      const anchors = await registry.getAnchors(id);
+      
+      return res.json({
+        success: true,
+        data: anchors
+      });
+    } catch (error) {
+      console.error('Error getting agent anchors:', error);
+      
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to get agent anchors'
+      });
+    }
+  });
+
+  /**
+   * Search agents
+   * Supports free text (q), repeated metadata filters (filter=field:op:value),
+   * sorting by creation time or performance and cursor pagination
    */
   router.get('/', async (req: Request, res: Response) => {
     try {
-      const { capabilities, networks, status, owner } = req.query;
+      const { capabilities, networks, status, owner, q, filter, sortBy, sortOrder, limit, cursor } = req.query;
       
-      const query: {
-        capabilities?: string[];
-        networks?: string[];
-        status?: AgentStatus;
-        owner?: string;
-      } = {};
+      const query: AgentSearchQuery = {};
       
       // Parse query parameters
       if (capabilities) {
@@ -101,8 +222,8 @@ export function createAgentRouter(registry: AgentRegistry): express.Router {
       
       if (networks) {
         query.networks = Array.isArray(networks) 
-          ? networks as string[] 
-          : [networks as string];
+          ? networks as AgentSearchQuery['networks']
+          : [networks as string] as AgentSearchQuery['networks'];
       }
       
       if (status && Object.values(AgentStatus).includes(status as AgentStatus)) {
@@ -113,26 +234,104 @@ export function createAgentRouter(registry: AgentRegistry): express.Router {
         query.owner = owner as string;
       }
       
-      const agents = await registry.findAgents(query);
+      if (q) {
+        query.text = q as string;
+      }
+      
+      if (filter) {
+        const filters = Array.isArray(filter) ? filter as string[] : [filter as string];
+        query.metadata = filters.map(parseMetadataFilter);
+      }
+      
+      if (sortBy) {
+        query.sortBy = sortBy as AgentSearchQuery['sortBy'];
+      }
+      
+      if (sortOrder) {
+        query.sortOrder = sortOrder as AgentSearchQuery['sortOrder'];
+      }
+      
+      if (limit) {
+        query.limit = Number(limit);
+      }
+      
+      if (cursor) {
+        query.cursor = cursor as string;
+      }
+      
+      const page = await registry.searchAgents(query);
       
       return res.json({
         success: true,
-        data: agents
+        data: page.agents,
+        nextCursor: page.nextCursor
       });
     } catch (error) {
-      console.error('Error finding agents:', error);
+      const { status, message } = handleError(error);
       
-      return res.status(500).json({
+      return res.status(status).json({
         success: false,
-        error: 'Failed to find agents'
+        error: status === 500 ? 'Failed to find agents' : message
+      });
+    }
+  });
+
+  /**
+   * Update agent profile
+   * The owner signs the update for the agent's next version
+   */
+  router.patch('/:id', validateBody(schemas.agentProfileUpdate), async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      const { capabilities, supportedNetworks, endpoint, metadata, signature } = req.body;
+      
+      const update: AgentProfileUpdate = {};
+      
+      if (capabilities !== undefined) {
+        update.capabilities = capabilities;
+      }
+      
+      if (supportedNetworks !== undefined) {
+        update.supportedNetworks = supportedNetworks;
+      }
+      
+      if (endpoint !== undefined) {
+        update.endpoint = endpoint;
+      }
+      
+      if (metadata !== undefined) {
+        update.metadata = metadata;
+      }
+      
+      const agent = await registry.updateAgent(id, update, signature);
+      
+      if (!agent) {
+        return res.status(404).json({
+          success: false,
+          error: 'Agent not found'
+        });
+      }
+      
+      return res.json({
+        success: true,
+        data: agent
+      });
+    } catch (error) {
+      const { status, message } = handleError(error);
+      
+      return res.status(status).json({
+        success: false,
+        error: status === 500 ? 'Failed to update agent' : message
       });
     }
   });
 
   /**
    * Update agent status
+   * The request must be signed by the owner; pending agents become active by
+   * verifying their challenge instead
    */
-  router.put('/:id/status', async (req: Request, res: Response) => {
+  router.put('/:id/status', requireSignature, async (req: Request, res: Response) => {
     try {
       const { id } = req.params;
       const { status } = req.body;
@@ -145,7 +344,26 @@ export function createAgentRouter(registry: AgentRegistry): express.Router {
         });
       }
       
-      const agent = await registry.updateAgentStatus(id, status);
+      const existing = await registry.getAgent(id);
+      
+      if (!existing) {
+        return res.status(404).json({
+          success: false,
+          error: 'Agent not found'
+        });
+      }
+      
+      const signer = req.headers['verified-address'] as string;
+      
+      if (existing.owner.toLowerCase() !== signer.toLowerCase()) {
+        return res.status(401).json({
+          success: false,
+          error: 'Unauthorized: Only the agent owner can change its status'
+        });
+      }
+      
+      // Suspensions carry a reason and an admin actor; see /:id/suspend
+      const agent = await registry.updateAgentStatus(id, status, signer);
       
       if (!agent) {
         return res.status(404).json({
@@ -159,11 +377,173 @@ export function createAgentRouter(registry: AgentRegistry): express.Router {
         data: agent
       });
     } catch (error) {
-      console.error('Error updating agent status:', error);
+      const { status, message } = handleError(error);
+      
+      return res.status(status).json({
+        success: false,
+        error: status === 500 ? 'Failed to update agent status' : message
+      });
+    }
+  });
+
+  /**
+   * Get agent status history, including suspensions and appeals
+   */
+  router.get('/:id/status-history', async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      
+      const history = await registry.getStatusHistory(id);
+      
+      if (history.length === 0) {
+        return res.status(404).json({
+          success: false,
+          error: 'Agent not found'
+        });
+      }
+      
+      return res.json({
+        success: true,
+        data: history
+      });
+    } catch (error) {
+      console.error('Error getting agent status history:', error);
       
       return res.status(500).json({
         success: false,
-        error: 'Failed to update agent status'
+        error: 'Failed to get agent status history'
+      });
+    }
+  });
+
+  /**
+   * Suspend an agent (admin only)
+   * Without an expiry the agent stays suspended until reinstated
+   */
+  router.post('/:id/suspend', requireAdmin, validateBody(schemas.agentSuspension), async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      const { reason, expiresAt } = req.body;
+      
+      const agent = await registry.suspendAgent(id, {
+        reason,
+        actor: req.headers['admin-actor'] as string,
+        expiresAt: expiresAt ? new Date(expiresAt) : undefined
+      });
+      
+      if (!agent) {
+        return res.status(404).json({
+          success: false,
+          error: 'Agent not found'
+        });
+      }
+      
+      return res.json({
+        success: true,
+        data: agent
+      });
+    } catch (error) {
+      const { status, message } = handleError(error);
+      
+      return res.status(status).json({
+        success: false,
+        error: status === 500 ? 'Failed to suspend agent' : message
+      });
+    }
+  });
+
+  /**
+   * Reinstate a suspended agent (admin only)
+   */
+  router.post('/:id/reinstate', requireAdmin, validateBody(schemas.agentReinstatement), async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      const { reason } = req.body;
+      
+      const agent = await registry.reinstateAgent(id, req.headers['admin-actor'] as string, reason);
+      
+      if (!agent) {
+        return res.status(404).json({
+          success: false,
+          error: 'Agent not found'
+        });
+      }
+      
+      return res.json({
+        success: true,
+        data: agent
+      });
+    } catch (error) {
+      const { status, message } = handleError(error);
+      
+      return res.status(status).json({
+        success: false,
+        error: status === 500 ? 'Failed to reinstate agent' : message
+      });
+    }
+  });
+
+  /**
+   * Appeal the current suspension of an agent
+   * The owner signs the note; each suspension can be appealed once
+   */
+  router.post('/:id/appeal', validateBody(schemas.suspensionAppeal), async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      const { note, signature } = req.body;
+      
+      const agent = await registry.appealSuspension(id, note, signature);
+      
+      if (!agent) {
+        return res.status(404).json({
+          success: false,
+          error: 'Agent not found'
+        });
+      }
+      
+      return res.json({
+        success: true,
+        data: agent
+      });
+    } catch (error) {
+      const { status, message } = handleError(error);
+      
+      return res.status(status).json({
+        success: false,
+        error: status === 500 ? 'Failed to appeal suspension' : message
+      });
+    }
+  });
+
+  /**
+   * Issue a fresh verification challenge
+   */
+  router.post('/:id/challenge', async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      
+      const challenge = await registry.issueChallenge(id);
+      
+      if (!challenge) {
+        return res.status(404).json({
+          success: false,
+          error: 'Agent not found'
+        });
+      }
+      
+      return res.status(201).json({
+        success: true,
+        data: {
+          verificationChallenge: challenge.challenge,
+          challengeExpiresAt: challenge.expiresAt
+        }
+      });
+    } catch (error) {
+      const { status, message } = handleError(error);
+      
+      return res.status(status).json({
+        success: false,
+        error: status === 500 ? 'Failed to issue challenge' : message
       });
     }
   });
@@ -184,11 +564,18 @@ export function createAgentRouter(registry: AgentRegistry): express.Router {
         });
       }
       
-      const verified = await registry.verifyAgent(id, signature);
+      const { verified, reason, registryTxHash } = await registry.verifyAgent(id, signature);
+      
+      if (reason === VerificationFailureReason.AGENT_NOT_FOUND) {
+        return res.status(404).json({
+          success: false,
+          error: 'Agent not found'
+        });
+      }
       
       return res.json({
         success: verified,
-        data: { verified }
+        data: { verified, reason, registryTxHash }
       });
     } catch (error) {
       console.error('Error verifying agent:', error);
@@ -200,13 +587,190 @@ export function createAgentRouter(registry: AgentRegistry): express.Router {
     }
   });
 
+  /**
+   * Record agent heartbeat
+   * The agent signs "AgentBlend heartbeat <id> <timestamp>" with its key
+   */
+  router.post('/:id/heartbeat', async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      const { timestamp, signature } = req.body;
+      
+      // Validate parameters
+      if (!timestamp || !signature || isNaN(Date.parse(timestamp))) {
+        return res.status(400).json({
+          success: false,
+          error: 'Missing or invalid timestamp or signature'
+        });
+      }
+      
+      const agent = await registry.recordHeartbeat(id, new Date(timestamp), signature);
+      
+      if (!agent) {
+        return res.status(404).json({
+          success: false,
+          error: 'Agent not found'
+        });
+      }
+      
+      return res.json({
+        success: true,
+        data: {
+          status: agent.status,
+          lastSeenAt: agent.lastSeenAt
+        }
+      });
+    } catch (error) {
+      const { status, message } = handleError(error);
+      
+      return res.status(status).json({
+        success: false,
+        error: status === 500 ? 'Failed to record heartbeat' : message
+      });
+    }
+  });
+
+  /**
+   * Offer agent ownership to a new owner, signed by the current owner
+   */
+  router.post('/:id/ownership/offer', async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      const { newOwner, expiresAt, signature } = req.body;
+      
+      // Validate parameters
+      if (!newOwner || !expiresAt || !signature || isNaN(Date.parse(expiresAt))) {
+        return res.status(400).json({
+          success: false,
+          error: 'Missing or invalid newOwner, expiresAt or signature'
+        });
+      }
+      
+      const offer = await registry.offerOwnershipTransfer(id, newOwner, new Date(expiresAt), signature);
+      
+      if (!offer) {
+        return res.status(404).json({
+          success: false,
+          error: 'Agent not found'
+        });
+      }
+      
+      return res.status(201).json({
+        success: true,
+        data: offer
+      });
+    } catch (error) {
+      const { status, message } = handleError(error);
+      
+      return res.status(status).json({
+        success: false,
+        error: status === 500 ? 'Failed to offer ownership transfer' : message
+      });
+    }
+  });
+
+  /**
+   * Accept a pending ownership offer, signed by the new owner
+   */
+  router.post('/:id/ownership/accept', async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      const { signature } = req.body;
+      
+      if (!signature) {
+        return res.status(400).json({
+          success: false,
+          error: 'Missing signature'
+        });
+      }
+      
+      const agent = await registry.acceptOwnershipTransfer(id, signature);
+      
+      if (!agent) {
+        return res.status(404).json({
+          success: false,
+          error: 'Agent not found'
+        });
+      }
+      
+      return res.json({
+        success: true,
+        data: agent
+      });
+    } catch (error) {
+      const { status, message } = handleError(error);
+      
+      return res.status(status).json({
+        success: false,
+        error: status === 500 ? 'Failed to accept ownership transfer' : message
+      });
+    }
+  });
+
+  /**
+   * Rotate the agent key, signed by the current key
+   */
+  router.post('/:id/key-rotation', async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      const { newPublicKey, signature } = req.body;
+      
+      if (!newPublicKey || !signature) {
+        return res.status(400).json({
+          success: false,
+          error: 'Missing newPublicKey or signature'
+        });
+      }
+      
+      const agent = await registry.rotateAgentKey(id, newPublicKey, signature);
+      
+      if (!agent) {
+        return res.status(404).json({
+          success: false,
+          error: 'Agent not found'
+        });
+      }
+      
+      return res.json({
+        success: true,
+        data: agent
+      });
+    } catch (error) {
+      const { status, message } = handleError(error);
+      
+      return res.status(status).json({
+        success: false,
+        error: status === 500 ? 'Failed to rotate agent key' : message
+      });
+    }
+  });
+
   /**
    * Deregister agent
+   * The request must be signed by the agent owner
    */
-  router.delete('/:id', async (req: Request, res: Response) => {
+  router.delete('/:id', requireSignature, async (req: Request, res: Response) => {
     try {
       const { id } = req.params;
       
+      const existing = await registry.getAgent(id);
+      
+      if (!existing) {
+        return res.status(404).json({
+          success: false,
+          error: 'Agent not found'
+        });
+      }
+      
+      const signer = req.headers['verified-address'] as string;
+      
+      if (existing.owner.toLowerCase() !== signer.toLowerCase()) {
+        return res.status(401).json({
+          success: false,
+          error: 'Unauthorized: Only the agent owner can deregister it'
+        });
+      }
+      
       const deregistered = await registry.deregisterAgent(id);
       
       if (!deregistered) {
@@ -231,4 +795,31 @@ export function createAgentRouter(registry: AgentRegistry): express.Router {
   });
 
   return router;
-}
\ No newline at end of file
+}
+
+/**
+ * Parse a metadata filter of the form field:operator:value
+ * The value is read as JSON when possible, e.g. tier:in:["gold","silver"],
+ * and as a plain string otherwise
+ */
+function parseMetadataFilter(raw: string): MetadataFilter {
+  const [field, operator, ...rest] = raw.split(':');
+  
+  if (!field || !operator) {
+    throw new ValidationError(`Invalid filter: ${raw}`);
+  }
+  
+  if (rest.length === 0) {
+    return { field, operator: operator as MetadataFilterOperator };
+  }
+  
+  const text = rest.join(':');
+  let value: any;
+  try {
+    value = JSON.parse(text);
+  } catch (error) {
+    value = text;
+  }
+  
+  return { field, operator: operator as MetadataFilterOperator, value };
+}
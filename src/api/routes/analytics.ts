@@ -67,6 +67,7 @@ export function createAnalyticsRouter(
           [TaskStatus.CREATED]: 0,
           [TaskStatus.PENDING]: 0,
           [TaskStatus.RUNNING]: 0,
+          [TaskStatus.PAUSED]: 0,
           [TaskStatus.COMPLETED]: 0,
           [TaskStatus.FAILED]: 0,
           [TaskStatus.CANCELED]: 0
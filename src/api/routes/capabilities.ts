@@ -0,0 +1,94 @@
+import express, { Request, Response } from 'express';
+import { CapabilityTaxonomy } from '../../core/capabilities/types';
+import { handleError } from '../../utils/errors';
+
+/**
+ * Create capability router
+ */
+export function createCapabilityRouter(taxonomy: CapabilityTaxonomy): express.Router {
+  const router = express.Router();
+
+  /**
+   * List known capabilities
+   */
+  router.get('/', async (req: Request, res: Response) => {
+    try {
+      const capabilities = await taxonomy.list();
+      
+      return res.json({
+        success: true,
+        data: capabilities
+      });
+    } catch (error) {
+      console.error('Error listing capabilities:', error);
+      
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to list capabilities'
+      });
+    }
+  });
+
+  /**
+   * Get a capability definition
+   */
+  router.get('/:name', async (req: Request, res: Response) => {
+    try {
+      const { name } = req.params;
+      
+      const capability = await taxonomy.get(name);
+      
+      if (!capability) {
+        return res.status(404).json({
+          success: false,
+          error: 'Capability not found'
+        });
+      }
+      
+      return res.json({
+        success: true,
+        data: capability
+      });
+    } catch (error) {
+      console.error('Error getting capability:', error);
+      
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to get capability'
+      });
+    }
+  });
+
+  /**
+   * Define a capability
+   */
+  router.post('/', async (req: Request, res: Response) => {
+    try {
+      const { name, description, versions } = req.body;
+      
+      // Validate required fields
+      if (!name || (versions !== undefined && !Array.isArray(versions))) {
+        return res.status(400).json({
+          success: false,
+          error: 'Missing name or invalid versions'
+        });
+      }
+      
+      const capability = await taxonomy.define({ name, description, versions });
+      
+      return res.status(201).json({
+        success: true,
+        data: capability
+      });
+    } catch (error) {
+      const { status, message } = handleError(error);
+      
+      return res.status(status).json({
+        success: false,
+        error: status === 500 ? 'Failed to define capability' : message
+      });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,191 @@
+import express, { Request, Response } from 'express';
+import { TaskScheduler } from '../../core/schedules/types';
+import { validateBody, schemas } from '../middleware/validation';
+import { handleError } from '../../utils/errors';
+
+/**
+ * Create task schedule router
+ */
+export function createScheduleRouter(taskScheduler: TaskScheduler): express.Router {
+  const router = express.Router();
+
+  /**
+   * Create a schedule that starts tasks at a start time or on a cron expression
+   */
+  router.post('/', validateBody(schemas.scheduleCreation), async (req: Request, res: Response) => {
+    try {
+      const {
+        name,
+        description,
+        creator,
+        workflow,
+        template,
+        parameters,
+        budget,
+        priority,
+        runDeadline,
+        startAt,
+        cron
+      } = req.body;
+      
+      const schedule = await taskScheduler.createSchedule({
+        name,
+        description,
+        creator,
+        workflow,
+        template,
+        parameters,
+        budget,
+        priority,
+        runDeadline,
+        startAt: startAt ? new Date(startAt) : undefined,
+        cron
+      });
+      
+      return res.status(201).json({
+        success: true,
+        data: schedule
+      });
+    } catch (error) {
+      const { status, message } = handleError(error);
+      
+      return res.status(status).json({
+        success: false,
+        error: status === 500 ? 'Failed to create schedule' : message
+      });
+    }
+  });
+
+  /**
+   * List schedules, optionally of one creator
+   */
+  router.get('/', async (req: Request, res: Response) => {
+    try {
+      const { creator } = req.query;
+      
+      const schedules = await taskScheduler.listSchedules(creator as string);
+      
+      return res.json({
+        success: true,
+        data: schedules
+      });
+    } catch (error) {
+      console.error('Error listing schedules:', error);
+      
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to list schedules'
+      });
+    }
+  });
+
+  /**
+   * Get a schedule by ID
+   */
+  router.get('/:id', async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      
+      const schedule = await taskScheduler.getSchedule(id);
+      
+      if (!schedule) {
+        return res.status(404).json({
+          success: false,
+          error: 'Schedule not found'
+        });
+      }
+      
+      return res.json({
+        success: true,
+        data: schedule
+      });
+    } catch (error) {
+      console.error('Error getting schedule:', error);
+      
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to get schedule'
+      });
+    }
+  });
+
+  /**
+   * Pause a schedule
+   * Tasks it already started keep running
+   */
+  router.post('/:id/pause', async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      
+      const schedule = await taskScheduler.pauseSchedule(id);
+      
+      return res.json({
+        success: true,
+        data: schedule
+      });
+    } catch (error) {
+      const { status, message } = handleError(error);
+      
+      return res.status(status).json({
+        success: false,
+        error: status === 500 ? 'Failed to pause schedule' : message
+      });
+    }
+  });
+
+  /**
+   * Resume a paused schedule
+   */
+  router.post('/:id/resume', async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      
+      const schedule = await taskScheduler.resumeSchedule(id);
+      
+      return res.json({
+        success: true,
+        data: schedule
+      });
+    } catch (error) {
+      const { status, message } = handleError(error);
+      
+      return res.status(status).json({
+        success: false,
+        error: status === 500 ? 'Failed to resume schedule' : message
+      });
+    }
+  });
+
+  /**
+   * Delete a schedule
+   * Tasks it already started keep running
+   */
+  router.delete('/:id', async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      
+      const deleted = await taskScheduler.deleteSchedule(id);
+      
+      if (!deleted) {
+        return res.status(404).json({
+          success: false,
+          error: 'Schedule not found'
+        });
+      }
+      
+      return res.json({
+        success: true,
+        data: { deleted }
+      });
+    } catch (error) {
+      console.error('Error deleting schedule:', error);
+      
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to delete schedule'
+      });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,35 @@
+import express, { Request, Response } from 'express';
+import { SigningDomain } from '../../core/signing/types';
+import {
+  AGENT_VERIFICATION_TYPES,
+  API_REQUEST_TYPES,
+  STEP_RESULT_TYPES
+} from '../../core/signing/typed-data';
+
+/**
+ * Create signing router
+ * Exposes the EIP-712 domain and types clients need to sign requests
+ */
+export function createSigningRouter(domain: SigningDomain, maxSignatureTtl: number): express.Router {
+  const router = express.Router();
+
+  /**
+   * Get the signing domain and typed-data definitions
+   */
+  router.get('/domain', (req: Request, res: Response) => {
+    return res.json({
+      success: true,
+      data: {
+        domain,
+        types: {
+          ...AGENT_VERIFICATION_TYPES,
+          ...STEP_RESULT_TYPES,
+          ...API_REQUEST_TYPES
+        },
+        maxSignatureTtl
+      }
+    });
+  });
+
+  return router;
+}
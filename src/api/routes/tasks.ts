@@ -1,26 +1,35 @@
 import express, { Request, Response } from 'express';
 import { TaskOrchestrationEngine } from '../../core/orchestration/types';
+import { WorkflowTemplateStore } from '../../core/templates/types';
 import { TaskStatus } from '../../core/types';
+import { validateBody, schemas } from '../middleware/validation';
+import { handleError } from '../../utils/errors';
 
 /**
  * Create task router
  */
-export function createTaskRouter(orchestrationEngine: TaskOrchestrationEngine): express.Router {
+export function createTaskRouter(
+  orchestrationEngine: TaskOrchestrationEngine,
+  templateStore: WorkflowTemplateStore
+): express.Router {
   const router = express.Router();
 
   /**
    * Create a new task
+   * The workflow is either inlined or built from a template reference such
+   * as "dca-buy@^1" and its parameter values
    */
-  router.post('/create', async (req: Request, res: Response) => {
+  router.post('/create', validateBody(schemas.taskCreation), async (req: Request, res: Response) => {
     try {
-      const { name, description, creator, workflow, budget, deadline } = req.body;
+      const { name, description, creator, budget, deadline, priority, template: reference, parameters } = req.body;
+      let { workflow } = req.body;
       
-      // Validate required fields
-      if (!name || !description || !creator || !workflow) {
-        return res.status(400).json({
-          success: false,
-          error: 'Missing required fields'
-        });
+      // Build the workflow from the template, checking the parameter values
+      let template: { name: string; version: string } | undefined;
+      if (reference) {
+        const instance = await templateStore.instantiate(reference, parameters);
+        workflow = instance.workflow;
+        template = { name: instance.template.name, version: instance.template.version };
       }
       
       // Validate workflow steps
@@ -38,7 +47,9 @@ export function createTaskRouter(orchestrationEngine: TaskOrchestrationEngine):
         creator,
         workflow,
         budget,
-        deadline: deadline ? new Date(deadline) : undefined
+        deadline: deadline ? new Date(deadline) : undefined,
+        priority,
+        template
       });
       
       return res.status(201).json({
@@ -48,9 +59,10 @@ export function createTaskRouter(orchestrationEngine: TaskOrchestrationEngine):
     } catch (error) {
       console.error('Error creating task:', error);
       
-      return res.status(500).json({
+      const { status, message } = handleError(error);
+      return res.status(status).json({
         success: false,
-        error: error.message || 'Failed to create task'
+        error: status === 500 ? 'Failed to create task' : message
       });
     }
   });
@@ -179,6 +191,98 @@ export function createTaskRouter(orchestrationEngine: TaskOrchestrationEngine):
     }
   });
 
+  /**
+   * Pause a running task
+   * Steps already running finish, but no new steps start until it is resumed
+   */
+  router.post('/:id/pause', async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      
+      const result = await orchestrationEngine.pauseTask(id);
+      
+      if (!result.success) {
+        return res.status(400).json({
+          success: false,
+          error: result.error
+        });
+      }
+      
+      return res.json({
+        success: true,
+        data: result.task
+      });
+    } catch (error) {
+      console.error('Error pausing task:', error);
+      
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to pause task'
+      });
+    }
+  });
+
+  /**
+   * Resume a paused task
+   */
+  router.post('/:id/resume', async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      
+      const result = await orchestrationEngine.resumeTask(id);
+      
+      if (!result.success) {
+        return res.status(400).json({
+          success: false,
+          error: result.error
+        });
+      }
+      
+      return res.json({
+        success: true,
+        data: result.task
+      });
+    } catch (error) {
+      console.error('Error resuming task:', error);
+      
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to resume task'
+      });
+    }
+  });
+
+  /**
+   * Retry the failed steps of a failed task
+   * Completed steps keep their outputs
+   */
+  router.post('/:id/retry', async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      
+      const result = await orchestrationEngine.retryFailed(id);
+      
+      if (!result.success) {
+        return res.status(400).json({
+          success: false,
+          error: result.error
+        });
+      }
+      
+      return res.json({
+        success: true,
+        data: result.task
+      });
+    } catch (error) {
+      console.error('Error retrying task:', error);
+      
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to retry task'
+      });
+    }
+  });
+
   /**
    * Get task execution status
    */
@@ -211,11 +315,13 @@ export function createTaskRouter(orchestrationEngine: TaskOrchestrationEngine):
 
   /**
    * Submit step result
+   * The result must be signed with the assigned agent's current key as
+   * EIP-712 StepResult typed data, with a fresh nonce and an expiry
    */
   router.post('/:taskId/steps/:stepId/result', async (req: Request, res: Response) => {
     try {
       const { taskId, stepId } = req.params;
-      const { success, output, error } = req.body;
+      const { attempt, success, output, error, signature, nonce, expiry } = req.body;
       
       // Validate parameters
       if (success === undefined) {
@@ -225,25 +331,40 @@ export function createTaskRouter(orchestrationEngine: TaskOrchestrationEngine):
         });
       }
       
+      if (!Number.isInteger(attempt) || attempt < 1) {
+        return res.status(400).json({
+          success: false,
+          error: 'Attempt must be the positive integer sent with the step'
+        });
+      }
+      
+      if (!signature || nonce === undefined || expiry === undefined) {
+        return res.status(400).json({
+          success: false,
+          error: 'Missing signature, nonce or expiry'
+        });
+      }
+      
       // Handle step result
-      await orchestrationEngine.handleStepResult({
+      await orchestrationEngine.submitStepResult({
         taskId,
         stepId,
+        attempt,
         success,
         output,
         error
-      });
+      }, { signature, nonce: String(nonce), expiry: Number(expiry) });
       
       return res.json({
         success: true,
         data: { acknowledged: true }
       });
     } catch (error) {
-      console.error('Error handling step result:', error);
+      const { status, message } = handleError(error);
       
-      return res.status(500).json({
+      return res.status(status).json({
         success: false,
-        error: 'Failed to handle step result'
+        error: status === 500 ? 'Failed to handle step result' : message
       });
     }
   });
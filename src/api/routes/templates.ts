@@ -0,0 +1,163 @@
+import express, { Request, RequestHandler, Response } from 'express';
+import { WorkflowTemplateStore } from '../../core/templates/types';
+import { validateBody, schemas } from '../middleware/validation';
+import { handleError } from '../../utils/errors';
+
+/**
+ * Create workflow template router
+ * Templates are published and deprecated with a signed request; the signer
+ * is the publisher
+ */
+export function createTemplateRouter(
+  templateStore: WorkflowTemplateStore,
+  requireSignature: RequestHandler
+): express.Router {
+  const router = express.Router();
+
+  /**
+   * List templates with their highest version
+   */
+  router.get('/', async (req: Request, res: Response) => {
+    try {
+      const templates = await templateStore.list();
+      
+      return res.json({
+        success: true,
+        data: templates
+      });
+    } catch (error) {
+      console.error('Error listing templates:', error);
+      
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to list templates'
+      });
+    }
+  });
+
+  /**
+   * List every version of a template
+   */
+  router.get('/:name/versions', async (req: Request, res: Response) => {
+    try {
+      const { name } = req.params;
+      
+      const versions = await templateStore.listVersions(name);
+      
+      if (versions.length === 0) {
+        return res.status(404).json({
+          success: false,
+          error: 'Template not found'
+        });
+      }
+      
+      return res.json({
+        success: true,
+        data: versions
+      });
+    } catch (error) {
+      console.error('Error listing template versions:', error);
+      
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to list template versions'
+      });
+    }
+  });
+
+  /**
+   * Get one version of a template
+   */
+  router.get('/:name/versions/:version', async (req: Request, res: Response) => {
+    try {
+      const { name, version } = req.params;
+      
+      const template = await templateStore.get(name, version);
+      
+      if (!template) {
+        return res.status(404).json({
+          success: false,
+          error: 'Template not found'
+        });
+      }
+      
+      return res.json({
+        success: true,
+        data: template
+      });
+    } catch (error) {
+      console.error('Error getting template:', error);
+      
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to get template'
+      });
+    }
+  });
+
+  /**
+   * Publish a new version of a template
+   */
+  router.post('/', requireSignature, validateBody(schemas.templatePublication), async (req: Request, res: Response) => {
+    try {
+      const { name, version, description, parameters, workflow } = req.body;
+      
+      const template = await templateStore.publish({
+        name,
+        version,
+        description,
+        publisher: req.headers['verified-address'] as string,
+        parameters,
+        workflow
+      });
+      
+      return res.status(201).json({
+        success: true,
+        data: template
+      });
+    } catch (error) {
+      const { status, message } = handleError(error);
+      
+      return res.status(status).json({
+        success: false,
+        error: status === 500 ? 'Failed to publish template' : message
+      });
+    }
+  });
+
+  /**
+   * Deprecate a version of a template
+   */
+  router.post(
+    '/:name/versions/:version/deprecate',
+    requireSignature,
+    validateBody(schemas.templateDeprecation),
+    async (req: Request, res: Response) => {
+      try {
+        const { name, version } = req.params;
+        const { reason } = req.body;
+        
+        const template = await templateStore.deprecate(
+          name,
+          version,
+          req.headers['verified-address'] as string,
+          reason
+        );
+        
+        return res.json({
+          success: true,
+          data: template
+        });
+      } catch (error) {
+        const { status, message } = handleError(error);
+        
+        return res.status(status).json({
+          success: false,
+          error: status === 500 ? 'Failed to deprecate template' : message
+        });
+      }
+    }
+  );
+
+  return router;
+}
@@ -0,0 +1,193 @@
+import express, { Request, Response } from 'express';
+import { TriggerManager } from '../../core/triggers/types';
+import { validateBody, schemas } from '../middleware/validation';
+import { handleError } from '../../utils/errors';
+
+/**
+ * Create event trigger router
+ */
+export function createTriggerRouter(triggerManager: TriggerManager): express.Router {
+  const router = express.Router();
+
+  /**
+   * Create a trigger that starts a task from a template when a contract emits an event
+   */
+  router.post('/', validateBody(schemas.triggerCreation), async (req: Request, res: Response) => {
+    try {
+      const {
+        name,
+        description,
+        creator,
+        event,
+        address,
+        topics,
+        where,
+        template,
+        parameters,
+        budget,
+        priority,
+        runDeadline
+      } = req.body;
+      
+      const trigger = await triggerManager.createTrigger({
+        name,
+        description,
+        creator,
+        event,
+        address,
+        topics,
+        where,
+        template,
+        parameters,
+        budget,
+        priority,
+        runDeadline
+      });
+      
+      return res.status(201).json({
+        success: true,
+        data: trigger
+      });
+    } catch (error) {
+      const { status, message } = handleError(error);
+      
+      return res.status(status).json({
+        success: false,
+        error: status === 500 ? 'Failed to create trigger' : message
+      });
+    }
+  });
+
+  /**
+   * List triggers, optionally of one creator
+   */
+  router.get('/', async (req: Request, res: Response) => {
+    try {
+      const { creator } = req.query;
+      
+      const triggers = await triggerManager.listTriggers(creator as string);
+      
+      return res.json({
+        success: true,
+        data: triggers
+      });
+    } catch (error) {
+      console.error('Error listing triggers:', error);
+      
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to list triggers'
+      });
+    }
+  });
+
+  /**
+   * Get a trigger by ID
+   */
+  router.get('/:id', async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      
+      const trigger = await triggerManager.getTrigger(id);
+      
+      if (!trigger) {
+        return res.status(404).json({
+          success: false,
+          error: 'Trigger not found'
+        });
+      }
+      
+      return res.json({
+        success: true,
+        data: trigger
+      });
+    } catch (error) {
+      console.error('Error getting trigger:', error);
+      
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to get trigger'
+      });
+    }
+  });
+
+  /**
+   * Pause a trigger
+   * Events emitted while it is paused are ignored
+   */
+  router.post('/:id/pause', async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      
+      const trigger = await triggerManager.pauseTrigger(id);
+      
+      return res.json({
+        success: true,
+        data: trigger
+      });
+    } catch (error) {
+      const { status, message } = handleError(error);
+      
+      return res.status(status).json({
+        success: false,
+        error: status === 500 ? 'Failed to pause trigger' : message
+      });
+    }
+  });
+
+  /**
+   * Resume a paused trigger
+   */
+  router.post('/:id/resume', async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      
+      const trigger = await triggerManager.resumeTrigger(id);
+      
+      return res.json({
+        success: true,
+        data: trigger
+      });
+    } catch (error) {
+      const { status, message } = handleError(error);
+      
+      return res.status(status).json({
+        success: false,
+        error: status === 500 ? 'Failed to resume trigger' : message
+      });
+    }
+  });
+
+  /**
+   * Delete a trigger
+   * Tasks it already started keep running
+   */
+  router.delete('/:id', async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      
+      const deleted = await triggerManager.deleteTrigger(id);
+      
+      if (!deleted) {
+        return res.status(404).json({
+          success: false,
+          error: 'Trigger not found'
+        });
+      }
+      
+      return res.json({
+        success: true,
+        data: { deleted }
+      });
+    } catch (error) {
+      console.error('Error deleting trigger:', error);
+      
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to delete trigger'
+      });
+    }
+  });
+
+  return router;
+}
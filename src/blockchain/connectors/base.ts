@@ -39,6 +39,45 @@ export interface BlockchainConnector {
       amount: string;
       symbol: string;
     }>;
+    
+    /**
+     * Subscribe to logs matching a filter as new blocks arrive
+     * Returns a function that ends the subscription
+     */
+    subscribeToLogs(filter: LogFilter, listener: (log: ChainLog) => void): () => void;
+    
+    /**
+     * Get the logs matching a filter in a range of blocks, both included
+     */
+    getLogs(filter: LogFilter, fromBlock: number, toBlock: number): Promise<ChainLog[]>;
+    
+    /**
+     * Get the number of the latest block
+     */
+    getBlockNumber(): Promise<number>;
+  }
+  
+  /**
+   * Filter for contract logs
+   * topics[0] is the event topic; null matches any value and an array any of its values
+   */
+  export interface LogFilter {
+    address?: string;
+    topics?: (string | string[] | null)[];
+  }
+  
+  /**
+   * Log emitted by a contract
+   */
+  export interface ChainLog {
+    address: string;
+    topics: string[];
+    data: string;
+    blockNumber: number;
+    blockHash: string;
+    transactionHash: string;
+    logIndex: number;
+    removed?: boolean; // Set when a reorganization drops the block of a log already delivered
   }
   
   /**
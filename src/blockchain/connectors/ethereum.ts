@@ -1,5 +1,5 @@
 import { ethers } from 'ethers';
-import { BlockchainConnector, TransactionStatus } from './base';
+import { BlockchainConnector, ChainLog, LogFilter, TransactionStatus } from './base';
 
 /**
  * Ethereum Blockchain Connector
@@ -9,10 +9,12 @@ export class EthereumConnector implements BlockchainConnector {
   private wallet: ethers.Wallet | null = null;
   private rpcUrl: string;
   private privateKey?: string;
+  private pollingInterval?: number;
   
-  constructor(rpcUrl: string, privateKey?: string) {
+  constructor(rpcUrl: string, privateKey?: string, pollingInterval?: number) {
     this.rpcUrl = rpcUrl;
     this.privateKey = privateKey;
+    this.pollingInterval = pollingInterval;
   }
   
   /**
@@ -32,6 +34,11 @@ export class EthereumConnector implements BlockchainConnector {
       // Test connection
       await this.provider.getNetwork();
       
+      // How often subscriptions poll for new blocks; local dev chains may use a short interval
+      if (this.pollingInterval) {
+        this.provider.pollingInterval = this.pollingInterval;
+      }
+      
       // If private key is provided, create a wallet
       if (this.privateKey) {
         this.wallet = new ethers.Wallet(this.privateKey, this.provider);
@@ -57,6 +64,7 @@ export class EthereumConnector implements BlockchainConnector {
    * Disconnect from the blockchain
    */
   async disconnect(): Promise<void> {
+    this.provider?.removeAllListeners();
     this.provider = null;
     this.wallet = null;
   }
@@ -124,4 +132,58 @@ export class EthereumConnector implements BlockchainConnector {
       symbol: 'ETH'
     };
   }
+  
+  /**
+   * Subscribe to logs matching a filter
+   * The provider polls for new blocks, which also works with local dev chains
+   */
+  subscribeToLogs(filter: LogFilter, listener: (log: ChainLog) => void): () => void {
+    if (!this.provider) {
+      throw new Error('Not connected to Ethereum');
+    }
+    
+    const provider = this.provider;
+    const handler = (log: ethers.providers.Log) => listener(toChainLog(log));
+    
+    provider.on(filter, handler);
+    return () => {
+      provider.off(filter, handler);
+    };
+  }
+  
+  /**
+   * Get the logs matching a filter in a range of blocks, both included
+   */
+  async getLogs(filter: LogFilter, fromBlock: number, toBlock: number): Promise<ChainLog[]> {
+    if (!this.provider) {
+      throw new Error('Not connected to Ethereum');
+    }
+    
+    const logs = await this.provider.getLogs({ ...filter, fromBlock, toBlock });
+    return logs.map(toChainLog);
+  }
+  
+  /**
+   * Get the number of the latest block
+   */
+  async getBlockNumber(): Promise<number> {
+    if (!this.provider) {
+      throw new Error('Not connected to Ethereum');
+    }
+    
+    return this.provider.getBlockNumber();
+  }
+}
+
+function toChainLog(log: ethers.providers.Log): ChainLog {
+  return {
+    address: log.address,
+    topics: log.topics,
+    data: log.data,
+    blockNumber: log.blockNumber,
+    blockHash: log.blockHash,
+    transactionHash: log.transactionHash,
+    logIndex: log.logIndex,
+    removed: log.removed
+  };
 }
\ No newline at end of file
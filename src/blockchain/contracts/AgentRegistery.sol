@@ -25,10 +25,19 @@ contract AgentRegistry {
         uint256 updatedAt;
     }
     
+    // Registry record actions anchored by off-chain registries
+    enum RecordAction { REGISTERED, VERIFIED, DEREGISTERED }
+    
     // Events
     event AgentRegistered(bytes32 indexed id, address indexed owner, string name);
     event AgentStatusChanged(bytes32 indexed id, AgentStatus status);
     event AgentUpdated(bytes32 indexed id);
+    event AgentRecordAnchored(
+        bytes32 indexed agentId,
+        RecordAction indexed action,
+        bytes32 profileHash,
+        address indexed operator
+    );
     
     // Mapping from ID to Agent
     mapping(bytes32 => Agent) public agents;
@@ -45,6 +54,9 @@ contract AgentRegistry {
     // Array of all agent IDs
     bytes32[] public allAgentIds;
     
+    // Latest anchored profile hash per operator and agent ID
+    mapping(address => mapping(bytes32 => bytes32)) public anchoredProfileHashes;
+    
     // Modifier to check if the sender is the agent owner
     modifier onlyAgentOwner(bytes32 agentId) {
         require(agents[agentId].owner == msg.sender, "Not agent owner");
@@ -155,6 +167,27 @@ contract AgentRegistry {
         return true;
     }
     
+    /**
+     * @dev Anchor a record from an off-chain registry
+     * The operator is the registry that submits the record, so auditors
+     * can filter AgentRecordAnchored events by the operator they trust
+     * @param agentId ID of the agent in the off-chain registry
+     * @param action Registry action being recorded
+     * @param profileHash Hash of the agent profile at the time of the action
+     * @return success Boolean indicating if the record was anchored
+     */
+    function anchorAgentRecord(
+        bytes32 agentId,
+        RecordAction action,
+        bytes32 profileHash
+    ) public returns (bool success) {
+        anchoredProfileHashes[msg.sender][agentId] = profileHash;
+        
+        emit AgentRecordAnchored(agentId, action, profileHash, msg.sender);
+        
+        return true;
+    }
+    
     /**
      * @dev Get agent details
      * @param agentId ID of the agent
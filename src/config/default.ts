@@ -11,26 +11,96 @@ export default {
     // API configuration
     api: {
       apiKey: process.env.API_KEY,
-      enableCors: true
+      adminKeys: process.env.ADMIN_API_KEYS,  // "name:key,name:key"; required to suspend or reinstate agents
+      enableCors: true,
+      requireSignatures: process.env.API_REQUIRE_SIGNATURES === 'true',  // EIP-712 signatures on non-GET requests
+      maxSignatureTtl: 10 * 60 * 1000  // Signatures may expire at most 10 minutes ahead
     },
     
     // Blockchain configuration
     blockchain: {
       ethereum: {
         rpcUrl: process.env.ETH_RPC_URL || 'http://localhost:8545',
-        privateKey: process.env.ETH_PRIVATE_KEY
+        privateKey: process.env.ETH_PRIVATE_KEY,
+        agentRegistryAddress: process.env.AGENT_REGISTRY_CONTRACT,
+        chainId: Number(process.env.ETH_CHAIN_ID || 1),  // Chain ID of the EIP-712 signing domain
+        pollingInterval: Number(process.env.ETH_POLLING_INTERVAL || 4000)  // How often event triggers poll for new blocks, in milliseconds
       }
     },
     
     // Agent configuration
     agents: {
-      verificationTimeout: 5 * 60 * 1000  // 5 minutes in milliseconds
+      verificationTimeout: 5 * 60 * 1000,  // 5 minutes in milliseconds
+      pendingAgentTtl: 24 * 60 * 60 * 1000,  // Unverified agents are purged after 24 hours
+      cleanupInterval: 10 * 60 * 1000,  // Check for unverified agents every 10 minutes
+      suspensionCheckInterval: 60 * 1000,  // Reinstate agents whose suspension expired every minute
+      
+      // On-chain anchoring of registrations, verifications and deregistrations
+      anchoring: {
+        enabled: process.env.AGENT_ANCHORING === 'true',
+        confirmationInterval: 15 * 1000  // Check pending anchor transactions every 15 seconds
+      },
+      
+      // Heartbeat and liveness tracking
+      liveness: {
+        silenceWindow: 2 * 60 * 1000,  // Agents without a heartbeat for 2 minutes become INACTIVE
+        checkInterval: 30 * 1000,  // Check for silent agents every 30 seconds
+        maxClockSkew: 60 * 1000  // Reject heartbeats signed more than 1 minute ago
+      },
+      
+      // Registry storage backend: 'memory' or 'sqlite'
+      registry: {
+        backend: process.env.AGENT_REGISTRY_BACKEND || 'memory',
+        sqlitePath: process.env.AGENT_REGISTRY_DB || './data/agents.db'
+      }
+    },
+    
+    // Known capabilities that agents may advertise, including their children
+    capabilities: {
+      known: [
+        { name: 'defi.swap', description: 'Token swaps on decentralized exchanges' },
+        { name: 'defi.lending', description: 'Supplying and borrowing on lending markets' },
+        { name: 'defi.yield', description: 'Yield farming and liquidity provision' },
+        { name: 'market.analysis', description: 'Market data analysis and signals' },
+        { name: 'market.price', description: 'Token price quotes' },
+        { name: 'strategy.optimization', description: 'Portfolio and strategy optimization' },
+        { name: 'trade.execution', description: 'On-chain trade execution' },
+        { name: 'bridge.transfer', description: 'Cross-chain asset transfers' }
+      ]
     },
     
     // Task configuration
     tasks: {
       maxStepsPerTask: 50,
-      defaultDeadline: 24 * 60 * 60 * 1000  // 24 hours in milliseconds
+      defaultDeadline: 24 * 60 * 60 * 1000,  // 24 hours in milliseconds
+      defaultStepTimeout: 10 * 60 * 1000,  // Fail attempts without a result after 10 minutes
+      deadlineAction: (process.env.TASK_DEADLINE_ACTION || 'fail') as 'fail' | 'cancel',  // 'fail' or 'cancel' overdue tasks
+      deadlineCheckInterval: 5 * 1000,  // Check step timeouts and task deadlines every 5 seconds
+      scheduleCheckInterval: 15 * 1000,  // Start the tasks of due schedules every 15 seconds
+      
+      // How steps reach agents: 'http' calls agent endpoints, 'simulated' fakes results for local development
+      dispatcher: {
+        type: process.env.STEP_DISPATCHER || 'http',
+        privateKey: process.env.ORCHESTRATOR_PRIVATE_KEY,  // Signs requests to agents
+        callbackBaseUrl: process.env.CALLBACK_BASE_URL || `http://${process.env.HOST || 'localhost'}:${process.env.PORT || 3000}`,
+        timeout: 30 * 1000  // Wait up to 30 seconds for an agent to answer
+      },
+      
+      // Task storage backend: 'memory' or 'sqlite'; running tasks in sqlite are recovered at startup
+      // Templates, schedules and triggers are kept in the same database
+      store: {
+        backend: process.env.TASK_STORE_BACKEND || 'memory',
+        sqlitePath: process.env.TASK_STORE_DB || './data/tasks.db'
+      },
+      
+      // Limits on concurrent work; leave a limit unset for no limit
+      // Tasks over the task limits wait in a queue ordered by priority
+      scheduling: {
+        maxRunningTasks: process.env.MAX_RUNNING_TASKS ? Number(process.env.MAX_RUNNING_TASKS) : undefined,  // Running tasks at once
+        maxTasksPerCreator: process.env.MAX_TASKS_PER_CREATOR ? Number(process.env.MAX_TASKS_PER_CREATOR) : undefined,  // Running tasks per creator
+        maxRunningSteps: process.env.MAX_RUNNING_STEPS ? Number(process.env.MAX_RUNNING_STEPS) : undefined,  // Steps handed to agents at once
+        maxStepsPerAgent: process.env.MAX_STEPS_PER_AGENT ? Number(process.env.MAX_STEPS_PER_AGENT) : undefined  // Steps handed to one agent at once
+      }
     },
     
     // Logging configuration
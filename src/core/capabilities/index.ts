@@ -0,0 +1,3 @@
+export * from './types';
+export * from './taxonomy';
+export { InMemoryCapabilityTaxonomy as CapabilityTaxonomyImpl } from './taxonomy';
@@ -0,0 +1,153 @@
+import semver from 'semver';
+import { AgentCapability } from '../types';
+import { ValidationError } from '../../utils/errors';
+import { CapabilityDefinition, CapabilityTaxonomy, ParsedCapability } from './types';
+
+const NAME_PATTERN = /^[a-z0-9_-]+(\.[a-z0-9_-]+)*$/i;
+
+/**
+ * Split a capability such as "defi.swap.uniswap@2.1.0" into name and version
+ */
+export function parseCapability(capability: AgentCapability): ParsedCapability {
+  const separator = capability.lastIndexOf('@');
+  const name = separator === -1 ? capability : capability.slice(0, separator);
+  const version = separator === -1 ? undefined : capability.slice(separator + 1);
+  
+  return {
+    name,
+    segments: name.split('.'),
+    version: version || undefined
+  };
+}
+
+/**
+ * Check whether a name is the same as, or a descendant of, another
+ */
+export function isCapabilityWithin(name: string, ancestor: string): boolean {
+  return name === ancestor || name.startsWith(`${ancestor}.`);
+}
+
+/**
+ * Check whether an advertised capability satisfies a required one
+ * "defi.swap.uniswap@2.1.0" satisfies "defi.swap", "defi.swap@^2" and
+ * "defi.swap.uniswap", but not "defi.swap@^3" or "defi.lending"
+ */
+export function capabilitySatisfies(advertised: AgentCapability, required: AgentCapability): boolean {
+  const have = parseCapability(advertised);
+  const want = parseCapability(required);
+  
+  if (!isCapabilityWithin(have.name, want.name)) {
+    return false;
+  }
+  
+  if (!want.version) {
+    return true;
+  }
+  
+  // A version range can only be satisfied by a versioned capability
+  const version = have.version ? semver.coerce(have.version) : null;
+  return version !== null && semver.satisfies(version, want.version);
+}
+
+/**
+ * Check the syntax of a capability requirement such as "defi.swap@^2"
+ */
+export function isValidCapabilityRequirement(capability: AgentCapability): boolean {
+  const { name, version } = parseCapability(capability);
+  return NAME_PATTERN.test(name) && (!version || semver.validRange(version) !== null);
+}
+
+/**
+ * In-memory implementation of the Capability Taxonomy
+ */
+export class InMemoryCapabilityTaxonomy implements CapabilityTaxonomy {
+  private definitions: Map<string, CapabilityDefinition> = new Map();
+  
+  constructor(definitions: CapabilityDefinition[] = []) {
+    for (const definition of definitions) {
+      this.definitions.set(definition.name, this.normalize(definition));
+    }
+  }
+  
+  /**
+   * Define a capability, replacing any existing definition with the same name
+   */
+  async define(definition: CapabilityDefinition): Promise<CapabilityDefinition> {
+    const normalized = this.normalize(definition);
+    this.definitions.set(normalized.name, normalized);
+    return normalized;
+  }
+  
+  /**
+   * Get a capability definition by name
+   */
+  async get(name: string): Promise<CapabilityDefinition | null> {
+    return this.definitions.get(name) || null;
+  }
+  
+  /**
+   * List all capability definitions, sorted by name
+   */
+  async list(): Promise<CapabilityDefinition[]> {
+    return Array.from(this.definitions.values())
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+  
+  /**
+   * Validate capabilities advertised by an agent
+   * Each must be a defined capability or a child of one, and carry a known version
+   */
+  async validate(capabilities: AgentCapability[]): Promise<void> {
+    for (const capability of capabilities) {
+      const { name, segments, version } = parseCapability(capability);
+      
+      if (!NAME_PATTERN.test(name)) {
+        throw new ValidationError(`Invalid capability name: ${capability}`);
+      }
+      
+      // Find the closest defined capability, starting with the name itself
+      let definition: CapabilityDefinition | undefined;
+      for (let i = segments.length; i > 0 && !definition; i--) {
+        definition = this.definitions.get(segments.slice(0, i).join('.'));
+      }
+      
+      if (!definition) {
+        throw new ValidationError(`Unknown capability: ${name}`);
+      }
+      
+      if (version === undefined) {
+        continue;
+      }
+      
+      const parsedVersion = semver.coerce(version);
+      if (!parsedVersion) {
+        throw new ValidationError(`Invalid version for capability ${name}: ${version}`);
+      }
+      
+      // Version lists only constrain the capability they are defined on
+      if (
+        definition.name === name &&
+        definition.versions &&
+        !definition.versions.some(known => semver.eq(known, parsedVersion))
+      ) {
+        throw new ValidationError(`Unknown version ${version} of capability ${name}`);
+      }
+    }
+  }
+  
+  private normalize(definition: CapabilityDefinition): CapabilityDefinition {
+    if (!NAME_PATTERN.test(definition.name)) {
+      throw new ValidationError(`Invalid capability name: ${definition.name}`);
+    }
+    
+    const versions = definition.versions?.map(version => {
+      const parsed = semver.coerce(version);
+      if (!parsed) {
+        throw new ValidationError(`Invalid version for capability ${definition.name}: ${version}`);
+      }
+      return parsed.version;
+    });
+    
+    return { ...definition, versions };
+  }
+}
@@ -0,0 +1,29 @@
+import { AgentCapability } from '../types';
+
+/**
+ * A capability split into its hierarchical name and optional version
+ * For agents the version is a concrete release (2.1.0), for requirements
+ * it is a semver range (^2)
+ */
+export interface ParsedCapability {
+  name: string;
+  segments: string[];
+  version?: string;
+}
+
+/**
+ * A known capability in the taxonomy
+ * Any dot-separated child of a defined capability is also accepted
+ */
+export interface CapabilityDefinition {
+  name: string;
+  description?: string;
+  versions?: string[]; // Known releases; when set, advertised versions must be one of them
+}
+
+export interface CapabilityTaxonomy {
+  define(definition: CapabilityDefinition): Promise<CapabilityDefinition>;
+  get(name: string): Promise<CapabilityDefinition | null>;
+  list(): Promise<CapabilityDefinition[]>;
+  validate(capabilities: AgentCapability[]): Promise<void>;
+}
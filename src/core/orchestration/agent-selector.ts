@@ -1,5 +1,6 @@
 import { AgentStatus } from '../types';
 import { AgentRegistry } from '../registry/types';
+import { isAgentStale } from '../registry/liveness';
 import { WorkflowStep } from '../types';
 import { AgentSelector } from './types';
 
@@ -8,29 +9,53 @@ import { AgentSelector } from './types';
  * Selects agents based on capabilities and network requirements
  */
 export class DefaultAgentSelector implements AgentSelector {
+  private silenceWindow?: number;
+
+  /**
+   * Agents without a heartbeat for longer than silenceWindow
+   * milliseconds are never selected
+   */
+  constructor(options: { silenceWindow?: number } = {}) {
+    this.silenceWindow = options.silenceWindow;
+  }
+
   /**
    * Select the best agent for a given workflow step
    * For the MVP, we'll use a simple matching algorithm
    * In a production system, this would include more advanced selection
    * criteria like reputation, cost, performance, etc.
+   * Agents in excludeAgents are only chosen when no other agent matches
    */
   async selectAgentForStep(
     step: WorkflowStep, 
-    registry: AgentRegistry
+    registry: AgentRegistry,
+    excludeAgents: string[] = []
   ): Promise<string | null> {
     const { capabilities, networks } = step.agentRequirements;
     
     // Find agents that match the required capabilities and networks
-    const agents = await registry.findAgents({
+    let agents = await registry.findAgents({
       capabilities,
       networks,
       status: AgentStatus.ACTIVE
     });
     
+    // Ignore agents that have gone silent but were not yet deactivated
+    if (this.silenceWindow !== undefined) {
+      const now = new Date();
+      agents = agents.filter(agent => !isAgentStale(agent, this.silenceWindow!, now));
+    }
+    
     if (agents.length === 0) {
       return null;
     }
     
+    // Fall back to an excluded agent rather than none at all
+    const preferred = agents.filter(agent => !excludeAgents.includes(agent.id));
+    if (preferred.length > 0) {
+      agents = preferred;
+    }
+    
     // For MVP, just select the first matching agent
     // In a real system, we would apply a more sophisticated selection algorithm
     return agents[0].id;
@@ -0,0 +1,107 @@
+import { CompensationRun, StepCompensation, StepStatus, Workflow, WorkflowStep } from '../types';
+import { isValidCapabilityRequirement } from '../capabilities/taxonomy';
+
+// Appended to the step ID in the ID agents see for a compensating action
+const COMPENSATION_SUFFIX = ':compensate';
+
+/**
+ * Check that a compensating action is usable
+ */
+export function isValidCompensation(compensation: StepCompensation): boolean {
+  if (compensation.input !== null && (typeof compensation.input !== 'object' || Array.isArray(compensation.input))) {
+    return false;
+  }
+
+  if (compensation.timeout !== undefined && !(Number.isInteger(compensation.timeout) && compensation.timeout > 0)) {
+    return false;
+  }
+
+  return !compensation.agentRequirements ||
+    compensation.agentRequirements.capabilities.every(isValidCapabilityRequirement);
+}
+
+/**
+ * Get the ID agents see for the compensating action of a step, e.g. swap:compensate
+ */
+export function compensationId(stepId: string): string {
+  return `${stepId}${COMPENSATION_SUFFIX}`;
+}
+
+/**
+ * Get the step ID from the ID of a compensating action
+ * Returns null for other IDs
+ */
+export function parseCompensationId(id: string): string | null {
+  return id.endsWith(COMPENSATION_SUFFIX) && id.length > COMPENSATION_SUFFIX.length
+    ? id.slice(0, -COMPENSATION_SUFFIX.length)
+    : null;
+}
+
+/**
+ * List the completed steps that have a compensating action not yet started
+ */
+export function stepsToCompensate(workflow: Workflow): string[] {
+  return workflow.steps
+    .filter(step => step.status === StepStatus.COMPLETED && step.compensate && !step.compensation)
+    .map(step => step.id);
+}
+
+/**
+ * Get the pending compensations that may start, in reverse dependency order
+ * A step is compensated once the compensations of every step that depends
+ * on it, directly or not, have finished
+ */
+export function nextCompensations(workflow: Workflow): WorkflowStep[] {
+  return workflow.steps.filter(step =>
+    step.compensation?.status === StepStatus.PENDING &&
+    stepDescendants(step.id, workflow).every(descendant => {
+      const status = workflow.steps.find(s => s.id === descendant)?.compensation?.status;
+      return status === undefined || isFinished(status);
+    })
+  );
+}
+
+/**
+ * Check whether a compensating action was started and has not finished
+ */
+export function isCompensationActive(run: CompensationRun): boolean {
+  return run.status === StepStatus.ASSIGNED || run.status === StepStatus.RUNNING;
+}
+
+/**
+ * Decide the outcome of the compensations of a task
+ * They are done once none is pending or running, and succeed when none failed
+ */
+export function compensationOutcome(workflow: Workflow): { done: boolean; success?: boolean } {
+  const runs = workflow.steps
+    .map(step => step.compensation)
+    .filter((run): run is CompensationRun => !!run);
+
+  if (!runs.every(run => isFinished(run.status))) {
+    return { done: false };
+  }
+
+  return { done: true, success: runs.every(run => run.status !== StepStatus.FAILED) };
+}
+
+function isFinished(status: StepStatus): boolean {
+  return status === StepStatus.COMPLETED || status === StepStatus.FAILED || status === StepStatus.SKIPPED;
+}
+
+function stepDescendants(stepId: string, workflow: Workflow): string[] {
+  const descendants = new Set<string>();
+  const pending = [stepId];
+
+  while (pending.length > 0) {
+    const id = pending.pop()!;
+
+    for (const step of workflow.steps) {
+      if (step.dependsOn.includes(id) && !descendants.has(step.id)) {
+        descendants.add(step.id);
+        pending.push(step.id);
+      }
+    }
+  }
+
+  return Array.from(descendants);
+}
@@ -0,0 +1,137 @@
+import { ConditionOperator, StepCondition, Task, Workflow, WorkflowStep } from '../types';
+import { resolveTemplates, validateTemplateReferences } from './templating';
+
+const CONDITION_OPERATORS: ConditionOperator[] = ['eq', 'ne', 'gt', 'gte', 'lt', 'lte', 'in', 'exists'];
+
+/**
+ * Check that a step condition is well formed and only references the outputs
+ * of steps the step depends on
+ */
+export function validateStepCondition(condition: StepCondition, step: WorkflowStep, workflow: Workflow): boolean {
+  return validateCondition(condition, operands => validateTemplateReferences(operands, step, workflow));
+}
+
+/**
+ * Check that a condition is well formed
+ * validateOperands checks the expressions in the values each comparison uses
+ */
+export function validateCondition(condition: StepCondition, validateOperands: (operands: any[]) => boolean): boolean {
+  if (condition === null || typeof condition !== 'object') {
+    return false;
+  }
+
+  if ('all' in condition || 'any' in condition) {
+    const conditions = 'all' in condition ? condition.all : condition.any;
+    return Array.isArray(conditions) &&
+      conditions.length > 0 &&
+      conditions.every(nested => validateCondition(nested, validateOperands));
+  }
+
+  if ('not' in condition) {
+    return validateCondition(condition.not, validateOperands);
+  }
+
+  if (!CONDITION_OPERATORS.includes(condition.operator)) {
+    return false;
+  }
+
+  if (condition.operator === 'in' && !Array.isArray(condition.compareTo)) {
+    return false;
+  }
+
+  return validateOperands([condition.value, condition.compareTo]);
+}
+
+/**
+ * Evaluate a step condition against the task and the outputs of completed steps
+ * Missing fields resolve to undefined, so they only satisfy 'ne' and fail 'exists'
+ */
+export function evaluateStepCondition(condition: StepCondition, task: Task): boolean {
+  return evaluateCondition(condition, value => resolveTemplates(value, task, { allowMissing: true }));
+}
+
+/**
+ * Evaluate a condition, resolving the expressions in the values each
+ * comparison uses with resolve
+ */
+export function evaluateCondition(condition: StepCondition, resolve: (value: any) => any): boolean {
+  if ('all' in condition) {
+    return condition.all.every(nested => evaluateCondition(nested, resolve));
+  }
+
+  if ('any' in condition) {
+    return condition.any.some(nested => evaluateCondition(nested, resolve));
+  }
+
+  if ('not' in condition) {
+    return !evaluateCondition(condition.not, resolve);
+  }
+
+  const value = resolve(condition.value);
+  const compareTo = resolve(condition.compareTo);
+
+  switch (condition.operator) {
+    case 'exists':
+      return value !== undefined && value !== null;
+    case 'eq':
+      return value === compareTo;
+    case 'ne':
+      return value !== compareTo;
+    case 'in':
+      return Array.isArray(compareTo) && compareTo.includes(value);
+    default:
+      return compareOrdered(value, compareTo, condition.operator);
+  }
+}
+
+/**
+ * Get the steps skipped along with a step that has skipDescendants set
+ * A descendant is only skipped when every one of its dependencies is skipped,
+ * so steps joining another branch still run
+ */
+export function exclusiveDescendants(stepId: string, workflow: Workflow): string[] {
+  const skipped = new Set([stepId]);
+  let changed = true;
+
+  while (changed) {
+    changed = false;
+
+    for (const step of workflow.steps) {
+      if (
+        !skipped.has(step.id) &&
+        step.dependsOn.length > 0 &&
+        step.dependsOn.every(dependencyId => skipped.has(dependencyId))
+      ) {
+        skipped.add(step.id);
+        changed = true;
+      }
+    }
+  }
+
+  skipped.delete(stepId);
+  return [...skipped];
+}
+
+// Numbers compare numerically, numeric strings such as token amounts are
+// converted, and other strings compare lexically
+function compareOrdered(value: any, compareTo: any, operator: ConditionOperator): boolean {
+  const toComparable = (operand: any) =>
+    typeof operand === 'string' && operand.trim() !== '' && !isNaN(Number(operand)) ? Number(operand) : operand;
+  const left = toComparable(value);
+  const right = toComparable(compareTo);
+
+  if (typeof left !== typeof right || (typeof left !== 'number' && typeof left !== 'string')) {
+    return false;
+  }
+
+  switch (operator) {
+    case 'gt':
+      return left > right;
+    case 'gte':
+      return left >= right;
+    case 'lt':
+      return left < right;
+    default:
+      return left <= right;
+  }
+}
@@ -0,0 +1,181 @@
+import { ethers } from 'ethers';
+import { canonicalJson } from '../registry/verification';
+import { SigningDomain } from '../signing/types';
+import { API_REQUEST_TYPES, DEFAULT_MAX_SIGNATURE_TTL } from '../signing/typed-data';
+import { StepCancellationRequest, StepDispatcher, StepDispatchRequest, StepDispatchResult } from './types';
+
+const NO_SIGNER_ERROR = 'No orchestrator key is configured to sign requests to agents';
+
+export interface HttpStepDispatcherOptions {
+  signer?: ethers.Wallet; // Orchestrator key that signs every dispatch; without one, steps fail to dispatch
+  signingDomain: SigningDomain;
+  callbackBaseUrl: string; // Public base URL of this API, e.g. https://agentblend.example.com
+  timeout?: number; // How long to wait for an agent to answer, in milliseconds
+}
+
+/**
+ * Dispatches steps to agents over HTTP
+ *
+ * The step is POSTed to the agent endpoint with the task ID, step ID, input
+ * and the URL to report the result to. Requests are signed by the
+ * orchestrator as EIP-712 ApiRequest typed data in the signature, address,
+ * nonce and expiry headers, so agents can check where a step came from.
+ *
+ * An agent answers either synchronously with 200 and
+ * { success, output?, error? }, or with 202 Accepted and posts a signed
+ * result to the callback URL later.
+ *
+ * When a task stops, agents still holding one of its steps receive a signed
+ * { taskId, stepId, reason } POST at <endpoint>/cancel.
+ */
+export class HttpStepDispatcher implements StepDispatcher {
+  private options: HttpStepDispatcherOptions & { timeout: number };
+
+  constructor(options: HttpStepDispatcherOptions) {
+    this.options = {
+      timeout: 30 * 1000,
+      ...options,
+      callbackBaseUrl: options.callbackBaseUrl.replace(/\/+$/, '')
+    };
+  }
+
+  /**
+   * Send a step to its assigned agent
+   */
+  async dispatch(request: StepDispatchRequest): Promise<StepDispatchResult> {
+    const { task, step, attempt, agent } = request;
+
+    if (!this.options.signer) {
+      return { accepted: false, error: NO_SIGNER_ERROR };
+    }
+
+    const body = {
+      taskId: task.id,
+      stepId: step.id,
+      attempt,
+      input: step.input,
+      callbackUrl: `${this.options.callbackBaseUrl}/api/tasks/${task.id}/steps/${step.id}/result`
+    };
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.options.timeout);
+
+    try {
+      const response = await this.post(new URL(agent.endpoint), body, controller.signal);
+
+      if (response.status === 202) {
+        return { accepted: true };
+      }
+
+      if (!response.ok) {
+        return { accepted: false, error: `Agent ${agent.id} rejected the step with HTTP ${response.status}` };
+      }
+
+      const answer = await response.json().catch(() => null);
+
+      if (!answer || typeof answer.success !== 'boolean') {
+        return { accepted: false, error: `Agent ${agent.id} returned an invalid step result` };
+      }
+
+      return {
+        accepted: true,
+        result: {
+          success: answer.success,
+          output: answer.output,
+          error: answer.error
+        }
+      };
+    } catch (error) {
+      const reason = error.name === 'AbortError'
+        ? `did not answer within ${this.options.timeout}ms`
+        : `could not be reached: ${error.message}`;
+      return { accepted: false, error: `Agent ${agent.id} ${reason}` };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Tell the agent holding a step to stop working on it
+   */
+  async cancel(request: StepCancellationRequest): Promise<void> {
+    const { task, step, agent, reason } = request;
+    const url = new URL(agent.endpoint);
+    url.pathname = `${url.pathname.replace(/\/+$/, '')}/cancel`;
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.options.timeout);
+
+    try {
+      const response = await this.post(url, { taskId: task.id, stepId: step.id, reason }, controller.signal);
+
+      if (!response.ok) {
+        throw new Error(`Agent ${agent.id} rejected the cancellation with HTTP ${response.status}`);
+      }
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * POST a body signed by the orchestrator
+   */
+  private async post(url: URL, body: Record<string, any>, signal: AbortSignal): Promise<Response> {
+    const { signer } = this.options;
+
+    if (!signer) {
+      throw new Error(NO_SIGNER_ERROR);
+    }
+
+    const nonce = ethers.BigNumber.from(ethers.utils.randomBytes(16)).toString();
+    const expiry = Math.floor((Date.now() + DEFAULT_MAX_SIGNATURE_TTL) / 1000);
+    const payload = canonicalJson(body);
+    const signature = await signer._signTypedData(this.options.signingDomain, API_REQUEST_TYPES, {
+      method: 'POST',
+      path: `${url.pathname}${url.search}`,
+      bodyHash: ethers.utils.keccak256(ethers.utils.toUtf8Bytes(payload)),
+      nonce,
+      expiry
+    });
+
+    return fetch(url.toString(), {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        signature,
+        address: signer.address,
+        nonce,
+        expiry: String(expiry)
+      },
+      body: payload,
+      signal
+    });
+  }
+}
+
+/**
+ * Simulates agents without contacting them, for local development only
+ * Each step completes after 2-5 seconds and succeeds 80% of the time
+ */
+export class SimulatedStepDispatcher implements StepDispatcher {
+  async dispatch(request: StepDispatchRequest): Promise<StepDispatchResult> {
+    const { step } = request;
+
+    await new Promise(resolve => setTimeout(resolve, 2000 + Math.random() * 3000));
+
+    const success = Math.random() > 0.2;
+
+    return {
+      accepted: true,
+      result: {
+        success,
+        output: success ? { result: `Executed step ${step.id}` } : undefined,
+        error: success ? undefined : `Failed to execute step ${step.id}`
+      }
+    };
+  }
+
+  async cancel(): Promise<void> {
+    // Simulated steps finish on their own
+  }
+}
@@ -4,7 +4,12 @@ import {
   TaskStatus, 
   Workflow, 
   WorkflowStep, 
-  StepStatus 
+  StepStatus,
+  StepErrorKind,
+  TaskErrorCode,
+  MapItem,
+  CompensationRun,
+  CompensationStatus
 } from '../types';
 import { 
   TaskOrchestrationEngine, 
@@ -13,46 +18,115 @@ import {
   TaskExecution,
   StepExecutionResult,
   WorkflowEngine,
-  AgentSelector
+  AgentSelector,
+  StepDispatcher,
+  TaskOrchestrationOptions,
+  DeadlineEnforcementResult,
+  TaskStore,
+  TaskRecoveryResult,
+  SchedulingLimits
 } from './types';
 import { AgentRegistry } from '../registry/types';
+import { WorkflowTemplateStore } from '../templates/types';
+import { resolveParameterValues } from '../templates/store';
+import { checkStepResult, signerAddressForKey } from '../registry/verification';
+import { NonceStore, SigningDomain, SignedPayload } from '../signing/types';
+import { checkSignedPayload, createSigningDomain, DEFAULT_MAX_SIGNATURE_TTL } from '../signing/typed-data';
+import { InMemoryNonceStore } from '../signing/nonces';
 import { DefaultWorkflowEngine } from './workflow';
+import { InMemoryTaskStore } from './task-store';
+import { attemptedAgents, retryDelay, shouldRetryStep } from './retry';
+import { applyTemplateParameters, resolveStepInput, resolveTemplates } from './templating';
+import { isMapItemActive, mapItemId, mapOutcome, mapOutput, nextMapItems, parseMapItemId } from './map';
+import { evaluateStepCondition, exclusiveDescendants } from './conditions';
+import {
+  compensationId,
+  compensationOutcome,
+  isCompensationActive,
+  nextCompensations,
+  parseCompensationId,
+  stepsToCompensate
+} from './compensation';
+import { compareQueuedTasks, countActiveSteps, queuePosition } from './scheduling';
+import { AgentError, NotFoundError, TaskError, ValidationError } from '../../utils/errors';
+
+// Deepest nesting of sub-workflows, which also stops templates that embed themselves
+const MAX_SUBWORKFLOW_DEPTH = 5;
 
 /**
- * In-memory implementation of the Task Orchestration Engine
- * For production, this would be backed by a database and/or blockchain
+ * Implementation of the Task Orchestration Engine
+ * Tasks are kept in memory unless a persistent task store is configured
  */
 export class InMemoryTaskOrchestrationEngine implements TaskOrchestrationEngine {
-  private tasks: Map<string, Task> = new Map();
-  private executions: Map<string, TaskExecution> = new Map();
+  private taskStore: TaskStore;
   private workflowEngine: WorkflowEngine;
   private agentRegistry: AgentRegistry;
   private agentSelector: AgentSelector;
+  private signingDomain: SigningDomain;
+  private nonceStore: NonceStore;
+  private maxSignatureTtl: number;
+  private stepDispatcher?: StepDispatcher;
+  private defaultDeadline?: number;
+  private defaultStepTimeout?: number;
+  private deadlineAction: 'fail' | 'cancel';
+  private templateStore?: WorkflowTemplateStore;
+  private scheduling: SchedulingLimits;
+  private dispatchingSteps: Set<string> = new Set(); // Steps holding a slot before their agent is assigned
+  private waitingTasks: Set<string> = new Set(); // Tasks with ready steps held back by the limits
   
   constructor(
     agentRegistry: AgentRegistry, 
     agentSelector: AgentSelector,
-    workflowEngine?: WorkflowEngine
+    workflowEngine?: WorkflowEngine,
+    options: TaskOrchestrationOptions = {}
   ) {
     this.agentRegistry = agentRegistry;
     this.agentSelector = agentSelector;
     this.workflowEngine = workflowEngine || new DefaultWorkflowEngine();
+    this.signingDomain = options.signingDomain ?? createSigningDomain();
+    this.nonceStore = options.nonceStore ?? new InMemoryNonceStore();
+    this.maxSignatureTtl = options.maxSignatureTtl ?? DEFAULT_MAX_SIGNATURE_TTL;
+    this.stepDispatcher = options.stepDispatcher;
+    this.defaultDeadline = options.defaultDeadline;
+    this.defaultStepTimeout = options.defaultStepTimeout;
+    this.deadlineAction = options.deadlineAction ?? 'fail';
+    this.templateStore = options.templateStore;
+    this.taskStore = options.taskStore ?? new InMemoryTaskStore();
+    this.scheduling = options.scheduling ?? {};
   }
 
   /**
    * Create a new task
+   * Tasks created without a deadline get the default deadline, if one is configured.
+   * Sub-workflows that reference a template are resolved to its current version.
    */
   async createTask(request: CreateTaskRequest): Promise<Task> {
     const id = uuidv4();
     const now = new Date();
+    const workflow = await this.resolveSubWorkflows(request.workflow);
     
     // Validate the workflow
-    if (!this.workflowEngine.validateWorkflow(request.workflow)) {
-      throw new Error('Invalid workflow: contains cycles or references non-existent steps');
+    if (!this.workflowEngine.validateWorkflow(workflow)) {
+      throw new ValidationError('Invalid workflow: contains cycles, references non-existent steps or has invalid input expressions');
+    }
+    
+    const deadline = request.deadline ??
+      (this.defaultDeadline !== undefined ? new Date(now.getTime() + this.defaultDeadline) : undefined);
+    
+    if (deadline && isNaN(deadline.getTime())) {
+      throw new ValidationError('Task deadline must be a valid date');
+    }
+    
+    if (deadline && deadline.getTime() <= now.getTime()) {
+      throw new ValidationError('Task deadline must be in the future');
+    }
+    
+    if (request.priority !== undefined && !Number.isInteger(request.priority)) {
+      throw new ValidationError('Task priority must be an integer');
     }
     
     // Initialize the workflow (sets all steps to PENDING)
-    const initializedWorkflow = await this.workflowEngine.initialize(request.workflow);
+    const initializedWorkflow = await this.workflowEngine.initialize(workflow);
     
     const task: Task = {
       id,
@@ -62,20 +136,27 @@ export class InMemoryTaskOrchestrationEngine implements TaskOrchestrationEngine
       workflow: initializedWorkflow,
       status: TaskStatus.CREATED,
       budget: request.budget,
-      deadline: request.deadline,
+      deadline,
+      template: request.template,
+      parent: request.parent,
+      priority: request.priority,
+      schedule: request.schedule,
+      trigger: request.trigger,
       createdAt: now,
       updatedAt: now
     };
     
-    this.tasks.set(id, task);
+    this.taskStore.saveTask(task);
     return task;
   }
 
   /**
    * Get a task by ID
+   * The child tasks of sub-workflow steps are included under their steps
    */
   async getTask(id: string): Promise<Task | null> {
-    return this.tasks.get(id) || null;
+    const task = this.taskStore.getTask(id);
+    return task ? this.withChildTasks(task) : null;
   }
 
   /**
@@ -84,15 +165,11 @@ export class InMemoryTaskOrchestrationEngine implements TaskOrchestrationEngine
   async listTasks(creator?: string, status?: TaskStatus): Promise<Task[]> {
     const results: Task[] = [];
     
-    for (const task of this.tasks.values()) {
+    for (const task of this.taskStore.listTasks(status)) {
       if (creator && task.creator !== creator) {
         continue;
       }
       
-      if (status && task.status !== status) {
-        continue;
-      }
-      
       results.push(task);
     }
     
@@ -101,11 +178,12 @@ export class InMemoryTaskOrchestrationEngine implements TaskOrchestrationEngine
 
   /**
    * Execute a task
-   * Initiates task execution and returns immediately
+   * Queues the task and returns immediately. It starts right away unless the
+   * running tasks use up the scheduling limits; queued tasks are PENDING.
    * The actual execution happens asynchronously
    */
   async executeTask(id: string): Promise<TaskExecutionResult> {
-    const task = this.tasks.get(id);
+    const task = this.taskStore.getTask(id);
     
     if (!task) {
       return {
@@ -123,6 +201,14 @@ export class InMemoryTaskOrchestrationEngine implements TaskOrchestrationEngine
       };
     }
     
+    if (task.status === TaskStatus.PENDING) {
+      return {
+        task,
+        success: false,
+        error: 'Task is already queued'
+      };
+    }
+    
     if (task.status === TaskStatus.COMPLETED) {
       return {
         task,
@@ -131,83 +217,360 @@ export class InMemoryTaskOrchestrationEngine implements TaskOrchestrationEngine
       };
     }
     
-    // Update task status to RUNNING
-    const updatedTask: Task = {
-      ...task,
-      status: TaskStatus.RUNNING,
-      startedAt: new Date(),
-      updatedAt: new Date()
-    };
+    // A fresh execution would forget the steps that already ran
+    if (task.status === TaskStatus.PAUSED || task.status === TaskStatus.FAILED || task.status === TaskStatus.CANCELED) {
+      return {
+        task,
+        success: false,
+        error: task.status === TaskStatus.PAUSED
+          ? 'Task is paused; resume it instead'
+          : task.status === TaskStatus.FAILED
+            ? 'Task has failed; retry its failed steps instead'
+            : 'Task was canceled'
+      };
+    }
+    
+    if (task.deadline && task.deadline.getTime() <= Date.now()) {
+      return {
+        task,
+        success: false,
+        error: 'Task deadline has passed'
+      };
+    }
     
-    this.tasks.set(id, updatedTask);
+    // Queue the task
+    const now = new Date();
+    this.taskStore.saveTask({
+      ...task,
+      status: TaskStatus.PENDING,
+      updatedAt: now
+    });
     
     // Initialize task execution
     const execution: TaskExecution = {
       taskId: id,
       completedSteps: [],
       failedSteps: [],
-      startTime: new Date(),
-      lastUpdated: new Date()
+      skippedSteps: [],
+      startTime: now,
+      queuedAt: now,
+      lastUpdated: now
     };
     
-    this.executions.set(id, execution);
+    this.taskStore.saveExecution(execution);
     
-    // Start async execution process
-    this.processTask(id).catch(error => {
-      console.error(`Error processing task ${id}:`, error);
-      this.handleTaskFailure(id, error.message);
-    });
+    // Start the task now if it fits within the limits
+    this.schedule();
     
     return {
-      task: updatedTask,
+      task: this.taskStore.getTask(id)!,
       success: true
     };
   }
 
   /**
-   * Cancel a running task
+   * Cancel a queued, running or paused task
+   * Agents holding its steps are told to stop, child tasks of its
+   * sub-workflow steps are canceled with it, and completed steps are
+   * compensated. A canceled child task fails its parent step.
    */
   async cancelTask(id: string): Promise<boolean> {
-    const task = this.tasks.get(id);
+    const task = this.taskStore.getTask(id);
     
-    if (!task || task.status !== TaskStatus.RUNNING) {
+    if (!task || (!isTaskActive(task) && task.status !== TaskStatus.PENDING)) {
       return false;
     }
     
     const updatedTask: Task = {
       ...task,
+      workflow: this.stopSteps(task, 'Task was canceled', StepErrorKind.CANCELED),
       status: TaskStatus.CANCELED,
       updatedAt: new Date()
     };
     
-    this.tasks.set(id, updatedTask);
+    this.taskStore.saveTask(updatedTask);
+    await this.cancelChildTasks(updatedTask);
+    await this.notifyParent(updatedTask);
+    this.compensateTask(id);
+    this.schedule();
     return true;
   }
 
+  /**
+   * Pause a running task
+   * No new steps are started while it is paused; steps already running keep
+   * going and their results are recorded. Child tasks are paused with it.
+   */
+  async pauseTask(id: string): Promise<TaskExecutionResult> {
+    const task = this.taskStore.getTask(id);
+    
+    if (!task) {
+      return {
+        task: { id } as Task,
+        success: false,
+        error: 'Task not found'
+      };
+    }
+    
+    if (task.status !== TaskStatus.RUNNING) {
+      return {
+        task,
+        success: false,
+        error: 'Only running tasks can be paused'
+      };
+    }
+    
+    const updatedTask: Task = {
+      ...task,
+      status: TaskStatus.PAUSED,
+      updatedAt: new Date()
+    };
+    
+    this.taskStore.saveTask(updatedTask);
+    
+    for (const step of updatedTask.workflow.steps) {
+      if (step.childTaskId && step.status === StepStatus.RUNNING) {
+        await this.pauseTask(step.childTaskId);
+      }
+    }
+    
+    return {
+      task: updatedTask,
+      success: true
+    };
+  }
+
+  /**
+   * Resume a paused task
+   * Steps that became ready while it was paused start now, as do the pending
+   * elements of its map steps. Child tasks are resumed with it.
+   */
+  async resumeTask(id: string): Promise<TaskExecutionResult> {
+    const task = this.taskStore.getTask(id);
+    
+    if (!task) {
+      return {
+        task: { id } as Task,
+        success: false,
+        error: 'Task not found'
+      };
+    }
+    
+    if (task.status !== TaskStatus.PAUSED) {
+      return {
+        task,
+        success: false,
+        error: 'Only paused tasks can be resumed'
+      };
+    }
+    
+    const updatedTask: Task = {
+      ...task,
+      status: TaskStatus.RUNNING,
+      updatedAt: new Date()
+    };
+    
+    this.taskStore.saveTask(updatedTask);
+    
+    const runningSteps = updatedTask.workflow.steps.filter(step => step.status === StepStatus.RUNNING);
+    
+    for (const step of runningSteps) {
+      if (step.childTaskId) {
+        await this.resumeTask(step.childTaskId);
+      }
+    }
+    
+    this.continueTask(id);
+    
+    return {
+      task: updatedTask,
+      success: true
+    };
+  }
+
+  /**
+   * Run a failed task again from its failed steps
+   * Completed steps keep their outputs. Failed and skipped steps are reset to
+   * PENDING, so skipped steps have their conditions evaluated again. The task
+   * is queued and starts within the scheduling limits like a new one.
+   */
+  async retryFailed(id: string): Promise<TaskExecutionResult> {
+    const task = this.taskStore.getTask(id);
+    
+    if (!task) {
+      return {
+        task: { id } as Task,
+        success: false,
+        error: 'Task not found'
+      };
+    }
+    
+    if (task.status !== TaskStatus.FAILED) {
+      return {
+        task,
+        success: false,
+        error: 'Only failed tasks can be retried'
+      };
+    }
+    
+    if (task.compensationStatus) {
+      return {
+        task,
+        success: false,
+        error: 'Task was compensated; create a new task instead'
+      };
+    }
+    
+    // The parent step already failed with the child task
+    if (task.parent) {
+      return {
+        task,
+        success: false,
+        error: `Task is a sub-workflow of task ${task.parent.taskId}; retry that task instead`
+      };
+    }
+    
+    if (task.deadline && task.deadline.getTime() <= Date.now()) {
+      return {
+        task,
+        success: false,
+        error: 'Task deadline has passed'
+      };
+    }
+    
+    const stepIds = task.workflow.steps
+      .filter(step => step.status === StepStatus.FAILED || step.status === StepStatus.SKIPPED)
+      .map(step => step.id);
+    
+    const now = new Date();
+    this.taskStore.saveTask({
+      ...task,
+      workflow: this.workflowEngine.resetSteps(task.workflow, stepIds),
+      status: TaskStatus.PENDING,
+      result: undefined,
+      error: undefined,
+      errorCode: undefined,
+      completedAt: undefined,
+      updatedAt: now
+    });
+    this.updateExecution(id, current => {
+      current.failedSteps = [];
+      current.skippedSteps = [];
+      current.queuedAt = now;
+    });
+    
+    // Start the task now if it fits within the limits
+    this.schedule();
+    
+    return {
+      task: this.taskStore.getTask(id)!,
+      success: true
+    };
+  }
+
   /**
    * Get the current execution state of a task
+   * Queued tasks include their position in the queue
    */
   async getTaskExecution(id: string): Promise<TaskExecution | null> {
-    return this.executions.get(id) || null;
+    const task = this.taskStore.getTask(id);
+    const execution = this.taskStore.getExecution(id);
+    
+    if (!execution) {
+      return null;
+    }
+    
+    if (task?.status === TaskStatus.PENDING) {
+      return { ...execution, queuePosition: queuePosition(task, this.taskStore.listTasks(TaskStatus.PENDING)) };
+    }
+    
+    return execution;
   }
 
   /**
    * Handle a step execution result
-   * Called by agents when they complete a step
+   * Called by agents when they complete a step. Results for a step, map
+   * element or compensating action that no longer waits for one, such as
+   * late results after a timeout, a cancellation or a retry, are dropped.
    */
   async handleStepResult(result: StepExecutionResult): Promise<void> {
+    const { taskId, stepId } = result;
+    const task = this.taskStore.getTask(taskId);
+    
+    if (!task || !this.taskStore.getExecution(taskId)) {
+      throw new Error('Task not found');
+    }
+    
+    if (!this.findResultTarget(task, stepId, result.attempt).awaiting) {
+      console.warn(`Dropped result for step ${stepId} of task ${taskId}, which is not awaiting one`);
+      return;
+    }
+    
+    await this.recordStepResult(result);
+  }
+
+  /**
+   * Record the result of a step and move its task on
+   * A failure is retried when the step's retry policy allows it. Also fails
+   * steps that could not be started.
+   */
+  private async recordStepResult(result: StepExecutionResult): Promise<void> {
     const { taskId, stepId, success, output, error } = result;
-    const task = this.tasks.get(taskId);
-    const execution = this.executions.get(taskId);
+    const errorKind = result.errorKind ?? StepErrorKind.STEP_FAILED;
+    const task = this.taskStore.getTask(taskId);
+    const execution = this.taskStore.getExecution(taskId);
     
     if (!task || !execution) {
       throw new Error('Task not found');
     }
     
+    // Results of compensating actions update the compensation of their step
+    const compensatedStepId = this.findStep(taskId, stepId) ? null : parseCompensationId(stepId);
+    if (compensatedStepId) {
+      await this.handleCompensationResult(taskId, compensatedStepId, result);
+      return;
+    }
+    
+    // Results of map elements update their map step
+    const mapItem = this.findStep(taskId, stepId) ? null : parseMapItemId(stepId);
+    if (mapItem) {
+      await this.handleMapItemResult(taskId, mapItem.stepId, mapItem.index, result);
+      return;
+    }
+    
+    // Record the outcome of the current attempt
+    let updatedWorkflow = this.workflowEngine.finishAttempt(task.workflow, stepId, { success, error, errorKind });
+    const finishedStep = updatedWorkflow.steps.find(step => step.id === stepId);
+    const attempt = finishedStep?.attempts?.[finishedStep.attempts.length - 1];
+    
+    // Feed the outcome into the assigned agent's performance record
+    if (attempt?.agentId) {
+      const executionTime = attempt.endTime!.getTime() - attempt.startTime.getTime();
+      this.agentRegistry.recordStepOutcome(attempt.agentId, success, executionTime).catch(error => {
+        console.error(`Error recording outcome of step ${stepId}:`, error);
+      });
+    }
+    
+    // Retry the step after its backoff instead of failing it
+    if (!success && finishedStep && shouldRetryStep(finishedStep, errorKind)) {
+      const delay = retryDelay(finishedStep.retryPolicy!, finishedStep.attempts!.length);
+      const nextAttemptAt = new Date(Date.now() + delay);
+      updatedWorkflow = this.workflowEngine.scheduleRetry(updatedWorkflow, stepId, nextAttemptAt);
+      
+      this.taskStore.saveTask({ ...task, workflow: updatedWorkflow, updatedAt: new Date() });
+      await this.cancelChildTask(finishedStep);
+      
+      this.processTaskAt(taskId, nextAttemptAt);
+      
+      // Steps of other tasks may use the freed slot
+      this.schedule();
+      return;
+    }
+    
     // Update the step status in the workflow
     const status = success ? StepStatus.COMPLETED : StepStatus.FAILED;
-    const updatedWorkflow = this.workflowEngine.updateStepStatus(
-      task.workflow,
+    updatedWorkflow = this.workflowEngine.updateStepStatus(
+      updatedWorkflow,
       stepId,
       status,
       output,
@@ -221,167 +584,1190 @@ export class InMemoryTaskOrchestrationEngine implements TaskOrchestrationEngine
       updatedAt: new Date()
     };
     
-    this.tasks.set(taskId, updatedTask);
+    this.taskStore.saveTask(updatedTask);
     
-    // Update the execution record
-    if (success) {
-      execution.completedSteps.push(stepId);
-    } else {
-      execution.failedSteps.push(stepId);
+    // A sub-workflow that timed out or failed to start must not keep running
+    if (finishedStep) {
+      await this.cancelChildTask(finishedStep);
     }
     
-    execution.currentStepId = undefined;
-    execution.lastUpdated = new Date();
-    this.executions.set(taskId, execution);
+    // Update the execution record
+    this.updateExecution(taskId, current => {
+      if (success) {
+        current.completedSteps.push(stepId);
+      } else {
+        current.failedSteps.push(stepId);
+      }
+      current.currentStepId = undefined;
+    });
     
     // Continue processing the task
     this.processTask(taskId).catch(error => {
       console.error(`Error processing task ${taskId}:`, error);
-      this.handleTaskFailure(taskId, error.message);
+      this.handleTaskFailure(taskId, error.message).catch(failure => {
+        console.error(`Error failing task ${taskId}:`, failure);
+      });
     });
+    
+    // Steps of other tasks may use the freed slot
+    this.schedule();
   }
 
   /**
-   * Process a task by executing its next steps
-   * This is called recursively until the task is complete
+   * Submit a step result signed by the assigned agent as EIP-712 typed data
+   * Called through the API; results signed by any other key, for another
+   * domain, expired or with a reused nonce are rejected
    */
-  private async processTask(id: string): Promise<void> {
-    const task = this.tasks.get(id);
-    const execution = this.executions.get(id);
+  async submitStepResult(result: StepExecutionResult, signed: SignedPayload): Promise<void> {
+    const { taskId, stepId } = result;
+    const task = this.taskStore.getTask(taskId);
     
-    if (!task || !execution) {
-      return;
+    if (!task) {
+      throw new NotFoundError('Task', taskId);
     }
     
-    // If the task is not running, don't process it
-    if (task.status !== TaskStatus.RUNNING) {
-      return;
+    const { step, awaiting } = this.findResultTarget(task, stepId);
+    
+    if (!step) {
+      throw new NotFoundError('Step', stepId);
     }
     
-    // Check if the workflow is complete
-    if (this.workflowEngine.isComplete(task.workflow)) {
-      await this.handleTaskCompletion(id);
-      return;
+    if (!awaiting || !awaiting.assignedAgent) {
+      throw new TaskError(`Step ${stepId} is not awaiting a result`);
     }
     
-    // Get the next steps to execute
-    const nextSteps = this.workflowEngine.getNextSteps(
-      task.workflow,
-      execution.completedSteps
-    );
+    // Results are signed for one attempt, so a late result cannot land on a retry
+    const attempt = step.attempts?.length ?? 0;
+    if (result.attempt !== attempt) {
+      throw new TaskError(`Step ${stepId} is awaiting a result for attempt ${attempt}, not ${result.attempt}`);
+    }
     
-    if (nextSteps.length === 0) {
-      // If there are no next steps but the workflow is not complete,
-      // it means some steps have failed and we can't proceed
-      const failedSteps = task.workflow.steps.filter(
-        step => step.status === StepStatus.FAILED
-      );
+    const agent = await this.agentRegistry.getAgent(awaiting.assignedAgent);
+    
+    if (!agent) {
+      throw new AgentError(`Assigned agent ${awaiting.assignedAgent} is no longer registered`);
+    }
+    
+    const expiresAt = checkSignedPayload(signed, 'Step result', this.maxSignatureTtl);
+    checkStepResult(this.signingDomain, agent, taskId, stepId, attempt, result, signed);
+    await this.nonceStore.consume(signerAddressForKey(agent.publicKey), signed.nonce, expiresAt);
+    
+    await this.handleStepResult(result);
+  }
+
+  /**
+   * Stop work that ran out of time
+   * Fails attempts that waited longer than their step timeout, which may
+   * retry them, then fails or cancels running tasks past their deadline.
+   * Paused and queued tasks keep their deadline.
+   */
+  async enforceDeadlines(now: Date = new Date()): Promise<DeadlineEnforcementResult> {
+    const enforcement: DeadlineEnforcementResult = { timedOutSteps: [], overdueTasks: [] };
+    const tasks = [
+      ...this.taskStore.listTasks(TaskStatus.RUNNING),
+      ...this.taskStore.listTasks(TaskStatus.PAUSED),
+      ...this.taskStore.listTasks(TaskStatus.PENDING)
+    ];
+    
+    for (const listed of tasks) {
+      // Stopping a parent task may have stopped this one meanwhile
+      const task = this.taskStore.getTask(listed.id);
       
-      if (failedSteps.length > 0) {
-        await this.handleTaskFailure(
-          id,
-          `Task failed due to failed steps: ${failedSteps.map(s => s.id).join(', ')}`
-        );
+      if (!task || (!isTaskActive(task) && task.status !== TaskStatus.PENDING)) {
+        continue;
       }
       
-      return;
-    }
-    
-    // Assign agents to each step and start execution
-    const assignmentPromises = nextSteps.map(async step => {
-      try {
-        // Select an agent for this step
-        const agentId = await this.agentSelector.selectAgentForStep(step, this.agentRegistry);
+      if (task.deadline && task.deadline.getTime() <= now.getTime()) {
+        await this.handleTaskDeadline(task.id);
+        enforcement.overdueTasks.push(task.id);
+        continue;
+      }
+      
+      for (const step of task.workflow.steps) {
+        const timeout = step.timeout ?? this.defaultStepTimeout;
+        const attempt = step.attempts?.[step.attempts.length - 1];
         
-        if (!agentId) {
-          // If no agent is available, mark the step as failed
-          console.warn(`No agent available for step ${step.id}`);
-          const updatedWorkflow = this.workflowEngine.updateStepStatus(
-            task.workflow,
-            step.id,
-            StepStatus.FAILED,
-            undefined,
-            'No agent available'
-          );
-          
-          const updatedTask: Task = {
-            ...task,
-            workflow: updatedWorkflow,
-            updatedAt: new Date()
-          };
-          
-          this.tasks.set(id, updatedTask);
-          execution.failedSteps.push(step.id);
-          
-          return;
+        if (
+          timeout === undefined ||
+          !attempt ||
+          attempt.endTime ||
+          (step.status !== StepStatus.ASSIGNED && step.status !== StepStatus.RUNNING) ||
+          attempt.startTime.getTime() + timeout > now.getTime()
+        ) {
+          continue;
         }
         
-        // Mark the step as assigned
-        const updatedWorkflow = this.workflowEngine.updateStepStatus(
-          task.workflow,
-          step.id,
-          StepStatus.ASSIGNED,
-          undefined,
-          undefined
-        );
-        
-        const updatedTask: Task = {
-          ...task,
-          workflow: updatedWorkflow,
-          updatedAt: new Date()
-        };
-        
-        this.tasks.set(id, updatedTask);
-        
-        // In a real implementation, we would send a request to the agent
-        // to execute the step. For this MVP, we'll simulate it with a
-        // setTimeout to complete the step after a short delay
-        
-        // Simulate agent execution (in a real system, this would be an API call)
-        setTimeout(() => {
-          const success = Math.random() > 0.2; // 80% success rate for simulation
-          
-          this.handleStepResult({
-            taskId: id,
-            stepId: step.id,
-            success,
-            output: success ? { result: `Executed step ${step.id}` } : undefined,
-            error: success ? undefined : `Failed to execute step ${step.id}`
-          }).catch(error => {
-            console.error(`Error handling step result for ${step.id}:`, error);
-          });
-        }, 2000 + Math.random() * 3000); // Random delay between 2-5 seconds
-      } catch (error) {
-        console.error(`Error assigning agent for step ${step.id}:`, error);
-        // If there's an error assigning an agent, mark the step as failed
-        const updatedWorkflow = this.workflowEngine.updateStepStatus(
-          task.workflow,
-          step.id,
-          StepStatus.FAILED,
-          undefined,
-          error.message
-        );
+        await this.handleStepResult({
+          taskId: task.id,
+          stepId: step.id,
+          success: false,
+          error: `Step timed out after ${timeout} ms`,
+          errorKind: StepErrorKind.TIMEOUT
+        });
+        enforcement.timedOutSteps.push({ taskId: task.id, stepId: step.id });
+      }
+    }
+    
+    // Compensating actions of stopped tasks time out like steps
+    for (const task of [...this.taskStore.listTasks(TaskStatus.FAILED), ...this.taskStore.listTasks(TaskStatus.CANCELED)]) {
+      if (task.compensationStatus !== CompensationStatus.RUNNING) {
+        continue;
+      }
+      
+      for (const step of task.workflow.steps) {
+        const timeout = step.compensate?.timeout ?? this.defaultStepTimeout;
+        const run = step.compensation;
         
-        const updatedTask: Task = {
-          ...task,
-          workflow: updatedWorkflow,
-          updatedAt: new Date()
-        };
+        if (
+          timeout === undefined ||
+          !run?.startTime ||
+          !isCompensationActive(run) ||
+          run.startTime.getTime() + timeout > now.getTime()
+        ) {
+          continue;
+        }
         
-        this.tasks.set(id, updatedTask);
-        execution.failedSteps.push(step.id);
+        await this.handleCompensationResult(task.id, step.id, {
+          taskId: task.id,
+          stepId: compensationId(step.id),
+          success: false,
+          error: `Compensation timed out after ${timeout} ms`
+        });
+        enforcement.timedOutSteps.push({ taskId: task.id, stepId: compensationId(step.id) });
       }
+    }
+    
+    return enforcement;
+  }
+
+  /**
+   * Resume the tasks that were running when the process stopped
+   * Steps that were assigned but never acknowledged by their agent are
+   * dispatched again; running steps keep waiting for their agent's result,
+   * bounded by their timeout. Paused tasks are reconciled the same way but
+   * stay paused, and the compensations of stopped tasks carry on.
+   */
+  async recoverTasks(): Promise<TaskRecoveryResult> {
+    const recovery: TaskRecoveryResult = { resumedTasks: [], redispatchedSteps: [] };
+    const now = new Date();
+    const tasks = [...this.taskStore.listTasks(TaskStatus.RUNNING), ...this.taskStore.listTasks(TaskStatus.PAUSED)];
+    
+    for (const task of tasks) {
+      for (const step of task.workflow.steps) {
+        if (step.status === StepStatus.ASSIGNED) {
+          this.updateWorkflow(task.id, workflow => this.workflowEngine.scheduleRetry(
+            this.workflowEngine.finishAttempt(workflow, step.id, {
+              success: false,
+              error: 'Interrupted by a restart before the agent acknowledged the step',
+              errorKind: StepErrorKind.DISPATCH_FAILED
+            }),
+            step.id,
+            now
+          ));
+          recovery.redispatchedSteps.push({ taskId: task.id, stepId: step.id });
+        } else if (step.status === StepStatus.RUNNING && step.map) {
+          const interrupted = (step.mapItems || []).filter(item => item.status === StepStatus.ASSIGNED);
+    
+          this.updateWorkflow(task.id, workflow => interrupted.reduce(
+            (updated, item) => this.workflowEngine.updateMapItem(updated, step.id, item.index, {
+              status: StepStatus.PENDING,
+              assignedAgent: undefined,
+              startTime: undefined
+            }),
+            workflow
+          ));
+          recovery.redispatchedSteps.push(
+            ...interrupted.map(item => ({ taskId: task.id, stepId: mapItemId(step.id, item.index) }))
+          );
+    
+          await this.runMapItems(task.id, step.id);
+        } else if (step.status === StepStatus.RUNNING && step.childTaskId) {
+          // A child that finished just before the restart has not been reported yet
+          const child = this.taskStore.getTask(step.childTaskId);
+    
+          if (!child) {
+            await this.handleStepResult({
+              taskId: task.id,
+              stepId: step.id,
+              success: false,
+              error: `Child task ${step.childTaskId} was lost`
+            });
+          } else if (!isTaskActive(child)) {
+            await this.notifyParent(child);
+          }
+        } else if (step.status === StepStatus.PENDING && step.nextAttemptAt && step.nextAttemptAt > now) {
+          // The timer of a scheduled retry did not survive the restart
+          this.processTaskAt(task.id, step.nextAttemptAt);
+        }
+      }
+    
+      await this.processTask(task.id).catch(error => {
+        console.error(`Error processing task ${task.id}:`, error);
+        this.handleTaskFailure(task.id, error.message).catch(failure => {
+          console.error(`Error failing task ${task.id}:`, failure);
+        });
+      });
+      
+      if (task.status === TaskStatus.RUNNING) {
+        recovery.resumedTasks.push(task.id);
+      }
+    }
+    
+    // Compensating actions that were not acknowledged are dispatched again
+    for (const task of [...this.taskStore.listTasks(TaskStatus.FAILED), ...this.taskStore.listTasks(TaskStatus.CANCELED)]) {
+      if (task.compensationStatus !== CompensationStatus.RUNNING) {
+        continue;
+      }
+      
+      const interrupted = task.workflow.steps.filter(step => step.compensation?.status === StepStatus.ASSIGNED);
+      
+      this.updateWorkflow(task.id, workflow => interrupted.reduce(
+        (updated, step) => this.workflowEngine.updateCompensation(updated, step.id, {
+          status: StepStatus.PENDING,
+          assignedAgent: undefined,
+          startTime: undefined
+        }),
+        workflow
+      ));
+      recovery.redispatchedSteps.push(
+        ...interrupted.map(step => ({ taskId: task.id, stepId: compensationId(step.id) }))
+      );
+      
+      await this.runCompensations(task.id);
+    }
+    
+    // Queued tasks start as the limits allow
+    this.schedule();
+    
+    return recovery;
+  }
+
+  /**
+   * Process a task by executing its next steps
+   * This is called recursively until the task is complete
+   */
+  private async processTask(id: string): Promise<void> {
+    const task = this.taskStore.getTask(id);
+    const execution = this.taskStore.getExecution(id);
+    
+    if (!task || !execution) {
+      return;
+    }
+    
+    // If the task is not running, don't process it
+    if (task.status !== TaskStatus.RUNNING) {
+      return;
+    }
+    
+    // Check if the workflow is complete
+    if (this.workflowEngine.isComplete(task.workflow)) {
+      await this.handleTaskCompletion(id);
+      return;
+    }
+    
+    // Get the next steps to execute
+    const nextSteps = this.workflowEngine.getNextSteps(
+      task.workflow,
+      [...execution.completedSteps, ...execution.skippedSteps]
+    );
+    
+    if (nextSteps.length === 0) {
+      // If there are no next steps but the workflow is not complete,
+      // it means some steps have failed and we can't proceed
+      const failedSteps = task.workflow.steps.filter(
+        step => step.status === StepStatus.FAILED
+      );
+      
+      if (failedSteps.length > 0) {
+        await this.handleTaskFailure(
+          id,
+          `Task failed due to failed steps: ${failedSteps.map(s => s.id).join(', ')}`,
+          TaskErrorCode.STEPS_FAILED
+        );
+      }
+      
+      return;
+    }
+    
+    // Assign agents to each step and dispatch them, as far as step slots are free
+    const assignmentPromises = this.reserveStepSlots(id, nextSteps).map(step => this.runStep(id, step.id));
+    
+    // Wait for all assignments to complete
+    await Promise.all(assignmentPromises);
+  }
+
+  /**
+   * Select an agent for a step, assign it and dispatch the step to it
+   * Steps whose condition is false are skipped instead. The step is marked
+   * RUNNING once the agent acknowledges it; failures to resolve its input,
+   * assign or dispatch fail the step
+   */
+  private async runStep(taskId: string, stepId: string): Promise<void> {
+    let attempt: number | undefined;
+    
+    try {
+      const step = this.findStep(taskId, stepId);
+      
+      if (!step) {
+        return;
+      }
+      
+      if (step.when && !evaluateStepCondition(step.when, this.taskStore.getTask(taskId)!)) {
+        this.skipStep(taskId, step);
+        return;
+      }
+      
+      if (step.map) {
+        await this.startMapStep(taskId, step);
+        return;
+      }
+      
+      if (step.subWorkflow) {
+        await this.startSubWorkflow(taskId, step);
+        return;
+      }
+      
+      // Resolve input expressions against the outputs of earlier steps
+      let input: Record<string, any> | null;
+      try {
+        input = resolveStepInput(step.input, this.taskStore.getTask(taskId)!);
+      } catch (error) {
+        await this.recordStepResult({
+          taskId,
+          stepId,
+          success: false,
+          error: `Invalid input for step ${stepId}: ${error.message}`,
+          errorKind: StepErrorKind.INVALID_INPUT
+        });
+        return;
+      }
+      
+      // Select an agent for this step, moving on from earlier agents if the policy asks to
+      const { agentId, waiting } = await this.selectAgentWithinQuota(
+        taskId,
+        step,
+        step.retryPolicy?.switchAgent ? attemptedAgents(step) : []
+      );
+      
+      if (waiting) {
+        return;
+      }
+      
+      if (!agentId) {
+        console.warn(`No agent available for step ${stepId}`);
+        await this.recordStepResult({
+          taskId,
+          stepId,
+          success: false,
+          error: 'No agent available',
+          errorKind: StepErrorKind.NO_AGENT
+        });
+        return;
+      }
+      
+      // Another pass over the task may have picked up the step meanwhile
+      if (this.findStep(taskId, stepId)?.status !== StepStatus.PENDING) {
+        return;
+      }
+      
+      // Another step may have taken the agent's last free slot meanwhile
+      if (this.busyAgents().includes(agentId)) {
+        this.waitingTasks.add(taskId);
+        return;
+      }
+      
+      // Mark the step as assigned; it now counts as running instead of holding a slot
+      const task = this.updateWorkflow(taskId, workflow =>
+        this.workflowEngine.assignAgent(workflow, stepId, agentId)
+      );
+      this.dispatchingSteps.delete(stepSlotKey(taskId, stepId));
+      attempt = task.workflow.steps.find(s => s.id === stepId)!.attempts!.length;
+      
+      const agent = await this.agentRegistry.getAgent(agentId);
+      
+      if (!agent) {
+        throw new AgentError(`Assigned agent ${agentId} is no longer registered`);
+      }
+      
+      if (!this.stepDispatcher) {
+        throw new TaskError('No step dispatcher is configured');
+      }
+      
+      const dispatch = await this.stepDispatcher.dispatch({
+        task,
+        step: { ...task.workflow.steps.find(s => s.id === stepId)!, input },
+        attempt,
+        agent
+      });
+      
+      if (!dispatch.accepted) {
+        throw new AgentError(dispatch.error || `Agent ${agentId} did not accept step ${stepId}`);
+      }
+      
+      // An asynchronous agent may already have reported its result, or the attempt timed out
+      const current = this.findStep(taskId, stepId);
+      if (current?.status === StepStatus.ASSIGNED && current.attempts?.length === attempt) {
+        this.updateWorkflow(taskId, workflow =>
+          this.workflowEngine.updateStepStatus(workflow, stepId, StepStatus.RUNNING)
+        );
+      }
+      
+      // A result for an attempt that was stopped meanwhile is dropped
+      if (dispatch.result) {
+        await this.handleStepResult({ taskId, stepId, attempt, ...dispatch.result });
+      }
+    } catch (error) {
+      console.error(`Error dispatching step ${stepId}:`, error);
+      
+      const failure: StepExecutionResult = {
+        taskId,
+        stepId,
+        success: false,
+        error: error.message,
+        errorKind: StepErrorKind.DISPATCH_FAILED
+      };
+      
+      // Before the assignment the step still waits to be dispatched; after it,
+      // only the attempt started here is failed
+      const task = this.taskStore.getTask(taskId);
+      const pending = attempt === undefined &&
+        !!task && isTaskActive(task) &&
+        this.findStep(taskId, stepId)?.status === StepStatus.PENDING;
+      
+      if (pending || attempt !== undefined) {
+        await (pending ? this.recordStepResult(failure) : this.handleStepResult({ ...failure, attempt }))
+          .catch(resultError => console.error(`Error failing step ${stepId}:`, resultError));
+      }
+    } finally {
+      this.dispatchingSteps.delete(stepSlotKey(taskId, stepId));
+    }
+  }
+
+  /**
+   * Resolve the elements of a map step and start running them
+   * Each element gets the step input resolved with its item and index
+   */
+  private async startMapStep(taskId: string, step: WorkflowStep): Promise<void> {
+    const task = this.taskStore.getTask(taskId)!;
+    let items: MapItem[];
+    
+    try {
+      const elements = resolveTemplates(step.map!.items, task);
+      
+      if (!Array.isArray(elements)) {
+        throw new TaskError(`Map items of step ${step.id} do not resolve to an array`);
+      }
+      
+      items = elements.map((item, index) => ({
+        index,
+        input: resolveTemplates(step.input, task, { mapItem: { item, index } }),
+        status: StepStatus.PENDING
+      }));
+    } catch (error) {
+      await this.recordStepResult({
+        taskId,
+        stepId: step.id,
+        success: false,
+        error: `Invalid input for step ${step.id}: ${error.message}`,
+        errorKind: StepErrorKind.INVALID_INPUT
+      });
+      return;
+    }
+    
+    // Another pass over the task may have picked up the step meanwhile
+    if (this.findStep(taskId, step.id)?.status !== StepStatus.PENDING) {
+      return;
+    }
+    
+    this.updateWorkflow(taskId, workflow => this.workflowEngine.startMap(workflow, step.id, items));
+    await this.runMapItems(taskId, step.id);
+  }
+
+  /**
+   * Finish a map step once its outcome is decided, or start as many pending
+   * elements as its concurrency cap allows
+   */
+  private async runMapItems(taskId: string, stepId: string): Promise<void> {
+    const step = this.findStep(taskId, stepId);
+    
+    if (!step || step.status !== StepStatus.RUNNING) {
+      return;
+    }
+    
+    const outcome = mapOutcome(step);
+    
+    if (outcome.done) {
+      await this.handleStepResult({
+        taskId,
+        stepId,
+        success: outcome.success!,
+        output: outcome.success ? mapOutput(step) : undefined,
+        error: outcome.error
+      });
+      return;
+    }
+    
+    // A paused task starts its pending elements when it is resumed
+    if (this.taskStore.getTask(taskId)?.status !== TaskStatus.RUNNING) {
+      return;
+    }
+    
+    // Reserve the elements before selecting agents so concurrent passes do not start them twice
+    // Elements beyond the free step slots wait until running steps finish
+    const ready = nextMapItems(step);
+    const items = ready.slice(0, Math.max(this.freeStepSlots(), 0));
+    
+    if (items.length < ready.length) {
+      this.waitingTasks.add(taskId);
+    }
+    
+    this.updateWorkflow(taskId, workflow => items.reduce(
+      (updated, item) => this.workflowEngine.updateMapItem(updated, stepId, item.index, {
+        status: StepStatus.ASSIGNED,
+        startTime: new Date()
+      }),
+      workflow
+    ));
+    
+    await Promise.all(items.map(item => this.runMapItem(taskId, stepId, item)));
+  }
+
+  /**
+   * Select an agent for one element of a map step and dispatch it
+   * The agent sees the element as a step with an ID such as check_prices:3
+   */
+  private async runMapItem(taskId: string, stepId: string, item: MapItem): Promise<void> {
+    const itemId = mapItemId(stepId, item.index);
+    let attempt: number | undefined;
+    
+    try {
+      const step = this.findStep(taskId, stepId)!;
+      attempt = step.attempts!.length;
+      const { agentId, waiting } = await this.selectAgentWithinQuota(taskId, step, []);
+      
+      // Give the slot back until an agent frees up
+      if (waiting || (agentId && this.busyAgents().includes(agentId))) {
+        this.waitingTasks.add(taskId);
+        this.updateWorkflow(taskId, workflow =>
+          this.workflowEngine.updateMapItem(workflow, stepId, item.index, {
+            status: StepStatus.PENDING,
+            startTime: undefined
+          })
+        );
+        return;
+      }
+      
+      if (!agentId) {
+        await this.handleMapItemResult(taskId, stepId, item.index, {
+          taskId,
+          stepId: itemId,
+          attempt,
+          success: false,
+          error: 'No agent available'
+        });
+        return;
+      }
+      
+      const task = this.updateWorkflow(taskId, workflow =>
+        this.workflowEngine.updateMapItem(workflow, stepId, item.index, { assignedAgent: agentId })
+      );
+      
+      const agent = await this.agentRegistry.getAgent(agentId);
+      
+      if (!agent) {
+        throw new AgentError(`Assigned agent ${agentId} is no longer registered`);
+      }
+      
+      if (!this.stepDispatcher) {
+        throw new TaskError('No step dispatcher is configured');
+      }
+      
+      const dispatch = await this.stepDispatcher.dispatch({
+        task,
+        step: { ...step, id: itemId, input: item.input },
+        attempt,
+        agent
+      });
+      
+      if (!dispatch.accepted) {
+        throw new AgentError(dispatch.error || `Agent ${agentId} did not accept step ${itemId}`);
+      }
+      
+      // An asynchronous agent may already have reported its result, or the map step was retried
+      const current = this.findStep(taskId, stepId);
+      if (current?.mapItems?.[item.index]?.status === StepStatus.ASSIGNED && current.attempts?.length === attempt) {
+        this.updateWorkflow(taskId, workflow =>
+          this.workflowEngine.updateMapItem(workflow, stepId, item.index, { status: StepStatus.RUNNING })
+        );
+      }
+      
+      if (dispatch.result) {
+        await this.handleMapItemResult(taskId, stepId, item.index, { taskId, stepId: itemId, attempt, ...dispatch.result });
+      }
+    } catch (error) {
+      console.error(`Error dispatching step ${itemId}:`, error);
+      
+      await this.handleMapItemResult(taskId, stepId, item.index, {
+        taskId,
+        stepId: itemId,
+        attempt,
+        success: false,
+        error: error.message
+      })
+        .catch(resultError => console.error(`Error failing step ${itemId}:`, resultError));
+    }
+  }
+
+  /**
+   * Record the result of one element of a map step and move the step on
+   * Results for elements of an earlier attempt or that already finished are ignored
+   */
+  private async handleMapItemResult(
+    taskId: string,
+    stepId: string,
+    index: number,
+    result: StepExecutionResult
+  ): Promise<void> {
+    const step = this.findStep(taskId, stepId);
+    const item = step?.mapItems?.[index];
+    
+    if (
+      !step ||
+      step.status !== StepStatus.RUNNING ||
+      !item ||
+      !isMapItemActive(item) ||
+      (result.attempt !== undefined && result.attempt !== step.attempts?.length)
+    ) {
+      return;
+    }
+    
+    const endTime = new Date();
+    this.updateWorkflow(taskId, workflow =>
+      this.workflowEngine.updateMapItem(workflow, stepId, index, {
+        status: result.success ? StepStatus.COMPLETED : StepStatus.FAILED,
+        output: result.output,
+        error: result.error,
+        endTime
+      })
+    );
+    
+    if (item.assignedAgent && item.startTime) {
+      const executionTime = endTime.getTime() - item.startTime.getTime();
+      this.agentRegistry.recordStepOutcome(item.assignedAgent, result.success, executionTime).catch(error => {
+        console.error(`Error recording outcome of step ${result.stepId}:`, error);
+      });
+    }
+    
+    this.schedule();
+    await this.runMapItems(taskId, stepId);
+  }
+
+  /**
+   * Run the workflow of a sub-workflow step as a child task
+   * The resolved step input provides the {{params.<name>}} values, checked
+   * against the parameters declared by the template
+   */
+  private async startSubWorkflow(taskId: string, step: WorkflowStep): Promise<void> {
+    const parent = this.taskStore.getTask(taskId)!;
+    const subWorkflow = step.subWorkflow!;
+    let child: Task;
+    
+    try {
+      const input = resolveStepInput(step.input, parent) || {};
+      const values = subWorkflow.parameters
+        ? resolveParameterValues(subWorkflow.parameters, input, `Sub-workflow of step ${step.id}`)
+        : input;
+      
+      child = await this.createTask({
+        name: `${parent.name} / ${step.name}`,
+        description: `Sub-workflow of step ${step.id} of task ${parent.id}`,
+        creator: parent.creator,
+        workflow: applyTemplateParameters(subWorkflow.workflow, values),
+        budget: parent.budget,
+        deadline: parent.deadline,
+        template: subWorkflow.resolvedTemplate,
+        parent: { taskId, stepId: step.id },
+        priority: parent.priority
+      });
+    } catch (error) {
+      await this.recordStepResult({
+        taskId,
+        stepId: step.id,
+        success: false,
+        error: `Invalid input for step ${step.id}: ${error.message}`,
+        errorKind: StepErrorKind.INVALID_INPUT
+      });
+      return;
+    }
+    
+    // Another pass over the task may have picked up the step meanwhile
+    if (this.findStep(taskId, step.id)?.status !== StepStatus.PENDING) {
+      this.taskStore.deleteTask(child.id);
+      return;
+    }
+    
+    this.updateWorkflow(taskId, workflow => this.workflowEngine.startSubWorkflow(workflow, step.id, child.id));
+    
+    const execution = await this.executeTask(child.id);
+    if (!execution.success) {
+      await this.handleStepResult({
+        taskId,
+        stepId: step.id,
+        success: false,
+        error: `Sub-workflow could not start: ${execution.error}`,
+        errorKind: StepErrorKind.DISPATCH_FAILED
+      });
+    }
+  }
+
+  /**
+   * Report the end of a child task to its sub-workflow step
+   * Only the current child of a running step is reported, so a parent that
+   * is already stopping is not updated twice
+   */
+  private async notifyParent(child: Task): Promise<void> {
+    if (!child.parent) {
+      return;
+    }
+    
+    const { taskId, stepId } = child.parent;
+    const parent = this.taskStore.getTask(taskId);
+    const step = this.findStep(taskId, stepId);
+    
+    if (
+      !parent ||
+      !isTaskActive(parent) ||
+      !step ||
+      step.status !== StepStatus.RUNNING ||
+      step.childTaskId !== child.id
+    ) {
+      return;
+    }
+    
+    const success = child.status === TaskStatus.COMPLETED;
+    await this.handleStepResult({
+      taskId,
+      stepId,
+      success,
+      output: success ? child.result : undefined,
+      error: success
+        ? undefined
+        : `Sub-workflow ${child.status === TaskStatus.CANCELED ? 'was canceled' : 'failed'}: ${child.error || 'no error given'}`
+    });
+  }
+
+  /**
+   * Cancel the child task of a sub-workflow step if it is still running
+   */
+  private async cancelChildTask(step: WorkflowStep): Promise<void> {
+    const child = step.childTaskId ? this.taskStore.getTask(step.childTaskId) : undefined;
+    
+    if (child && isTaskActive(child)) {
+      await this.cancelTask(child.id);
+    }
+  }
+
+  /**
+   * Cancel the running child tasks of a task that stopped
+   */
+  private async cancelChildTasks(task: Task): Promise<void> {
+    for (const step of task.workflow.steps) {
+      await this.cancelChildTask(step);
+    }
+  }
+
+  /**
+   * Resolve the template references of sub-workflows, including nested ones
+   * The template's workflow and parameters are copied into the step, so the
+   * task keeps using the version it was created with
+   */
+  private async resolveSubWorkflows(workflow: Workflow, depth = 0): Promise<Workflow> {
+    if (!workflow || !Array.isArray(workflow.steps) || !workflow.steps.some(step => step.subWorkflow)) {
+      return workflow;
+    }
+    
+    if (depth >= MAX_SUBWORKFLOW_DEPTH) {
+      throw new ValidationError(`Sub-workflows cannot be nested more than ${MAX_SUBWORKFLOW_DEPTH} levels deep`);
+    }
+    
+    const steps = await Promise.all(workflow.steps.map(async step => {
+      const subWorkflow = step.subWorkflow;
+      
+      if (!subWorkflow) {
+        return step;
+      }
+      
+      if (subWorkflow.workflow) {
+        return { ...step, subWorkflow: { ...subWorkflow, workflow: await this.resolveSubWorkflows(subWorkflow.workflow, depth + 1) } };
+      }
+      
+      if (!subWorkflow.template) {
+        throw new ValidationError(`Sub-workflow of step ${step.id} needs a workflow or a template`);
+      }
+      
+      if (!this.templateStore) {
+        throw new ValidationError('Sub-workflow templates are not available');
+      }
+      
+      const template = await this.templateStore.resolve(subWorkflow.template);
+      
+      return {
+        ...step,
+        subWorkflow: {
+          ...subWorkflow,
+          workflow: await this.resolveSubWorkflows(template.workflow, depth + 1),
+          resolvedTemplate: { name: template.name, version: template.version },
+          parameters: template.parameters
+        }
+      };
+    }));
+    
+    return { ...workflow, steps };
+  }
+
+  /**
+   * Include the child tasks of sub-workflow steps, recursively
+   */
+  private withChildTasks(task: Task): Task {
+    if (!task.workflow.steps.some(step => step.childTaskId)) {
+      return task;
+    }
+    
+    return {
+      ...task,
+      workflow: {
+        ...task.workflow,
+        steps: task.workflow.steps.map(step => {
+          const child = step.childTaskId ? this.taskStore.getTask(step.childTaskId) : undefined;
+          return child ? { ...step, childTask: this.withChildTasks(child) } : step;
+        })
+      }
+    };
+  }
+
+  /**
+   * Start queued tasks that fit within the limits, highest priority first,
+   * then continue the tasks whose steps were held back by the limits
+   */
+  private schedule(): void {
+    const now = Date.now();
+    
+    for (const task of this.taskStore.listTasks(TaskStatus.PENDING).sort(compareQueuedTasks)) {
+      // Overdue tasks are left to the deadline watchdog
+      if (task.deadline && task.deadline.getTime() <= now) {
+        continue;
+      }
+      
+      if (this.canStartTask(task)) {
+        this.startTask(task);
+      }
+    }
+    
+    const waiting = Array.from(this.waitingTasks)
+      .map(id => this.taskStore.getTask(id))
+      .filter((task): task is Task => task?.status === TaskStatus.RUNNING)
+      .sort(compareQueuedTasks);
+    this.waitingTasks.clear();
+    
+    for (const task of waiting) {
+      this.continueTask(task.id);
+    }
+  }
+
+  /**
+   * Check whether a task may start without exceeding the task limits
+   * Child tasks run as part of their parent and always start
+   */
+  private canStartTask(task: Task): boolean {
+    const { maxRunningTasks, maxTasksPerCreator } = this.scheduling;
+    
+    if (task.parent || (maxRunningTasks === undefined && maxTasksPerCreator === undefined)) {
+      return true;
+    }
+    
+    const running = this.activeTasks().filter(t => !t.parent);
+    
+    return (maxRunningTasks === undefined || running.length < maxRunningTasks) &&
+      (maxTasksPerCreator === undefined || running.filter(t => t.creator === task.creator).length < maxTasksPerCreator);
+  }
+
+  /**
+   * Move a queued task to RUNNING and start processing it
+   */
+  private startTask(task: Task): void {
+    const now = new Date();
+    
+    this.taskStore.saveTask({
+      ...task,
+      status: TaskStatus.RUNNING,
+      startedAt: now,
+      updatedAt: now
+    });
+    this.updateExecution(task.id, current => {
+      current.startTime = now;
     });
     
-    // Wait for all assignments to complete
-    await Promise.all(assignmentPromises);
+    this.processTask(task.id).catch(error => {
+      console.error(`Error processing task ${task.id}:`, error);
+      this.handleTaskFailure(task.id, error.message).catch(failure => {
+        console.error(`Error failing task ${task.id}:`, failure);
+      });
+    });
+  }
+
+  /**
+   * Start the ready steps of a running task and the pending elements of its
+   * map steps
+   */
+  private continueTask(id: string): void {
+    const mapSteps = (this.taskStore.getTask(id)?.workflow.steps || [])
+      .filter(step => step.map && step.status === StepStatus.RUNNING);
+    
+    Promise.all([
+      ...mapSteps.map(step => this.runMapItems(id, step.id)),
+      this.processTask(id)
+    ]).catch(error => {
+      console.error(`Error processing task ${id}:`, error);
+      this.handleTaskFailure(id, error.message).catch(failure => {
+        console.error(`Error failing task ${id}:`, failure);
+      });
+    });
+  }
+
+  /**
+   * Process a task once a retry's backoff has passed
+   * Timers may fire slightly before the wall clock reaches the retry time,
+   * when the step would not be ready yet, so the wait is repeated until it is
+   */
+  private processTaskAt(id: string, at: Date): void {
+    setTimeout(() => {
+      if (Date.now() < at.getTime()) {
+        this.processTaskAt(id, at);
+        return;
+      }
+      
+      this.processTask(id).catch(error => {
+        console.error(`Error processing task ${id}:`, error);
+        this.handleTaskFailure(id, error.message).catch(failure => {
+          console.error(`Error failing task ${id}:`, failure);
+        });
+      });
+    }, Math.max(at.getTime() - Date.now(), 0));
+  }
+
+  /**
+   * Reserve slots for the ready steps of a task within maxRunningSteps
+   * Map and sub-workflow steps need no slot of their own, and steps another
+   * pass is dispatching are left out. The task is continued once slots free
+   * up if steps were held back.
+   */
+  private reserveStepSlots(taskId: string, steps: WorkflowStep[]): WorkflowStep[] {
+    let free = this.freeStepSlots();
+    const candidates = steps.filter(step => !this.dispatchingSteps.has(stepSlotKey(taskId, step.id)));
+    
+    const reserved = candidates.filter(step => {
+      if (step.map || step.subWorkflow) {
+        return true;
+      }
+      
+      if (free <= 0) {
+        return false;
+      }
+      
+      free--;
+      this.dispatchingSteps.add(stepSlotKey(taskId, step.id));
+      return true;
+    });
+    
+    if (reserved.length < candidates.length) {
+      this.waitingTasks.add(taskId);
+    }
+    
+    return reserved;
+  }
+
+  /**
+   * Count the step slots left under maxRunningSteps
+   */
+  private freeStepSlots(): number {
+    const limit = this.scheduling.maxRunningSteps;
+    
+    if (limit === undefined) {
+      return Infinity;
+    }
+    
+    return limit - countActiveSteps(this.activeTasks()).total - this.dispatchingSteps.size;
+  }
+
+  /**
+   * List the agents that hold as many steps as maxStepsPerAgent allows
+   */
+  private busyAgents(): string[] {
+    const quota = this.scheduling.maxStepsPerAgent;
+    
+    if (quota === undefined) {
+      return [];
+    }
+    
+    return Array.from(countActiveSteps(this.activeTasks()).byAgent)
+      .filter(([, count]) => count >= quota)
+      .map(([agentId]) => agentId);
+  }
+
+  /**
+   * Select an agent for a step among those below their step quota
+   * When only agents at their quota match, the step waits for one of them
+   * instead of failing, and its task is continued once steps finish
+   */
+  private async selectAgentWithinQuota(
+    taskId: string,
+    step: WorkflowStep,
+    excludeAgents: string[]
+  ): Promise<{ agentId: string | null; waiting: boolean }> {
+    const busy = this.busyAgents();
+    const agentId = await this.agentSelector.selectAgentForStep(step, this.agentRegistry, [...excludeAgents, ...busy]);
+    
+    if (agentId || busy.length === 0) {
+      return { agentId, waiting: false };
+    }
+    
+    const waiting = !!(await this.agentSelector.selectAgentForStep(step, this.agentRegistry, excludeAgents));
+    
+    if (waiting) {
+      this.waitingTasks.add(taskId);
+    }
+    
+    return { agentId: null, waiting };
+  }
+
+  private activeTasks(): Task[] {
+    return [...this.taskStore.listTasks(TaskStatus.RUNNING), ...this.taskStore.listTasks(TaskStatus.PAUSED)];
+  }
+
+  /**
+   * Skip a step whose condition is false, with its exclusive descendants if
+   * the step asks for it, then continue with the steps that are now ready
+   */
+  private skipStep(taskId: string, step: WorkflowStep): void {
+    const task = this.taskStore.getTask(taskId)!;
+    const pendingIds = task.workflow.steps
+      .filter(s => s.status === StepStatus.PENDING)
+      .map(s => s.id);
+    const stepIds = [step.id, ...(step.skipDescendants ? exclusiveDescendants(step.id, task.workflow) : [])]
+      .filter(id => pendingIds.includes(id));
+    
+    // Another pass over the task may have handled the step meanwhile
+    if (!stepIds.includes(step.id)) {
+      return;
+    }
+    
+    this.updateWorkflow(taskId, workflow => this.workflowEngine.skipSteps(workflow, stepIds));
+    
+    this.updateExecution(taskId, current => {
+      current.skippedSteps.push(...stepIds);
+    });
+    
+    this.processTask(taskId).catch(error => {
+      console.error(`Error processing task ${taskId}:`, error);
+      this.handleTaskFailure(taskId, error.message).catch(failure => {
+        console.error(`Error failing task ${taskId}:`, failure);
+      });
+    });
+  }
+
+  private findStep(taskId: string, stepId: string): WorkflowStep | undefined {
+    return this.taskStore.getTask(taskId)?.workflow.steps.find(step => step.id === stepId);
+  }
+
+  /**
+   * Find the step a result is reported for, and what in it awaits the result
+   * Elements of a map step report under IDs such as check_prices:3, and
+   * compensating actions under IDs such as swap:compensate; both report for
+   * the current attempt of their step. Nothing awaits a result unless it is
+   * assigned or running in a task that still runs or compensates, and the
+   * attempt, if given, is the current one.
+   */
+  private findResultTarget(
+    task: Task,
+    stepId: string,
+    attempt?: number
+  ): { step?: WorkflowStep; awaiting?: WorkflowStep | MapItem | CompensationRun } {
+    const isStep = task.workflow.steps.some(s => s.id === stepId);
+    const compensatedStepId = isStep ? null : parseCompensationId(stepId);
+    const mapItem = isStep || compensatedStepId ? null : parseMapItemId(stepId);
+    const step = task.workflow.steps.find(s => s.id === (compensatedStepId ?? mapItem?.stepId ?? stepId));
+    
+    if (!step) {
+      return {};
+    }
+    
+    if (attempt !== undefined && attempt !== step.attempts?.length) {
+      return { step };
+    }
+    
+    if (compensatedStepId) {
+      const run = step.compensation;
+      const awaiting = task.compensationStatus === CompensationStatus.RUNNING && run && isCompensationActive(run);
+      return { step, awaiting: awaiting ? run : undefined };
+    }
+    
+    if (!isTaskActive(task)) {
+      return { step };
+    }
+    
+    const awaiting = mapItem
+      ? (step.status === StepStatus.RUNNING ? step.mapItems?.[mapItem.index] : undefined)
+      : step;
+    
+    return {
+      step,
+      awaiting: awaiting && (awaiting.status === StepStatus.ASSIGNED || awaiting.status === StepStatus.RUNNING)
+        ? awaiting
+        : undefined
+    };
+  }
+
+  /**
+   * Apply a change to the current workflow of a task
+   * Always starts from the stored task, so concurrent step updates are kept
+   */
+  private updateWorkflow(taskId: string, update: (workflow: Workflow) => Workflow): Task {
+    const task = this.taskStore.getTask(taskId);
+    
+    if (!task) {
+      throw new NotFoundError('Task', taskId);
+    }
+    
+    const updatedTask: Task = {
+      ...task,
+      workflow: update(task.workflow),
+      updatedAt: new Date()
+    };
+    
+    this.taskStore.saveTask(updatedTask);
+    return updatedTask;
+  }
+
+  /**
+   * Apply a change to the current execution record of a task
+   */
+  private updateExecution(taskId: string, update: (execution: TaskExecution) => void): void {
+    const execution = this.taskStore.getExecution(taskId);
+    
+    if (!execution) {
+      throw new NotFoundError('Task execution', taskId);
+    }
+    
+    update(execution);
+    execution.lastUpdated = new Date();
+    this.taskStore.saveExecution(execution);
   }
 
   /**
    * Handle task completion
    */
   private async handleTaskCompletion(id: string): Promise<void> {
-    const task = this.tasks.get(id);
+    const task = this.taskStore.getTask(id);
     
     if (!task) {
       return;
@@ -415,31 +1801,322 @@ export class InMemoryTaskOrchestrationEngine implements TaskOrchestrationEngine
       error: failedSteps.length > 0
         ? `Task failed due to ${failedSteps.length} failed steps`
         : undefined,
+      errorCode: failedSteps.length > 0 ? TaskErrorCode.STEPS_FAILED : undefined,
       completedAt: new Date(),
       updatedAt: new Date()
     };
     
-    this.tasks.set(id, updatedTask);
+    this.taskStore.saveTask(updatedTask);
+    await this.notifyParent(updatedTask);
+    
+    if (finalStatus === TaskStatus.FAILED) {
+      this.compensateTask(id);
+    }
+    
+    this.schedule();
   }
 
   /**
-   * Handle task failure
+   * Stop a task that ran past its deadline
+   * Steps still waiting for a result are failed so late results are rejected
    */
-  private async handleTaskFailure(id: string, error: string): Promise<void> {
-    const task = this.tasks.get(id);
+  private async handleTaskDeadline(id: string): Promise<void> {
+    const task = this.taskStore.getTask(id);
     
     if (!task) {
       return;
     }
     
+    const error = `Task deadline exceeded at ${task.deadline!.toISOString()}`;
+    
+    const updatedTask: Task = {
+      ...task,
+      workflow: this.stopSteps(task, error, StepErrorKind.TIMEOUT),
+      status: this.deadlineAction === 'cancel' ? TaskStatus.CANCELED : TaskStatus.FAILED,
+      error,
+      errorCode: TaskErrorCode.DEADLINE_EXCEEDED,
+      completedAt: new Date(),
+      updatedAt: new Date()
+    };
+    
+    this.taskStore.saveTask(updatedTask);
+    await this.cancelChildTasks(updatedTask);
+    await this.notifyParent(updatedTask);
+    this.compensateTask(id);
+    this.schedule();
+  }
+
+  /**
+   * Handle task failure
+   * Steps still running are stopped and completed steps are compensated
+   */
+  private async handleTaskFailure(id: string, error: string, errorCode?: TaskErrorCode): Promise<void> {
+    const task = this.taskStore.getTask(id);
+    
+    // A task that already finished keeps its outcome
+    if (
+      !task ||
+      task.status === TaskStatus.COMPLETED ||
+      task.status === TaskStatus.FAILED ||
+      task.status === TaskStatus.CANCELED
+    ) {
+      return;
+    }
+    
     const updatedTask: Task = {
       ...task,
+      workflow: this.stopSteps(task, error, StepErrorKind.CANCELED),
       status: TaskStatus.FAILED,
       error,
+      errorCode,
       completedAt: new Date(),
       updatedAt: new Date()
     };
     
-    this.tasks.set(id, updatedTask);
+    this.taskStore.saveTask(updatedTask);
+    await this.cancelChildTasks(updatedTask);
+    await this.notifyParent(updatedTask);
+    this.compensateTask(id);
+    this.schedule();
+  }
+
+  /**
+   * Fail the steps of a stopping task that are still waiting for a result,
+   * so late results are rejected, and tell the agents holding them to stop
+   */
+  private stopSteps(task: Task, error: string, errorKind: StepErrorKind): Workflow {
+    let workflow = task.workflow;
+    
+    for (const step of task.workflow.steps) {
+      if (step.status !== StepStatus.ASSIGNED && step.status !== StepStatus.RUNNING) {
+        continue;
+      }
+    
+      workflow = this.workflowEngine.finishAttempt(workflow, step.id, { success: false, error, errorKind });
+      workflow = this.workflowEngine.updateStepStatus(workflow, step.id, StepStatus.FAILED, undefined, error);
+    
+      if (step.assignedAgent) {
+        this.sendCancellation(task, step, step.assignedAgent, error);
+      }
+    
+      for (const item of (step.mapItems || []).filter(isMapItemActive)) {
+        if (item.assignedAgent) {
+          const itemStep = { ...step, id: mapItemId(step.id, item.index), input: item.input };
+          this.sendCancellation(task, itemStep, item.assignedAgent, error);
+        }
+      }
+    }
+    
+    return workflow;
+  }
+
+  /**
+   * Tell an agent to stop working on a step
+   * Cancellation is best effort, so failures are only logged
+   */
+  private sendCancellation(task: Task, step: WorkflowStep, agentId: string, reason: string): void {
+    const dispatcher = this.stepDispatcher;
+    
+    if (!dispatcher) {
+      return;
+    }
+    
+    this.agentRegistry.getAgent(agentId)
+      .then(agent => (agent ? dispatcher.cancel({ task, step, agent, reason }) : undefined))
+      .catch(error => console.error(`Error canceling step ${step.id} with agent ${agentId}:`, error));
+  }
+
+  /**
+   * Start undoing the completed steps of a stopped task that have a
+   * compensating action, in reverse dependency order
+   */
+  private compensateTask(id: string): void {
+    const task = this.taskStore.getTask(id);
+    const stepIds = task && !task.compensationStatus ? stepsToCompensate(task.workflow) : [];
+    
+    if (!task || stepIds.length === 0) {
+      return;
+    }
+    
+    this.taskStore.saveTask({
+      ...task,
+      workflow: stepIds.reduce(
+        (workflow, stepId) => this.workflowEngine.updateCompensation(workflow, stepId, { status: StepStatus.PENDING }),
+        task.workflow
+      ),
+      compensationStatus: CompensationStatus.RUNNING,
+      updatedAt: new Date()
+    });
+    
+    this.runCompensations(id).catch(error => {
+      console.error(`Error compensating task ${id}:`, error);
+    });
+  }
+
+  /**
+   * Record the outcome of the compensations of a task once they are done, or
+   * start the ones that no longer wait on others
+   * Once a compensation failed, those that have not started are skipped
+   */
+  private async runCompensations(taskId: string): Promise<void> {
+    let task = this.taskStore.getTask(taskId);
+    
+    if (!task || task.compensationStatus !== CompensationStatus.RUNNING) {
+      return;
+    }
+    
+    if (task.workflow.steps.some(step => step.compensation?.status === StepStatus.FAILED)) {
+      const pendingIds = task.workflow.steps
+        .filter(step => step.compensation?.status === StepStatus.PENDING)
+        .map(step => step.id);
+    
+      task = this.updateWorkflow(taskId, workflow => pendingIds.reduce(
+        (updated, stepId) => this.workflowEngine.updateCompensation(updated, stepId, {
+          status: StepStatus.SKIPPED,
+          endTime: new Date()
+        }),
+        workflow
+      ));
+    }
+    
+    const outcome = compensationOutcome(task.workflow);
+    
+    if (outcome.done) {
+      this.taskStore.saveTask({
+        ...task,
+        compensationStatus: outcome.success ? CompensationStatus.COMPLETED : CompensationStatus.FAILED,
+        updatedAt: new Date()
+      });
+      return;
+    }
+    
+    // Reserve the compensations before selecting agents so concurrent passes do not start them twice
+    const steps = nextCompensations(task.workflow);
+    this.updateWorkflow(taskId, workflow => steps.reduce(
+      (updated, step) => this.workflowEngine.updateCompensation(updated, step.id, {
+        status: StepStatus.ASSIGNED,
+        startTime: new Date()
+      }),
+      workflow
+    ));
+    
+    await Promise.all(steps.map(step => this.runCompensation(taskId, step.id)));
+  }
+
+  /**
+   * Select an agent for the compensating action of a step and dispatch it
+   * The agent sees the action as a step with an ID such as swap:compensate
+   */
+  private async runCompensation(taskId: string, stepId: string): Promise<void> {
+    const actionId = compensationId(stepId);
+    
+    try {
+      const step = this.findStep(taskId, stepId)!;
+      const compensate = step.compensate!;
+      const action: WorkflowStep = {
+        ...step,
+        id: actionId,
+        name: compensate.name || `Compensate ${step.name}`,
+        agentRequirements: compensate.agentRequirements || step.agentRequirements,
+        input: resolveTemplates(compensate.input, this.taskStore.getTask(taskId)!)
+      };
+    
+      const agentId = await this.agentSelector.selectAgentForStep(action, this.agentRegistry);
+    
+      if (!agentId) {
+        await this.handleCompensationResult(taskId, stepId, {
+          taskId,
+          stepId: actionId,
+          success: false,
+          error: 'No agent available'
+        });
+        return;
+      }
+    
+      const task = this.updateWorkflow(taskId, workflow =>
+        this.workflowEngine.updateCompensation(workflow, stepId, { assignedAgent: agentId })
+      );
+    
+      const agent = await this.agentRegistry.getAgent(agentId);
+    
+      if (!agent) {
+        throw new AgentError(`Assigned agent ${agentId} is no longer registered`);
+      }
+    
+      if (!this.stepDispatcher) {
+        throw new TaskError('No step dispatcher is configured');
+      }
+    
+      const dispatch = await this.stepDispatcher.dispatch({ task, step: action, attempt: step.attempts!.length, agent });
+    
+      if (!dispatch.accepted) {
+        throw new AgentError(dispatch.error || `Agent ${agentId} did not accept step ${actionId}`);
+      }
+    
+      // An asynchronous agent may already have reported its result
+      if (this.findStep(taskId, stepId)?.compensation?.status === StepStatus.ASSIGNED) {
+        this.updateWorkflow(taskId, workflow =>
+          this.workflowEngine.updateCompensation(workflow, stepId, { status: StepStatus.RUNNING })
+        );
+      }
+    
+      if (dispatch.result) {
+        await this.handleCompensationResult(taskId, stepId, { taskId, stepId: actionId, ...dispatch.result });
+      }
+    } catch (error) {
+      console.error(`Error dispatching step ${actionId}:`, error);
+    
+      await this.handleCompensationResult(taskId, stepId, {
+        taskId,
+        stepId: actionId,
+        success: false,
+        error: error.message
+      })
+        .catch(resultError => console.error(`Error failing step ${actionId}:`, resultError));
+    }
+  }
+
+  /**
+   * Record the result of a compensating action and move on to the next ones
+   * Results for actions that are not running are ignored
+   */
+  private async handleCompensationResult(
+    taskId: string,
+    stepId: string,
+    result: StepExecutionResult
+  ): Promise<void> {
+    const run = this.findStep(taskId, stepId)?.compensation;
+    
+    if (!run || !isCompensationActive(run)) {
+      return;
+    }
+    
+    const endTime = new Date();
+    this.updateWorkflow(taskId, workflow =>
+      this.workflowEngine.updateCompensation(workflow, stepId, {
+        status: result.success ? StepStatus.COMPLETED : StepStatus.FAILED,
+        output: result.output,
+        error: result.error,
+        endTime
+      })
+    );
+    
+    if (run.assignedAgent && run.startTime) {
+      const executionTime = endTime.getTime() - run.startTime.getTime();
+      this.agentRegistry.recordStepOutcome(run.assignedAgent, result.success, executionTime).catch(error => {
+        console.error(`Error recording outcome of step ${result.stepId}:`, error);
+      });
+    }
+    
+    await this.runCompensations(taskId);
   }
-}
\ No newline at end of file
+}
+
+// Tasks that may still have steps running
+function isTaskActive(task: Task): boolean {
+  return task.status === TaskStatus.RUNNING || task.status === TaskStatus.PAUSED;
+}
+
+function stepSlotKey(taskId: string, stepId: string): string {
+  return `${taskId}/${stepId}`;
+}
@@ -1,7 +1,16 @@
 export * from './types';
 export * from './workflow';
 export * from './engine';
+export * from './task-store';
+export * from './sqlite-task-store';
 export * from './agent-selector';
+export * from './dispatcher';
+export * from './retry';
+export * from './templating';
+export * from './conditions';
+export * from './map';
+export * from './compensation';
+export * from './scheduling';
 
 export { DefaultWorkflowEngine as WorkflowEngineImpl } from './workflow';
 export { InMemoryTaskOrchestrationEngine as TaskOrchestrationEngineImpl } from './engine';
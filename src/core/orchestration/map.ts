@@ -0,0 +1,93 @@
+import { MapItem, StepMap, StepStatus, WorkflowStep } from '../types';
+
+// Separates the step ID from the element index in the ID of a map item
+const MAP_ITEM_SEPARATOR = ':';
+
+/**
+ * Check that a map configuration is usable
+ */
+export function isValidStepMap(map: StepMap): boolean {
+  if (typeof map.items !== 'string' && !Array.isArray(map.items)) {
+    return false;
+  }
+
+  if (map.concurrency !== undefined && !(Number.isInteger(map.concurrency) && map.concurrency > 0)) {
+    return false;
+  }
+
+  return map.maxFailures === undefined || (Number.isInteger(map.maxFailures) && map.maxFailures >= 0);
+}
+
+/**
+ * Get the ID agents see for an element of a map step, e.g. check_prices:3
+ */
+export function mapItemId(stepId: string, index: number): string {
+  return `${stepId}${MAP_ITEM_SEPARATOR}${index}`;
+}
+
+/**
+ * Split the ID of a map item into its step ID and element index
+ * Returns null for IDs of regular steps
+ */
+export function parseMapItemId(id: string): { stepId: string; index: number } | null {
+  const match = id.match(/^(.+):(\d+)$/);
+
+  return match ? { stepId: match[1], index: Number(match[2]) } : null;
+}
+
+/**
+ * Get the pending elements to start next without exceeding the concurrency cap
+ */
+export function nextMapItems(step: WorkflowStep): MapItem[] {
+  const items = step.mapItems || [];
+  const active = items.filter(item => isMapItemActive(item)).length;
+  const capacity = (step.map?.concurrency ?? items.length) - active;
+
+  return items
+    .filter(item => item.status === StepStatus.PENDING)
+    .slice(0, Math.max(capacity, 0));
+}
+
+/**
+ * Check whether an element was started and has not finished
+ */
+export function isMapItemActive(item: MapItem): boolean {
+  return item.status === StepStatus.ASSIGNED || item.status === StepStatus.RUNNING;
+}
+
+/**
+ * Decide the outcome of a map step from its elements
+ * The step fails as soon as more elements failed than it tolerates, and
+ * completes once every element finished
+ */
+export function mapOutcome(step: WorkflowStep): { done: boolean; success?: boolean; error?: string } {
+  const items = step.mapItems || [];
+  const failed = items.filter(item => item.status === StepStatus.FAILED);
+
+  if (failed.length > (step.map?.maxFailures ?? 0)) {
+    return {
+      done: true,
+      success: false,
+      error: `${failed.length} of ${items.length} items failed; item ${failed[0].index}: ${failed[0].error}`
+    };
+  }
+
+  const finished = items.every(item => item.status === StepStatus.COMPLETED || item.status === StepStatus.FAILED);
+
+  return finished ? { done: true, success: true } : { done: false };
+}
+
+/**
+ * Collect the outputs of the elements in order
+ * Failed elements leave null in results and are listed in failures
+ */
+export function mapOutput(step: WorkflowStep): Record<string, any> {
+  const items = step.mapItems || [];
+
+  return {
+    results: items.map(item => (item.status === StepStatus.COMPLETED ? item.output ?? null : null)),
+    failures: items
+      .filter(item => item.status === StepStatus.FAILED)
+      .map(item => ({ index: item.index, error: item.error }))
+  };
+}
@@ -0,0 +1,67 @@
+import { StepErrorKind, StepRetryPolicy, WorkflowStep } from '../types';
+
+const DEFAULT_INITIAL_DELAY = 1000;
+const DEFAULT_MULTIPLIER = 2;
+
+/**
+ * Check that a retry policy is usable
+ */
+export function isValidRetryPolicy(policy: StepRetryPolicy): boolean {
+  if (!Number.isInteger(policy.maxAttempts) || policy.maxAttempts < 1) {
+    return false;
+  }
+
+  if (policy.backoff) {
+    const { initialDelay, multiplier, maxDelay } = policy.backoff;
+
+    if (!(initialDelay >= 0) || (multiplier !== undefined && !(multiplier >= 1))) {
+      return false;
+    }
+
+    if (maxDelay !== undefined && !(maxDelay >= initialDelay)) {
+      return false;
+    }
+  }
+
+  return !policy.retryOn || policy.retryOn.every(kind => Object.values(StepErrorKind).includes(kind));
+}
+
+/**
+ * Check whether a step should be attempted again after a failure
+ */
+export function shouldRetryStep(step: WorkflowStep, errorKind: StepErrorKind): boolean {
+  const policy = step.retryPolicy;
+
+  // Outputs of completed steps do not change, so the input would fail again
+  if (!policy || errorKind === StepErrorKind.INVALID_INPUT) {
+    return false;
+  }
+
+  const attempts = step.attempts?.length ?? 0;
+
+  return attempts < policy.maxAttempts &&
+    (!policy.retryOn || policy.retryOn.includes(errorKind));
+}
+
+/**
+ * Get the delay before the next attempt, in milliseconds
+ * The delay grows exponentially with the number of failed attempts
+ */
+export function retryDelay(policy: StepRetryPolicy, failedAttempts: number): number {
+  const initialDelay = policy.backoff?.initialDelay ?? DEFAULT_INITIAL_DELAY;
+  const multiplier = policy.backoff?.multiplier ?? DEFAULT_MULTIPLIER;
+  const delay = initialDelay * Math.pow(multiplier, Math.max(failedAttempts - 1, 0));
+
+  return policy.backoff?.maxDelay !== undefined
+    ? Math.min(delay, policy.backoff.maxDelay)
+    : delay;
+}
+
+/**
+ * Get the agents that already attempted a step, to avoid on retry
+ */
+export function attemptedAgents(step: WorkflowStep): string[] {
+  return (step.attempts || [])
+    .map(attempt => attempt.agentId)
+    .filter((agentId): agentId is string => !!agentId);
+}
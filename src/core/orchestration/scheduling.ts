@@ -0,0 +1,56 @@
+import { StepStatus, Task } from '../types';
+
+/**
+ * Order queued tasks: highest priority first, then oldest first
+ */
+export function compareQueuedTasks(a: Task, b: Task): number {
+  return (b.priority ?? 0) - (a.priority ?? 0) ||
+    a.createdAt.getTime() - b.createdAt.getTime() ||
+    a.id.localeCompare(b.id);
+}
+
+/**
+ * Get the 1-based position of a task in the queue, or undefined when it is
+ * not queued
+ */
+export function queuePosition(task: Task, queued: Task[]): number | undefined {
+  const index = [...queued].sort(compareQueuedTasks).findIndex(t => t.id === task.id);
+
+  return index === -1 ? undefined : index + 1;
+}
+
+/**
+ * Count the steps and map elements of tasks that were handed to agents and
+ * have not finished, in total and per assigned agent
+ * Map elements reserved before their agent is selected count towards the total only
+ */
+export function countActiveSteps(tasks: Task[]): { total: number; byAgent: Map<string, number> } {
+  const byAgent = new Map<string, number>();
+  let total = 0;
+
+  const count = (status: StepStatus, agentId?: string) => {
+    if (status !== StepStatus.ASSIGNED && status !== StepStatus.RUNNING) {
+      return;
+    }
+
+    total++;
+
+    if (agentId) {
+      byAgent.set(agentId, (byAgent.get(agentId) ?? 0) + 1);
+    }
+  };
+
+  for (const task of tasks) {
+    for (const step of task.workflow.steps) {
+      if (step.map) {
+        if (step.status === StepStatus.RUNNING) {
+          (step.mapItems || []).forEach(item => count(item.status, item.assignedAgent));
+        }
+      } else if (!step.subWorkflow) {
+        count(step.status, step.assignedAgent);
+      }
+    }
+  }
+
+  return { total, byAgent };
+}
@@ -0,0 +1,179 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { Task, TaskStatus, WorkflowStep } from '../types';
+import { TaskExecution, TaskStore } from './types';
+
+interface TaskRow {
+  id: string;
+  data: string;
+}
+
+interface ExecutionRow {
+  task_id: string;
+  data: string;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS tasks (
+    id TEXT PRIMARY KEY,
+    parent_task_id TEXT,
+    creator TEXT NOT NULL,
+    status TEXT NOT NULL,
+    data TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_tasks_status ON tasks (status);
+  CREATE INDEX IF NOT EXISTS idx_tasks_creator ON tasks (creator);
+
+  CREATE TABLE IF NOT EXISTS task_executions (
+    task_id TEXT PRIMARY KEY REFERENCES tasks (id) ON DELETE CASCADE,
+    data TEXT NOT NULL
+  );
+`;
+
+/**
+ * SQLite implementation of the Task Store
+ *
+ * Tasks and execution records are stored as JSON documents in an embedded
+ * database file, so running tasks survive a restart and can be recovered.
+ * Every save is written through immediately.
+ */
+export class SqliteTaskStore implements TaskStore {
+  private db: Database.Database;
+
+  constructor(filename: string) {
+    if (filename !== ':memory:') {
+      fs.mkdirSync(path.dirname(filename), { recursive: true });
+    }
+
+    this.db = new Database(filename);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('foreign_keys = ON');
+    this.db.exec(SCHEMA);
+  }
+
+  getTask(id: string): Task | undefined {
+    const row = this.db.prepare('SELECT id, data FROM tasks WHERE id = ?').get(id) as TaskRow | undefined;
+    return row ? toTask(row) : undefined;
+  }
+
+  saveTask(task: Task): void {
+    this.db.prepare(`
+      INSERT INTO tasks (id, parent_task_id, creator, status, data, created_at, updated_at)
+      VALUES (@id, @parentTaskId, @creator, @status, @data, @createdAt, @updatedAt)
+      ON CONFLICT (id) DO UPDATE SET
+        status = excluded.status,
+        data = excluded.data,
+        updated_at = excluded.updated_at
+    `).run({
+      id: task.id,
+      parentTaskId: task.parent?.taskId ?? null,
+      creator: task.creator,
+      status: task.status,
+      data: JSON.stringify(withoutChildTasks(task)),
+      createdAt: task.createdAt.getTime(),
+      updatedAt: task.updatedAt.getTime()
+    });
+  }
+
+  deleteTask(id: string): void {
+    this.db.prepare('DELETE FROM tasks WHERE id = ?').run(id);
+  }
+
+  listTasks(status?: TaskStatus): Task[] {
+    const rows = status
+      ? this.db.prepare('SELECT id, data FROM tasks WHERE status = ? ORDER BY created_at, id').all(status)
+      : this.db.prepare('SELECT id, data FROM tasks ORDER BY created_at, id').all();
+
+    return (rows as TaskRow[]).map(toTask);
+  }
+
+  getExecution(taskId: string): TaskExecution | undefined {
+    const row = this.db.prepare('SELECT task_id, data FROM task_executions WHERE task_id = ?')
+      .get(taskId) as ExecutionRow | undefined;
+
+    if (!row) {
+      return undefined;
+    }
+
+    const execution = JSON.parse(row.data);
+    return {
+      ...execution,
+      startTime: new Date(execution.startTime),
+      queuedAt: toDate(execution.queuedAt),
+      lastUpdated: new Date(execution.lastUpdated)
+    };
+  }
+
+  saveExecution(execution: TaskExecution): void {
+    this.db.prepare(`
+      INSERT INTO task_executions (task_id, data) VALUES (?, ?)
+      ON CONFLICT (task_id) DO UPDATE SET data = excluded.data
+    `).run(execution.taskId, JSON.stringify(execution));
+  }
+
+  /**
+   * Close the database connection
+   */
+  close(): void {
+    this.db.close();
+  }
+}
+
+// Child tasks are stored as tasks of their own
+function withoutChildTasks(task: Task): Task {
+  return {
+    ...task,
+    workflow: {
+      ...task.workflow,
+      steps: task.workflow.steps.map(({ childTask, ...step }) => step)
+    }
+  };
+}
+
+function toTask(row: TaskRow): Task {
+  const task = JSON.parse(row.data);
+
+  return {
+    ...task,
+    deadline: toDate(task.deadline),
+    createdAt: new Date(task.createdAt),
+    updatedAt: new Date(task.updatedAt),
+    startedAt: toDate(task.startedAt),
+    completedAt: toDate(task.completedAt),
+    workflow: {
+      ...task.workflow,
+      steps: task.workflow.steps.map(toStep)
+    }
+  };
+}
+
+function toStep(step: any): WorkflowStep {
+  return {
+    ...step,
+    startTime: toDate(step.startTime),
+    endTime: toDate(step.endTime),
+    nextAttemptAt: toDate(step.nextAttemptAt),
+    attempts: step.attempts?.map((attempt: any) => ({
+      ...attempt,
+      startTime: new Date(attempt.startTime),
+      endTime: toDate(attempt.endTime)
+    })),
+    mapItems: step.mapItems?.map((item: any) => ({
+      ...item,
+      startTime: toDate(item.startTime),
+      endTime: toDate(item.endTime)
+    })),
+    compensation: step.compensation && {
+      ...step.compensation,
+      startTime: toDate(step.compensation.startTime),
+      endTime: toDate(step.compensation.endTime)
+    }
+  };
+}
+
+function toDate(value: string | undefined): Date | undefined {
+  return value ? new Date(value) : undefined;
+}
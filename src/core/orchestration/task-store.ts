@@ -0,0 +1,36 @@
+import { Task, TaskStatus } from '../types';
+import { TaskExecution, TaskStore } from './types';
+
+/**
+ * In-memory implementation of the Task Store
+ * Tasks are lost when the process stops
+ */
+export class InMemoryTaskStore implements TaskStore {
+  private tasks: Map<string, Task> = new Map();
+  private executions: Map<string, TaskExecution> = new Map();
+
+  getTask(id: string): Task | undefined {
+    return this.tasks.get(id);
+  }
+
+  saveTask(task: Task): void {
+    this.tasks.set(task.id, task);
+  }
+
+  deleteTask(id: string): void {
+    this.tasks.delete(id);
+    this.executions.delete(id);
+  }
+
+  listTasks(status?: TaskStatus): Task[] {
+    return Array.from(this.tasks.values()).filter(task => !status || task.status === status);
+  }
+
+  getExecution(taskId: string): TaskExecution | undefined {
+    return this.executions.get(taskId);
+  }
+
+  saveExecution(execution: TaskExecution): void {
+    this.executions.set(execution.taskId, execution);
+  }
+}
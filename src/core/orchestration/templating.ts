@@ -0,0 +1,212 @@
+import { Task, Workflow, WorkflowStep } from '../types';
+import { TaskError } from '../../utils/errors';
+
+// Matches {{ expression }} anywhere in a string
+const TEMPLATE_PATTERN = /\{\{\s*([^{}]+?)\s*\}\}/g;
+// Matches {{params.<name>}}, filled in when a workflow is built from a template
+const PARAMETER_PATTERN = /\{\{\s*params\.([A-Za-z0-9_]+)\s*\}\}/g;
+const EXPRESSION_PATTERN = /^(steps\.[A-Za-z0-9_-]+\.output|task|item|index)(\.[A-Za-z0-9_-]+)*$/;
+
+// Task fields a step input may reference
+const TASK_FIELDS: (keyof Task)[] = ['id', 'name', 'description', 'creator', 'budget', 'deadline'];
+
+/**
+ * List the expressions used in a step input, in order of appearance
+ */
+export function findTemplateExpressions(input: any): string[] {
+  if (typeof input === 'string') {
+    return [...input.matchAll(TEMPLATE_PATTERN)].map(match => match[1]);
+  }
+
+  if (Array.isArray(input)) {
+    return input.flatMap(findTemplateExpressions);
+  }
+
+  if (input !== null && typeof input === 'object') {
+    return Object.values(input).flatMap(findTemplateExpressions);
+  }
+
+  return [];
+}
+
+/**
+ * Check that every expression in a step input is well formed and only
+ * references the outputs of steps the step depends on, directly or not
+ */
+export function validateStepTemplates(step: WorkflowStep, workflow: Workflow): boolean {
+  return validateTemplateReferences(step.input, step, workflow, !!step.map);
+}
+
+/**
+ * Check the expressions in any value evaluated for a step, such as its input
+ * or condition
+ * item and index refer to the element a map step runs for and are only
+ * allowed with allowMapItem
+ */
+export function validateTemplateReferences(
+  value: any,
+  step: WorkflowStep,
+  workflow: Workflow,
+  allowMapItem = false
+): boolean {
+  const ancestors = stepAncestors(step, workflow);
+
+  return findTemplateExpressions(value).every(expression => {
+    if (!EXPRESSION_PATTERN.test(expression)) {
+      return false;
+    }
+
+    const [root, key] = expression.split('.');
+
+    if (root === 'item' || root === 'index') {
+      return allowMapItem && (root === 'item' || key === undefined);
+    }
+
+    return root === 'task'
+      ? TASK_FIELDS.some(field => field === key)
+      : ancestors.has(key);
+  });
+}
+
+/**
+ * Resolve the expressions in a step input against the task and the outputs
+ * of completed steps
+ * A value that is a single expression keeps the type of what it references;
+ * expressions inside longer strings are converted to text. Throws a
+ * TaskError when a referenced field is missing.
+ */
+export function resolveStepInput(
+  input: Record<string, any> | null,
+  task: Task
+): Record<string, any> | null {
+  return resolveTemplates(input, task);
+}
+
+/**
+ * Resolve the expressions in any value against a task
+ * With allowMissing, missing fields resolve to undefined instead of throwing;
+ * mapItem provides the element a map step runs for
+ */
+export function resolveTemplates(
+  value: any,
+  task: Task,
+  options: { allowMissing?: boolean; mapItem?: { item: any; index: number } } = {}
+): any {
+  const context = {
+    task: TASK_FIELDS.reduce((acc, field) => ({ ...acc, [field]: task[field] }), {} as Record<string, any>),
+    steps: task.workflow.steps.reduce((acc, step) => ({ ...acc, [step.id]: { output: step.output } }), {} as Record<string, any>),
+    ...(options.mapItem || {})
+  };
+
+  const resolve = (current: any): any => {
+    if (typeof current === 'string') {
+      const whole = current.match(/^\{\{\s*([^{}]+?)\s*\}\}$/);
+
+      if (whole) {
+        return lookup(context, whole[1], options.allowMissing);
+      }
+
+      return current.replace(TEMPLATE_PATTERN, (_, expression) => {
+        const resolved = lookup(context, expression, options.allowMissing);
+        return typeof resolved === 'object' && !(resolved instanceof Date)
+          ? JSON.stringify(resolved)
+          : String(resolved);
+      });
+    }
+
+    if (Array.isArray(current)) {
+      return current.map(resolve);
+    }
+
+    if (current !== null && typeof current === 'object') {
+      return Object.fromEntries(Object.entries(current).map(([key, item]) => [key, resolve(item)]));
+    }
+
+    return current;
+  };
+
+  return resolve(value);
+}
+
+/**
+ * List the parameters referenced in a value, in order of appearance
+ */
+export function findTemplateParameters(value: any): string[] {
+  if (typeof value === 'string') {
+    return [...value.matchAll(PARAMETER_PATTERN)].map(match => match[1]);
+  }
+
+  if (Array.isArray(value)) {
+    return value.flatMap(findTemplateParameters);
+  }
+
+  if (value !== null && typeof value === 'object') {
+    return Object.values(value).flatMap(findTemplateParameters);
+  }
+
+  return [];
+}
+
+/**
+ * Substitute parameter values into a value
+ * A string that is a single {{params.<name>}} takes the parameter value as is;
+ * parameters inside longer strings are converted to text. Other expressions,
+ * such as step outputs, are left for dispatch time.
+ */
+export function applyTemplateParameters(value: any, parameters: Record<string, any>): any {
+  if (typeof value === 'string') {
+    const whole = value.match(/^\{\{\s*params\.([A-Za-z0-9_]+)\s*\}\}$/);
+
+    if (whole) {
+      return parameters[whole[1]];
+    }
+
+    return value.replace(PARAMETER_PATTERN, (_, name) => {
+      const parameter = parameters[name];
+      return typeof parameter === 'object' ? JSON.stringify(parameter) : String(parameter);
+    });
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => applyTemplateParameters(item, parameters));
+  }
+
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, applyTemplateParameters(item, parameters)])
+    );
+  }
+
+  return value;
+}
+
+function lookup(context: Record<string, any>, expression: string, allowMissing = false): any {
+  const value = expression
+    .split('.')
+    .reduce((current: any, key) => (current !== null && typeof current === 'object' ? current[key] : undefined), context);
+
+  if (value === undefined && !allowMissing) {
+    throw new TaskError(`Input expression {{${expression}}} references a missing field`);
+  }
+
+  return value;
+}
+
+function stepAncestors(step: WorkflowStep, workflow: Workflow): Set<string> {
+  const ancestors = new Set<string>();
+  const pending = [...step.dependsOn];
+
+  while (pending.length > 0) {
+    const id = pending.pop()!;
+
+    if (ancestors.has(id)) {
+      continue;
+    }
+
+    ancestors.add(id);
+    const dependency = workflow.steps.find(s => s.id === id);
+    pending.push(...(dependency?.dependsOn || []));
+  }
+
+  return ancestors;
+}
@@ -1,5 +1,7 @@
-import { Task, TaskStatus, Workflow, WorkflowStep, StepStatus } from '../types';
+import { Agent, Task, TaskStatus, Workflow, WorkflowStep, StepStatus, StepErrorKind, MapItem, CompensationRun } from '../types';
 import { AgentRegistry } from '../registry/types';
+import { NonceStore, SigningDomain, SignedPayload } from '../signing/types';
+import { WorkflowTemplateStore } from '../templates/types';
 
 export interface CreateTaskRequest {
   name: string;
@@ -11,6 +13,11 @@ export interface CreateTaskRequest {
     token: string;
   };
   deadline?: Date;
+  template?: { name: string; version: string };
+  parent?: { taskId: string; stepId: string }; // Set when the task runs a sub-workflow step
+  priority?: number; // Higher runs first when tasks are queued, 0 by default
+  schedule?: string; // Set when a schedule starts the task
+  trigger?: string; // Set when an event trigger starts the task
 }
 
 export interface TaskExecutionResult {
@@ -24,16 +31,99 @@ export interface TaskExecution {
   currentStepId?: string;
   completedSteps: string[];
   failedSteps: string[];
-  startTime: Date;
+  skippedSteps: string[];
+  startTime: Date; // When the task was queued, then when it started
+  queuedAt?: Date; // Set when the task had to wait in the queue
+  queuePosition?: number; // 1-based, while the task is PENDING in the queue
   lastUpdated: Date;
 }
 
 export interface StepExecutionResult {
   stepId: string;
   taskId: string;
+  attempt?: number; // The attempt the result belongs to; results for any other attempt are dropped
   success: boolean;
   output?: Record<string, any>;
   error?: string;
+  errorKind?: StepErrorKind; // Set by the orchestrator; failures reported by agents are STEP_FAILED
+}
+
+// A step handed to its assigned agent
+export interface StepDispatchRequest {
+  task: Task;
+  step: WorkflowStep;
+  attempt: number; // The agent signs its result for this attempt
+  agent: Agent;
+}
+
+export interface StepDispatchResult {
+  accepted: boolean; // The agent acknowledged the step and is running it
+  result?: Omit<StepExecutionResult, 'taskId' | 'stepId'>; // Set when the agent answered synchronously
+  error?: string; // Why the step was not accepted
+}
+
+// Tells an agent to stop working on a step it holds
+export interface StepCancellationRequest {
+  task: Task;
+  step: WorkflowStep;
+  agent: Agent;
+  reason: string;
+}
+
+/**
+ * Delivers steps to agents
+ * Asynchronous agents report their result later through submitStepResult
+ */
+export interface StepDispatcher {
+  dispatch(request: StepDispatchRequest): Promise<StepDispatchResult>;
+  cancel(request: StepCancellationRequest): Promise<void>; // Best effort; throws when the agent was not reached
+}
+
+export interface TaskOrchestrationOptions {
+  stepDispatcher?: StepDispatcher; // Without a dispatcher, steps fail instead of running
+  signingDomain?: SigningDomain; // EIP-712 domain step results are signed for; defaults to chain 1
+  nonceStore?: NonceStore; // Rejects replayed step results; defaults to an in-memory store
+  maxSignatureTtl?: number; // Furthest a step result signature may expire, in milliseconds
+  defaultDeadline?: number; // Deadline of tasks created without one, in milliseconds from creation
+  defaultStepTimeout?: number; // Timeout of steps that do not set one, in milliseconds
+  deadlineAction?: 'fail' | 'cancel'; // What happens to a task that runs past its deadline
+  templateStore?: WorkflowTemplateStore; // Resolves sub-workflows that reference a template
+  taskStore?: TaskStore; // Where tasks and executions are kept; in memory by default
+  scheduling?: SchedulingLimits; // Nothing is limited when omitted
+}
+
+// Limits applied by the scheduler
+// Child tasks of sub-workflow steps run as part of their parent and are never queued
+export interface SchedulingLimits {
+  maxRunningTasks?: number; // Tasks running or paused at once; others wait as PENDING
+  maxTasksPerCreator?: number; // Tasks of one creator running or paused at once
+  maxRunningSteps?: number; // Steps and map elements handed to agents at once
+  maxStepsPerAgent?: number; // Steps and map elements one agent holds at once
+}
+
+/**
+ * Keeps tasks and their execution records
+ * Synchronous, so the engine reads and updates a task without yielding in between
+ */
+export interface TaskStore {
+  getTask(id: string): Task | undefined;
+  saveTask(task: Task): void;
+  deleteTask(id: string): void;
+  listTasks(status?: TaskStatus): Task[];
+  getExecution(taskId: string): TaskExecution | undefined;
+  saveExecution(execution: TaskExecution): void;
+}
+
+// What recovery found after a restart
+export interface TaskRecoveryResult {
+  resumedTasks: string[];
+  redispatchedSteps: { taskId: string; stepId: string }[];
+}
+
+// What one pass of the deadline watchdog stopped
+export interface DeadlineEnforcementResult {
+  timedOutSteps: { taskId: string; stepId: string }[];
+  overdueTasks: string[];
 }
 
 export interface TaskOrchestrationEngine {
@@ -42,8 +132,14 @@ export interface TaskOrchestrationEngine {
   listTasks(creator?: string, status?: TaskStatus): Promise<Task[]>;
   executeTask(id: string): Promise<TaskExecutionResult>;
   cancelTask(id: string): Promise<boolean>;
+  pauseTask(id: string): Promise<TaskExecutionResult>;
+  resumeTask(id: string): Promise<TaskExecutionResult>;
+  retryFailed(id: string): Promise<TaskExecutionResult>;
   getTaskExecution(id: string): Promise<TaskExecution | null>;
   handleStepResult(result: StepExecutionResult): Promise<void>;
+  submitStepResult(result: StepExecutionResult, signed: SignedPayload): Promise<void>;
+  enforceDeadlines(now?: Date): Promise<DeadlineEnforcementResult>;
+  recoverTasks(): Promise<TaskRecoveryResult>;
 }
 
 export interface WorkflowEngine {
@@ -51,9 +147,18 @@ export interface WorkflowEngine {
   getNextSteps(workflow: Workflow, completedStepIds: string[]): WorkflowStep[];
   isComplete(workflow: Workflow): boolean;
   updateStepStatus(workflow: Workflow, stepId: string, status: StepStatus, output?: Record<string, any>, error?: string): Workflow;
+  assignAgent(workflow: Workflow, stepId: string, agentId: string): Workflow;
+  skipSteps(workflow: Workflow, stepIds: string[]): Workflow;
+  startMap(workflow: Workflow, stepId: string, items: MapItem[]): Workflow;
+  updateMapItem(workflow: Workflow, stepId: string, index: number, changes: Partial<MapItem>): Workflow;
+  startSubWorkflow(workflow: Workflow, stepId: string, childTaskId: string): Workflow;
+  finishAttempt(workflow: Workflow, stepId: string, outcome: { success: boolean; error?: string; errorKind?: StepErrorKind }): Workflow;
+  scheduleRetry(workflow: Workflow, stepId: string, nextAttemptAt: Date): Workflow;
+  resetSteps(workflow: Workflow, stepIds: string[]): Workflow;
+  updateCompensation(workflow: Workflow, stepId: string, changes: Partial<CompensationRun>): Workflow;
   validateWorkflow(workflow: Workflow): boolean;
 }
 
 export interface AgentSelector {
-  selectAgentForStep(step: WorkflowStep, registry: AgentRegistry): Promise<string | null>;
+  selectAgentForStep(step: WorkflowStep, registry: AgentRegistry, excludeAgents?: string[]): Promise<string | null>;
 }
\ No newline at end of file
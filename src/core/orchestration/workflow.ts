@@ -1,5 +1,16 @@
-import { Workflow, WorkflowStep, StepStatus } from '../types';
+import { Workflow, WorkflowStep, StepStatus, StepErrorKind, MapItem, CompensationRun } from '../types';
 import { WorkflowEngine } from './types';
+import { isValidCapabilityRequirement } from '../capabilities/taxonomy';
+import { isValidRetryPolicy } from './retry';
+import {
+  applyTemplateParameters,
+  findTemplateParameters,
+  validateStepTemplates,
+  validateTemplateReferences
+} from './templating';
+import { isValidStepMap } from './map';
+import { validateStepCondition } from './conditions';
+import { isValidCompensation } from './compensation';
 
 /**
  * Implementation of the Workflow Engine
@@ -14,19 +25,24 @@ export class DefaultWorkflowEngine implements WorkflowEngine {
       steps: workflow.steps.map(step => ({
         ...step,
         status: StepStatus.PENDING,
+        attempts: [],
+        nextAttemptAt: undefined
       })),
     };
   }
 
   /**
    * Get all steps that are ready to be executed
-   * A step is ready when all of its dependencies have been completed
+   * A step is ready when all of its dependencies have been completed or skipped
    */
   getNextSteps(workflow: Workflow, completedStepIds: string[]): WorkflowStep[] {
+    const now = Date.now();
+    
     return workflow.steps.filter(step => {
-      // Skip steps that are already completed, running, or failed
+      // Skip steps that are already completed, running, failed or skipped
       if (
         step.status === StepStatus.COMPLETED ||
+        step.status === StepStatus.SKIPPED ||
         step.status === StepStatus.RUNNING ||
         step.status === StepStatus.FAILED ||
         step.status === StepStatus.ASSIGNED
@@ -34,6 +50,11 @@ export class DefaultWorkflowEngine implements WorkflowEngine {
         return false;
       }
       
+      // Skip retries that are still backing off
+      if (step.nextAttemptAt && step.nextAttemptAt.getTime() > now) {
+        return false;
+      }
+      
       // Check if all dependencies are completed
       const allDependenciesCompleted = step.dependsOn.every(
         dependencyId => completedStepIds.includes(dependencyId)
@@ -86,9 +107,223 @@ export class DefaultWorkflowEngine implements WorkflowEngine {
     };
   }
 
+  /**
+   * Assign an agent to a step in the workflow and mark it ASSIGNED
+   * Each assignment starts a new attempt
+   */
+  assignAgent(workflow: Workflow, stepId: string, agentId: string): Workflow {
+    const now = new Date();
+    
+    return {
+      steps: workflow.steps.map(step => {
+        if (step.id === stepId) {
+          const attempts = step.attempts || [];
+          return {
+            ...step,
+            status: StepStatus.ASSIGNED,
+            assignedAgent: agentId,
+            startTime: step.startTime || now,
+            nextAttemptAt: undefined,
+            attempts: [...attempts, { attempt: attempts.length + 1, agentId, startTime: now }]
+          };
+        }
+        return step;
+      }),
+    };
+  }
+
+  /**
+   * Start an attempt of a map step with its elements and mark it RUNNING
+   */
+  startMap(workflow: Workflow, stepId: string, items: MapItem[]): Workflow {
+    const now = new Date();
+    
+    return {
+      steps: workflow.steps.map(step => {
+        if (step.id === stepId) {
+          const attempts = step.attempts || [];
+          return {
+            ...step,
+            status: StepStatus.RUNNING,
+            startTime: step.startTime || now,
+            nextAttemptAt: undefined,
+            mapItems: items,
+            attempts: [...attempts, { attempt: attempts.length + 1, startTime: now }]
+          };
+        }
+        return step;
+      }),
+    };
+  }
+
+  /**
+   * Start an attempt of a sub-workflow step with its child task and mark it RUNNING
+   */
+  startSubWorkflow(workflow: Workflow, stepId: string, childTaskId: string): Workflow {
+    const now = new Date();
+    
+    return {
+      steps: workflow.steps.map(step => {
+        if (step.id === stepId) {
+          const attempts = step.attempts || [];
+          return {
+            ...step,
+            status: StepStatus.RUNNING,
+            startTime: step.startTime || now,
+            nextAttemptAt: undefined,
+            childTaskId,
+            attempts: [...attempts, { attempt: attempts.length + 1, startTime: now }]
+          };
+        }
+        return step;
+      }),
+    };
+  }
+
+  /**
+   * Update one element of a map step
+   */
+  updateMapItem(workflow: Workflow, stepId: string, index: number, changes: Partial<MapItem>): Workflow {
+    return {
+      steps: workflow.steps.map(step => {
+        if (step.id === stepId && step.mapItems) {
+          return {
+            ...step,
+            mapItems: step.mapItems.map(item => (item.index === index ? { ...item, ...changes } : item))
+          };
+        }
+        return step;
+      }),
+    };
+  }
+
+  /**
+   * Mark steps SKIPPED
+   */
+  skipSteps(workflow: Workflow, stepIds: string[]): Workflow {
+    const now = new Date();
+    
+    return {
+      steps: workflow.steps.map(step => {
+        if (stepIds.includes(step.id)) {
+          return {
+            ...step,
+            status: StepStatus.SKIPPED,
+            endTime: now,
+            nextAttemptAt: undefined
+          };
+        }
+        return step;
+      }),
+    };
+  }
+
+  /**
+   * Record the outcome of the current attempt of a step
+   * A failure before any agent was assigned is recorded as an attempt of its own
+   */
+  finishAttempt(
+    workflow: Workflow,
+    stepId: string,
+    outcome: { success: boolean; error?: string; errorKind?: StepErrorKind }
+  ): Workflow {
+    const now = new Date();
+    
+    return {
+      steps: workflow.steps.map(step => {
+        if (step.id !== stepId) {
+          return step;
+        }
+        
+        const attempts = [...(step.attempts || [])];
+        const last = attempts[attempts.length - 1];
+        const finished = {
+          endTime: now,
+          success: outcome.success,
+          error: outcome.error,
+          errorKind: outcome.success ? undefined : outcome.errorKind
+        };
+        
+        if (last && !last.endTime) {
+          attempts[attempts.length - 1] = { ...last, ...finished };
+        } else {
+          attempts.push({ attempt: attempts.length + 1, startTime: now, ...finished });
+        }
+        
+        return { ...step, attempts };
+      }),
+    };
+  }
+
+  /**
+   * Put a failed step back to PENDING until its next attempt is due
+   */
+  scheduleRetry(workflow: Workflow, stepId: string, nextAttemptAt: Date): Workflow {
+    return {
+      steps: workflow.steps.map(step => {
+        if (step.id === stepId) {
+          return {
+            ...step,
+            status: StepStatus.PENDING,
+            assignedAgent: undefined,
+            endTime: undefined,
+            nextAttemptAt
+          };
+        }
+        return step;
+      }),
+    };
+  }
+
+  /**
+   * Put finished steps back to PENDING so they run again from scratch
+   * Their outputs, attempts, map elements and child task are cleared
+   */
+  resetSteps(workflow: Workflow, stepIds: string[]): Workflow {
+    return {
+      steps: workflow.steps.map(step => {
+        if (stepIds.includes(step.id)) {
+          return {
+            ...step,
+            status: StepStatus.PENDING,
+            assignedAgent: undefined,
+            output: undefined,
+            error: undefined,
+            startTime: undefined,
+            endTime: undefined,
+            nextAttemptAt: undefined,
+            attempts: [],
+            mapItems: undefined,
+            childTaskId: undefined,
+            compensation: undefined
+          };
+        }
+        return step;
+      }),
+    };
+  }
+
+  /**
+   * Update the compensating action of a step, starting it as PENDING
+   */
+  updateCompensation(workflow: Workflow, stepId: string, changes: Partial<CompensationRun>): Workflow {
+    return {
+      steps: workflow.steps.map(step => {
+        if (step.id === stepId) {
+          return {
+            ...step,
+            compensation: { ...(step.compensation || { status: StepStatus.PENDING }), ...changes }
+          };
+        }
+        return step;
+      }),
+    };
+  }
+
   /**
    * Validate a workflow
-   * Checks for cycles and ensures all step dependencies exist
+   * Checks for cycles, ensures all step dependencies exist and that input
+   * expressions only reference steps that run before
    */
   validateWorkflow(workflow: Workflow): boolean {
     const { steps } = workflow;
@@ -99,6 +334,38 @@ export class DefaultWorkflowEngine implements WorkflowEngine {
       return false;
     }
     
+    // Check that capability requirements, timeouts, retry policies, maps and compensations are well formed
+    for (const step of steps) {
+      if (!step.agentRequirements.capabilities.every(isValidCapabilityRequirement)) {
+        return false;
+      }
+      
+      if (step.timeout !== undefined && !(Number.isInteger(step.timeout) && step.timeout > 0)) {
+        return false;
+      }
+      
+      if (step.retryPolicy && !isValidRetryPolicy(step.retryPolicy)) {
+        return false;
+      }
+      
+      if (step.map && (!isValidStepMap(step.map) || !validateTemplateReferences(step.map.items, step, workflow))) {
+        return false;
+      }
+      
+      if (step.subWorkflow && !this.isValidSubWorkflow(step)) {
+        return false;
+      }
+      
+      // A compensating action may also reference the output of its own step
+      if (
+        step.compensate &&
+        (!isValidCompensation(step.compensate) ||
+          !validateTemplateReferences(step.compensate.input, { ...step, dependsOn: [step.id] }, workflow))
+      ) {
+        return false;
+      }
+    }
+    
     // Check that all dependencies reference existing steps
     for (const step of steps) {
       for (const depId of step.dependsOn) {
@@ -108,6 +375,15 @@ export class DefaultWorkflowEngine implements WorkflowEngine {
       }
     }
     
+    // Check that input expressions and conditions reference ancestors of their step
+    if (!steps.every(step => validateStepTemplates(step, workflow))) {
+      return false;
+    }
+    
+    if (!steps.every(step => !step.when || validateStepCondition(step.when, step, workflow))) {
+      return false;
+    }
+    
     // Check for cycles in the dependency graph
     const visited = new Set<string>();
     const recStack = new Set<string>();
@@ -141,4 +417,26 @@ export class DefaultWorkflowEngine implements WorkflowEngine {
     
     return true;
   }
-}
\ No newline at end of file
+
+  /**
+   * Check the nested workflow of a sub-workflow step
+   * Parameters are only known when the step runs, so they are left blank
+   */
+  private isValidSubWorkflow(step: WorkflowStep): boolean {
+    const { workflow, template } = step.subWorkflow!;
+    
+    if (step.map) {
+      return false;
+    }
+    
+    if (!workflow) {
+      return typeof template === 'string';
+    }
+    
+    const blanks = Object.fromEntries(findTemplateParameters(workflow).map(name => [name, '']));
+    
+    return Array.isArray(workflow.steps) &&
+      workflow.steps.length > 0 &&
+      this.validateWorkflow(applyTemplateParameters(workflow, blanks));
+  }
+}
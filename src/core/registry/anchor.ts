@@ -0,0 +1,111 @@
+import { ethers } from 'ethers';
+import { Agent, AgentAnchor, AnchorAction, AnchorStatus } from '../types';
+import { BlockchainConnector, TransactionStatus } from '../../blockchain/connectors/base';
+import { canonicalJson } from './verification';
+
+// Fragment of the AgentRegistry contract used for anchoring
+const ANCHOR_ABI = [
+  'function anchorAgentRecord(bytes32 agentId, uint8 action, bytes32 profileHash) returns (bool)',
+  'event AgentRecordAnchored(bytes32 indexed agentId, uint8 indexed action, bytes32 profileHash, address indexed operator)'
+];
+
+// Matches the RecordAction enum in AgentRegistery.sol
+const ACTION_CODES: Record<AnchorAction, number> = {
+  [AnchorAction.REGISTERED]: 0,
+  [AnchorAction.VERIFIED]: 1,
+  [AnchorAction.DEREGISTERED]: 2
+};
+
+/**
+ * Hash the public profile of an agent
+ * Anyone holding the same profile can recompute the hash to audit the anchor
+ */
+export function hashAgentProfile(agent: Agent): string {
+  const profile = {
+    id: agent.id,
+    name: agent.name,
+    description: agent.description,
+    owner: agent.owner,
+    publicKey: agent.publicKey,
+    capabilities: agent.capabilities,
+    supportedNetworks: agent.supportedNetworks,
+    endpoint: agent.endpoint,
+    metadata: agent.metadata,
+    version: agent.version
+  };
+  
+  return ethers.utils.keccak256(ethers.utils.toUtf8Bytes(canonicalJson(profile)));
+}
+
+/**
+ * Encode an agent UUID as the bytes32 ID used on-chain
+ */
+export function agentIdToBytes32(id: string): string {
+  return ethers.utils.hexZeroPad(`0x${id.replace(/-/g, '')}`, 32);
+}
+
+/**
+ * Writes registry records to the AgentRegistry contract through a
+ * blockchain connector and tracks their confirmation
+ */
+export class RegistryAnchor {
+  private connector: BlockchainConnector;
+  private contractAddress: string;
+  private contract = new ethers.utils.Interface(ANCHOR_ABI);
+  
+  constructor(connector: BlockchainConnector, contractAddress: string) {
+    this.connector = connector;
+    this.contractAddress = contractAddress;
+  }
+  
+  /**
+   * Submit a record of a registry action
+   * Submission failures are recorded on the anchor rather than thrown, so
+   * the registry keeps working while the chain is unavailable
+   */
+  async submit(agent: Agent, action: AnchorAction): Promise<AgentAnchor> {
+    const profileHash = hashAgentProfile(agent);
+    const submittedAt = new Date();
+    
+    try {
+      const data = this.contract.encodeFunctionData('anchorAgentRecord', [
+        agentIdToBytes32(agent.id),
+        ACTION_CODES[action],
+        profileHash
+      ]);
+      
+      const txHash = await this.connector.submitTransaction({
+        to: this.contractAddress,
+        data
+      });
+      
+      return { action, profileHash, txHash, status: AnchorStatus.PENDING, submittedAt };
+    } catch (error) {
+      console.error(`Error anchoring ${action} of agent ${agent.id}:`, error);
+      
+      return { action, profileHash, status: AnchorStatus.FAILED, error: error.message, submittedAt };
+    }
+  }
+  
+  /**
+   * Check whether a pending anchor has been confirmed
+   * Returns the anchor unchanged while its transaction is still pending
+   */
+  async refresh(anchor: AgentAnchor): Promise<AgentAnchor> {
+    if (anchor.status !== AnchorStatus.PENDING || !anchor.txHash) {
+      return anchor;
+    }
+    
+    const status = await this.connector.getTransactionStatus(anchor.txHash);
+    
+    if (status === TransactionStatus.CONFIRMED) {
+      return { ...anchor, status: AnchorStatus.CONFIRMED, confirmedAt: new Date() };
+    }
+    
+    if (status === TransactionStatus.FAILED) {
+      return { ...anchor, status: AnchorStatus.FAILED, error: 'Anchor transaction reverted' };
+    }
+    
+    return anchor;
+  }
+}
@@ -1,3 +1,10 @@
 export * from './types';
 export * from './registry';
-export { InMemoryAgentRegistry as AgentRegistryImpl } from './registry';
\ No newline at end of file
+export * from './sqlite-registry';
+export * from './verification';
+export * from './search';
+export * from './liveness';
+export * from './suspension';
+export * from './manifest';
+export * from './anchor';
+export { InMemoryAgentRegistry as AgentRegistryImpl } from './registry';
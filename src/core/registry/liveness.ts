@@ -0,0 +1,75 @@
+import { Agent, AgentStatus } from '../types';
+import { AgentRegistry } from './types';
+
+export interface AgentLivenessOptions {
+  silenceWindow: number; // How long an agent may go without a heartbeat, in milliseconds
+  checkInterval: number; // How often the monitor checks for silent agents, in milliseconds
+}
+
+/**
+ * Check whether an agent has been silent for longer than the given window
+ * Agents that never sent a heartbeat are measured from their last update
+ */
+export function isAgentStale(agent: Agent, silenceWindow: number, now: Date = new Date()): boolean {
+  const lastSeen = agent.lastSeenAt || agent.updatedAt;
+  return now.getTime() - lastSeen.getTime() > silenceWindow;
+}
+
+/**
+ * Background monitor that moves silent ACTIVE agents to INACTIVE
+ * Agents are reactivated by the registry when their heartbeats resume
+ */
+export class AgentLivenessMonitor {
+  private registry: AgentRegistry;
+  private options: AgentLivenessOptions;
+  private timer: NodeJS.Timeout | null = null;
+  
+  constructor(registry: AgentRegistry, options: AgentLivenessOptions) {
+    this.registry = registry;
+    this.options = options;
+  }
+  
+  /**
+   * Start checking agents periodically
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    
+    this.timer = setInterval(() => {
+      this.check().catch(error => {
+        console.error('Error checking agent liveness:', error);
+      });
+    }, this.options.checkInterval);
+  }
+  
+  /**
+   * Stop the periodic checks
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+  
+  /**
+   * Mark every silent ACTIVE agent as INACTIVE
+   * Returns the IDs of the agents that were deactivated
+   */
+  async check(): Promise<string[]> {
+    const now = new Date();
+    const agents = await this.registry.findAgents({ status: AgentStatus.ACTIVE });
+    const deactivated: string[] = [];
+    
+    for (const agent of agents) {
+      if (isAgentStale(agent, this.options.silenceWindow, now)) {
+        await this.registry.updateAgentStatus(agent.id, AgentStatus.INACTIVE);
+        deactivated.push(agent.id);
+      }
+    }
+    
+    return deactivated;
+  }
+}
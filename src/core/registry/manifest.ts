@@ -0,0 +1,220 @@
+import yaml from 'js-yaml';
+import Joi from 'joi';
+import { Agent } from '../types';
+import { ValidationError, handleError } from '../../utils/errors';
+import { AgentProfileUpdate, AgentRegistrationRequest, AgentRegistry } from './types';
+import { canonicalJson } from './verification';
+
+/**
+ * An agent as described in a manifest file
+ * See AGENT_MANIFEST.md for the format
+ */
+export interface AgentManifestEntry {
+  id?: string;
+  name: string;
+  description: string;
+  owner: string;
+  publicKey: string;
+  capabilities: string[];
+  networks: string[];
+  endpoint: string;
+  pricing?: {
+    model: string;
+    amount: string;
+    token: string;
+  };
+  metadata?: Record<string, any>;
+  signature?: string; // Owner signature, required to update an existing agent
+}
+
+export enum AgentImportAction {
+  REGISTERED = 'REGISTERED',
+  UPDATED = 'UPDATED',
+  UNCHANGED = 'UNCHANGED',
+  FAILED = 'FAILED'
+}
+
+export interface AgentImportResult {
+  index: number;
+  name: string;
+  action: AgentImportAction;
+  agentId?: string;
+  verificationChallenge?: string;
+  challengeExpiresAt?: Date;
+  error?: string;
+}
+
+const manifestEntrySchema = Joi.object({
+  id: Joi.string().uuid().optional(),
+  name: Joi.string().required(),
+  description: Joi.string().required(),
+  owner: Joi.string().required(),
+  publicKey: Joi.string().required(),
+  capabilities: Joi.array().items(Joi.string()).min(1).required(),
+  networks: Joi.array().items(
+    Joi.string().valid('ethereum', 'polygon', 'arbitrum', 'optimism', 'base', 'solana')
+  ).min(1).required(),
+  endpoint: Joi.string().uri().required(),
+  pricing: Joi.object({
+    model: Joi.string().valid('per-step', 'per-task', 'subscription').required(),
+    amount: Joi.string().required(),
+    token: Joi.string().required()
+  }).optional(),
+  metadata: Joi.object().optional(),
+  signature: Joi.string().optional()
+});
+
+const manifestSchema = Joi.object({
+  version: Joi.number().valid(1).required(),
+  agents: Joi.array().items(manifestEntrySchema).min(1).required()
+});
+
+/**
+ * Parse and validate an agent manifest
+ * Accepts YAML or JSON text, or an already parsed document
+ */
+export function parseAgentManifest(source: string | Record<string, any>): AgentManifestEntry[] {
+  let document: any = source;
+
+  if (typeof source === 'string') {
+    try {
+      document = yaml.load(source);
+    } catch (error) {
+      throw new ValidationError(`Invalid manifest: ${error.message}`);
+    }
+  }
+
+  const { error, value } = manifestSchema.validate(document, { abortEarly: true });
+
+  if (error) {
+    throw new ValidationError(`Invalid manifest: ${error.message}`);
+  }
+
+  return value.agents;
+}
+
+/**
+ * Convert a manifest entry into a registration request
+ * Pricing is stored in the agent metadata
+ */
+export function manifestEntryToRegistrationRequest(entry: AgentManifestEntry): AgentRegistrationRequest {
+  return {
+    name: entry.name,
+    description: entry.description,
+    owner: entry.owner,
+    capabilities: entry.capabilities,
+    supportedNetworks: entry.networks as AgentRegistrationRequest['supportedNetworks'],
+    endpoint: entry.endpoint,
+    publicKey: entry.publicKey,
+    metadata: manifestMetadata(entry)
+  };
+}
+
+/**
+ * Convert a manifest entry into the profile update an owner signs
+ */
+export function manifestEntryToProfileUpdate(entry: AgentManifestEntry): AgentProfileUpdate {
+  return {
+    capabilities: entry.capabilities,
+    supportedNetworks: entry.networks as AgentProfileUpdate['supportedNetworks'],
+    endpoint: entry.endpoint,
+    metadata: manifestMetadata(entry)
+  };
+}
+
+/**
+ * Register or update every agent in a manifest
+ * Entries are processed independently; a failure is reported without
+ * stopping the import
+ */
+export async function importAgentManifest(
+  registry: AgentRegistry,
+  entries: AgentManifestEntry[]
+): Promise<AgentImportResult[]> {
+  const results: AgentImportResult[] = [];
+
+  for (const [index, entry] of entries.entries()) {
+    try {
+      results.push({ index, name: entry.name, ...await importEntry(registry, entry) });
+    } catch (error) {
+      results.push({
+        index,
+        name: entry.name,
+        action: AgentImportAction.FAILED,
+        error: handleError(error).message
+      });
+    }
+  }
+
+  return results;
+}
+
+async function importEntry(
+  registry: AgentRegistry,
+  entry: AgentManifestEntry
+): Promise<Omit<AgentImportResult, 'index' | 'name'>> {
+  const existing = await findExistingAgent(registry, entry);
+
+  if (!existing) {
+    if (entry.id) {
+      throw new ValidationError(`Agent ${entry.id} does not exist`);
+    }
+
+    const registration = await registry.registerAgent(manifestEntryToRegistrationRequest(entry));
+
+    return {
+      action: AgentImportAction.REGISTERED,
+      agentId: registration.agent.id,
+      verificationChallenge: registration.verificationChallenge,
+      challengeExpiresAt: registration.challengeExpiresAt
+    };
+  }
+
+  const update = manifestEntryToProfileUpdate(entry);
+
+  // Re-importing an unchanged manifest needs no signature
+  if (canonicalJson(update) === canonicalJson(profileOf(existing))) {
+    return { action: AgentImportAction.UNCHANGED, agentId: existing.id };
+  }
+
+  if (!entry.signature) {
+    throw new ValidationError('Agent already exists; an owner signature is required to update it');
+  }
+
+  await registry.updateAgent(existing.id, update, entry.signature);
+
+  return { action: AgentImportAction.UPDATED, agentId: existing.id };
+}
+
+/**
+ * Find the agent a manifest entry refers to, by ID or by owner and name
+ */
+async function findExistingAgent(registry: AgentRegistry, entry: AgentManifestEntry): Promise<Agent | null> {
+  if (entry.id) {
+    const agent = await registry.getAgent(entry.id);
+
+    if (agent && agent.owner.toLowerCase() !== entry.owner.toLowerCase()) {
+      throw new ValidationError(`Agent ${entry.id} belongs to a different owner`);
+    }
+
+    return agent;
+  }
+
+  const owned = await registry.findAgents({ owner: entry.owner });
+  return owned.find(agent => agent.name === entry.name) || null;
+}
+
+function manifestMetadata(entry: AgentManifestEntry): Record<string, any> {
+  return entry.pricing
+    ? { ...entry.metadata, pricing: entry.pricing }
+    : { ...entry.metadata };
+}
+
+function profileOf(agent: Agent): AgentProfileUpdate {
+  return {
+    capabilities: agent.capabilities,
+    supportedNetworks: agent.supportedNetworks,
+    endpoint: agent.endpoint,
+    metadata: agent.metadata
+  };
+}
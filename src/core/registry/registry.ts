@@ -1,12 +1,55 @@
 import { v4 as uuidv4 } from 'uuid';
 import { ethers } from 'ethers';
-import { Agent, AgentStatus } from '../types';
+import { Agent, AgentAnchor, AgentStatus, AnchorAction, AnchorStatus } from '../types';
+import { AgentError, ValidationError } from '../../utils/errors';
+import { CapabilityTaxonomy } from '../capabilities/types';
 import { 
   AgentRegistry, 
   AgentRegistrationRequest, 
   AgentRegistrationResponse,
-  AgentQuery 
+  AgentQuery,
+  AgentSearchQuery,
+  AgentPage,
+  AgentProfileUpdate,
+  AgentProfileVersion,
+  AgentRegistryOptions,
+  AgentStatusChange,
+  AgentSuspensionRequest,
+  OwnershipTransferOffer,
+  AgentVerificationResult,
+  VerificationChallenge,
+  VerificationFailureReason
 } from './types';
+import {
+  createChallenge,
+  checkChallengeSignature,
+  checkHeartbeat,
+  checkProfileUpdate,
+  checkOwnershipOffer,
+  checkOwnershipAcceptance,
+  checkKeyRotation,
+  checkSuspensionAppeal,
+  signerAddressForKey,
+  DEFAULT_VERIFICATION_TIMEOUT,
+  DEFAULT_PENDING_AGENT_TTL,
+  DEFAULT_MAX_CLOCK_SKEW,
+  SYSTEM_ACTOR
+} from './verification';
+import { RegistryAnchor } from './anchor';
+import { SigningDomain } from '../signing/types';
+import { createSigningDomain } from '../signing/typed-data';
+import {
+  matchesAgentQuery,
+  paginateAgents,
+  resolveSearchOptions,
+  validateMetadataFilter
+} from './search';
+import {
+  isSuspensionExpired,
+  validateStatusChange,
+  validateSuspension,
+  SUSPENSION_EXPIRED_REASON
+} from './suspension';
 
 /**
  * In-memory implementation of the Agent Registry
@@ -14,12 +57,33 @@ import {
  */
 export class InMemoryAgentRegistry implements AgentRegistry {
   private agents: Map<string, Agent> = new Map();
-  private challenges: Map<string, string> = new Map();
+  private challenges: Map<string, VerificationChallenge> = new Map();
+  private profileHistory: Map<string, AgentProfileVersion[]> = new Map();
+  private anchors: Map<string, AgentAnchor[]> = new Map();
+  private ownershipOffers: Map<string, OwnershipTransferOffer> = new Map();
+  private statusHistory: Map<string, AgentStatusChange[]> = new Map();
+  private verificationTimeout: number;
+  private pendingAgentTtl: number;
+  private maxClockSkew: number;
+  private capabilityTaxonomy?: CapabilityTaxonomy;
+  private registryAnchor?: RegistryAnchor;
+  private signingDomain: SigningDomain;
+
+  constructor(options: AgentRegistryOptions = {}) {
+    this.verificationTimeout = options.verificationTimeout ?? DEFAULT_VERIFICATION_TIMEOUT;
+    this.pendingAgentTtl = options.pendingAgentTtl ?? DEFAULT_PENDING_AGENT_TTL;
+    this.maxClockSkew = options.maxClockSkew ?? DEFAULT_MAX_CLOCK_SKEW;
+    this.capabilityTaxonomy = options.capabilityTaxonomy;
+    this.registryAnchor = options.registryAnchor;
+    this.signingDomain = options.signingDomain ?? createSigningDomain();
+  }
 
   /**
    * Register a new agent in the registry
    */
   async registerAgent(request: AgentRegistrationRequest): Promise<AgentRegistrationResponse> {
+    await this.capabilityTaxonomy?.validate(request.capabilities);
+    
     const id = uuidv4();
     const now = new Date();
     
@@ -28,20 +92,23 @@ export class InMemoryAgentRegistry implements AgentRegistry {
       ...request,
       status: AgentStatus.PENDING,
       metadata: request.metadata || {},
+      version: 1,
       createdAt: now,
       updatedAt: now
     };
     
     this.agents.set(id, agent);
+    this.profileHistory.set(id, [this.snapshotProfile(agent, now)]);
+    this.statusHistory.set(id, [{ agentId: id, status: agent.status, actor: SYSTEM_ACTOR, changedAt: now }]);
     
     // Generate a challenge for agent verification
-    const challenge = ethers.utils.randomBytes(32);
-    const challengeHex = ethers.utils.hexlify(challenge);
-    this.challenges.set(id, challengeHex);
+    const challenge = createChallenge(this.verificationTimeout, now);
+    this.challenges.set(id, challenge);
     
     return {
       agent,
-      verificationChallenge: challengeHex
+      verificationChallenge: challenge.challenge,
+      challengeExpiresAt: challenge.expiresAt
     };
   }
 
@@ -57,97 +124,435 @@ export class InMemoryAgentRegistry implements AgentRegistry {
    * Find agents that match the given criteria
    */
   async findAgents(query: AgentQuery): Promise<Agent[]> {
-    const result: Agent[] = [];
+    (query.metadata || []).forEach(validateMetadataFilter);
     
-    for (const agent of this.agents.values()) {
-      let matches = true;
-      
-      // Filter by capabilities
-      if (query.capabilities && query.capabilities.length > 0) {
-        const hasAllCapabilities = query.capabilities.every(
-          cap => agent.capabilities.includes(cap)
-        );
-        if (!hasAllCapabilities) {
-          matches = false;
-        }
-      }
-      
-      // Filter by networks
-      if (query.networks && query.networks.length > 0) {
-        const supportsAnyNetwork = query.networks.some(
-          network => agent.supportedNetworks.includes(network)
-        );
-        if (!supportsAnyNetwork) {
-          matches = false;
-        }
-      }
-      
-      // Filter by status
-      if (query.status && agent.status !== query.status) {
-        matches = false;
-      }
-      
-      // Filter by owner
-      if (query.owner && agent.owner !== query.owner) {
-        matches = false;
-      }
-      
-      if (matches) {
-        result.push(agent);
-      }
-    }
+    return Array.from(this.agents.values())
+      .filter(agent => matchesAgentQuery(agent, query));
+  }
+
+  /**
+   * Search agents with sorting and cursor pagination
+   */
+  async searchAgents(query: AgentSearchQuery): Promise<AgentPage> {
+    const options = resolveSearchOptions(query);
+    
+    const matches = Array.from(this.agents.values())
+      .filter(agent => matchesAgentQuery(agent, query));
     
-    return result;
+    return paginateAgents(matches, options);
   }
 
   /**
    * Update the status of an agent
+   * Suspensions go through suspendAgent and reinstateAgent instead
    */
-  async updateAgentStatus(id: string, status: AgentStatus): Promise<Agent | null> {
+  async updateAgentStatus(id: string, status: AgentStatus, actor: string = SYSTEM_ACTOR): Promise<Agent | null> {
     const agent = this.agents.get(id);
     
     if (!agent) {
       return null;
     }
     
+    validateStatusChange(agent, status);
+    
+    const now = new Date();
     const updatedAgent: Agent = {
       ...agent,
       status,
-      updatedAt: new Date()
+      updatedAt: now
+    };
+    
+    this.agents.set(id, updatedAgent);
+    this.recordStatus(agent, { status, actor, changedAt: now });
+    return updatedAgent;
+  }
+
+  /**
+   * Suspend an agent until it is reinstated or the suspension expires
+   */
+  async suspendAgent(id: string, request: AgentSuspensionRequest): Promise<Agent | null> {
+    const agent = this.agents.get(id);
+    
+    if (!agent) {
+      return null;
+    }
+    
+    const now = new Date();
+    validateSuspension(agent, request, now);
+    
+    const updatedAgent: Agent = {
+      ...agent,
+      status: AgentStatus.SUSPENDED,
+      suspension: {
+        reason: request.reason,
+        actor: request.actor,
+        suspendedAt: now,
+        expiresAt: request.expiresAt
+      },
+      updatedAt: now
+    };
+    
+    this.agents.set(id, updatedAgent);
+    this.recordStatus(agent, {
+      status: AgentStatus.SUSPENDED,
+      actor: request.actor,
+      reason: request.reason,
+      expiresAt: request.expiresAt,
+      changedAt: now
+    });
+    
+    return updatedAgent;
+  }
+
+  /**
+   * Lift the suspension of an agent, restoring the status it had before
+   */
+  async reinstateAgent(id: string, actor: string, reason?: string): Promise<Agent | null> {
+    const agent = this.agents.get(id);
+    
+    if (!agent) {
+      return null;
+    }
+    
+    if (agent.status !== AgentStatus.SUSPENDED) {
+      throw new AgentError(`Agent ${id} is not suspended`);
+    }
+    
+    const suspension = this.latestSuspension(id);
+    const status = suspension?.previousStatus ?? AgentStatus.ACTIVE;
+    const now = new Date();
+    
+    const updatedAgent: Agent = {
+      ...agent,
+      status,
+      suspension: undefined,
+      updatedAt: now
+    };
+    
+    this.agents.set(id, updatedAgent);
+    this.recordStatus(agent, { status, actor, reason, changedAt: now });
+    
+    return updatedAgent;
+  }
+
+  /**
+   * Attach the owner's appeal to the current suspension of an agent
+   * Each suspension can be appealed once
+   */
+  async appealSuspension(id: string, note: string, signature: string): Promise<Agent | null> {
+    const agent = this.agents.get(id);
+    
+    if (!agent) {
+      return null;
+    }
+    
+    checkSuspensionAppeal(agent, note, signature);
+    
+    const appeal = { note, submittedAt: new Date() };
+    const updatedAgent: Agent = {
+      ...agent,
+      suspension: { ...agent.suspension!, appeal }
+    };
+    
+    this.agents.set(id, updatedAgent);
+    
+    const suspension = this.latestSuspension(id);
+    if (suspension) {
+      suspension.appeal = appeal;
+    }
+    
+    return updatedAgent;
+  }
+
+  /**
+   * Reinstate agents whose suspension has expired
+   * Returns the IDs of the reinstated agents
+   */
+  async reinstateExpiredSuspensions(): Promise<string[]> {
+    const now = new Date();
+    const reinstated: string[] = [];
+    
+    for (const agent of Array.from(this.agents.values())) {
+      if (isSuspensionExpired(agent, now)) {
+        await this.reinstateAgent(agent.id, SYSTEM_ACTOR, SUSPENSION_EXPIRED_REASON);
+        reinstated.push(agent.id);
+      }
+    }
+    
+    return reinstated;
+  }
+
+  /**
+   * Get the recorded status changes of an agent, oldest first
+   * History is kept after the agent is deregistered
+   */
+  async getStatusHistory(id: string): Promise<AgentStatusChange[]> {
+    return (this.statusHistory.get(id) || []).map(change => ({ ...change }));
+  }
+
+  /**
+   * Update the profile of an agent
+   * The update must be signed by the agent owner for the next version
+   */
+  async updateAgent(id: string, update: AgentProfileUpdate, signature: string): Promise<Agent | null> {
+    const agent = this.agents.get(id);
+    
+    if (!agent) {
+      return null;
+    }
+    
+    checkProfileUpdate(agent, update, signature);
+    
+    if (update.capabilities) {
+      await this.capabilityTaxonomy?.validate(update.capabilities);
+    }
+    
+    const now = new Date();
+    const updatedAgent: Agent = {
+      ...agent,
+      capabilities: update.capabilities ?? agent.capabilities,
+      supportedNetworks: update.supportedNetworks ?? agent.supportedNetworks,
+      endpoint: update.endpoint ?? agent.endpoint,
+      metadata: update.metadata ?? agent.metadata,
+      version: agent.version + 1,
+      updatedAt: now
+    };
+    
+    this.agents.set(id, updatedAgent);
+    this.profileHistory.get(id)!.push(this.snapshotProfile(updatedAgent, now));
+    
+    return updatedAgent;
+  }
+
+  /**
+   * Get every version of an agent profile, oldest first
+   * History is kept after the agent is deregistered
+   */
+  async getAgentHistory(id: string): Promise<AgentProfileVersion[]> {
+    return this.profileHistory.get(id) || [];
+  }
+
+  /**
+   * Offer an agent to a new owner
+   * The offer must be signed by the current owner and is completed once
+   * the new owner accepts it; a new offer replaces any pending one
+   */
+  async offerOwnershipTransfer(
+    id: string, 
+    newOwner: string, 
+    expiresAt: Date, 
+    signature: string
+  ): Promise<OwnershipTransferOffer | null> {
+    const agent = this.agents.get(id);
+    
+    if (!agent) {
+      return null;
+    }
+    
+    if (!ethers.utils.isAddress(newOwner)) {
+      throw new ValidationError('New owner must be a valid address');
+    }
+    
+    if (newOwner.toLowerCase() === agent.owner.toLowerCase()) {
+      throw new ValidationError('New owner must differ from the current owner');
+    }
+    
+    if (expiresAt.getTime() <= Date.now()) {
+      throw new ValidationError('Ownership offer expiry must be in the future');
+    }
+    
+    checkOwnershipOffer(agent, newOwner, expiresAt, signature);
+    
+    const offer: OwnershipTransferOffer = {
+      agentId: id,
+      newOwner,
+      expiresAt,
+      offeredAt: new Date()
+    };
+    
+    this.ownershipOffers.set(id, offer);
+    return offer;
+  }
+
+  /**
+   * Accept a pending ownership offer, signed by the new owner
+   */
+  async acceptOwnershipTransfer(id: string, signature: string): Promise<Agent | null> {
+    const agent = this.agents.get(id);
+    
+    if (!agent) {
+      return null;
+    }
+    
+    const offer = this.ownershipOffers.get(id);
+    
+    if (!offer) {
+      throw new AgentError(`Agent ${id} has no pending ownership transfer`);
+    }
+    
+    if (offer.expiresAt.getTime() <= Date.now()) {
+      this.ownershipOffers.delete(id);
+      throw new AgentError(`Ownership transfer of agent ${id} has expired`);
+    }
+    
+    checkOwnershipAcceptance(agent, offer.newOwner, signature);
+    
+    const now = new Date();
+    const updatedAgent: Agent = {
+      ...agent,
+      owner: offer.newOwner,
+      version: agent.version + 1,
+      updatedAt: now
+    };
+    
+    this.agents.set(id, updatedAgent);
+    this.ownershipOffers.delete(id);
+    this.profileHistory.get(id)!.push(this.snapshotProfile(updatedAgent, now));
+    
+    return updatedAgent;
+  }
+
+  /**
+   * Replace the key an agent signs with
+   * The rotation must be signed by the current key, which is rejected afterwards
+   */
+  async rotateAgentKey(id: string, newPublicKey: string, signature: string): Promise<Agent | null> {
+    const agent = this.agents.get(id);
+    
+    if (!agent) {
+      return null;
+    }
+    
+    // Fails with an AgentError if the new key cannot sign
+    signerAddressForKey(newPublicKey);
+    checkKeyRotation(agent, newPublicKey, signature);
+    
+    const now = new Date();
+    const updatedAgent: Agent = {
+      ...agent,
+      publicKey: newPublicKey,
+      version: agent.version + 1,
+      updatedAt: now
     };
     
     this.agents.set(id, updatedAgent);
+    this.profileHistory.get(id)!.push(this.snapshotProfile(updatedAgent, now));
+    
     return updatedAgent;
   }
 
+  /**
+   * Issue a fresh verification challenge for a pending agent
+   * Replaces any previously issued challenge
+   */
+  async issueChallenge(id: string): Promise<VerificationChallenge | null> {
+    const agent = this.agents.get(id);
+    
+    if (!agent) {
+      return null;
+    }
+    
+    if (agent.status !== AgentStatus.PENDING) {
+      throw new AgentError(`Agent ${id} is already verified`);
+    }
+    
+    const challenge = createChallenge(this.verificationTimeout);
+    this.challenges.set(id, challenge);
+    
+    return challenge;
+  }
+
   /**
    * Verify an agent using a signed challenge
    */
-  async verifyAgent(id: string, signature: string): Promise<boolean> {
+  async verifyAgent(id: string, signature: string): Promise<AgentVerificationResult> {
     const agent = this.agents.get(id);
+    
+    if (!agent) {
+      return { verified: false, reason: VerificationFailureReason.AGENT_NOT_FOUND };
+    }
+    
     const challenge = this.challenges.get(id);
     
-    if (!agent || !challenge) {
-      return false;
+    if (!challenge) {
+      return { verified: false, reason: VerificationFailureReason.NO_CHALLENGE };
+    }
+    
+    // The owner signs the challenge as EIP-712 typed data before it expires
+    const reason = checkChallengeSignature(this.signingDomain, id, challenge, signature, agent.owner);
+    
+    if (reason) {
+      return { verified: false, reason };
     }
     
-    try {
-      // Recover the signer from the signature
-      const messageHash = ethers.utils.hashMessage(challenge);
-      const recoveredAddress = ethers.utils.recoverAddress(messageHash, signature);
-      
-      // Check if the signer matches the agent's owner
-      if (recoveredAddress.toLowerCase() === agent.owner.toLowerCase()) {
-        // If verification succeeds, update agent status to ACTIVE
-        await this.updateAgentStatus(id, AgentStatus.ACTIVE);
-        return true;
+    // A challenge can only be used once
+    this.challenges.delete(id);
+    
+    // Verification is the only way out of PENDING, so it skips validateStatusChange
+    const now = new Date();
+    const verifiedAgent: Agent = {
+      ...agent,
+      status: AgentStatus.ACTIVE,
+      updatedAt: now
+    };
+    
+    this.agents.set(id, verifiedAgent);
+    this.recordStatus(agent, { status: AgentStatus.ACTIVE, actor: SYSTEM_ACTOR, changedAt: now });
+    
+    // Agents are only anchored once verified, so unverified registrations cost no gas
+    const anchor = await this.anchorAgent(verifiedAgent, AnchorAction.VERIFIED);
+    
+    return { verified: true, ...(anchor?.txHash ? { registryTxHash: anchor.txHash } : {}) };
+  }
+
+  /**
+   * Remove agents that stayed PENDING longer than the configured TTL
+   * Returns the IDs of the removed agents
+   */
+  async purgeUnverifiedAgents(): Promise<string[]> {
+    const cutoff = Date.now() - this.pendingAgentTtl;
+    const purged: string[] = [];
+    
+    for (const agent of this.agents.values()) {
+      if (agent.status === AgentStatus.PENDING && agent.createdAt.getTime() <= cutoff) {
+        this.agents.delete(agent.id);
+        this.challenges.delete(agent.id);
+        this.profileHistory.delete(agent.id);
+        purged.push(agent.id);
       }
-      
-      return false;
-    } catch (error) {
-      console.error('Error verifying agent signature:', error);
-      return false;
     }
+    
+    return purged;
+  }
+
+  /**
+   * Record a signed heartbeat from an agent
+   * An INACTIVE agent is reactivated when its heartbeats resume
+   */
+  async recordHeartbeat(id: string, timestamp: Date, signature: string): Promise<Agent | null> {
+    const agent = this.agents.get(id);
+    
+    if (!agent) {
+      return null;
+    }
+    
+    checkHeartbeat(agent, timestamp, signature, this.maxClockSkew);
+    
+    const now = new Date();
+    const updatedAgent: Agent = {
+      ...agent,
+      status: agent.status === AgentStatus.INACTIVE ? AgentStatus.ACTIVE : agent.status,
+      lastSeenAt: timestamp,
+      updatedAt: now
+    };
+    
+    this.agents.set(id, updatedAgent);
+    
+    if (agent.status === AgentStatus.INACTIVE) {
+      this.recordStatus(agent, { status: AgentStatus.ACTIVE, actor: SYSTEM_ACTOR, changedAt: now });
+    }
+    
+    return updatedAgent;
   }
 
   /**
@@ -160,9 +565,148 @@ export class InMemoryAgentRegistry implements AgentRegistry {
       return false;
     }
     
+    // Agents that were never verified were never anchored
+    if (agent.status !== AgentStatus.PENDING) {
+      await this.anchorAgent(agent, AnchorAction.DEREGISTERED);
+    }
+    
     this.agents.delete(id);
     this.challenges.delete(id);
+    this.ownershipOffers.delete(id);
     
     return true;
   }
+
+  /**
+   * Get the on-chain anchors of an agent, oldest first
+   * Anchors are kept after the agent is deregistered
+   */
+  async getAnchors(id: string): Promise<AgentAnchor[]> {
+    return this.anchors.get(id) || [];
+  }
+
+  /**
+   * Check the confirmation status of pending anchors
+   * Returns the number of anchors that were confirmed or failed
+   */
+  async refreshAnchors(): Promise<number> {
+    if (!this.registryAnchor) {
+      return 0;
+    }
+    
+    let settled = 0;
+    
+    for (const [id, anchors] of this.anchors.entries()) {
+      for (let i = 0; i < anchors.length; i++) {
+        if (anchors[i].status !== AnchorStatus.PENDING) {
+          continue;
+        }
+        
+        try {
+          const refreshed = await this.registryAnchor.refresh(anchors[i]);
+          
+          if (refreshed.status === AnchorStatus.PENDING) {
+            continue;
+          }
+          
+          anchors[i] = refreshed;
+          settled++;
+          
+          // Keep the latest anchor on the agent up to date
+          const agent = this.agents.get(id);
+          if (agent && i === anchors.length - 1) {
+            this.agents.set(id, { ...agent, anchor: refreshed });
+          }
+        } catch (error) {
+          console.error(`Error refreshing anchor ${anchors[i].txHash}:`, error);
+        }
+      }
+    }
+    
+    return settled;
+  }
+
+  /**
+   * Record the outcome of a step executed by an agent
+   */
+  async recordStepOutcome(id: string, success: boolean, executionTime: number): Promise<void> {
+    const agent = this.agents.get(id);
+    
+    if (!agent) {
+      return;
+    }
+    
+    const previous = agent.performance || {
+      completedSteps: 0,
+      failedSteps: 0,
+      successRate: 0,
+      averageExecutionTime: 0
+    };
+    
+    const completedSteps = previous.completedSteps + (success ? 1 : 0);
+    const failedSteps = previous.failedSteps + (success ? 0 : 1);
+    const total = completedSteps + failedSteps;
+    
+    this.agents.set(id, {
+      ...agent,
+      performance: {
+        completedSteps,
+        failedSteps,
+        successRate: completedSteps / total,
+        averageExecutionTime: previous.averageExecutionTime +
+          (executionTime - previous.averageExecutionTime) / total
+      }
+    });
+  }
+
+  /**
+   * Anchor a registry action on-chain, if anchoring is enabled
+   */
+  private async anchorAgent(agent: Agent, action: AnchorAction): Promise<AgentAnchor | undefined> {
+    if (!this.registryAnchor) {
+      return undefined;
+    }
+    
+    const anchor = await this.registryAnchor.submit(agent, action);
+    
+    if (!this.anchors.has(agent.id)) {
+      this.anchors.set(agent.id, []);
+    }
+    this.anchors.get(agent.id)!.push(anchor);
+    
+    const current = this.agents.get(agent.id);
+    if (current) {
+      this.agents.set(agent.id, { ...current, anchor });
+    }
+    
+    return anchor;
+  }
+
+  /**
+   * Append a status change, taking the previous status from the agent
+   */
+  private recordStatus(agent: Agent, change: Omit<AgentStatusChange, 'agentId' | 'previousStatus'>): void {
+    const history = this.statusHistory.get(agent.id) || [];
+    history.push({ agentId: agent.id, previousStatus: agent.status, ...change });
+    this.statusHistory.set(agent.id, history);
+  }
+
+  private latestSuspension(id: string): AgentStatusChange | undefined {
+    const history = this.statusHistory.get(id) || [];
+    return [...history].reverse().find(change => change.status === AgentStatus.SUSPENDED);
+  }
+
+  private snapshotProfile(agent: Agent, validFrom: Date): AgentProfileVersion {
+    return {
+      agentId: agent.id,
+      version: agent.version,
+      owner: agent.owner,
+      publicKey: agent.publicKey,
+      capabilities: agent.capabilities,
+      supportedNetworks: agent.supportedNetworks,
+      endpoint: agent.endpoint,
+      metadata: agent.metadata,
+      validFrom
+    };
+  }
 }
\ No newline at end of file
@@ -0,0 +1,273 @@
+import { Agent } from '../types';
+import { ValidationError } from '../../utils/errors';
+import { capabilitySatisfies } from '../capabilities/taxonomy';
+import {
+  AgentQuery,
+  AgentSearchQuery,
+  AgentSortField,
+  MetadataFilter,
+  MetadataValue
+} from './types';
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+
+const METADATA_FIELD_PATTERN = /^[A-Za-z0-9_]+(\.[A-Za-z0-9_]+)*$/;
+const METADATA_OPERATORS = ['eq', 'ne', 'gt', 'gte', 'lt', 'lte', 'in', 'contains', 'exists'];
+
+/**
+ * Resolved sort and page settings of a search
+ */
+export interface SearchOptions {
+  sortBy: AgentSortField;
+  sortOrder: 'asc' | 'desc';
+  limit: number;
+  after?: { value: number; id: string };
+}
+
+/**
+ * Validate a search query and resolve its defaults
+ * Throws a ValidationError for malformed filters, limits or cursors
+ */
+export function resolveSearchOptions(query: AgentSearchQuery): SearchOptions {
+  const sortBy = query.sortBy || 'createdAt';
+  const sortOrder = query.sortOrder || (sortBy === 'performance' ? 'desc' : 'asc');
+  const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+
+  if (sortBy !== 'createdAt' && sortBy !== 'performance') {
+    throw new ValidationError(`Invalid sort field: ${sortBy}`);
+  }
+
+  if (sortOrder !== 'asc' && sortOrder !== 'desc') {
+    throw new ValidationError(`Invalid sort order: ${sortOrder}`);
+  }
+
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    throw new ValidationError(`Limit must be between 1 and ${MAX_PAGE_SIZE}`);
+  }
+
+  (query.metadata || []).forEach(validateMetadataFilter);
+
+  return {
+    sortBy,
+    sortOrder,
+    limit,
+    after: query.cursor ? decodeAgentCursor(query.cursor, sortBy, sortOrder) : undefined
+  };
+}
+
+/**
+ * Check the field, operator and value of a metadata filter
+ */
+export function validateMetadataFilter(filter: MetadataFilter): void {
+  if (!METADATA_FIELD_PATTERN.test(filter.field)) {
+    throw new ValidationError(`Invalid metadata field: ${filter.field}`);
+  }
+
+  if (!METADATA_OPERATORS.includes(filter.operator)) {
+    throw new ValidationError(`Invalid metadata operator: ${filter.operator}`);
+  }
+
+  if (filter.operator === 'exists') {
+    return;
+  }
+
+  if (filter.operator === 'in') {
+    if (!Array.isArray(filter.value) || !filter.value.every(isMetadataValue)) {
+      throw new ValidationError(`Metadata filter on ${filter.field} needs a list of values`);
+    }
+    return;
+  }
+
+  if (!isMetadataValue(filter.value)) {
+    throw new ValidationError(`Metadata filter on ${filter.field} needs a string, number or boolean value`);
+  }
+
+  if (['gt', 'gte', 'lt', 'lte'].includes(filter.operator) && typeof filter.value === 'boolean') {
+    throw new ValidationError(`Metadata filter on ${filter.field} cannot order booleans`);
+  }
+}
+
+/**
+ * Check whether an agent matches every criterion of a query
+ */
+export function matchesAgentQuery(agent: Agent, query: AgentQuery): boolean {
+  // Filter by capabilities
+  if (query.capabilities && query.capabilities.length > 0) {
+    const hasAllCapabilities = query.capabilities.every(
+      required => agent.capabilities.some(cap => capabilitySatisfies(cap, required))
+    );
+    if (!hasAllCapabilities) {
+      return false;
+    }
+  }
+
+  // Filter by networks
+  if (query.networks && query.networks.length > 0) {
+    const supportsAnyNetwork = query.networks.some(
+      network => agent.supportedNetworks.includes(network)
+    );
+    if (!supportsAnyNetwork) {
+      return false;
+    }
+  }
+
+  // Filter by status
+  if (query.status && agent.status !== query.status) {
+    return false;
+  }
+
+  // Filter by owner
+  if (query.owner && agent.owner !== query.owner) {
+    return false;
+  }
+
+  // Free-text search over name and description
+  if (query.text) {
+    const text = query.text.toLowerCase();
+    if (
+      !agent.name.toLowerCase().includes(text) &&
+      !agent.description.toLowerCase().includes(text)
+    ) {
+      return false;
+    }
+  }
+
+  // Typed metadata filters
+  if (query.metadata) {
+    return query.metadata.every(filter => matchesMetadataFilter(agent.metadata, filter));
+  }
+
+  return true;
+}
+
+/**
+ * Check a metadata object against a typed filter
+ */
+export function matchesMetadataFilter(metadata: Record<string, any>, filter: MetadataFilter): boolean {
+  const actual = filter.field
+    .split('.')
+    .reduce((value: any, key) => (value !== null && typeof value === 'object' ? value[key] : undefined), metadata);
+
+  switch (filter.operator) {
+    case 'exists':
+      return actual !== undefined;
+    case 'eq':
+      return actual === filter.value;
+    case 'ne':
+      return actual !== filter.value;
+    case 'in':
+      return (filter.value as MetadataValue[]).includes(actual);
+    case 'contains':
+      return Array.isArray(actual) && actual.includes(filter.value);
+    default:
+      // Ordering only applies between values of the same type
+      if (typeof actual !== typeof filter.value) {
+        return false;
+      }
+      return compareOrdered(actual, filter.value as string | number, filter.operator);
+  }
+}
+
+/**
+ * Get the value an agent is sorted by
+ * Agents without recorded performance rank as 0
+ */
+export function agentSortValue(agent: Agent, sortBy: AgentSortField): number {
+  return sortBy === 'performance'
+    ? agent.performance?.successRate ?? 0
+    : agent.createdAt.getTime();
+}
+
+/**
+ * Sort, then page through agents that already match a query
+ */
+export function paginateAgents(agents: Agent[], options: SearchOptions): { agents: Agent[]; nextCursor?: string } {
+  const direction = options.sortOrder === 'asc' ? 1 : -1;
+  const compare = (value: number, id: string, other: { value: number; id: string }) =>
+    value !== other.value
+      ? (value - other.value) * direction
+      : (id < other.id ? -1 : id > other.id ? 1 : 0) * direction;
+
+  let sorted = [...agents].sort((a, b) => compare(
+    agentSortValue(a, options.sortBy),
+    a.id,
+    { value: agentSortValue(b, options.sortBy), id: b.id }
+  ));
+
+  // Keyset pagination: continue after the last agent of the previous page
+  if (options.after) {
+    const after = options.after;
+    sorted = sorted.filter(agent => compare(agentSortValue(agent, options.sortBy), agent.id, after) > 0);
+  }
+
+  const page = sorted.slice(0, options.limit);
+
+  return {
+    agents: page,
+    nextCursor: sorted.length > options.limit
+      ? encodeAgentCursor(page[page.length - 1], options)
+      : undefined
+  };
+}
+
+/**
+ * Encode the position after an agent as an opaque cursor
+ */
+export function encodeAgentCursor(agent: Agent, options: SearchOptions): string {
+  const position = {
+    s: options.sortBy,
+    o: options.sortOrder,
+    v: agentSortValue(agent, options.sortBy),
+    id: agent.id
+  };
+
+  return Buffer.from(JSON.stringify(position)).toString('base64url');
+}
+
+/**
+ * Decode a cursor, checking it was issued for the same sort
+ */
+export function decodeAgentCursor(
+  cursor: string,
+  sortBy: AgentSortField,
+  sortOrder: 'asc' | 'desc'
+): { value: number; id: string } {
+  let position: any;
+
+  try {
+    position = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch (error) {
+    throw new ValidationError('Invalid cursor');
+  }
+
+  if (
+    !position ||
+    typeof position.v !== 'number' ||
+    typeof position.id !== 'string' ||
+    position.s !== sortBy ||
+    position.o !== sortOrder
+  ) {
+    throw new ValidationError('Invalid cursor for this sort');
+  }
+
+  return { value: position.v, id: position.id };
+}
+
+function isMetadataValue(value: any): value is MetadataValue {
+  return typeof value === 'string' || typeof value === 'boolean' ||
+    (typeof value === 'number' && Number.isFinite(value));
+}
+
+function compareOrdered(actual: string | number, expected: string | number, operator: string): boolean {
+  switch (operator) {
+    case 'gt':
+      return actual > expected;
+    case 'gte':
+      return actual >= expected;
+    case 'lt':
+      return actual < expected;
+    default:
+      return actual <= expected;
+  }
+}
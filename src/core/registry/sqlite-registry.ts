@@ -0,0 +1,1248 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { v4 as uuidv4 } from 'uuid';
+import { ethers } from 'ethers';
+import { Agent, AgentAnchor, AgentStatus, AgentSuspension, AnchorAction, AnchorStatus } from '../types';
+import { AgentError, ValidationError } from '../../utils/errors';
+import { CapabilityTaxonomy } from '../capabilities/types';
+import { capabilitySatisfies, parseCapability } from '../capabilities/taxonomy';
+import {
+  AgentRegistry,
+  AgentRegistrationRequest,
+  AgentRegistrationResponse,
+  AgentQuery,
+  AgentSearchQuery,
+  AgentPage,
+  MetadataFilter,
+  AgentProfileUpdate,
+  AgentProfileVersion,
+  AgentRegistryOptions,
+  AgentStatusChange,
+  AgentSuspensionRequest,
+  OwnershipTransferOffer,
+  AgentVerificationResult,
+  VerificationChallenge,
+  VerificationFailureReason
+} from './types';
+import {
+  createChallenge,
+  checkChallengeSignature,
+  checkHeartbeat,
+  checkProfileUpdate,
+  checkOwnershipOffer,
+  checkOwnershipAcceptance,
+  checkKeyRotation,
+  checkSuspensionAppeal,
+  signerAddressForKey,
+  DEFAULT_VERIFICATION_TIMEOUT,
+  DEFAULT_PENDING_AGENT_TTL,
+  DEFAULT_MAX_CLOCK_SKEW,
+  SYSTEM_ACTOR
+} from './verification';
+import { RegistryAnchor } from './anchor';
+import { SigningDomain } from '../signing/types';
+import { createSigningDomain } from '../signing/typed-data';
+import {
+  encodeAgentCursor,
+  matchesMetadataFilter,
+  resolveSearchOptions,
+  validateMetadataFilter
+} from './search';
+import {
+  validateStatusChange,
+  validateSuspension,
+  SUSPENSION_EXPIRED_REASON
+} from './suspension';
+
+interface AnchorRow {
+  id: number;
+  agent_id: string;
+  action: string;
+  profile_hash: string;
+  tx_hash: string | null;
+  status: string;
+  error: string | null;
+  submitted_at: number;
+  confirmed_at: number | null;
+}
+
+interface StatusChangeRow {
+  id: number;
+  agent_id: string;
+  status: string;
+  previous_status: string | null;
+  actor: string;
+  reason: string | null;
+  expires_at: number | null;
+  appeal_note: string | null;
+  appeal_submitted_at: number | null;
+  changed_at: number;
+}
+
+interface AgentRow {
+  id: string;
+  name: string;
+  description: string;
+  owner: string;
+  endpoint: string;
+  public_key: string;
+  status: string;
+  metadata: string;
+  version: number;
+  last_seen_at: number | null;
+  completed_steps: number;
+  failed_steps: number;
+  success_rate: number;
+  avg_execution_time: number;
+  created_at: number;
+  updated_at: number;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS agents (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    description TEXT NOT NULL,
+    owner TEXT NOT NULL,
+    endpoint TEXT NOT NULL,
+    public_key TEXT NOT NULL,
+    status TEXT NOT NULL,
+    metadata TEXT NOT NULL,
+    version INTEGER NOT NULL,
+    last_seen_at INTEGER,
+    completed_steps INTEGER NOT NULL DEFAULT 0,
+    failed_steps INTEGER NOT NULL DEFAULT 0,
+    success_rate REAL NOT NULL DEFAULT 0,
+    avg_execution_time REAL NOT NULL DEFAULT 0,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_agents_status ON agents (status);
+  CREATE INDEX IF NOT EXISTS idx_agents_owner ON agents (owner);
+  CREATE INDEX IF NOT EXISTS idx_agents_created ON agents (created_at, id);
+  CREATE INDEX IF NOT EXISTS idx_agents_success_rate ON agents (success_rate, id);
+
+  CREATE TABLE IF NOT EXISTS agent_capabilities (
+    agent_id TEXT NOT NULL REFERENCES agents (id) ON DELETE CASCADE,
+    position INTEGER NOT NULL,
+    capability TEXT NOT NULL,
+    name TEXT NOT NULL,
+    PRIMARY KEY (agent_id, position)
+  );
+  CREATE INDEX IF NOT EXISTS idx_agent_capabilities_name
+    ON agent_capabilities (name, agent_id);
+
+  CREATE TABLE IF NOT EXISTS agent_networks (
+    agent_id TEXT NOT NULL REFERENCES agents (id) ON DELETE CASCADE,
+    position INTEGER NOT NULL,
+    network TEXT NOT NULL,
+    PRIMARY KEY (agent_id, position)
+  );
+  CREATE INDEX IF NOT EXISTS idx_agent_networks_network
+    ON agent_networks (network, agent_id);
+
+  CREATE TABLE IF NOT EXISTS agent_challenges (
+    agent_id TEXT PRIMARY KEY REFERENCES agents (id) ON DELETE CASCADE,
+    challenge TEXT NOT NULL,
+    expires_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS agent_ownership_offers (
+    agent_id TEXT PRIMARY KEY REFERENCES agents (id) ON DELETE CASCADE,
+    new_owner TEXT NOT NULL,
+    expires_at INTEGER NOT NULL,
+    offered_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS agent_status_history (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    agent_id TEXT NOT NULL,
+    status TEXT NOT NULL,
+    previous_status TEXT,
+    actor TEXT NOT NULL,
+    reason TEXT,
+    expires_at INTEGER,
+    appeal_note TEXT,
+    appeal_submitted_at INTEGER,
+    changed_at INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_agent_status_history_agent
+    ON agent_status_history (agent_id, changed_at);
+  CREATE INDEX IF NOT EXISTS idx_agent_status_history_suspensions
+    ON agent_status_history (status, agent_id, id);
+
+  CREATE TABLE IF NOT EXISTS agent_anchors (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    agent_id TEXT NOT NULL,
+    action TEXT NOT NULL,
+    profile_hash TEXT NOT NULL,
+    tx_hash TEXT,
+    status TEXT NOT NULL,
+    error TEXT,
+    submitted_at INTEGER NOT NULL,
+    confirmed_at INTEGER
+  );
+  CREATE INDEX IF NOT EXISTS idx_agent_anchors_agent ON agent_anchors (agent_id, id);
+  CREATE INDEX IF NOT EXISTS idx_agent_anchors_status ON agent_anchors (status);
+
+  CREATE TABLE IF NOT EXISTS agent_profile_versions (
+    agent_id TEXT NOT NULL,
+    version INTEGER NOT NULL,
+    profile TEXT NOT NULL,
+    valid_from INTEGER NOT NULL,
+    PRIMARY KEY (agent_id, version)
+  );
+`;
+
+/**
+ * SQLite-backed implementation of the Agent Registry
+ * Persists agents, verification challenges and status history
+ * in an embedded database file so they survive restarts
+ */
+export class SqliteAgentRegistry implements AgentRegistry {
+  private db: Database.Database;
+  private verificationTimeout: number;
+  private pendingAgentTtl: number;
+  private maxClockSkew: number;
+  private capabilityTaxonomy?: CapabilityTaxonomy;
+  private registryAnchor?: RegistryAnchor;
+  private signingDomain: SigningDomain;
+
+  constructor(filename: string, options: AgentRegistryOptions = {}) {
+    this.verificationTimeout = options.verificationTimeout ?? DEFAULT_VERIFICATION_TIMEOUT;
+    this.pendingAgentTtl = options.pendingAgentTtl ?? DEFAULT_PENDING_AGENT_TTL;
+    this.maxClockSkew = options.maxClockSkew ?? DEFAULT_MAX_CLOCK_SKEW;
+    this.capabilityTaxonomy = options.capabilityTaxonomy;
+    this.registryAnchor = options.registryAnchor;
+    this.signingDomain = options.signingDomain ?? createSigningDomain();
+
+    if (filename !== ':memory:') {
+      fs.mkdirSync(path.dirname(filename), { recursive: true });
+    }
+
+    this.db = new Database(filename);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('foreign_keys = ON');
+    this.db.exec(SCHEMA);
+
+    // Version ranges and typed metadata filters share the in-memory semantics
+    this.db.function('capability_satisfies', { deterministic: true }, (capability: string, required: string) =>
+      capabilitySatisfies(capability, required) ? 1 : 0
+    );
+    this.db.function('metadata_matches', { deterministic: true }, (metadata: string, filter: string) =>
+      matchesMetadataFilter(JSON.parse(metadata), JSON.parse(filter) as MetadataFilter) ? 1 : 0
+    );
+  }
+
+  /**
+   * Register a new agent in the registry
+   */
+  async registerAgent(request: AgentRegistrationRequest): Promise<AgentRegistrationResponse> {
+    await this.capabilityTaxonomy?.validate(request.capabilities);
+
+    const id = uuidv4();
+    const now = new Date();
+
+    const agent: Agent = {
+      id,
+      ...request,
+      status: AgentStatus.PENDING,
+      metadata: request.metadata || {},
+      version: 1,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    // Generate a challenge for agent verification
+    const challenge = createChallenge(this.verificationTimeout, now);
+
+    this.db.transaction(() => {
+      this.insertAgent(agent);
+      this.saveChallenge(id, challenge);
+      this.recordStatus(id, null, { status: agent.status, actor: SYSTEM_ACTOR, changedAt: now });
+      this.recordProfileVersion(agent, now);
+    })();
+
+    return {
+      agent,
+      verificationChallenge: challenge.challenge,
+      challengeExpiresAt: challenge.expiresAt
+    };
+  }
+
+  /**
+   * Get an agent by ID
+   */
+  async getAgent(id: string): Promise<Agent | null> {
+    const row = this.db
+      .prepare('SELECT * FROM agents WHERE id = ?')
+      .get(id) as AgentRow | undefined;
+
+    return row ? this.toAgent(row) : null;
+  }
+
+  /**
+   * Find agents that match the given criteria
+   * Capability and network filters are resolved through their indexes
+   */
+  async findAgents(query: AgentQuery): Promise<Agent[]> {
+    (query.metadata || []).forEach(validateMetadataFilter);
+
+    const { where, params } = this.queryConditions(query);
+    const rows = this.db
+      .prepare(`SELECT a.* FROM agents a ${where} ORDER BY a.created_at, a.rowid`)
+      .all(...params) as AgentRow[];
+
+    return this.toAgents(rows);
+  }
+
+  /**
+   * Search agents with sorting and cursor pagination
+   */
+  async searchAgents(query: AgentSearchQuery): Promise<AgentPage> {
+    const options = resolveSearchOptions(query);
+    const { conditions, params } = this.queryConditions(query);
+
+    const column = options.sortBy === 'performance' ? 'a.success_rate' : 'a.created_at';
+    const direction = options.sortOrder === 'asc' ? 'ASC' : 'DESC';
+
+    // Keyset pagination: continue after the last agent of the previous page
+    if (options.after) {
+      const comparison = options.sortOrder === 'asc' ? '>' : '<';
+      conditions.push(`(${column} ${comparison} ? OR (${column} = ? AND a.id ${comparison} ?))`);
+      params.push(options.after.value, options.after.value, options.after.id);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = this.db
+      .prepare(`SELECT a.* FROM agents a ${where} ORDER BY ${column} ${direction}, a.id ${direction} LIMIT ?`)
+      .all(...params, options.limit + 1) as AgentRow[];
+
+    const agents = this.toAgents(rows.slice(0, options.limit));
+
+    return {
+      agents,
+      nextCursor: rows.length > options.limit
+        ? encodeAgentCursor(agents[agents.length - 1], options)
+        : undefined
+    };
+  }
+
+  /**
+   * Update the status of an agent
+   * Suspensions go through suspendAgent and reinstateAgent instead
+   */
+  async updateAgentStatus(id: string, status: AgentStatus, actor: string = SYSTEM_ACTOR): Promise<Agent | null> {
+    const agent = await this.getAgent(id);
+
+    if (!agent) {
+      return null;
+    }
+
+    validateStatusChange(agent, status);
+
+    const now = new Date();
+    this.db.transaction(() => {
+      this.saveStatus(agent, status, now);
+      this.recordStatus(id, agent.status, { status, actor, changedAt: now });
+    })();
+
+    return this.getAgent(id);
+  }
+
+  /**
+   * Suspend an agent until it is reinstated or the suspension expires
+   */
+  async suspendAgent(id: string, request: AgentSuspensionRequest): Promise<Agent | null> {
+    const agent = await this.getAgent(id);
+
+    if (!agent) {
+      return null;
+    }
+
+    const now = new Date();
+    validateSuspension(agent, request, now);
+
+    this.db.transaction(() => {
+      this.saveStatus(agent, AgentStatus.SUSPENDED, now);
+      this.recordStatus(id, agent.status, {
+        status: AgentStatus.SUSPENDED,
+        actor: request.actor,
+        reason: request.reason,
+        expiresAt: request.expiresAt,
+        changedAt: now
+      });
+    })();
+
+    return this.getAgent(id);
+  }
+
+  /**
+   * Lift the suspension of an agent, restoring the status it had before
+   */
+  async reinstateAgent(id: string, actor: string, reason?: string): Promise<Agent | null> {
+    const agent = await this.getAgent(id);
+
+    if (!agent) {
+      return null;
+    }
+
+    if (agent.status !== AgentStatus.SUSPENDED) {
+      throw new AgentError(`Agent ${id} is not suspended`);
+    }
+
+    const suspension = this.latestSuspensions([id]).get(id);
+    const status = (suspension?.previous_status as AgentStatus | null) ?? AgentStatus.ACTIVE;
+    const now = new Date();
+
+    this.db.transaction(() => {
+      this.saveStatus(agent, status, now);
+      this.recordStatus(id, agent.status, { status, actor, reason, changedAt: now });
+    })();
+
+    return this.getAgent(id);
+  }
+
+  /**
+   * Attach the owner's appeal to the current suspension of an agent
+   * Each suspension can be appealed once
+   */
+  async appealSuspension(id: string, note: string, signature: string): Promise<Agent | null> {
+    const agent = await this.getAgent(id);
+
+    if (!agent) {
+      return null;
+    }
+
+    checkSuspensionAppeal(agent, note, signature);
+
+    // Only attach the appeal if it has not been appealed concurrently
+    const result = this.db
+      .prepare(`
+        UPDATE agent_status_history SET appeal_note = ?, appeal_submitted_at = ?
+        WHERE id = (SELECT MAX(id) FROM agent_status_history WHERE agent_id = ? AND status = ?)
+          AND appeal_note IS NULL
+      `)
+      .run(note, Date.now(), id, AgentStatus.SUSPENDED);
+
+    if (result.changes === 0) {
+      throw new AgentError(`Suspension of agent ${id} has already been appealed`);
+    }
+
+    return this.getAgent(id);
+  }
+
+  /**
+   * Reinstate agents whose suspension has expired
+   * Returns the IDs of the reinstated agents
+   */
+  async reinstateExpiredSuspensions(): Promise<string[]> {
+    const rows = this.db
+      .prepare(`
+        SELECT a.id FROM agents a
+        JOIN agent_status_history h ON h.id = (
+          SELECT MAX(id) FROM agent_status_history WHERE agent_id = a.id AND status = a.status
+        )
+        WHERE a.status = ? AND h.expires_at IS NOT NULL AND h.expires_at <= ?
+      `)
+      .all(AgentStatus.SUSPENDED, Date.now()) as Array<{ id: string }>;
+
+    const reinstated: string[] = [];
+
+    for (const { id } of rows) {
+      try {
+        await this.reinstateAgent(id, SYSTEM_ACTOR, SUSPENSION_EXPIRED_REASON);
+        reinstated.push(id);
+      } catch (error) {
+        console.error(`Error reinstating agent ${id}:`, error);
+      }
+    }
+
+    return reinstated;
+  }
+
+  /**
+   * Update the profile of an agent
+   * The update must be signed by the agent owner for the next version
+   */
+  async updateAgent(id: string, update: AgentProfileUpdate, signature: string): Promise<Agent | null> {
+    const agent = await this.getAgent(id);
+
+    if (!agent) {
+      return null;
+    }
+
+    checkProfileUpdate(agent, update, signature);
+
+    if (update.capabilities) {
+      await this.capabilityTaxonomy?.validate(update.capabilities);
+    }
+
+    const now = new Date();
+    const updatedAgent: Agent = {
+      ...agent,
+      capabilities: update.capabilities ?? agent.capabilities,
+      supportedNetworks: update.supportedNetworks ?? agent.supportedNetworks,
+      endpoint: update.endpoint ?? agent.endpoint,
+      metadata: update.metadata ?? agent.metadata,
+      version: agent.version + 1,
+      updatedAt: now
+    };
+
+    this.db.transaction(() => {
+      // Guard on the version so concurrent updates cannot both apply
+      const result = this.db
+        .prepare(`
+          UPDATE agents SET endpoint = ?, metadata = ?, version = ?, updated_at = ?
+          WHERE id = ? AND version = ?
+        `)
+        .run(
+          updatedAgent.endpoint,
+          JSON.stringify(updatedAgent.metadata),
+          updatedAgent.version,
+          now.getTime(),
+          id,
+          agent.version
+        );
+
+      if (result.changes === 0) {
+        throw new AgentError(`Agent ${id} was modified concurrently`);
+      }
+
+      this.db.prepare('DELETE FROM agent_capabilities WHERE agent_id = ?').run(id);
+      this.db.prepare('DELETE FROM agent_networks WHERE agent_id = ?').run(id);
+      this.insertCapabilitiesAndNetworks(updatedAgent);
+      this.recordProfileVersion(updatedAgent, now);
+    })();
+
+    return updatedAgent;
+  }
+
+  /**
+   * Get every version of an agent profile, oldest first
+   * History is kept after the agent is deregistered
+   */
+  async getAgentHistory(id: string): Promise<AgentProfileVersion[]> {
+    const rows = this.db
+      .prepare('SELECT version, profile, valid_from FROM agent_profile_versions WHERE agent_id = ? ORDER BY version')
+      .all(id) as Array<{ version: number; profile: string; valid_from: number }>;
+
+    return rows.map(row => ({
+      agentId: id,
+      version: row.version,
+      ...JSON.parse(row.profile),
+      validFrom: new Date(row.valid_from)
+    }));
+  }
+
+  /**
+   * Offer an agent to a new owner
+   * The offer must be signed by the current owner and is completed once
+   * the new owner accepts it; a new offer replaces any pending one
+   */
+  async offerOwnershipTransfer(
+    id: string,
+    newOwner: string,
+    expiresAt: Date,
+    signature: string
+  ): Promise<OwnershipTransferOffer | null> {
+    const agent = await this.getAgent(id);
+
+    if (!agent) {
+      return null;
+    }
+
+    if (!ethers.utils.isAddress(newOwner)) {
+      throw new ValidationError('New owner must be a valid address');
+    }
+
+    if (newOwner.toLowerCase() === agent.owner.toLowerCase()) {
+      throw new ValidationError('New owner must differ from the current owner');
+    }
+
+    if (expiresAt.getTime() <= Date.now()) {
+      throw new ValidationError('Ownership offer expiry must be in the future');
+    }
+
+    checkOwnershipOffer(agent, newOwner, expiresAt, signature);
+
+    const offer: OwnershipTransferOffer = {
+      agentId: id,
+      newOwner,
+      expiresAt,
+      offeredAt: new Date()
+    };
+
+    this.db
+      .prepare(`
+        INSERT INTO agent_ownership_offers (agent_id, new_owner, expires_at, offered_at) VALUES (?, ?, ?, ?)
+        ON CONFLICT (agent_id) DO UPDATE SET
+          new_owner = excluded.new_owner, expires_at = excluded.expires_at, offered_at = excluded.offered_at
+      `)
+      .run(id, newOwner, expiresAt.getTime(), offer.offeredAt.getTime());
+
+    return offer;
+  }
+
+  /**
+   * Accept a pending ownership offer, signed by the new owner
+   */
+  async acceptOwnershipTransfer(id: string, signature: string): Promise<Agent | null> {
+    const agent = await this.getAgent(id);
+
+    if (!agent) {
+      return null;
+    }
+
+    const offer = this.db
+      .prepare('SELECT new_owner, expires_at FROM agent_ownership_offers WHERE agent_id = ?')
+      .get(id) as { new_owner: string; expires_at: number } | undefined;
+
+    if (!offer) {
+      throw new AgentError(`Agent ${id} has no pending ownership transfer`);
+    }
+
+    if (offer.expires_at <= Date.now()) {
+      this.db.prepare('DELETE FROM agent_ownership_offers WHERE agent_id = ?').run(id);
+      throw new AgentError(`Ownership transfer of agent ${id} has expired`);
+    }
+
+    checkOwnershipAcceptance(agent, offer.new_owner, signature);
+
+    const updatedAgent: Agent = {
+      ...agent,
+      owner: offer.new_owner,
+      version: agent.version + 1,
+      updatedAt: new Date()
+    };
+
+    this.db.transaction(() => {
+      this.saveIdentity(agent, updatedAgent);
+      this.db.prepare('DELETE FROM agent_ownership_offers WHERE agent_id = ?').run(id);
+    })();
+
+    return updatedAgent;
+  }
+
+  /**
+   * Replace the key an agent signs with
+   * The rotation must be signed by the current key, which is rejected afterwards
+   */
+  async rotateAgentKey(id: string, newPublicKey: string, signature: string): Promise<Agent | null> {
+    const agent = await this.getAgent(id);
+
+    if (!agent) {
+      return null;
+    }
+
+    // Fails with an AgentError if the new key cannot sign
+    signerAddressForKey(newPublicKey);
+    checkKeyRotation(agent, newPublicKey, signature);
+
+    const updatedAgent: Agent = {
+      ...agent,
+      publicKey: newPublicKey,
+      version: agent.version + 1,
+      updatedAt: new Date()
+    };
+
+    this.db.transaction(() => {
+      this.saveIdentity(agent, updatedAgent);
+    })();
+
+    return updatedAgent;
+  }
+
+  /**
+   * Issue a fresh verification challenge for a pending agent
+   * Replaces any previously issued challenge
+   */
+  async issueChallenge(id: string): Promise<VerificationChallenge | null> {
+    const agent = await this.getAgent(id);
+
+    if (!agent) {
+      return null;
+    }
+
+    if (agent.status !== AgentStatus.PENDING) {
+      throw new AgentError(`Agent ${id} is already verified`);
+    }
+
+    const challenge = createChallenge(this.verificationTimeout);
+    this.saveChallenge(id, challenge);
+
+    return challenge;
+  }
+
+  /**
+   * Verify an agent using a signed challenge
+   */
+  async verifyAgent(id: string, signature: string): Promise<AgentVerificationResult> {
+    const agent = await this.getAgent(id);
+
+    if (!agent) {
+      return { verified: false, reason: VerificationFailureReason.AGENT_NOT_FOUND };
+    }
+
+    const row = this.db
+      .prepare('SELECT challenge, expires_at FROM agent_challenges WHERE agent_id = ?')
+      .get(id) as { challenge: string; expires_at: number } | undefined;
+
+    if (!row) {
+      return { verified: false, reason: VerificationFailureReason.NO_CHALLENGE };
+    }
+
+    // The owner signs the challenge as EIP-712 typed data before it expires
+    const reason = checkChallengeSignature(
+      this.signingDomain,
+      id,
+      { challenge: row.challenge, expiresAt: new Date(row.expires_at) },
+      signature,
+      agent.owner
+    );
+
+    if (reason) {
+      return { verified: false, reason };
+    }
+
+    // A challenge can only be used once
+    // Verification is the only way out of PENDING, so it skips validateStatusChange
+    const now = new Date();
+    this.db.transaction(() => {
+      this.db.prepare('DELETE FROM agent_challenges WHERE agent_id = ?').run(id);
+      this.saveStatus(agent, AgentStatus.ACTIVE, now);
+      this.recordStatus(id, agent.status, { status: AgentStatus.ACTIVE, actor: SYSTEM_ACTOR, changedAt: now });
+    })();
+
+    // Agents are only anchored once verified, so unverified registrations cost no gas
+    const verifiedAgent = await this.getAgent(id);
+    const anchor = await this.anchorAgent(verifiedAgent!, AnchorAction.VERIFIED);
+
+    return { verified: true, ...(anchor?.txHash ? { registryTxHash: anchor.txHash } : {}) };
+  }
+
+  /**
+   * Remove agents that stayed PENDING longer than the configured TTL
+   * Returns the IDs of the removed agents
+   */
+  async purgeUnverifiedAgents(): Promise<string[]> {
+    const cutoff = Date.now() - this.pendingAgentTtl;
+
+    return this.db.transaction(() => {
+      const rows = this.db
+        .prepare('SELECT id FROM agents WHERE status = ? AND created_at <= ?')
+        .all(AgentStatus.PENDING, cutoff) as Array<{ id: string }>;
+
+      const remove = this.db.prepare('DELETE FROM agents WHERE id = ?');
+      const removeHistory = this.db.prepare('DELETE FROM agent_profile_versions WHERE agent_id = ?');
+      for (const { id } of rows) {
+        remove.run(id);
+        removeHistory.run(id);
+      }
+
+      return rows.map(row => row.id);
+    })();
+  }
+
+  /**
+   * Record a signed heartbeat from an agent
+   * An INACTIVE agent is reactivated when its heartbeats resume
+   */
+  async recordHeartbeat(id: string, timestamp: Date, signature: string): Promise<Agent | null> {
+    const agent = await this.getAgent(id);
+
+    if (!agent) {
+      return null;
+    }
+
+    checkHeartbeat(agent, timestamp, signature, this.maxClockSkew);
+
+    const now = new Date();
+    this.db.transaction(() => {
+      this.db
+        .prepare('UPDATE agents SET last_seen_at = ?, updated_at = ? WHERE id = ?')
+        .run(timestamp.getTime(), now.getTime(), id);
+
+      if (agent.status === AgentStatus.INACTIVE) {
+        this.db
+          .prepare('UPDATE agents SET status = ? WHERE id = ?')
+          .run(AgentStatus.ACTIVE, id);
+        this.recordStatus(id, agent.status, { status: AgentStatus.ACTIVE, actor: SYSTEM_ACTOR, changedAt: now });
+      }
+    })();
+
+    return this.getAgent(id);
+  }
+
+  /**
+   * Deregister an agent from the registry
+   * Status history is kept for auditing
+   */
+  async deregisterAgent(id: string): Promise<boolean> {
+    const agent = await this.getAgent(id);
+
+    if (!agent) {
+      return false;
+    }
+
+    // Agents that were never verified were never anchored
+    if (agent.status !== AgentStatus.PENDING) {
+      await this.anchorAgent(agent, AnchorAction.DEREGISTERED);
+    }
+
+    const result = this.db
+      .prepare('DELETE FROM agents WHERE id = ?')
+      .run(id);
+
+    return result.changes > 0;
+  }
+
+  /**
+   * Record the outcome of a step executed by an agent
+   */
+  async recordStepOutcome(id: string, success: boolean, executionTime: number): Promise<void> {
+    // Right-hand sides see the counters from before the update
+    this.db
+      .prepare(`
+        UPDATE agents SET
+          completed_steps = completed_steps + ?,
+          failed_steps = failed_steps + ?,
+          success_rate = CAST(completed_steps + ? AS REAL) / (completed_steps + failed_steps + 1),
+          avg_execution_time = avg_execution_time + (? - avg_execution_time) / (completed_steps + failed_steps + 1)
+        WHERE id = ?
+      `)
+      .run(success ? 1 : 0, success ? 0 : 1, success ? 1 : 0, executionTime, id);
+  }
+
+  /**
+   * Get the on-chain anchors of an agent, oldest first
+   * Anchors are kept after the agent is deregistered
+   */
+  async getAnchors(id: string): Promise<AgentAnchor[]> {
+    const rows = this.db
+      .prepare('SELECT * FROM agent_anchors WHERE agent_id = ? ORDER BY id')
+      .all(id) as AnchorRow[];
+
+    return rows.map(row => this.toAnchor(row));
+  }
+
+  /**
+   * Check the confirmation status of pending anchors
+   * Returns the number of anchors that were confirmed or failed
+   */
+  async refreshAnchors(): Promise<number> {
+    if (!this.registryAnchor) {
+      return 0;
+    }
+
+    const rows = this.db
+      .prepare('SELECT * FROM agent_anchors WHERE status = ? ORDER BY id')
+      .all(AnchorStatus.PENDING) as AnchorRow[];
+
+    let settled = 0;
+
+    for (const row of rows) {
+      try {
+        const refreshed = await this.registryAnchor.refresh(this.toAnchor(row));
+
+        if (refreshed.status === AnchorStatus.PENDING) {
+          continue;
+        }
+
+        this.db
+          .prepare('UPDATE agent_anchors SET status = ?, error = ?, confirmed_at = ? WHERE id = ?')
+          .run(
+            refreshed.status,
+            refreshed.error ?? null,
+            refreshed.confirmedAt?.getTime() ?? null,
+            row.id
+          );
+        settled++;
+      } catch (error) {
+        console.error(`Error refreshing anchor ${row.tx_hash}:`, error);
+      }
+    }
+
+    return settled;
+  }
+
+  /**
+   * Get the recorded status changes of an agent, oldest first
+   * History is kept after the agent is deregistered
+   */
+  async getStatusHistory(id: string): Promise<AgentStatusChange[]> {
+    const rows = this.db
+      .prepare('SELECT * FROM agent_status_history WHERE agent_id = ? ORDER BY id')
+      .all(id) as StatusChangeRow[];
+
+    return rows.map(row => ({
+      agentId: row.agent_id,
+      status: row.status as AgentStatus,
+      previousStatus: (row.previous_status ?? undefined) as AgentStatus | undefined,
+      actor: row.actor,
+      reason: row.reason ?? undefined,
+      expiresAt: row.expires_at !== null ? new Date(row.expires_at) : undefined,
+      appeal: row.appeal_note !== null
+        ? { note: row.appeal_note, submittedAt: new Date(row.appeal_submitted_at!) }
+        : undefined,
+      changedAt: new Date(row.changed_at)
+    }));
+  }
+
+  /**
+   * Close the underlying database
+   */
+  close(): void {
+    this.db.close();
+  }
+
+  /**
+   * Build the WHERE conditions shared by findAgents and searchAgents
+   */
+  private queryConditions(query: AgentQuery): { conditions: string[]; params: any[]; where: string } {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    // Agents must have every requested capability or a child of it
+    // Names are matched through the index, version ranges by capability_satisfies
+    if (query.capabilities && query.capabilities.length > 0) {
+      for (const capability of query.capabilities) {
+        const { name } = parseCapability(capability);
+        conditions.push(
+          'EXISTS (SELECT 1 FROM agent_capabilities c WHERE c.agent_id = a.id ' +
+          'AND (c.name = ? OR (c.name > ? AND c.name < ?)) AND capability_satisfies(c.capability, ?))'
+        );
+        // Children of "defi.swap" sort between "defi.swap." and "defi.swap/"
+        params.push(name, `${name}.`, `${name}/`, capability);
+      }
+    }
+
+    // Agents must support at least one of the requested networks
+    if (query.networks && query.networks.length > 0) {
+      const placeholders = query.networks.map(() => '?').join(', ');
+      conditions.push(
+        `EXISTS (SELECT 1 FROM agent_networks n WHERE n.agent_id = a.id AND n.network IN (${placeholders}))`
+      );
+      params.push(...query.networks);
+    }
+
+    if (query.status) {
+      conditions.push('a.status = ?');
+      params.push(query.status);
+    }
+
+    if (query.owner) {
+      conditions.push('a.owner = ?');
+      params.push(query.owner);
+    }
+
+    // Free-text search over name and description
+    if (query.text) {
+      const pattern = `%${query.text.toLowerCase().replace(/[\\%_]/g, match => `\\${match}`)}%`;
+      conditions.push("(LOWER(a.name) LIKE ? ESCAPE '\\' OR LOWER(a.description) LIKE ? ESCAPE '\\')");
+      params.push(pattern, pattern);
+    }
+
+    for (const filter of query.metadata || []) {
+      conditions.push('metadata_matches(a.metadata, ?)');
+      params.push(JSON.stringify(filter));
+    }
+
+    return {
+      conditions,
+      params,
+      where: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''
+    };
+  }
+
+  private insertAgent(agent: Agent): void {
+    this.db
+      .prepare(`
+        INSERT INTO agents
+          (id, name, description, owner, endpoint, public_key, status, metadata, version, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `)
+      .run(
+        agent.id,
+        agent.name,
+        agent.description,
+        agent.owner,
+        agent.endpoint,
+        agent.publicKey,
+        agent.status,
+        JSON.stringify(agent.metadata),
+        agent.version,
+        agent.createdAt.getTime(),
+        agent.updatedAt.getTime()
+      );
+
+    this.insertCapabilitiesAndNetworks(agent);
+  }
+
+  private insertCapabilitiesAndNetworks(agent: Agent): void {
+    const insertCapability = this.db.prepare(
+      'INSERT INTO agent_capabilities (agent_id, position, capability, name) VALUES (?, ?, ?, ?)'
+    );
+    agent.capabilities.forEach((capability, position) => {
+      insertCapability.run(agent.id, position, capability, parseCapability(capability).name);
+    });
+
+    const insertNetwork = this.db.prepare(
+      'INSERT INTO agent_networks (agent_id, position, network) VALUES (?, ?, ?)'
+    );
+    agent.supportedNetworks.forEach((network, position) => {
+      insertNetwork.run(agent.id, position, network);
+    });
+  }
+
+  /**
+   * Persist a new owner or public key and record the new profile version
+   * Guarded on the previous version so concurrent changes cannot both apply
+   */
+  private saveIdentity(previous: Agent, updated: Agent): void {
+    const result = this.db
+      .prepare(`
+        UPDATE agents SET owner = ?, public_key = ?, version = ?, updated_at = ?
+        WHERE id = ? AND version = ?
+      `)
+      .run(
+        updated.owner,
+        updated.publicKey,
+        updated.version,
+        updated.updatedAt.getTime(),
+        updated.id,
+        previous.version
+      );
+
+    if (result.changes === 0) {
+      throw new AgentError(`Agent ${updated.id} was modified concurrently`);
+    }
+
+    this.recordProfileVersion(updated, updated.updatedAt);
+  }
+
+  /**
+   * Anchor a registry action on-chain, if anchoring is enabled
+   */
+  private async anchorAgent(agent: Agent, action: AnchorAction): Promise<AgentAnchor | undefined> {
+    if (!this.registryAnchor) {
+      return undefined;
+    }
+
+    const anchor = await this.registryAnchor.submit(agent, action);
+
+    this.db
+      .prepare(`
+        INSERT INTO agent_anchors
+          (agent_id, action, profile_hash, tx_hash, status, error, submitted_at, confirmed_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `)
+      .run(
+        agent.id,
+        anchor.action,
+        anchor.profileHash,
+        anchor.txHash ?? null,
+        anchor.status,
+        anchor.error ?? null,
+        anchor.submittedAt.getTime(),
+        anchor.confirmedAt?.getTime() ?? null
+      );
+
+    return anchor;
+  }
+
+  private toAnchor(row: AnchorRow): AgentAnchor {
+    return {
+      action: row.action as AnchorAction,
+      profileHash: row.profile_hash,
+      txHash: row.tx_hash ?? undefined,
+      status: row.status as AnchorStatus,
+      error: row.error ?? undefined,
+      submittedAt: new Date(row.submitted_at),
+      confirmedAt: row.confirmed_at !== null ? new Date(row.confirmed_at) : undefined
+    };
+  }
+
+  private recordProfileVersion(agent: Agent, validFrom: Date): void {
+    const profile = {
+      owner: agent.owner,
+      publicKey: agent.publicKey,
+      capabilities: agent.capabilities,
+      supportedNetworks: agent.supportedNetworks,
+      endpoint: agent.endpoint,
+      metadata: agent.metadata
+    };
+
+    this.db
+      .prepare('INSERT INTO agent_profile_versions (agent_id, version, profile, valid_from) VALUES (?, ?, ?, ?)')
+      .run(agent.id, agent.version, JSON.stringify(profile), validFrom.getTime());
+  }
+
+  private saveChallenge(id: string, challenge: VerificationChallenge): void {
+    this.db
+      .prepare(`
+        INSERT INTO agent_challenges (agent_id, challenge, expires_at) VALUES (?, ?, ?)
+        ON CONFLICT (agent_id) DO UPDATE SET challenge = excluded.challenge, expires_at = excluded.expires_at
+      `)
+      .run(id, challenge.challenge, challenge.expiresAt.getTime());
+  }
+
+  /**
+   * Change the status of an agent, guarded on the status it was read with
+   */
+  private saveStatus(agent: Agent, status: AgentStatus, now: Date): void {
+    const result = this.db
+      .prepare('UPDATE agents SET status = ?, updated_at = ? WHERE id = ? AND status = ?')
+      .run(status, now.getTime(), agent.id, agent.status);
+
+    if (result.changes === 0) {
+      throw new AgentError(`Agent ${agent.id} was modified concurrently`);
+    }
+  }
+
+  private recordStatus(
+    id: string,
+    previousStatus: AgentStatus | null,
+    change: Omit<AgentStatusChange, 'agentId' | 'previousStatus' | 'appeal'>
+  ): void {
+    this.db
+      .prepare(`
+        INSERT INTO agent_status_history
+          (agent_id, status, previous_status, actor, reason, expires_at, changed_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+      `)
+      .run(
+        id,
+        change.status,
+        previousStatus,
+        change.actor,
+        change.reason ?? null,
+        change.expiresAt?.getTime() ?? null,
+        change.changedAt.getTime()
+      );
+  }
+
+  /**
+   * Get the latest suspension record of each of the given agents
+   */
+  private latestSuspensions(ids: string[]): Map<string, StatusChangeRow> {
+    const placeholders = ids.map(() => '?').join(', ');
+    const rows = this.db
+      .prepare(`
+        SELECT * FROM agent_status_history WHERE id IN (
+          SELECT MAX(id) FROM agent_status_history
+          WHERE status = ? AND agent_id IN (${placeholders}) GROUP BY agent_id
+        )
+      `)
+      .all(AgentStatus.SUSPENDED, ...ids) as StatusChangeRow[];
+
+    return new Map(rows.map(row => [row.agent_id, row]));
+  }
+
+  private toSuspension(row: StatusChangeRow): AgentSuspension {
+    return {
+      reason: row.reason ?? '',
+      actor: row.actor,
+      suspendedAt: new Date(row.changed_at),
+      expiresAt: row.expires_at !== null ? new Date(row.expires_at) : undefined,
+      appeal: row.appeal_note !== null
+        ? { note: row.appeal_note, submittedAt: new Date(row.appeal_submitted_at!) }
+        : undefined
+    };
+  }
+
+  private toAgent(row: AgentRow): Agent {
+    return this.toAgents([row])[0];
+  }
+
+  /**
+   * Hydrate agent rows, loading capabilities and networks in bulk
+   */
+  private toAgents(rows: AgentRow[]): Agent[] {
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const capabilities = new Map<string, string[]>();
+    const networks = new Map<string, string[]>();
+    const anchors = new Map<string, AgentAnchor>();
+    const suspensions = new Map<string, AgentSuspension>();
+
+    // Chunk the ID list to stay within SQLite's bound parameter limit
+    for (let i = 0; i < rows.length; i += 500) {
+      const ids = rows.slice(i, i + 500).map(row => row.id);
+      const placeholders = ids.map(() => '?').join(', ');
+
+      const capabilityRows = this.db
+        .prepare(`SELECT agent_id, capability FROM agent_capabilities WHERE agent_id IN (${placeholders}) ORDER BY agent_id, position`)
+        .all(...ids) as Array<{ agent_id: string; capability: string }>;
+      for (const { agent_id, capability } of capabilityRows) {
+        if (!capabilities.has(agent_id)) {
+          capabilities.set(agent_id, []);
+        }
+        capabilities.get(agent_id)!.push(capability);
+      }
+
+      const networkRows = this.db
+        .prepare(`SELECT agent_id, network FROM agent_networks WHERE agent_id IN (${placeholders}) ORDER BY agent_id, position`)
+        .all(...ids) as Array<{ agent_id: string; network: string }>;
+      for (const { agent_id, network } of networkRows) {
+        if (!networks.has(agent_id)) {
+          networks.set(agent_id, []);
+        }
+        networks.get(agent_id)!.push(network);
+      }
+
+      // Only the latest anchor of each agent is exposed on the agent
+      const anchorRows = this.db
+        .prepare(`
+          SELECT * FROM agent_anchors WHERE id IN (
+            SELECT MAX(id) FROM agent_anchors WHERE agent_id IN (${placeholders}) GROUP BY agent_id
+          )
+        `)
+        .all(...ids) as AnchorRow[];
+      for (const anchorRow of anchorRows) {
+        anchors.set(anchorRow.agent_id, this.toAnchor(anchorRow));
+      }
+
+      // Suspension details are only exposed while the agent is suspended
+      const suspendedIds = rows
+        .slice(i, i + 500)
+        .filter(row => row.status === AgentStatus.SUSPENDED)
+        .map(row => row.id);
+      if (suspendedIds.length > 0) {
+        for (const [agentId, suspensionRow] of this.latestSuspensions(suspendedIds)) {
+          suspensions.set(agentId, this.toSuspension(suspensionRow));
+        }
+      }
+    }
+
+    return rows.map(row => ({
+      id: row.id,
+      name: row.name,
+      description: row.description,
+      owner: row.owner,
+      capabilities: capabilities.get(row.id) || [],
+      supportedNetworks: (networks.get(row.id) || []) as Agent['supportedNetworks'],
+      endpoint: row.endpoint,
+      publicKey: row.public_key,
+      status: row.status as AgentStatus,
+      metadata: JSON.parse(row.metadata),
+      version: row.version,
+      lastSeenAt: row.last_seen_at !== null ? new Date(row.last_seen_at) : undefined,
+      performance: row.completed_steps + row.failed_steps > 0
+        ? {
+          completedSteps: row.completed_steps,
+          failedSteps: row.failed_steps,
+          successRate: row.success_rate,
+          averageExecutionTime: row.avg_execution_time
+        }
+        : undefined,
+      anchor: anchors.get(row.id),
+      suspension: suspensions.get(row.id),
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at)
+    }));
+  }
+}
@@ -0,0 +1,62 @@
+import { Agent, AgentStatus } from '../types';
+import { AgentError, ValidationError } from '../../utils/errors';
+import { AgentSuspensionRequest } from './types';
+
+/**
+ * Check that an agent can be suspended with the given request
+ * Throws a ValidationError for a missing reason or actor or a past expiry,
+ * and an AgentError if the agent is already suspended
+ */
+export function validateSuspension(agent: Agent, request: AgentSuspensionRequest, now: Date = new Date()): void {
+  if (!request.reason || !request.reason.trim()) {
+    throw new ValidationError('A suspension requires a reason');
+  }
+
+  if (!request.actor) {
+    throw new ValidationError('A suspension requires an actor');
+  }
+
+  if (request.expiresAt && request.expiresAt.getTime() <= now.getTime()) {
+    throw new ValidationError('Suspension expiry must be in the future');
+  }
+
+  if (agent.status === AgentStatus.SUSPENDED) {
+    throw new AgentError(`Agent ${agent.id} is already suspended`);
+  }
+}
+
+/**
+ * Check that a plain status change does not bypass the verification or
+ * suspension workflows
+ * Pending agents only become active by verifying their challenge, suspending
+ * needs a reason and lifting a suspension needs a reinstatement
+ */
+export function validateStatusChange(agent: Agent, status: AgentStatus): void {
+  if (agent.status === AgentStatus.PENDING) {
+    throw new AgentError(`Agent ${agent.id} is pending and must be verified first`);
+  }
+
+  if (status === AgentStatus.PENDING) {
+    throw new AgentError('Agents are only pending until their first verification');
+  }
+
+  if (status === AgentStatus.SUSPENDED) {
+    throw new AgentError('Agents must be suspended with a reason; use the suspension workflow');
+  }
+
+  if (agent.status === AgentStatus.SUSPENDED) {
+    throw new AgentError(`Agent ${agent.id} is suspended and must be reinstated first`);
+  }
+}
+
+/**
+ * Check whether the suspension of an agent has run out
+ */
+export function isSuspensionExpired(agent: Agent, now: Date = new Date()): boolean {
+  return agent.status === AgentStatus.SUSPENDED &&
+    !!agent.suspension?.expiresAt &&
+    agent.suspension.expiresAt.getTime() <= now.getTime();
+}
+
+// Reason recorded when a suspension is lifted automatically
+export const SUSPENSION_EXPIRED_REASON = 'Suspension expired';
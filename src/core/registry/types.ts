@@ -1,4 +1,7 @@
-import { Agent, AgentCapability, BlockchainNetwork, AgentStatus } from '../types';
+import { Agent, AgentAnchor, AgentCapability, BlockchainNetwork, AgentStatus, SuspensionAppeal } from '../types';
+import { CapabilityTaxonomy } from '../capabilities/types';
+import { RegistryAnchor } from './anchor';
+import { SigningDomain } from '../signing/types';
 
 export interface AgentRegistrationRequest {
   name: string;
@@ -14,21 +17,150 @@ export interface AgentRegistrationRequest {
 export interface AgentRegistrationResponse {
   agent: Agent;
   verificationChallenge: string;
-  registryTxHash?: string;
+  challengeExpiresAt: Date;
 }
 
-export interface AgentQuery {
+// Fields of an agent profile that the owner may change after registration
+export interface AgentProfileUpdate {
   capabilities?: AgentCapability[];
+  supportedNetworks?: BlockchainNetwork[];
+  endpoint?: string;
+  metadata?: Record<string, any>;
+}
+
+// Snapshot of what an agent advertised from a point in time onwards
+export interface AgentProfileVersion {
+  agentId: string;
+  version: number;
+  owner: string;
+  publicKey: string;
+  capabilities: AgentCapability[];
+  supportedNetworks: BlockchainNetwork[];
+  endpoint: string;
+  metadata: Record<string, any>;
+  validFrom: Date;
+}
+
+// Pending offer from the current owner to transfer an agent
+export interface OwnershipTransferOffer {
+  agentId: string;
+  newOwner: string;
+  expiresAt: Date;
+  offeredAt: Date;
+}
+
+export interface AgentSuspensionRequest {
+  reason: string;
+  actor: string;
+  expiresAt?: Date; // Omit for an indefinite suspension
+}
+
+// An entry of an agent's status history
+export interface AgentStatusChange {
+  agentId: string;
+  status: AgentStatus;
+  previousStatus?: AgentStatus; // Unset for the initial PENDING status
+  actor: string; // 'system' for automatic changes
+  reason?: string;
+  expiresAt?: Date; // Suspensions only
+  appeal?: SuspensionAppeal; // Suspensions only
+  changedAt: Date;
+}
+
+export type MetadataFilterOperator =
+  | 'eq'
+  | 'ne'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'in'
+  | 'contains'
+  | 'exists';
+
+export type MetadataValue = string | number | boolean;
+
+// Typed filter on a metadata field; nested fields use dot paths such as "pricing.tier"
+// Values only match metadata of the same JSON type, so 2 does not equal "2"
+export interface MetadataFilter {
+  field: string;
+  operator: MetadataFilterOperator;
+  value?: MetadataValue | MetadataValue[]; // A list for 'in', omitted for 'exists'
+}
+
+export interface AgentQuery {
+  capabilities?: AgentCapability[]; // Requirements; matched against the capability hierarchy
   networks?: BlockchainNetwork[];
   status?: AgentStatus;
   owner?: string;
+  text?: string; // Case-insensitive search over name and description
+  metadata?: MetadataFilter[];
+}
+
+export type AgentSortField = 'createdAt' | 'performance';
+
+export interface AgentSearchQuery extends AgentQuery {
+  sortBy?: AgentSortField;
+  sortOrder?: 'asc' | 'desc';
+  limit?: number;
+  cursor?: string; // nextCursor of the previous page
+}
+
+export interface AgentPage {
+  agents: Agent[];
+  nextCursor?: string; // Set when more agents match
+}
+
+export interface VerificationChallenge {
+  challenge: string;
+  expiresAt: Date;
+}
+
+export enum VerificationFailureReason {
+  AGENT_NOT_FOUND = 'AGENT_NOT_FOUND',
+  NO_CHALLENGE = 'NO_CHALLENGE',
+  CHALLENGE_EXPIRED = 'CHALLENGE_EXPIRED',
+  WRONG_SIGNER = 'WRONG_SIGNER',
+  MALFORMED_SIGNATURE = 'MALFORMED_SIGNATURE'
+}
+
+export interface AgentVerificationResult {
+  verified: boolean;
+  reason?: VerificationFailureReason;
+  registryTxHash?: string; // Set when the verified agent was anchored on-chain
+}
+
+export interface AgentRegistryOptions {
+  verificationTimeout?: number; // How long a challenge stays valid, in milliseconds
+  pendingAgentTtl?: number; // How long an agent may stay PENDING before it is purged, in milliseconds
+  maxClockSkew?: number; // Maximum age of a signed heartbeat timestamp, in milliseconds
+  capabilityTaxonomy?: CapabilityTaxonomy; // When set, advertised capabilities must be known
+  registryAnchor?: RegistryAnchor; // When set, registrations, verifications and deregistrations are anchored on-chain
+  signingDomain?: SigningDomain; // EIP-712 domain verification challenges are signed for; defaults to chain 1
 }
 
 export interface AgentRegistry {
   registerAgent(request: AgentRegistrationRequest): Promise<AgentRegistrationResponse>;
   getAgent(id: string): Promise<Agent | null>;
   findAgents(query: AgentQuery): Promise<Agent[]>;
-  updateAgentStatus(id: string, status: AgentStatus): Promise<Agent | null>;
-  verifyAgent(id: string, signature: string): Promise<boolean>;
+  searchAgents(query: AgentSearchQuery): Promise<AgentPage>;
+  updateAgentStatus(id: string, status: AgentStatus, actor?: string): Promise<Agent | null>;
+  suspendAgent(id: string, request: AgentSuspensionRequest): Promise<Agent | null>;
+  reinstateAgent(id: string, actor: string, reason?: string): Promise<Agent | null>;
+  appealSuspension(id: string, note: string, signature: string): Promise<Agent | null>;
+  reinstateExpiredSuspensions(): Promise<string[]>;
+  getStatusHistory(id: string): Promise<AgentStatusChange[]>;
+  updateAgent(id: string, update: AgentProfileUpdate, signature: string): Promise<Agent | null>;
+  getAgentHistory(id: string): Promise<AgentProfileVersion[]>;
+  offerOwnershipTransfer(id: string, newOwner: string, expiresAt: Date, signature: string): Promise<OwnershipTransferOffer | null>;
+  acceptOwnershipTransfer(id: string, signature: string): Promise<Agent | null>;
+  rotateAgentKey(id: string, newPublicKey: string, signature: string): Promise<Agent | null>;
+  issueChallenge(id: string): Promise<VerificationChallenge | null>;
+  verifyAgent(id: string, signature: string): Promise<AgentVerificationResult>;
+  purgeUnverifiedAgents(): Promise<string[]>;
+  recordHeartbeat(id: string, timestamp: Date, signature: string): Promise<Agent | null>;
   deregisterAgent(id: string): Promise<boolean>;
-}
\ No newline at end of file
+  getAnchors(id: string): Promise<AgentAnchor[]>;
+  refreshAnchors(): Promise<number>;
+  recordStepOutcome(id: string, success: boolean, executionTime: number): Promise<void>;
+}
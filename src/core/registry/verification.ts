@@ -0,0 +1,296 @@
+import { ethers } from 'ethers';
+import { Agent } from '../types';
+import { AgentError, AuthorizationError } from '../../utils/errors';
+import { AgentProfileUpdate, VerificationChallenge, VerificationFailureReason } from './types';
+import { SigningDomain, SignedPayload } from '../signing/types';
+import { AGENT_VERIFICATION_TYPES, STEP_RESULT_TYPES, checkTypedSignature } from '../signing/typed-data';
+
+/**
+ * Generate a fresh verification challenge that expires after the given timeout
+ * The expiry is rounded down to a whole second, as it is signed in unix seconds
+ */
+export function createChallenge(timeout: number, now: Date = new Date()): VerificationChallenge {
+  const challenge = ethers.utils.hexlify(ethers.utils.randomBytes(32));
+  
+  return {
+    challenge,
+    expiresAt: new Date(Math.floor((now.getTime() + timeout) / 1000) * 1000)
+  };
+}
+
+/**
+ * Build the EIP-712 AgentVerification value an owner signs for a challenge
+ */
+export function agentVerificationValue(agentId: string, owner: string, challenge: VerificationChallenge): Record<string, any> {
+  return {
+    agentId,
+    owner,
+    challenge: challenge.challenge,
+    expiry: Math.floor(challenge.expiresAt.getTime() / 1000)
+  };
+}
+
+/**
+ * Check a challenge signed as EIP-712 typed data against the expected signer
+ * Returns the failure reason, or null if the signature is valid
+ */
+export function checkChallengeSignature(
+  domain: SigningDomain,
+  agentId: string,
+  challenge: VerificationChallenge,
+  signature: string,
+  expectedSigner: string,
+  now: Date = new Date()
+): VerificationFailureReason | null {
+  if (challenge.expiresAt.getTime() <= now.getTime()) {
+    return VerificationFailureReason.CHALLENGE_EXPIRED;
+  }
+  
+  let recoveredAddress: string;
+  try {
+    // Recover the signer from the typed data signature
+    recoveredAddress = ethers.utils.verifyTypedData(
+      domain,
+      AGENT_VERIFICATION_TYPES,
+      agentVerificationValue(agentId, expectedSigner, challenge),
+      signature
+    );
+  } catch (error) {
+    return VerificationFailureReason.MALFORMED_SIGNATURE;
+  }
+  
+  if (recoveredAddress.toLowerCase() !== expectedSigner.toLowerCase()) {
+    return VerificationFailureReason.WRONG_SIGNER;
+  }
+  
+  return null;
+}
+
+/**
+ * Resolve the signing address for an agent public key
+ * Accepts either an address or an uncompressed/compressed public key
+ */
+export function signerAddressForKey(publicKey: string): string {
+  try {
+    return ethers.utils.isAddress(publicKey)
+      ? ethers.utils.getAddress(publicKey)
+      : ethers.utils.computeAddress(publicKey);
+  } catch (error) {
+    throw new AgentError('Agent public key is not a valid Ethereum key or address');
+  }
+}
+
+/**
+ * Build the message an agent signs to report a heartbeat
+ */
+export function heartbeatMessage(agentId: string, timestamp: Date): string {
+  return `AgentBlend heartbeat ${agentId} ${timestamp.toISOString()}`;
+}
+
+/**
+ * Check a signed heartbeat from an agent
+ * Throws an AuthorizationError if the heartbeat is stale, replayed or not
+ * signed by the agent's key
+ */
+export function checkHeartbeat(
+  agent: Agent,
+  timestamp: Date,
+  signature: string,
+  maxClockSkew: number,
+  now: Date = new Date()
+): void {
+  if (Math.abs(now.getTime() - timestamp.getTime()) > maxClockSkew) {
+    throw new AuthorizationError('Heartbeat timestamp is outside the accepted window');
+  }
+  
+  if (agent.lastSeenAt && timestamp.getTime() <= agent.lastSeenAt.getTime()) {
+    throw new AuthorizationError('Heartbeat is not newer than the last one received');
+  }
+  
+  const message = heartbeatMessage(agent.id, timestamp);
+  checkSigner(message, signature, signerAddressForKey(agent.publicKey), 'Heartbeat', 'the agent key');
+}
+
+/**
+ * Serialize a value as JSON with object keys sorted, so that the same
+ * content always produces the same string
+ */
+export function canonicalJson(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    const entries = Object.keys(value)
+      .filter(key => value[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson(value[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  
+  return JSON.stringify(value);
+}
+
+/**
+ * Build the message an owner signs to update an agent profile
+ * The target version prevents the same signed update from being replayed
+ */
+export function profileUpdateMessage(agentId: string, version: number, update: AgentProfileUpdate): string {
+  const digest = ethers.utils.keccak256(ethers.utils.toUtf8Bytes(canonicalJson(update)));
+  return `AgentBlend profile update ${agentId} v${version} ${digest}`;
+}
+
+/**
+ * Check that a profile update is signed by the agent owner
+ * Throws an AuthorizationError otherwise
+ */
+export function checkProfileUpdate(agent: Agent, update: AgentProfileUpdate, signature: string): void {
+  const message = profileUpdateMessage(agent.id, agent.version + 1, update);
+  checkSigner(message, signature, agent.owner, 'Profile update', 'the agent owner');
+}
+
+/**
+ * Build the message the current owner signs to offer an agent to a new owner
+ */
+export function ownershipOfferMessage(agentId: string, version: number, newOwner: string, expiresAt: Date): string {
+  return `AgentBlend ownership offer ${agentId} v${version} to ${newOwner.toLowerCase()} until ${expiresAt.toISOString()}`;
+}
+
+/**
+ * Build the message the new owner signs to accept an ownership offer
+ */
+export function ownershipAcceptanceMessage(agentId: string, version: number, newOwner: string): string {
+  return `AgentBlend ownership acceptance ${agentId} v${version} by ${newOwner.toLowerCase()}`;
+}
+
+/**
+ * Check that an ownership offer is signed by the current owner
+ */
+export function checkOwnershipOffer(agent: Agent, newOwner: string, expiresAt: Date, signature: string): void {
+  const message = ownershipOfferMessage(agent.id, agent.version + 1, newOwner, expiresAt);
+  checkSigner(message, signature, agent.owner, 'Ownership offer', 'the agent owner');
+}
+
+/**
+ * Check that an ownership acceptance is signed by the new owner
+ */
+export function checkOwnershipAcceptance(agent: Agent, newOwner: string, signature: string): void {
+  const message = ownershipAcceptanceMessage(agent.id, agent.version + 1, newOwner);
+  checkSigner(message, signature, newOwner, 'Ownership acceptance', 'the new owner');
+}
+
+/**
+ * Build the message the current agent key signs to hand over to a new key
+ */
+export function keyRotationMessage(agentId: string, version: number, newPublicKey: string): string {
+  return `AgentBlend key rotation ${agentId} v${version} to ${newPublicKey}`;
+}
+
+/**
+ * Check that a key rotation is signed by the agent's current key
+ */
+export function checkKeyRotation(agent: Agent, newPublicKey: string, signature: string): void {
+  const message = keyRotationMessage(agent.id, agent.version + 1, newPublicKey);
+  checkSigner(message, signature, signerAddressForKey(agent.publicKey), 'Key rotation', 'the current agent key');
+}
+
+/**
+ * Build the EIP-712 StepResult value an agent signs to submit the result of
+ * an attempt of a step
+ */
+export function stepResultValue(
+  taskId: string,
+  stepId: string,
+  attempt: number,
+  result: { success: boolean; output?: Record<string, any>; error?: string },
+  payload: SignedPayload
+): Record<string, any> {
+  const resultHash = ethers.utils.keccak256(ethers.utils.toUtf8Bytes(canonicalJson({
+    success: result.success,
+    output: result.output,
+    error: result.error
+  })));
+  
+  return {
+    taskId,
+    stepId,
+    attempt,
+    success: result.success,
+    resultHash,
+    nonce: payload.nonce,
+    expiry: payload.expiry
+  };
+}
+
+/**
+ * Check that a step result is signed by the agent's current key
+ * The nonce and expiry are checked separately by the caller
+ */
+export function checkStepResult(
+  domain: SigningDomain,
+  agent: Agent,
+  taskId: string,
+  stepId: string,
+  attempt: number,
+  result: { success: boolean; output?: Record<string, any>; error?: string },
+  payload: SignedPayload
+): void {
+  checkTypedSignature(
+    domain,
+    STEP_RESULT_TYPES,
+    stepResultValue(taskId, stepId, attempt, result, payload),
+    payload.signature,
+    signerAddressForKey(agent.publicKey),
+    'Step result',
+    'the assigned agent key'
+  );
+}
+
+/**
+ * Build the message an owner signs to appeal a suspension
+ * The suspension time ties the appeal to one suspension
+ */
+export function suspensionAppealMessage(agentId: string, suspendedAt: Date, note: string): string {
+  const digest = ethers.utils.keccak256(ethers.utils.toUtf8Bytes(note));
+  return `AgentBlend suspension appeal ${agentId} ${suspendedAt.toISOString()} ${digest}`;
+}
+
+/**
+ * Check that an appeal against the current suspension is signed by the agent owner
+ */
+export function checkSuspensionAppeal(agent: Agent, note: string, signature: string): void {
+  if (!agent.suspension) {
+    throw new AgentError(`Agent ${agent.id} is not suspended`);
+  }
+  
+  if (agent.suspension.appeal) {
+    throw new AgentError(`Suspension of agent ${agent.id} has already been appealed`);
+  }
+  
+  const message = suspensionAppealMessage(agent.id, agent.suspension.suspendedAt, note);
+  checkSigner(message, signature, agent.owner, 'Suspension appeal', 'the agent owner');
+}
+
+/**
+ * Recover the signer of a personal message and compare it to the expected address
+ */
+function checkSigner(message: string, signature: string, expected: string, subject: string, signerName: string): void {
+  let recoveredAddress: string;
+  try {
+    recoveredAddress = ethers.utils.verifyMessage(message, signature);
+  } catch (error) {
+    throw new AuthorizationError(`Malformed ${subject.toLowerCase()} signature`);
+  }
+  
+  if (recoveredAddress.toLowerCase() !== expected.toLowerCase()) {
+    throw new AuthorizationError(`${subject} is not signed by ${signerName}`);
+  }
+}
+
+// Defaults used when the registry is created without explicit options
+export const DEFAULT_VERIFICATION_TIMEOUT = 5 * 60 * 1000; // 5 minutes
+export const DEFAULT_PENDING_AGENT_TTL = 24 * 60 * 60 * 1000; // 24 hours
+export const DEFAULT_MAX_CLOCK_SKEW = 60 * 1000; // 1 minute
+
+// Actor recorded for status changes made by the registry itself
+export const SYSTEM_ACTOR = 'system';
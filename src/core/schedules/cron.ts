@@ -0,0 +1,132 @@
+import { ValidationError } from '../../utils/errors';
+
+// How far ahead to look for the next match before giving up, e.g. for "0 0 30 2 *"
+const SEARCH_YEARS = 5;
+
+interface CronField {
+  values: Set<number>;
+  any: boolean; // The field is "*", which matters for the day fields
+}
+
+interface CronExpression {
+  minutes: CronField;
+  hours: CronField;
+  daysOfMonth: CronField;
+  months: CronField;
+  daysOfWeek: CronField;
+}
+
+// Allowed range of each field, in order
+const FIELD_RANGES: [number, number][] = [
+  [0, 59],
+  [0, 23],
+  [1, 31],
+  [1, 12],
+  [0, 7] // 0 and 7 are both Sunday
+];
+
+/**
+ * Parse a five-field cron expression: minute, hour, day of month, month and
+ * day of week. Fields take numbers, "*", ranges such as "1-5", steps over
+ * either such as "0-30/10", and comma-separated lists of those.
+ * Throws a ValidationError for malformed expressions
+ */
+export function parseCron(expression: string): CronExpression {
+  const fields = expression.trim().split(/\s+/);
+
+  if (fields.length !== FIELD_RANGES.length) {
+    throw new ValidationError(`Cron expression must have 5 fields: ${expression}`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) =>
+    parseField(field, FIELD_RANGES[index], expression)
+  );
+
+  if (daysOfWeek.values.delete(7)) {
+    daysOfWeek.values.add(0);
+  }
+
+  return { minutes, hours, daysOfMonth, months, daysOfWeek };
+}
+
+/**
+ * Check that a cron expression is well formed and matches some date
+ */
+export function isValidCron(expression: string): boolean {
+  try {
+    return nextCronRun(expression, new Date()) !== null;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Get the first time after the given date that a cron expression matches, in UTC
+ * Returns null when it matches nothing within the next few years
+ */
+export function nextCronRun(expression: string, after: Date): Date | null {
+  const cron = parseCron(expression);
+  const date = new Date(after.getTime());
+  date.setUTCSeconds(0, 0);
+  date.setUTCMinutes(date.getUTCMinutes() + 1);
+
+  const limit = new Date(after.getTime());
+  limit.setUTCFullYear(limit.getUTCFullYear() + SEARCH_YEARS);
+
+  while (date.getTime() <= limit.getTime()) {
+    if (!cron.months.values.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0, 0, 0);
+    } else if (!matchesDay(cron, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0, 0, 0);
+    } else if (!cron.hours.values.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0, 0, 0);
+    } else if (!cron.minutes.values.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1, 0, 0);
+    } else {
+      return date;
+    }
+  }
+
+  return null;
+}
+
+function parseField(field: string, [min, max]: [number, number], expression: string): CronField {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+
+    if (!match) {
+      throw new ValidationError(`Invalid cron field "${field}" in ${expression}`);
+    }
+
+    const [, range, start, end, step] = match;
+    const from = range === '*' ? min : Number(start);
+    const to = range === '*' ? max : end !== undefined ? Number(end) : step !== undefined ? max : from;
+    const increment = step !== undefined ? Number(step) : 1;
+
+    if (from < min || to > max || from > to || increment < 1) {
+      throw new ValidationError(`Invalid cron field "${field}" in ${expression}`);
+    }
+
+    for (let value = from; value <= to; value += increment) {
+      values.add(value);
+    }
+  }
+
+  return { values, any: field === '*' };
+}
+
+// As in standard cron, a date matches either day field when both are restricted
+function matchesDay(cron: CronExpression, date: Date): boolean {
+  const dayOfMonth = cron.daysOfMonth.values.has(date.getUTCDate());
+  const dayOfWeek = cron.daysOfWeek.values.has(date.getUTCDay());
+
+  if (cron.daysOfMonth.any || cron.daysOfWeek.any) {
+    return dayOfMonth && dayOfWeek;
+  }
+
+  return dayOfMonth || dayOfWeek;
+}
@@ -0,0 +1,6 @@
+export * from './types';
+export * from './cron';
+export * from './scheduler';
+export * from './schedule-store';
+export * from './sqlite-schedule-store';
+export { InMemoryTaskScheduler as TaskSchedulerImpl } from './scheduler';
\ No newline at end of file
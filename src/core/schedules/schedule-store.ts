@@ -0,0 +1,25 @@
+import { ScheduleStore, TaskSchedule } from './types';
+
+/**
+ * In-memory implementation of the Schedule Store
+ * Schedules are lost when the process stops
+ */
+export class InMemoryScheduleStore implements ScheduleStore {
+  private schedules: Map<string, TaskSchedule> = new Map();
+
+  getSchedule(id: string): TaskSchedule | undefined {
+    return this.schedules.get(id);
+  }
+
+  saveSchedule(schedule: TaskSchedule): void {
+    this.schedules.set(schedule.id, schedule);
+  }
+
+  deleteSchedule(id: string): boolean {
+    return this.schedules.delete(id);
+  }
+
+  listSchedules(): TaskSchedule[] {
+    return Array.from(this.schedules.values());
+  }
+}
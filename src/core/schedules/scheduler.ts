@@ -0,0 +1,319 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Task, TaskStatus, Workflow } from '../types';
+import { TaskOrchestrationEngine, WorkflowEngine } from '../orchestration/types';
+import { DefaultWorkflowEngine } from '../orchestration/workflow';
+import { WorkflowTemplateStore } from '../templates/types';
+import { NotFoundError, TaskError, ValidationError } from '../../utils/errors';
+import { nextCronRun, parseCron } from './cron';
+import { InMemoryScheduleStore } from './schedule-store';
+import {
+  CreateScheduleRequest,
+  ScheduleRunResult,
+  ScheduleStatus,
+  ScheduleStore,
+  TaskSchedule,
+  TaskScheduler
+} from './types';
+
+// Statuses of a task that is still underway, which a new run would overlap
+const ACTIVE_TASK_STATUSES = [TaskStatus.PENDING, TaskStatus.RUNNING, TaskStatus.PAUSED];
+
+/**
+ * In-memory implementation of the Task Scheduler
+ * Due schedules are run by calling runDueSchedules periodically. Schedules are
+ * kept in the schedule store, so a persistent store carries them over a restart.
+ */
+export class InMemoryTaskScheduler implements TaskScheduler {
+  private scheduleStore: ScheduleStore;
+  private orchestration: TaskOrchestrationEngine;
+  private templateStore?: WorkflowTemplateStore;
+  private workflowEngine: WorkflowEngine;
+
+  constructor(
+    orchestration: TaskOrchestrationEngine,
+    templateStore?: WorkflowTemplateStore,
+    workflowEngine?: WorkflowEngine,
+    scheduleStore?: ScheduleStore
+  ) {
+    this.orchestration = orchestration;
+    this.templateStore = templateStore;
+    this.workflowEngine = workflowEngine || new DefaultWorkflowEngine();
+    this.scheduleStore = scheduleStore || new InMemoryScheduleStore();
+  }
+
+  /**
+   * Create a schedule
+   * A schedule needs a start time, a cron expression or both. Without a cron
+   * expression it runs once at its start time, which must be in the future.
+   */
+  async createSchedule(request: CreateScheduleRequest): Promise<TaskSchedule> {
+    const now = new Date();
+
+    if (!request.workflow === !request.template) {
+      throw new ValidationError('A schedule requires either a workflow or a template');
+    }
+
+    if (request.workflow && !this.workflowEngine.validateWorkflow(request.workflow)) {
+      throw new ValidationError(
+        'Invalid workflow: contains cycles, references non-existent steps or has invalid input expressions'
+      );
+    }
+
+    // Check that the template and parameter values build a workflow
+    if (request.template) {
+      if (!this.templateStore) {
+        throw new ValidationError('Templates are not available');
+      }
+
+      await this.templateStore.instantiate(request.template, request.parameters);
+    }
+
+    if (request.runDeadline !== undefined && !(Number.isInteger(request.runDeadline) && request.runDeadline > 0)) {
+      throw new ValidationError('Run deadline must be a positive number of milliseconds');
+    }
+
+    if (!request.cron && !request.startAt) {
+      throw new ValidationError('A schedule requires a start time or a cron expression');
+    }
+
+    if (request.cron) {
+      parseCron(request.cron);
+    } else if (request.startAt!.getTime() <= now.getTime()) {
+      throw new ValidationError('Schedule start time must be in the future');
+    }
+
+    const schedule: TaskSchedule = {
+      id: uuidv4(),
+      name: request.name,
+      description: request.description,
+      creator: request.creator,
+      workflow: request.workflow,
+      template: request.template,
+      parameters: request.parameters,
+      budget: request.budget,
+      priority: request.priority,
+      runDeadline: request.runDeadline,
+      startAt: request.startAt,
+      cron: request.cron,
+      status: ScheduleStatus.ACTIVE,
+      runCount: 0,
+      skippedRuns: 0,
+      createdAt: now,
+      updatedAt: now
+    };
+    schedule.nextRunAt = this.firstRun(schedule, now);
+
+    if (!schedule.nextRunAt) {
+      throw new ValidationError(`Cron expression never matches: ${request.cron}`);
+    }
+
+    this.scheduleStore.saveSchedule(schedule);
+    return schedule;
+  }
+
+  /**
+   * Get a schedule by ID
+   */
+  async getSchedule(id: string): Promise<TaskSchedule | null> {
+    return this.scheduleStore.getSchedule(id) || null;
+  }
+
+  /**
+   * List schedules, optionally of one creator, by next run
+   */
+  async listSchedules(creator?: string): Promise<TaskSchedule[]> {
+    return this.scheduleStore.listSchedules()
+      .filter(schedule => !creator || schedule.creator === creator)
+      .sort((a, b) => (a.nextRunAt?.getTime() ?? Infinity) - (b.nextRunAt?.getTime() ?? Infinity));
+  }
+
+  /**
+   * Stop starting runs of a schedule
+   * Tasks it already started are not affected
+   */
+  async pauseSchedule(id: string): Promise<TaskSchedule> {
+    const schedule = this.requireSchedule(id);
+
+    if (schedule.status !== ScheduleStatus.ACTIVE) {
+      throw new ValidationError(`Schedule is ${schedule.status.toLowerCase()}`);
+    }
+
+    return this.saveSchedule({ ...schedule, status: ScheduleStatus.PAUSED });
+  }
+
+  /**
+   * Resume a paused schedule
+   * Cron runs missed while paused are skipped; a one-off run that came due
+   * while paused starts right away
+   */
+  async resumeSchedule(id: string): Promise<TaskSchedule> {
+    const schedule = this.requireSchedule(id);
+
+    if (schedule.status !== ScheduleStatus.PAUSED) {
+      throw new ValidationError('Schedule is not paused');
+    }
+
+    return this.saveSchedule({
+      ...schedule,
+      status: ScheduleStatus.ACTIVE,
+      nextRunAt: schedule.cron ? this.firstRun(schedule, new Date()) : schedule.nextRunAt
+    });
+  }
+
+  /**
+   * Delete a schedule
+   * Tasks it already started keep running
+   */
+  async deleteSchedule(id: string): Promise<boolean> {
+    return this.scheduleStore.deleteSchedule(id);
+  }
+
+  /**
+   * Start a task for every active schedule that is due
+   * A run is skipped while the task of the previous run is still underway.
+   * Runs missed while the server was down or busy collapse into one.
+   */
+  async runDueSchedules(now: Date = new Date()): Promise<ScheduleRunResult> {
+    const result: ScheduleRunResult = { startedTasks: [], skippedSchedules: [], failedSchedules: [] };
+    const due = this.scheduleStore.listSchedules().filter(schedule => isDue(schedule, now));
+
+    for (const { id } of due) {
+      const schedule = this.scheduleStore.getSchedule(id);
+
+      // Paused or deleted while earlier runs were starting
+      if (!schedule || !isDue(schedule, now)) {
+        continue;
+      }
+
+      const scheduledFor = schedule.nextRunAt!;
+      const nextRunAt = schedule.cron ? nextCronRun(schedule.cron, now) ?? undefined : undefined;
+
+      // Move on to the next run before starting this one so overlapping checks do not start it twice
+      this.saveSchedule({
+        ...schedule,
+        status: nextRunAt ? ScheduleStatus.ACTIVE : ScheduleStatus.COMPLETED,
+        nextRunAt
+      });
+
+      if (await this.isRunActive(schedule)) {
+        this.updateSchedule(schedule.id, current => ({ ...current, skippedRuns: current.skippedRuns + 1 }));
+        result.skippedSchedules.push(schedule.id);
+        continue;
+      }
+
+      const startedAt = new Date();
+
+      try {
+        const task = await this.startRun(schedule, startedAt);
+        this.updateSchedule(schedule.id, current => ({
+          ...current,
+          lastRun: { scheduledFor, startedAt, taskId: task.id },
+          lastTaskId: task.id,
+          runCount: current.runCount + 1
+        }));
+        result.startedTasks.push(task.id);
+      } catch (error) {
+        console.error(`Error running schedule ${schedule.id}:`, error);
+        this.updateSchedule(schedule.id, current => ({
+          ...current,
+          lastRun: { scheduledFor, startedAt, error: error.message }
+        }));
+        result.failedSchedules.push(schedule.id);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Create and execute the task of a run
+   */
+  private async startRun(schedule: TaskSchedule, startedAt: Date): Promise<Task> {
+    let workflow: Workflow = schedule.workflow!;
+    let template: { name: string; version: string } | undefined;
+
+    if (schedule.template) {
+      const instance = await this.templateStore!.instantiate(schedule.template, schedule.parameters);
+      workflow = instance.workflow;
+      template = { name: instance.template.name, version: instance.template.version };
+    }
+
+    const task = await this.orchestration.createTask({
+      name: schedule.name,
+      description: schedule.description,
+      creator: schedule.creator,
+      workflow,
+      budget: schedule.budget,
+      deadline: schedule.runDeadline ? new Date(startedAt.getTime() + schedule.runDeadline) : undefined,
+      template,
+      priority: schedule.priority,
+      schedule: schedule.id
+    });
+
+    const execution = await this.orchestration.executeTask(task.id);
+
+    if (!execution.success) {
+      throw new TaskError(`Task ${task.id} could not be executed: ${execution.error}`);
+    }
+
+    return task;
+  }
+
+  /**
+   * Check whether the task of the previous run is still underway
+   */
+  private async isRunActive(schedule: TaskSchedule): Promise<boolean> {
+    const taskId = schedule.lastTaskId;
+
+    if (!taskId) {
+      return false;
+    }
+
+    const task = await this.orchestration.getTask(taskId);
+    return !!task && ACTIVE_TASK_STATUSES.includes(task.status);
+  }
+
+  /**
+   * Get the first cron run at or after the start time, and not before now
+   */
+  private firstRun(schedule: TaskSchedule, now: Date): Date | undefined {
+    if (!schedule.cron) {
+      return schedule.startAt;
+    }
+
+    // nextCronRun looks past the minute it is given, so start just before the earliest time
+    const earliest = Math.max(now.getTime(), schedule.startAt?.getTime() ?? 0);
+    return nextCronRun(schedule.cron, new Date(earliest - 1)) ?? undefined;
+  }
+
+  private requireSchedule(id: string): TaskSchedule {
+    const schedule = this.scheduleStore.getSchedule(id);
+
+    if (!schedule) {
+      throw new NotFoundError('Schedule', id);
+    }
+
+    return schedule;
+  }
+
+  private saveSchedule(schedule: TaskSchedule): TaskSchedule {
+    const saved = { ...schedule, updatedAt: new Date() };
+    this.scheduleStore.saveSchedule(saved);
+    return saved;
+  }
+
+  // Schedules deleted while a run was starting stay deleted
+  private updateSchedule(id: string, update: (schedule: TaskSchedule) => TaskSchedule): void {
+    const schedule = this.scheduleStore.getSchedule(id);
+
+    if (schedule) {
+      this.saveSchedule(update(schedule));
+    }
+  }
+}
+
+function isDue(schedule: TaskSchedule, now: Date): boolean {
+  return schedule.status === ScheduleStatus.ACTIVE &&
+    schedule.nextRunAt !== undefined &&
+    schedule.nextRunAt.getTime() <= now.getTime();
+}
@@ -0,0 +1,96 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { ScheduleStore, TaskSchedule } from './types';
+
+interface ScheduleRow {
+  data: string;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS task_schedules (
+    id TEXT PRIMARY KEY,
+    creator TEXT NOT NULL,
+    data TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+`;
+
+/**
+ * SQLite implementation of the Schedule Store
+ *
+ * Schedules are stored as JSON documents, so they keep running after a
+ * restart. The database file can be shared with the task store.
+ */
+export class SqliteScheduleStore implements ScheduleStore {
+  private db: Database.Database;
+
+  constructor(filename: string) {
+    if (filename !== ':memory:') {
+      fs.mkdirSync(path.dirname(filename), { recursive: true });
+    }
+
+    this.db = new Database(filename);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(SCHEMA);
+  }
+
+  getSchedule(id: string): TaskSchedule | undefined {
+    const row = this.db.prepare('SELECT data FROM task_schedules WHERE id = ?').get(id) as ScheduleRow | undefined;
+    return row ? toSchedule(row) : undefined;
+  }
+
+  saveSchedule(schedule: TaskSchedule): void {
+    this.db.prepare(`
+      INSERT INTO task_schedules (id, creator, data, created_at, updated_at)
+      VALUES (@id, @creator, @data, @createdAt, @updatedAt)
+      ON CONFLICT (id) DO UPDATE SET
+        data = excluded.data,
+        updated_at = excluded.updated_at
+    `).run({
+      id: schedule.id,
+      creator: schedule.creator,
+      data: JSON.stringify(schedule),
+      createdAt: schedule.createdAt.getTime(),
+      updatedAt: schedule.updatedAt.getTime()
+    });
+  }
+
+  deleteSchedule(id: string): boolean {
+    return this.db.prepare('DELETE FROM task_schedules WHERE id = ?').run(id).changes > 0;
+  }
+
+  listSchedules(): TaskSchedule[] {
+    const rows = this.db.prepare('SELECT data FROM task_schedules ORDER BY created_at, id').all();
+    return (rows as ScheduleRow[]).map(toSchedule);
+  }
+
+  /**
+   * Close the database connection
+   */
+  close(): void {
+    this.db.close();
+  }
+}
+
+function toSchedule(row: ScheduleRow): TaskSchedule {
+  const schedule = JSON.parse(row.data);
+
+  return {
+    ...schedule,
+    startAt: toDate(schedule.startAt),
+    nextRunAt: toDate(schedule.nextRunAt),
+    lastRun: schedule.lastRun && {
+      ...schedule.lastRun,
+      scheduledFor: new Date(schedule.lastRun.scheduledFor),
+      startedAt: new Date(schedule.lastRun.startedAt)
+    },
+    createdAt: new Date(schedule.createdAt),
+    updatedAt: new Date(schedule.updatedAt)
+  };
+}
+
+function toDate(value: string | undefined): Date | undefined {
+  return value ? new Date(value) : undefined;
+}
@@ -0,0 +1,89 @@
+import { Workflow } from '../types';
+
+export enum ScheduleStatus {
+  ACTIVE = 'ACTIVE',
+  PAUSED = 'PAUSED', // No runs start until the schedule is resumed
+  COMPLETED = 'COMPLETED' // No runs are left, e.g. a one-off schedule that has run
+}
+
+export interface ScheduleRun {
+  scheduledFor: Date;
+  startedAt: Date;
+  taskId?: string; // Unset when the task could not be created or executed
+  error?: string;
+}
+
+/**
+ * Creates and executes a task at a start time, on a cron expression, or both
+ * Each run builds the task from the inline workflow or from the current
+ * version of the template the reference points to
+ */
+export interface TaskSchedule {
+  id: string;
+  name: string;
+  description: string;
+  creator: string;
+  workflow?: Workflow;
+  template?: string; // Template reference such as "rebalance@^1"
+  parameters?: Record<string, any>; // Template parameter values
+  budget?: {
+    amount: string;
+    token: string;
+  };
+  priority?: number;
+  runDeadline?: number; // Each task must finish within this many milliseconds of its run
+  startAt?: Date; // The only run without a cron expression, otherwise the earliest one
+  cron?: string; // Five-field cron expression, evaluated in UTC
+  status: ScheduleStatus;
+  nextRunAt?: Date; // Unset once a one-off schedule has run
+  lastRun?: ScheduleRun;
+  lastTaskId?: string; // Task of the latest run that started one, which later runs must not overlap
+  runCount: number; // Runs that started a task
+  skippedRuns: number; // Runs skipped because the previous task was still active
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateScheduleRequest {
+  name: string;
+  description: string;
+  creator: string;
+  workflow?: Workflow;
+  template?: string;
+  parameters?: Record<string, any>;
+  budget?: {
+    amount: string;
+    token: string;
+  };
+  priority?: number;
+  runDeadline?: number;
+  startAt?: Date;
+  cron?: string;
+}
+
+export interface ScheduleRunResult {
+  startedTasks: string[];
+  skippedSchedules: string[]; // Due while their previous task was still active
+  failedSchedules: string[]; // Due but their task could not be created or executed
+}
+
+/**
+ * Keeps schedules
+ * Synchronous, so the scheduler reads and updates a schedule without yielding in between
+ */
+export interface ScheduleStore {
+  getSchedule(id: string): TaskSchedule | undefined;
+  saveSchedule(schedule: TaskSchedule): void;
+  deleteSchedule(id: string): boolean;
+  listSchedules(): TaskSchedule[];
+}
+
+export interface TaskScheduler {
+  createSchedule(request: CreateScheduleRequest): Promise<TaskSchedule>;
+  getSchedule(id: string): Promise<TaskSchedule | null>;
+  listSchedules(creator?: string): Promise<TaskSchedule[]>;
+  pauseSchedule(id: string): Promise<TaskSchedule>;
+  resumeSchedule(id: string): Promise<TaskSchedule>;
+  deleteSchedule(id: string): Promise<boolean>;
+  runDueSchedules(now?: Date): Promise<ScheduleRunResult>;
+}
@@ -0,0 +1,3 @@
+export * from './types';
+export * from './typed-data';
+export * from './nonces';
@@ -0,0 +1,35 @@
+import { ethers } from 'ethers';
+import { AuthorizationError } from '../../utils/errors';
+import { NonceStore } from './types';
+
+/**
+ * In-memory nonce store
+ * Nonces are forgotten once their signature has expired, since an expired
+ * signature is rejected before its nonce is checked
+ */
+export class InMemoryNonceStore implements NonceStore {
+  private used: Map<string, number> = new Map();
+
+  /**
+   * Mark a nonce as used by a signer
+   * Throws an AuthorizationError if it was used before
+   */
+  async consume(signer: string, nonce: string, expiresAt: Date): Promise<void> {
+    const now = Date.now();
+
+    // Drop nonces whose signatures can no longer be replayed
+    for (const [key, expiry] of this.used) {
+      if (expiry <= now) {
+        this.used.delete(key);
+      }
+    }
+
+    const key = `${signer.toLowerCase()}:${ethers.BigNumber.from(nonce).toString()}`;
+
+    if (this.used.has(key)) {
+      throw new AuthorizationError(`Nonce ${nonce} has already been used by ${signer}`);
+    }
+
+    this.used.set(key, expiresAt.getTime());
+  }
+}
@@ -0,0 +1,122 @@
+import { ethers, TypedDataField } from 'ethers';
+import { AuthorizationError } from '../../utils/errors';
+import { SigningDomain, SignedPayload } from './types';
+
+export const SIGNING_DOMAIN_NAME = 'AgentBlend';
+export const SIGNING_DOMAIN_VERSION = '1';
+export const DEFAULT_CHAIN_ID = 1;
+export const DEFAULT_MAX_SIGNATURE_TTL = 10 * 60 * 1000; // 10 minutes
+
+// The owner signs the registration challenge, which doubles as the nonce
+export const AGENT_VERIFICATION_TYPES: Record<string, TypedDataField[]> = {
+  AgentVerification: [
+    { name: 'agentId', type: 'string' },
+    { name: 'owner', type: 'address' },
+    { name: 'challenge', type: 'bytes32' },
+    { name: 'expiry', type: 'uint256' }
+  ]
+};
+
+// The assigned agent signs the outcome of an attempt of a step; resultHash covers success, output and error
+export const STEP_RESULT_TYPES: Record<string, TypedDataField[]> = {
+  StepResult: [
+    { name: 'taskId', type: 'string' },
+    { name: 'stepId', type: 'string' },
+    { name: 'attempt', type: 'uint256' },
+    { name: 'success', type: 'bool' },
+    { name: 'resultHash', type: 'bytes32' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'expiry', type: 'uint256' }
+  ]
+};
+
+// A caller signs the method, path and body of an API request
+export const API_REQUEST_TYPES: Record<string, TypedDataField[]> = {
+  ApiRequest: [
+    { name: 'method', type: 'string' },
+    { name: 'path', type: 'string' },
+    { name: 'bodyHash', type: 'bytes32' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'expiry', type: 'uint256' }
+  ]
+};
+
+/**
+ * Create the signing domain for a chain and, optionally, a deployed contract
+ */
+export function createSigningDomain(chainId: number = DEFAULT_CHAIN_ID, verifyingContract?: string): SigningDomain {
+  return {
+    name: SIGNING_DOMAIN_NAME,
+    version: SIGNING_DOMAIN_VERSION,
+    chainId,
+    ...(verifyingContract ? { verifyingContract: ethers.utils.getAddress(verifyingContract) } : {})
+  };
+}
+
+/**
+ * Describe a domain for error messages
+ */
+export function describeDomain(domain: SigningDomain): string {
+  const contract = domain.verifyingContract ? ` at ${domain.verifyingContract}` : '';
+  return `${domain.name} v${domain.version} on chain ${domain.chainId}${contract}`;
+}
+
+/**
+ * Check that the expiry and nonce of a signed payload are usable
+ * The expiry must be in the future but no further than maxTtl away, which
+ * bounds how long used nonces have to be remembered
+ */
+export function checkSignedPayload(
+  payload: SignedPayload,
+  subject: string,
+  maxTtl: number = DEFAULT_MAX_SIGNATURE_TTL,
+  now: Date = new Date()
+): Date {
+  if (!/^\d+$/.test(String(payload.nonce)) || String(payload.nonce).length > 78) {
+    throw new AuthorizationError(`${subject} nonce must be an unsigned integer`);
+  }
+
+  const expiry = Number(payload.expiry);
+  if (!Number.isInteger(expiry)) {
+    throw new AuthorizationError(`${subject} expiry must be a unix timestamp in seconds`);
+  }
+
+  const expiresAt = new Date(expiry * 1000);
+  if (expiresAt.getTime() <= now.getTime()) {
+    throw new AuthorizationError(`${subject} signature has expired`);
+  }
+
+  if (expiresAt.getTime() - now.getTime() > maxTtl) {
+    throw new AuthorizationError(`${subject} expiry is more than ${Math.floor(maxTtl / 1000)} seconds away`);
+  }
+
+  return expiresAt;
+}
+
+/**
+ * Recover the signer of typed data and compare it to the expected address
+ * Throws an AuthorizationError naming the domain, since a signature for the
+ * wrong chain or contract recovers to an unrelated address
+ */
+export function checkTypedSignature(
+  domain: SigningDomain,
+  types: Record<string, TypedDataField[]>,
+  value: Record<string, any>,
+  signature: string,
+  expected: string,
+  subject: string,
+  signerName: string
+): void {
+  let recoveredAddress: string;
+  try {
+    recoveredAddress = ethers.utils.verifyTypedData(domain, types, value, signature);
+  } catch (error) {
+    throw new AuthorizationError(`Malformed ${subject.toLowerCase()} signature`);
+  }
+
+  if (recoveredAddress.toLowerCase() !== expected.toLowerCase()) {
+    throw new AuthorizationError(
+      `${subject} is not signed by ${signerName} for the ${describeDomain(domain)} domain`
+    );
+  }
+}
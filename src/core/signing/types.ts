@@ -0,0 +1,28 @@
+/**
+ * EIP-712 domain that every AgentBlend signature is bound to
+ * Signatures made for another chain or deployment do not verify
+ */
+export interface SigningDomain {
+  name: string;
+  version: string;
+  chainId: number;
+  verifyingContract?: string;
+}
+
+/**
+ * A typed-data signature together with its replay protection
+ * The nonce is chosen by the signer and can only be used once before
+ * the expiry (unix seconds)
+ */
+export interface SignedPayload {
+  signature: string;
+  nonce: string;
+  expiry: number;
+}
+
+/**
+ * Remembers used nonces per signer until their signature expires
+ */
+export interface NonceStore {
+  consume(signer: string, nonce: string, expiresAt: Date): Promise<void>;
+}
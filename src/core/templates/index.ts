@@ -0,0 +1,5 @@
+export * from './types';
+export * from './store';
+export * from './version-store';
+export * from './sqlite-version-store';
+export { InMemoryWorkflowTemplateStore as WorkflowTemplateStoreImpl } from './store';
\ No newline at end of file
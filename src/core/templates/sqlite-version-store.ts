@@ -0,0 +1,82 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { TemplateVersionStore, WorkflowTemplate } from './types';
+
+interface TemplateRow {
+  data: string;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS workflow_templates (
+    name TEXT NOT NULL,
+    version TEXT NOT NULL,
+    data TEXT NOT NULL,
+    published_at INTEGER NOT NULL,
+    PRIMARY KEY (name, version)
+  );
+`;
+
+/**
+ * SQLite implementation of the Template Version Store
+ *
+ * Template versions are stored as JSON documents, so tasks, schedules and
+ * triggers can still use them after a restart. The database file can be
+ * shared with the task store.
+ */
+export class SqliteTemplateVersionStore implements TemplateVersionStore {
+  private db: Database.Database;
+
+  constructor(filename: string) {
+    if (filename !== ':memory:') {
+      fs.mkdirSync(path.dirname(filename), { recursive: true });
+    }
+
+    this.db = new Database(filename);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(SCHEMA);
+  }
+
+  listVersions(name: string): WorkflowTemplate[] {
+    const rows = this.db.prepare('SELECT data FROM workflow_templates WHERE name = ?').all(name);
+    return (rows as TemplateRow[]).map(toTemplate);
+  }
+
+  saveVersion(template: WorkflowTemplate): void {
+    this.db.prepare(`
+      INSERT INTO workflow_templates (name, version, data, published_at)
+      VALUES (@name, @version, @data, @publishedAt)
+      ON CONFLICT (name, version) DO UPDATE SET data = excluded.data
+    `).run({
+      name: template.name,
+      version: template.version,
+      data: JSON.stringify(template),
+      publishedAt: template.publishedAt.getTime()
+    });
+  }
+
+  listNames(): string[] {
+    const rows = this.db.prepare('SELECT DISTINCT name FROM workflow_templates').all();
+    return (rows as { name: string }[]).map(row => row.name);
+  }
+
+  /**
+   * Close the database connection
+   */
+  close(): void {
+    this.db.close();
+  }
+}
+
+function toTemplate(row: TemplateRow): WorkflowTemplate {
+  const template = JSON.parse(row.data);
+
+  return {
+    ...template,
+    deprecation: template.deprecation && {
+      ...template.deprecation,
+      deprecatedAt: new Date(template.deprecation.deprecatedAt)
+    },
+    publishedAt: new Date(template.publishedAt)
+  };
+}
@@ -0,0 +1,307 @@
+import semver from 'semver';
+import { TemplateParameter, TemplateParameterType, Workflow } from '../types';
+import { WorkflowEngine } from '../orchestration/types';
+import { DefaultWorkflowEngine } from '../orchestration/workflow';
+import { applyTemplateParameters, findTemplateParameters } from '../orchestration/templating';
+import { AuthorizationError, NotFoundError, TaskError, ValidationError } from '../../utils/errors';
+import { InMemoryTemplateVersionStore } from './version-store';
+import {
+  PublishTemplateRequest,
+  TemplateInstance,
+  TemplateVersionStore,
+  WorkflowTemplate,
+  WorkflowTemplateStore
+} from './types';
+
+const NAME_PATTERN = /^[a-z0-9_-]+(\.[a-z0-9_-]+)*$/i;
+const PARAMETER_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const PARAMETER_TYPES: TemplateParameterType[] = ['string', 'number', 'boolean', 'array', 'object'];
+
+// Stand-in values used to check that a template yields a valid workflow
+const PLACEHOLDERS: Record<TemplateParameterType, any> = {
+  string: '',
+  number: 0,
+  boolean: false,
+  array: [],
+  object: {}
+};
+
+/**
+ * Split a reference such as "dca-buy@^1.2" into name and version or range
+ */
+export function parseTemplateReference(reference: string): { name: string; version?: string } {
+  const separator = reference.lastIndexOf('@');
+  const name = separator === -1 ? reference : reference.slice(0, separator);
+  const version = separator === -1 ? undefined : reference.slice(separator + 1);
+
+  return { name, version: version || undefined };
+}
+
+/**
+ * Check parameter values against the parameters a template declares
+ * Returns the values with defaults filled in; throws a ValidationError for
+ * unknown, missing or mistyped values
+ */
+export function resolveParameterValues(
+  parameters: TemplateParameter[],
+  values: Record<string, any> = {},
+  templateName = 'Template'
+): Record<string, any> {
+  const declared = new Map(parameters.map(parameter => [parameter.name, parameter]));
+
+  for (const name of Object.keys(values)) {
+    if (!declared.has(name)) {
+      throw new ValidationError(`${templateName} has no parameter ${name}`);
+    }
+  }
+
+  return parameters.reduce((resolved, parameter) => {
+    const value = values[parameter.name] ?? parameter.default;
+
+    if (value === undefined) {
+      if (parameter.required !== false) {
+        throw new ValidationError(`Missing value for template parameter ${parameter.name}`);
+      }
+      return resolved;
+    }
+
+    if (!matchesParameterType(value, parameter.type)) {
+      throw new ValidationError(`Template parameter ${parameter.name} must be of type ${parameter.type}`);
+    }
+
+    return { ...resolved, [parameter.name]: value };
+  }, {} as Record<string, any>);
+}
+
+/**
+ * In-memory implementation of the Workflow Template Store
+ * Versions are kept in the version store, so a persistent store carries them
+ * over a restart
+ */
+export class InMemoryWorkflowTemplateStore implements WorkflowTemplateStore {
+  private versionStore: TemplateVersionStore;
+  private workflowEngine: WorkflowEngine;
+
+  constructor(workflowEngine?: WorkflowEngine, versionStore?: TemplateVersionStore) {
+    this.workflowEngine = workflowEngine || new DefaultWorkflowEngine();
+    this.versionStore = versionStore || new InMemoryTemplateVersionStore();
+  }
+
+  /**
+   * Publish a new version of a template
+   * The first publisher of a name owns it; versions cannot be republished
+   */
+  async publish(request: PublishTemplateRequest): Promise<WorkflowTemplate> {
+    const version = semver.valid(request.version);
+
+    if (!NAME_PATTERN.test(request.name)) {
+      throw new ValidationError(`Invalid template name: ${request.name}`);
+    }
+
+    if (!version) {
+      throw new ValidationError(`Invalid template version: ${request.version}`);
+    }
+
+    if (!request.publisher) {
+      throw new ValidationError('A template requires a publisher');
+    }
+
+    const versions = this.versions(request.name);
+
+    if (versions.length > 0 && !isSamePublisher(versions[0].publisher, request.publisher)) {
+      throw new AuthorizationError(`Template ${request.name} is published by ${versions[0].publisher}`);
+    }
+
+    if (versions.some(template => template.version === version)) {
+      throw new ValidationError(`Template ${request.name}@${version} is already published`);
+    }
+
+    const parameters = request.parameters || [];
+    this.validateParameters(parameters, request.workflow);
+
+    const template: WorkflowTemplate = {
+      name: request.name,
+      version,
+      description: request.description,
+      publisher: request.publisher,
+      parameters,
+      workflow: request.workflow,
+      publishedAt: new Date()
+    };
+
+    this.versionStore.saveVersion(template);
+    return template;
+  }
+
+  /**
+   * Get one version of a template
+   */
+  async get(name: string, version: string): Promise<WorkflowTemplate | null> {
+    return this.versions(name).find(template => template.version === version) || null;
+  }
+
+  /**
+   * Find the template a reference points to
+   * "name" and ranges such as "name@^1" pick the highest version that is
+   * not deprecated; an exact version must not be deprecated either
+   */
+  async resolve(reference: string): Promise<WorkflowTemplate> {
+    const { name, version } = parseTemplateReference(reference);
+    const versions = this.versions(name);
+
+    if (version && semver.valid(version)) {
+      const template = versions.find(t => t.version === semver.valid(version));
+
+      if (!template) {
+        throw new NotFoundError('Template', reference);
+      }
+
+      if (template.deprecation) {
+        const reason = template.deprecation.reason ? `: ${template.deprecation.reason}` : '';
+        throw new TaskError(`Template ${name}@${template.version} is deprecated${reason}`);
+      }
+
+      return template;
+    }
+
+    if (version && semver.validRange(version) === null) {
+      throw new ValidationError(`Invalid template version: ${version}`);
+    }
+
+    const template = versions.find(t =>
+      !t.deprecation && (!version || semver.satisfies(t.version, version))
+    );
+
+    if (!template) {
+      throw new NotFoundError('Template', reference);
+    }
+
+    return template;
+  }
+
+  /**
+   * List the highest version of every template, sorted by name
+   */
+  async list(): Promise<WorkflowTemplate[]> {
+    return this.versionStore.listNames()
+      .map(name => this.versions(name))
+      .map(versions => versions.find(template => !template.deprecation) || versions[0])
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * List every version of a template, highest first
+   */
+  async listVersions(name: string): Promise<WorkflowTemplate[]> {
+    return this.versions(name);
+  }
+
+  /**
+   * Deprecate a version so no new tasks are created from it
+   * Tasks already created from it are not affected
+   */
+  async deprecate(name: string, version: string, publisher: string, reason?: string): Promise<WorkflowTemplate> {
+    const template = await this.get(name, version);
+
+    if (!template) {
+      throw new NotFoundError('Template', `${name}@${version}`);
+    }
+
+    if (!isSamePublisher(template.publisher, publisher)) {
+      throw new AuthorizationError(`Template ${name} is published by ${template.publisher}`);
+    }
+
+    if (template.deprecation) {
+      throw new ValidationError(`Template ${name}@${version} is already deprecated`);
+    }
+
+    const deprecated: WorkflowTemplate = {
+      ...template,
+      deprecation: { reason, deprecatedAt: new Date() }
+    };
+
+    this.versionStore.saveVersion(deprecated);
+    return deprecated;
+  }
+
+  /**
+   * Build the workflow of a template with the given parameter values
+   */
+  async instantiate(reference: string, parameters: Record<string, any> = {}): Promise<TemplateInstance> {
+    const template = await this.resolve(reference);
+    const values = resolveParameterValues(template.parameters, parameters, `Template ${template.name}@${template.version}`);
+
+    return {
+      template,
+      workflow: applyTemplateParameters(template.workflow, values)
+    };
+  }
+
+  // Versions of a template, highest first
+  private versions(name: string): WorkflowTemplate[] {
+    return this.versionStore.listVersions(name).sort((a, b) => semver.rcompare(a.version, b.version));
+  }
+
+  /**
+   * Check parameter declarations and that the workflow only references
+   * declared parameters and is valid once they are filled in
+   */
+  private validateParameters(parameters: TemplateParameter[], workflow: Workflow): void {
+    if (!workflow || !Array.isArray(workflow.steps) || workflow.steps.length === 0) {
+      throw new ValidationError('Workflow must contain at least one step');
+    }
+
+    const names = new Set<string>();
+
+    for (const parameter of parameters) {
+      if (!PARAMETER_NAME_PATTERN.test(parameter.name) || names.has(parameter.name)) {
+        throw new ValidationError(`Invalid or duplicate template parameter: ${parameter.name}`);
+      }
+
+      if (!PARAMETER_TYPES.includes(parameter.type)) {
+        throw new ValidationError(`Invalid type for template parameter ${parameter.name}: ${parameter.type}`);
+      }
+
+      if (parameter.default !== undefined && !matchesParameterType(parameter.default, parameter.type)) {
+        throw new ValidationError(`Default of template parameter ${parameter.name} must be of type ${parameter.type}`);
+      }
+
+      names.add(parameter.name);
+    }
+
+    for (const name of findTemplateParameters(workflow)) {
+      if (!names.has(name)) {
+        throw new ValidationError(`Workflow references undeclared template parameter ${name}`);
+      }
+    }
+
+    const placeholders = parameters.reduce(
+      (values, parameter) => ({ ...values, [parameter.name]: parameter.default ?? PLACEHOLDERS[parameter.type] }),
+      {} as Record<string, any>
+    );
+
+    if (!this.workflowEngine.validateWorkflow(applyTemplateParameters(workflow, placeholders))) {
+      throw new ValidationError(
+        'Invalid workflow: contains cycles, references non-existent steps or has invalid input expressions'
+      );
+    }
+  }
+}
+
+function matchesParameterType(value: any, type: TemplateParameterType): boolean {
+  switch (type) {
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return value !== null && typeof value === 'object' && !Array.isArray(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+// Publishers are signer addresses, which may differ in case
+function isSamePublisher(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
@@ -0,0 +1,56 @@
+import { TemplateParameter, Workflow } from '../types';
+
+export interface TemplateDeprecation {
+  reason?: string;
+  deprecatedAt: Date;
+}
+
+/**
+ * A named, versioned workflow that tasks can be created from
+ * Published versions never change; new versions are published instead
+ */
+export interface WorkflowTemplate {
+  name: string;
+  version: string; // Semantic version, e.g. 1.2.0
+  description?: string;
+  publisher: string; // Team or wallet that owns the template name
+  parameters: TemplateParameter[];
+  workflow: Workflow;
+  deprecation?: TemplateDeprecation; // Set once the version is deprecated
+  publishedAt: Date;
+}
+
+export interface PublishTemplateRequest {
+  name: string;
+  version: string;
+  description?: string;
+  publisher: string;
+  parameters?: TemplateParameter[];
+  workflow: Workflow;
+}
+
+// A workflow built from a template, ready to create a task with
+export interface TemplateInstance {
+  template: WorkflowTemplate;
+  workflow: Workflow;
+}
+
+/**
+ * Keeps the published versions of templates
+ * Saving a version that exists replaces it, e.g. when it is deprecated
+ */
+export interface TemplateVersionStore {
+  listVersions(name: string): WorkflowTemplate[];
+  saveVersion(template: WorkflowTemplate): void;
+  listNames(): string[];
+}
+
+export interface WorkflowTemplateStore {
+  publish(request: PublishTemplateRequest): Promise<WorkflowTemplate>;
+  get(name: string, version: string): Promise<WorkflowTemplate | null>;
+  resolve(reference: string): Promise<WorkflowTemplate>;
+  list(): Promise<WorkflowTemplate[]>;
+  listVersions(name: string): Promise<WorkflowTemplate[]>;
+  deprecate(name: string, version: string, publisher: string, reason?: string): Promise<WorkflowTemplate>;
+  instantiate(reference: string, parameters?: Record<string, any>): Promise<TemplateInstance>;
+}
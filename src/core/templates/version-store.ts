@@ -0,0 +1,23 @@
+import { TemplateVersionStore, WorkflowTemplate } from './types';
+
+/**
+ * In-memory implementation of the Template Version Store
+ * Templates are lost when the process stops
+ */
+export class InMemoryTemplateVersionStore implements TemplateVersionStore {
+  private templates: Map<string, Map<string, WorkflowTemplate>> = new Map();
+
+  listVersions(name: string): WorkflowTemplate[] {
+    return Array.from(this.templates.get(name)?.values() || []);
+  }
+
+  saveVersion(template: WorkflowTemplate): void {
+    const versions = this.templates.get(template.name) || new Map<string, WorkflowTemplate>();
+    versions.set(template.version, template);
+    this.templates.set(template.name, versions);
+  }
+
+  listNames(): string[] {
+    return Array.from(this.templates.keys());
+  }
+}
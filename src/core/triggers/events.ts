@@ -0,0 +1,187 @@
+import { ethers } from 'ethers';
+import { StepCondition } from '../types';
+import { ChainLog } from '../../blockchain/connectors/base';
+import { validateCondition } from '../orchestration/conditions';
+import { findTemplateExpressions } from '../orchestration/templating';
+import { ValidationError } from '../../utils/errors';
+import { TriggerEvent } from './types';
+
+// Matches {{event}} and {{event.<field>...}}, filled in from the event that fired a trigger
+const EVENT_PATTERN = /\{\{\s*(event(?:\.[A-Za-z0-9_]+)*)\s*\}\}/g;
+const EVENT_EXPRESSION_PATTERN = /^event(\.[A-Za-z0-9_]+)*$/;
+const BYTES32_PATTERN = /^0x[0-9a-fA-F]{64}$/;
+
+/**
+ * Parse an event signature such as
+ * "Transfer(address indexed from, address indexed to, uint256 value)"
+ * Throws a ValidationError for malformed or anonymous events
+ */
+export function parseEventSignature(signature: string): ethers.utils.EventFragment {
+  let fragment: ethers.utils.EventFragment;
+
+  try {
+    fragment = ethers.utils.EventFragment.from(signature.trim().replace(/^event\s+/, ''));
+  } catch (error) {
+    throw new ValidationError(`Invalid event signature: ${signature}`);
+  }
+
+  if (fragment.anonymous) {
+    throw new ValidationError('Anonymous events have no topic to subscribe to');
+  }
+
+  return fragment;
+}
+
+/**
+ * Get the topic that identifies logs of an event
+ */
+export function eventTopic(fragment: ethers.utils.EventFragment): string {
+  return new ethers.utils.Interface([fragment]).getEventTopic(fragment);
+}
+
+/**
+ * Check a filter on the indexed arguments of an event, in order
+ * Each entry is null, a 32-byte hex value or a list of those
+ */
+export function isValidTopicFilter(topics: (string | string[] | null)[], fragment: ethers.utils.EventFragment): boolean {
+  const indexed = fragment.inputs.filter(input => input.indexed).length;
+
+  return topics.length <= indexed && topics.every(topic =>
+    topic === null ||
+    (typeof topic === 'string' && BYTES32_PATTERN.test(topic)) ||
+    (Array.isArray(topic) && topic.length > 0 && topic.every(value => BYTES32_PATTERN.test(value)))
+  );
+}
+
+/**
+ * Check that an event condition is well formed and only references the event
+ */
+export function isValidEventCondition(condition: StepCondition): boolean {
+  return validateCondition(condition, operands =>
+    findTemplateExpressions(operands).every(expression => EVENT_EXPRESSION_PATTERN.test(expression))
+  );
+}
+
+/**
+ * Decode a log of an event into the data a trigger passes on
+ * Numbers become decimal strings so token amounts keep their precision
+ */
+export function decodeEvent(fragment: ethers.utils.EventFragment, log: ChainLog): TriggerEvent {
+  const parsed = new ethers.utils.Interface([fragment]).parseLog({ topics: log.topics, data: log.data });
+
+  return {
+    name: fragment.name,
+    address: log.address,
+    blockNumber: log.blockNumber,
+    blockHash: log.blockHash,
+    transactionHash: log.transactionHash,
+    logIndex: log.logIndex,
+    args: eventArgs(fragment, index => toJsonValue(parsed.args[index]))
+  };
+}
+
+/**
+ * Build an event with blank argument values of the right types
+ * Used to check parameter values before any event has been seen
+ */
+export function placeholderEvent(fragment: ethers.utils.EventFragment): TriggerEvent {
+  return {
+    name: fragment.name,
+    address: ethers.constants.AddressZero,
+    blockNumber: 0,
+    blockHash: ethers.constants.HashZero,
+    transactionHash: ethers.constants.HashZero,
+    logIndex: 0,
+    args: eventArgs(fragment, index => placeholderValue(fragment.inputs[index]))
+  };
+}
+
+/**
+ * Substitute event data into a value
+ * A string that is a single {{event...}} expression takes the value as is;
+ * expressions inside longer strings are converted to text. Missing fields
+ * resolve to undefined.
+ */
+export function applyEventData(value: any, event: TriggerEvent): any {
+  if (typeof value === 'string') {
+    const whole = value.match(/^\{\{\s*(event(?:\.[A-Za-z0-9_]+)*)\s*\}\}$/);
+
+    if (whole) {
+      return lookupEventField(event, whole[1]);
+    }
+
+    return value.replace(EVENT_PATTERN, (_, expression) => {
+      const field = lookupEventField(event, expression);
+      return typeof field === 'object' ? JSON.stringify(field) : String(field);
+    });
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => applyEventData(item, event));
+  }
+
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, applyEventData(item, event)])
+    );
+  }
+
+  return value;
+}
+
+// Unnamed arguments are keyed by their position
+function eventArgs(fragment: ethers.utils.EventFragment, valueAt: (index: number) => any): Record<string, any> {
+  return fragment.inputs.reduce(
+    (args, input, index) => ({ ...args, [input.name || String(index)]: valueAt(index) }),
+    {} as Record<string, any>
+  );
+}
+
+function toJsonValue(value: any): any {
+  if (ethers.BigNumber.isBigNumber(value)) {
+    return value.toString();
+  }
+
+  if (ethers.utils.Indexed.isIndexed(value)) {
+    return value.hash;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(toJsonValue);
+  }
+
+  return value;
+}
+
+// Indexed strings, bytes and arrays only appear as their hash in a log
+function placeholderValue(input: ethers.utils.ParamType): any {
+  if (input.indexed && ['string', 'bytes', 'array', 'tuple'].includes(input.baseType)) {
+    return ethers.constants.HashZero;
+  }
+
+  if (input.baseType === 'array' || input.baseType === 'tuple') {
+    return [];
+  }
+
+  if (input.baseType.startsWith('uint') || input.baseType.startsWith('int')) {
+    return '0';
+  }
+
+  switch (input.baseType) {
+    case 'bool':
+      return false;
+    case 'address':
+      return ethers.constants.AddressZero;
+    case 'string':
+      return '';
+    default:
+      return '0x';
+  }
+}
+
+function lookupEventField(event: TriggerEvent, expression: string): any {
+  return expression
+    .split('.')
+    .slice(1)
+    .reduce((current: any, key) => (current !== null && typeof current === 'object' ? current[key] : undefined), event);
+}
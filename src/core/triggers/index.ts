@@ -0,0 +1,6 @@
+export * from './types';
+export * from './events';
+export * from './manager';
+export * from './trigger-store';
+export * from './sqlite-trigger-store';
+export { InMemoryTriggerManager as TriggerManagerImpl } from './manager';
\ No newline at end of file
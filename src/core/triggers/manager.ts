@@ -0,0 +1,415 @@
+import { ethers } from 'ethers';
+import { v4 as uuidv4 } from 'uuid';
+import { Task } from '../types';
+import { TaskOrchestrationEngine } from '../orchestration/types';
+import { evaluateCondition } from '../orchestration/conditions';
+import { WorkflowTemplateStore } from '../templates/types';
+import { BlockchainConnector, ChainLog, LogFilter } from '../../blockchain/connectors/base';
+import { BlockchainError, NotFoundError, TaskError, ValidationError } from '../../utils/errors';
+import {
+  applyEventData,
+  decodeEvent,
+  eventTopic,
+  isValidEventCondition,
+  isValidTopicFilter,
+  parseEventSignature,
+  placeholderEvent
+} from './events';
+import { InMemoryTriggerStore } from './trigger-store';
+import {
+  CreateTriggerRequest,
+  EventTrigger,
+  TriggerEvent,
+  TriggerManager,
+  TriggerStatus,
+  TriggerStore
+} from './types';
+
+// Logs remembered per trigger so a log delivered twice starts one task
+const MAX_SEEN_LOGS = 1000;
+
+// Blocks fetched per request when catching up, within common RPC limits
+const MAX_BACKFILL_BLOCKS = 2000;
+
+/**
+ * In-memory implementation of the Trigger Manager
+ * Active triggers stay subscribed to their event through the blockchain connector.
+ * Triggers are kept in the trigger store, so a persistent store carries them
+ * over a restart; call start to subscribe them again.
+ */
+export class InMemoryTriggerManager implements TriggerManager {
+  private triggerStore: TriggerStore;
+  private subscriptions: Map<string, () => void> = new Map();
+  private seenLogs: Map<string, Set<string>> = new Map();
+  private queues: Map<string, Promise<void>> = new Map();
+  private connector: BlockchainConnector;
+  private orchestration: TaskOrchestrationEngine;
+  private templateStore: WorkflowTemplateStore;
+
+  constructor(
+    connector: BlockchainConnector,
+    orchestration: TaskOrchestrationEngine,
+    templateStore: WorkflowTemplateStore,
+    triggerStore?: TriggerStore
+  ) {
+    this.connector = connector;
+    this.orchestration = orchestration;
+    this.templateStore = templateStore;
+    this.triggerStore = triggerStore || new InMemoryTriggerStore();
+  }
+
+  /**
+   * Create a trigger and subscribe to its event
+   * The template is checked with blank event data of the event's argument types
+   */
+  async createTrigger(request: CreateTriggerRequest): Promise<EventTrigger> {
+    const fragment = parseEventSignature(request.event);
+
+    if (request.address && !ethers.utils.isAddress(request.address)) {
+      throw new ValidationError(`Invalid contract address: ${request.address}`);
+    }
+
+    if (request.topics && !isValidTopicFilter(request.topics, fragment)) {
+      throw new ValidationError('Topics must be 32-byte hex values, lists of them or null, one per indexed argument');
+    }
+
+    if (request.where && !isValidEventCondition(request.where)) {
+      throw new ValidationError('Invalid condition: conditions may only reference {{event...}} fields');
+    }
+
+    if (request.runDeadline !== undefined && !(Number.isInteger(request.runDeadline) && request.runDeadline > 0)) {
+      throw new ValidationError('Run deadline must be a positive number of milliseconds');
+    }
+
+    await this.templateStore.instantiate(request.template, applyEventData(request.parameters, placeholderEvent(fragment)));
+
+    if (!this.connector.isConnected()) {
+      throw new BlockchainError(`Not connected to ${this.connector.getName()}`);
+    }
+
+    const lastBlock = await this.connector.getBlockNumber();
+    const now = new Date();
+    const trigger: EventTrigger = {
+      id: uuidv4(),
+      name: request.name,
+      description: request.description,
+      creator: request.creator,
+      event: fragment.format(ethers.utils.FormatTypes.full).replace(/^event /, ''),
+      address: request.address ? ethers.utils.getAddress(request.address) : undefined,
+      topics: request.topics,
+      where: request.where,
+      template: request.template,
+      parameters: request.parameters,
+      budget: request.budget,
+      priority: request.priority,
+      runDeadline: request.runDeadline,
+      status: TriggerStatus.ACTIVE,
+      firedCount: 0,
+      lastBlock,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    this.triggerStore.saveTrigger(trigger);
+    this.subscribe(trigger);
+    return trigger;
+  }
+
+  /**
+   * Get a trigger by ID
+   */
+  async getTrigger(id: string): Promise<EventTrigger | null> {
+    return this.triggerStore.getTrigger(id) || null;
+  }
+
+  /**
+   * List triggers, optionally of one creator, newest first
+   */
+  async listTriggers(creator?: string): Promise<EventTrigger[]> {
+    return this.triggerStore.listTriggers()
+      .filter(trigger => !creator || trigger.creator === creator)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  /**
+   * Stop starting tasks from a trigger's events
+   * Events emitted while it is paused are handled on resume
+   */
+  async pauseTrigger(id: string): Promise<EventTrigger> {
+    const trigger = this.requireTrigger(id);
+
+    if (trigger.status !== TriggerStatus.ACTIVE) {
+      throw new ValidationError('Trigger is already paused');
+    }
+
+    this.unsubscribe(id);
+    return this.saveTrigger({ ...trigger, status: TriggerStatus.PAUSED });
+  }
+
+  /**
+   * Resubscribe a paused trigger to its event
+   * Events emitted since the last handled block are caught up first
+   */
+  async resumeTrigger(id: string): Promise<EventTrigger> {
+    const trigger = this.requireTrigger(id);
+
+    if (trigger.status !== TriggerStatus.PAUSED) {
+      throw new ValidationError('Trigger is not paused');
+    }
+
+    if (!this.connector.isConnected()) {
+      throw new BlockchainError(`Not connected to ${this.connector.getName()}`);
+    }
+
+    const resumed = this.saveTrigger({ ...trigger, status: TriggerStatus.ACTIVE });
+    this.subscribe(resumed);
+    return resumed;
+  }
+
+  /**
+   * Delete a trigger
+   * Tasks it already started keep running
+   */
+  async deleteTrigger(id: string): Promise<boolean> {
+    this.unsubscribe(id);
+    this.seenLogs.delete(id);
+    this.queues.delete(id);
+    return this.triggerStore.deleteTrigger(id);
+  }
+
+  /**
+   * Subscribe every active trigger that is not subscribed yet, e.g. after a restart
+   * Events emitted while the server was down are caught up first
+   */
+  start(): void {
+    if (!this.connector.isConnected()) {
+      throw new BlockchainError(`Not connected to ${this.connector.getName()}`);
+    }
+
+    for (const trigger of this.triggerStore.listTriggers()) {
+      if (trigger.status === TriggerStatus.ACTIVE && !this.subscriptions.has(trigger.id)) {
+        this.subscribe(trigger);
+      }
+    }
+  }
+
+  /**
+   * End every subscription, e.g. before disconnecting from the blockchain
+   */
+  stop(): void {
+    for (const id of Array.from(this.subscriptions.keys())) {
+      this.unsubscribe(id);
+    }
+  }
+
+  /**
+   * Subscribe a trigger to new logs and catch up on the logs since its last block
+   * Logs of a trigger are handled one at a time, caught-up logs first
+   */
+  private subscribe(trigger: EventTrigger): void {
+    const filter: LogFilter = {
+      address: trigger.address,
+      topics: [eventTopic(parseEventSignature(trigger.event)), ...(trigger.topics || [])]
+    };
+
+    this.subscriptions.set(trigger.id, this.connector.subscribeToLogs(filter, log => {
+      this.enqueue(trigger.id, () => this.handleLog(trigger.id, log));
+    }));
+    this.enqueue(trigger.id, () => this.backfill(trigger.id, filter));
+  }
+
+  private enqueue(id: string, work: () => Promise<void>): void {
+    const queued = (this.queues.get(id) || Promise.resolve())
+      .then(work)
+      .catch(error => {
+        console.error(`Error handling logs for trigger ${id}:`, error);
+      });
+
+    this.queues.set(id, queued);
+  }
+
+  /**
+   * Handle the logs emitted after the last block of a trigger up to the
+   * latest block, e.g. while the server was down or the trigger paused
+   * Logs also delivered by the subscription, or handled before a restart,
+   * start one task.
+   */
+  private async backfill(id: string, filter: LogFilter): Promise<void> {
+    const trigger = this.triggerStore.getTrigger(id);
+
+    if (!trigger || trigger.status !== TriggerStatus.ACTIVE) {
+      return;
+    }
+
+    const latest = await this.connector.getBlockNumber();
+
+    for (let fromBlock = (trigger.lastBlock ?? latest) + 1; fromBlock <= latest; fromBlock += MAX_BACKFILL_BLOCKS) {
+      const toBlock = Math.min(fromBlock + MAX_BACKFILL_BLOCKS - 1, latest);
+
+      for (const log of await this.connector.getLogs(filter, fromBlock, toBlock)) {
+        await this.handleLog(id, log);
+      }
+
+      // Paused or deleted meanwhile; the rest is caught up on resume
+      if (this.triggerStore.getTrigger(id)?.status !== TriggerStatus.ACTIVE) {
+        return;
+      }
+
+      this.recordBlocks(id, toBlock);
+    }
+  }
+
+  private unsubscribe(id: string): void {
+    this.subscriptions.get(id)?.();
+    this.subscriptions.delete(id);
+  }
+
+  /**
+   * Start a task for a log of a trigger's event if it satisfies the condition
+   * Logs dropped by a reorganization and logs already seen are ignored. The
+   * log is recorded once it is handled.
+   */
+  private async handleLog(id: string, log: ChainLog): Promise<void> {
+    const trigger = this.triggerStore.getTrigger(id);
+    const key = logKey(log);
+
+    if (!trigger || trigger.status !== TriggerStatus.ACTIVE || log.removed || trigger.handledLogs?.includes(key)) {
+      return;
+    }
+
+    try {
+      await this.fire(trigger, log, key);
+    } finally {
+      this.recordLog(id, log.blockNumber, key);
+    }
+  }
+
+  private async fire(trigger: EventTrigger, log: ChainLog, key: string): Promise<void> {
+    const { id } = trigger;
+    const seen = this.seenLogs.get(id) || new Set<string>();
+
+    if (seen.has(key)) {
+      return;
+    }
+
+    seen.add(key);
+    if (seen.size > MAX_SEEN_LOGS) {
+      seen.delete(Array.from(seen)[0]);
+    }
+    this.seenLogs.set(id, seen);
+
+    let event: TriggerEvent;
+
+    try {
+      event = decodeEvent(parseEventSignature(trigger.event), log);
+    } catch (error) {
+      // Events sharing the topic but not the indexed arguments, such as ERC-721 Transfer
+      console.warn(`Log ${key} does not decode as ${trigger.event}`);
+      return;
+    }
+
+    if (trigger.where && !evaluateCondition(trigger.where, value => applyEventData(value, event))) {
+      return;
+    }
+
+    const firedAt = new Date();
+
+    try {
+      const task = await this.startTask(trigger, event, firedAt);
+      this.updateTrigger(id, current => ({
+        ...current,
+        firedCount: current.firedCount + 1,
+        lastFired: { event, firedAt, taskId: task.id }
+      }));
+    } catch (error) {
+      console.error(`Error starting task for trigger ${id}:`, error);
+      this.updateTrigger(id, current => ({
+        ...current,
+        lastFired: { event, firedAt, error: error.message }
+      }));
+    }
+  }
+
+  /**
+   * Create and execute a task from the trigger's template with the event data filled in
+   */
+  private async startTask(trigger: EventTrigger, event: TriggerEvent, firedAt: Date): Promise<Task> {
+    const instance = await this.templateStore.instantiate(trigger.template, applyEventData(trigger.parameters, event));
+
+    const task = await this.orchestration.createTask({
+      name: trigger.name,
+      description: trigger.description,
+      creator: trigger.creator,
+      workflow: instance.workflow,
+      budget: trigger.budget,
+      deadline: trigger.runDeadline ? new Date(firedAt.getTime() + trigger.runDeadline) : undefined,
+      template: { name: instance.template.name, version: instance.template.version },
+      priority: trigger.priority,
+      trigger: trigger.id
+    });
+
+    const execution = await this.orchestration.executeTask(task.id);
+
+    if (!execution.success) {
+      throw new TaskError(`Task ${task.id} could not be executed: ${execution.error}`);
+    }
+
+    return task;
+  }
+
+  /**
+   * Record a handled log
+   * Logs arrive in block order, so the blocks before the log's block are
+   * complete; the log is kept until its own block is, as more logs of that
+   * block may follow. Logs of complete blocks arriving late change nothing.
+   */
+  private recordLog(id: string, blockNumber: number, key: string): void {
+    this.updateTrigger(id, current => {
+      const lastBlock = current.lastBlock ?? blockNumber - 1;
+
+      if (blockNumber <= lastBlock) {
+        return current;
+      }
+
+      return blockNumber - 1 === lastBlock
+        ? { ...current, lastBlock, handledLogs: [...(current.handledLogs || []), key] }
+        : { ...current, lastBlock: blockNumber - 1, handledLogs: [key] };
+    });
+  }
+
+  // Every log up to the block was handled; blocks only move forward
+  private recordBlocks(id: string, blockNumber: number): void {
+    this.updateTrigger(id, current => current.lastBlock !== undefined && current.lastBlock >= blockNumber
+      ? current
+      : { ...current, lastBlock: blockNumber, handledLogs: undefined });
+  }
+
+  private requireTrigger(id: string): EventTrigger {
+    const trigger = this.triggerStore.getTrigger(id);
+
+    if (!trigger) {
+      throw new NotFoundError('Trigger', id);
+    }
+
+    return trigger;
+  }
+
+  private saveTrigger(trigger: EventTrigger): EventTrigger {
+    const saved = { ...trigger, updatedAt: new Date() };
+    this.triggerStore.saveTrigger(saved);
+    return saved;
+  }
+
+  // Triggers deleted while a task was starting stay deleted
+  private updateTrigger(id: string, update: (trigger: EventTrigger) => EventTrigger): void {
+    const trigger = this.triggerStore.getTrigger(id);
+
+    if (trigger) {
+      this.saveTrigger(update(trigger));
+    }
+  }
+}
+
+function logKey(log: ChainLog): string {
+  return `${log.transactionHash}:${log.logIndex}`;
+}
@@ -0,0 +1,89 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { EventTrigger, TriggerStore } from './types';
+
+interface TriggerRow {
+  data: string;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS event_triggers (
+    id TEXT PRIMARY KEY,
+    creator TEXT NOT NULL,
+    data TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+`;
+
+/**
+ * SQLite implementation of the Trigger Store
+ *
+ * Triggers are stored as JSON documents, so they can be subscribed again
+ * after a restart. The database file can be shared with the task store.
+ */
+export class SqliteTriggerStore implements TriggerStore {
+  private db: Database.Database;
+
+  constructor(filename: string) {
+    if (filename !== ':memory:') {
+      fs.mkdirSync(path.dirname(filename), { recursive: true });
+    }
+
+    this.db = new Database(filename);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(SCHEMA);
+  }
+
+  getTrigger(id: string): EventTrigger | undefined {
+    const row = this.db.prepare('SELECT data FROM event_triggers WHERE id = ?').get(id) as TriggerRow | undefined;
+    return row ? toTrigger(row) : undefined;
+  }
+
+  saveTrigger(trigger: EventTrigger): void {
+    this.db.prepare(`
+      INSERT INTO event_triggers (id, creator, data, created_at, updated_at)
+      VALUES (@id, @creator, @data, @createdAt, @updatedAt)
+      ON CONFLICT (id) DO UPDATE SET
+        data = excluded.data,
+        updated_at = excluded.updated_at
+    `).run({
+      id: trigger.id,
+      creator: trigger.creator,
+      data: JSON.stringify(trigger),
+      createdAt: trigger.createdAt.getTime(),
+      updatedAt: trigger.updatedAt.getTime()
+    });
+  }
+
+  deleteTrigger(id: string): boolean {
+    return this.db.prepare('DELETE FROM event_triggers WHERE id = ?').run(id).changes > 0;
+  }
+
+  listTriggers(): EventTrigger[] {
+    const rows = this.db.prepare('SELECT data FROM event_triggers ORDER BY created_at, id').all();
+    return (rows as TriggerRow[]).map(toTrigger);
+  }
+
+  /**
+   * Close the database connection
+   */
+  close(): void {
+    this.db.close();
+  }
+}
+
+function toTrigger(row: TriggerRow): EventTrigger {
+  const trigger = JSON.parse(row.data);
+
+  return {
+    ...trigger,
+    lastFired: trigger.lastFired && {
+      ...trigger.lastFired,
+      firedAt: new Date(trigger.lastFired.firedAt)
+    },
+    createdAt: new Date(trigger.createdAt),
+    updatedAt: new Date(trigger.updatedAt)
+  };
+}
@@ -0,0 +1,25 @@
+import { EventTrigger, TriggerStore } from './types';
+
+/**
+ * In-memory implementation of the Trigger Store
+ * Triggers are lost when the process stops
+ */
+export class InMemoryTriggerStore implements TriggerStore {
+  private triggers: Map<string, EventTrigger> = new Map();
+
+  getTrigger(id: string): EventTrigger | undefined {
+    return this.triggers.get(id);
+  }
+
+  saveTrigger(trigger: EventTrigger): void {
+    this.triggers.set(trigger.id, trigger);
+  }
+
+  deleteTrigger(id: string): boolean {
+    return this.triggers.delete(id);
+  }
+
+  listTriggers(): EventTrigger[] {
+    return Array.from(this.triggers.values());
+  }
+}
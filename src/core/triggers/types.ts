@@ -0,0 +1,95 @@
+import { StepCondition } from '../types';
+
+export enum TriggerStatus {
+  ACTIVE = 'ACTIVE',
+  PAUSED = 'PAUSED' // Events are ignored until the trigger is resumed
+}
+
+// Decoded log of the event that fired a trigger, available as {{event...}}
+export interface TriggerEvent {
+  name: string;
+  address: string; // Contract that emitted the event
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+  logIndex: number;
+  args: Record<string, any>; // Arguments by name; numbers are decimal strings
+}
+
+export interface TriggerFiring {
+  event: TriggerEvent;
+  firedAt: Date;
+  taskId?: string; // Unset when the task could not be created or executed
+  error?: string;
+}
+
+/**
+ * Creates and executes a task from a template when a contract emits an event
+ * Parameter values and the condition may reference the event, e.g.
+ * {{event.args.value}} or {{event.transactionHash}}
+ */
+export interface EventTrigger {
+  id: string;
+  name: string;
+  description: string;
+  creator: string;
+  event: string; // Event signature, e.g. "Transfer(address indexed from, address indexed to, uint256 value)"
+  address?: string; // Only events of this contract; any contract when omitted
+  topics?: (string | string[] | null)[]; // Values of the indexed arguments in order, as 32-byte hex; null matches any
+  where?: StepCondition; // Only events that satisfy the condition start a task
+  template: string; // Template reference such as "rebalance@^1"
+  parameters?: Record<string, any>;
+  budget?: {
+    amount: string;
+    token: string;
+  };
+  priority?: number;
+  runDeadline?: number; // Each task must finish within this many milliseconds of its event
+  status: TriggerStatus;
+  firedCount: number; // Events that started a task
+  lastFired?: TriggerFiring;
+  lastBlock?: number; // Latest block whose logs were all handled; later logs are caught up on resubscribing
+  handledLogs?: string[]; // Logs of the block after lastBlock already handled, as <transactionHash>:<logIndex>
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateTriggerRequest {
+  name: string;
+  description: string;
+  creator: string;
+  event: string;
+  address?: string;
+  topics?: (string | string[] | null)[];
+  where?: StepCondition;
+  template: string;
+  parameters?: Record<string, any>;
+  budget?: {
+    amount: string;
+    token: string;
+  };
+  priority?: number;
+  runDeadline?: number;
+}
+
+/**
+ * Keeps triggers
+ * Synchronous, so the manager reads and updates a trigger without yielding in between
+ */
+export interface TriggerStore {
+  getTrigger(id: string): EventTrigger | undefined;
+  saveTrigger(trigger: EventTrigger): void;
+  deleteTrigger(id: string): boolean;
+  listTriggers(): EventTrigger[];
+}
+
+export interface TriggerManager {
+  createTrigger(request: CreateTriggerRequest): Promise<EventTrigger>;
+  getTrigger(id: string): Promise<EventTrigger | null>;
+  listTriggers(creator?: string): Promise<EventTrigger[]>;
+  pauseTrigger(id: string): Promise<EventTrigger>;
+  resumeTrigger(id: string): Promise<EventTrigger>;
+  deleteTrigger(id: string): Promise<boolean>;
+  start(): void; // Subscribes every active trigger, e.g. after a restart
+  stop(): void; // Ends every subscription
+}
@@ -3,6 +3,8 @@
  */
 
 // Agent capabilities
+// Dot-separated hierarchy with an optional version, e.g. "defi.swap.uniswap@2.1.0";
+// requirements may use a semver range instead, e.g. "defi.swap@^2"
 export type AgentCapability = string;
 
 // Supported blockchain networks
@@ -22,6 +24,54 @@ export enum AgentStatus {
   SUSPENDED = 'SUSPENDED'
 }
 
+// Registry action recorded on-chain
+export enum AnchorAction {
+  REGISTERED = 'REGISTERED',
+  VERIFIED = 'VERIFIED',
+  DEREGISTERED = 'DEREGISTERED'
+}
+
+// Confirmation status of an on-chain anchor
+export enum AnchorStatus {
+  PENDING = 'PENDING',
+  CONFIRMED = 'CONFIRMED',
+  FAILED = 'FAILED'
+}
+
+// Record of a registry action anchored on-chain
+export interface AgentAnchor {
+  action: AnchorAction;
+  profileHash: string; // keccak256 of the canonical agent profile
+  txHash?: string;
+  status: AnchorStatus;
+  error?: string;
+  submittedAt: Date;
+  confirmedAt?: Date;
+}
+
+// Note from the owner contesting a suspension
+export interface SuspensionAppeal {
+  note: string;
+  submittedAt: Date;
+}
+
+// Details of the current suspension of an agent
+export interface AgentSuspension {
+  reason: string;
+  actor: string; // Admin who suspended the agent
+  suspendedAt: Date;
+  expiresAt?: Date; // The agent is reinstated automatically after this time
+  appeal?: SuspensionAppeal;
+}
+
+// Step outcomes of an agent, used to rank agents by performance
+export interface AgentPerformance {
+  completedSteps: number;
+  failedSteps: number;
+  successRate: number; // between 0 and 1
+  averageExecutionTime: number; // in milliseconds
+}
+
 // Agent interface
 export interface Agent {
   id: string;
@@ -34,6 +84,11 @@ export interface Agent {
   publicKey: string;
   status: AgentStatus;
   metadata: Record<string, any>;
+  version: number; // Incremented on every profile update
+  lastSeenAt?: Date; // Time of the last accepted heartbeat
+  anchor?: AgentAnchor; // Latest on-chain anchor of this agent
+  performance?: AgentPerformance; // Set once the agent has reported a step result
+  suspension?: AgentSuspension; // Set while the agent is SUSPENDED
   createdAt: Date;
   updatedAt: Date;
 }
@@ -43,11 +98,18 @@ export enum TaskStatus {
   CREATED = 'CREATED',
   PENDING = 'PENDING',
   RUNNING = 'RUNNING',
+  PAUSED = 'PAUSED', // No new steps are started; steps already running still report
   COMPLETED = 'COMPLETED',
   FAILED = 'FAILED',
   CANCELED = 'CANCELED'
 }
 
+// Why a task stopped before completing
+export enum TaskErrorCode {
+  STEPS_FAILED = 'STEPS_FAILED', // One or more steps failed for good
+  DEADLINE_EXCEEDED = 'DEADLINE_EXCEEDED' // The task ran past its deadline
+}
+
 // Step execution status
 export enum StepStatus {
   PENDING = 'PENDING',
@@ -58,6 +120,115 @@ export enum StepStatus {
   SKIPPED = 'SKIPPED'
 }
 
+// Why a step attempt failed, used to decide whether to retry it
+export enum StepErrorKind {
+  NO_AGENT = 'NO_AGENT', // No agent matched the requirements
+  DISPATCH_FAILED = 'DISPATCH_FAILED', // The agent could not be reached or rejected the step
+  STEP_FAILED = 'STEP_FAILED', // The agent ran the step and reported a failure
+  TIMEOUT = 'TIMEOUT', // The agent did not report a result within the step timeout
+  CANCELED = 'CANCELED', // The task stopped while the step was running
+  INVALID_INPUT = 'INVALID_INPUT' // An input expression referenced a missing field; never retried
+}
+
+// How a failed step is retried
+export interface StepRetryPolicy {
+  maxAttempts: number; // Including the first attempt
+  backoff?: {
+    initialDelay: number; // Delay before the first retry, in milliseconds
+    multiplier?: number; // Growth of the delay per retry, 2 by default
+    maxDelay?: number; // Upper bound of the delay, in milliseconds
+  };
+  retryOn?: StepErrorKind[]; // Retryable failures; all of them when omitted
+  switchAgent?: boolean; // Prefer an agent that has not attempted the step yet
+}
+
+// Comparison made by a step condition
+export type ConditionOperator = 'eq' | 'ne' | 'gt' | 'gte' | 'lt' | 'lte' | 'in' | 'exists';
+
+// Condition a step must meet to run; value and compareTo may be {{...}} expressions
+export type StepCondition =
+  | { all: StepCondition[] }
+  | { any: StepCondition[] }
+  | { not: StepCondition }
+  | { value: any; operator: ConditionOperator; compareTo?: any };
+
+// Fans a step out over the elements of an array
+export interface StepMap {
+  items: string | any[]; // A {{...}} expression resolving to an array, or the array itself
+  concurrency?: number; // Most elements running at once; all of them when omitted
+  maxFailures?: number; // Failed elements tolerated before the step fails, 0 by default
+}
+
+// One element of a map step, run as a child execution of its own
+export interface MapItem {
+  index: number;
+  input: Record<string, any> | null; // The step input resolved for this element
+  status: StepStatus;
+  assignedAgent?: string;
+  startTime?: Date;
+  endTime?: Date;
+  output?: Record<string, any>;
+  error?: string;
+}
+
+// Undoes the side effects of a completed step when its task is canceled or fails
+// Run by an agent like a step, under the ID <step>:compensate
+export interface StepCompensation {
+  name?: string;
+  agentRequirements?: WorkflowStep['agentRequirements']; // Those of the step when omitted
+  input: Record<string, any> | null; // May also reference the step's own {{steps.<id>.output}}
+  timeout?: number; // Longest the action may wait for its result, in milliseconds
+}
+
+// Progress of the compensating action of a step
+export interface CompensationRun {
+  status: StepStatus;
+  assignedAgent?: string;
+  startTime?: Date;
+  endTime?: Date;
+  output?: Record<string, any>;
+  error?: string;
+}
+
+// Progress of the compensating actions of a stopped task
+export enum CompensationStatus {
+  RUNNING = 'RUNNING',
+  COMPLETED = 'COMPLETED',
+  FAILED = 'FAILED' // An action failed; the actions that were waiting on it are SKIPPED
+}
+
+// A nested workflow run by a step as a child task
+// The step input is passed to it as {{params.<name>}} values
+export interface SubWorkflow {
+  workflow?: Workflow; // Inline, or filled in from the template when the task is created
+  template?: string; // Template reference such as dca-buy@^1
+  resolvedTemplate?: { name: string; version: string }; // Template version the workflow came from
+  parameters?: TemplateParameter[]; // Declared by the template; checked against the step input
+}
+
+export type TemplateParameterType = 'string' | 'number' | 'boolean' | 'array' | 'object';
+
+// A value supplied when a workflow is built from a template
+// Steps reference it as {{params.<name>}}
+export interface TemplateParameter {
+  name: string;
+  type: TemplateParameterType;
+  description?: string;
+  required?: boolean; // true by default; ignored when a default is set
+  default?: any;
+}
+
+// One attempt at executing a step
+export interface StepAttempt {
+  attempt: number; // 1-based
+  agentId?: string; // Unset when no agent was available
+  startTime: Date;
+  endTime?: Date;
+  success?: boolean;
+  error?: string;
+  errorKind?: StepErrorKind;
+}
+
 // Workflow step
 export interface WorkflowStep {
   id: string;
@@ -66,14 +237,27 @@ export interface WorkflowStep {
     capabilities: AgentCapability[];
     networks?: BlockchainNetwork[];
   };
-  input: Record<string, any> | null;
+  input: Record<string, any> | null; // May reference {{steps.<id>.output.<field>}} and {{task.<field>}}
   dependsOn: string[]; // IDs of steps that must complete before this one
+  when?: StepCondition; // The step is SKIPPED when this is false once its dependencies are done
+  skipDescendants?: boolean; // Also skip steps that only depend on this step when it is skipped
+  map?: StepMap; // Run the step once per element; input may use {{item}} and {{index}}
+  mapItems?: MapItem[]; // Elements of the current attempt of a map step
+  subWorkflow?: SubWorkflow; // Run a nested workflow; its step outputs become this step's output
+  childTaskId?: string; // Child task of the current attempt of a sub-workflow step
+  childTask?: Task; // The child task, filled in when the task is read
+  compensate?: StepCompensation; // Undoes the step if the task stops after it completed
+  compensation?: CompensationRun; // Set once the step is being compensated
   output?: Record<string, any>;
   status: StepStatus;
   assignedAgent?: string; // ID of the agent assigned to this step
   startTime?: Date;
   endTime?: Date;
   error?: string;
+  timeout?: number; // Longest an attempt may wait for its result, in milliseconds
+  retryPolicy?: StepRetryPolicy; // Without a policy a step is attempted once
+  attempts?: StepAttempt[]; // Every attempt so far, oldest first
+  nextAttemptAt?: Date; // Set while a retry is waiting for its backoff
 }
 
 // Task workflow
@@ -91,11 +275,18 @@ export interface Task {
   status: TaskStatus;
   result?: Record<string, any>;
   error?: string;
+  errorCode?: TaskErrorCode; // Set when the task FAILED or was CANCELED by the orchestrator
   budget?: {
     amount: string;
     token: string;
   };
-  deadline?: Date;
+  deadline?: Date; // The task is stopped if it is still running after this time
+  template?: { name: string; version: string }; // Template the workflow was built from
+  parent?: { taskId: string; stepId: string }; // Set on the child task of a sub-workflow step
+  compensationStatus?: CompensationStatus; // Set once completed steps are being compensated
+  priority?: number; // Higher runs first when tasks are queued, 0 by default
+  schedule?: string; // ID of the schedule that started the task
+  trigger?: string; // ID of the event trigger that started the task
   createdAt: Date;
   updatedAt: Date;
   startedAt?: Date;
@@ -1,17 +1,51 @@
 import dotenv from 'dotenv';
+import { ethers } from 'ethers';
 import { createApp } from './api';
 import config from './config/default';
 import { logger } from './utils/logger';
 
 // Core components
-import { AgentRegistryImpl } from './core/registry';
+import { 
+  AgentRegistry, 
+  AgentRegistryOptions,
+  AgentRegistryImpl, 
+  SqliteAgentRegistry,
+  AgentLivenessMonitor,
+  RegistryAnchor
+} from './core/registry';
 import { 
   TaskOrchestrationEngineImpl, 
   WorkflowEngineImpl,
-  AgentSelectorImpl
+  AgentSelectorImpl,
+  StepDispatcher,
+  HttpStepDispatcher,
+  SimulatedStepDispatcher,
+  TaskStore,
+  InMemoryTaskStore,
+  SqliteTaskStore
 } from './core/orchestration';
 import { DecisionEngineImpl } from './core/decision';
 import { AgentMemoryStoreImpl } from './core/memory';
+import { CapabilityTaxonomyImpl } from './core/capabilities';
+import { createSigningDomain, InMemoryNonceStore } from './core/signing';
+import {
+  WorkflowTemplateStoreImpl,
+  TemplateVersionStore,
+  InMemoryTemplateVersionStore,
+  SqliteTemplateVersionStore
+} from './core/templates';
+import {
+  TaskSchedulerImpl,
+  ScheduleStore,
+  InMemoryScheduleStore,
+  SqliteScheduleStore
+} from './core/schedules';
+import {
+  TriggerManagerImpl,
+  TriggerStore,
+  InMemoryTriggerStore,
+  SqliteTriggerStore
+} from './core/triggers';
 
 // Blockchain connectors
 import { BlockchainConnectorImpl } from './blockchain';
@@ -29,50 +63,239 @@ async function bootstrap() {
     // Initialize components
     logger.info('Initializing core components...');
     
+    // Blockchain Connector
+    const blockchainConnector = new BlockchainConnectorImpl(
+      config.blockchain.ethereum.rpcUrl,
+      config.blockchain.ethereum.privateKey,
+      config.blockchain.ethereum.pollingInterval
+    );
+    
+    // Connect to blockchain
+    logger.info('Connecting to blockchain...');
+    try {
+      await blockchainConnector.connect();
+      logger.info('Successfully connected to blockchain');
+    } catch (error) {
+      logger.warn(`Failed to connect to blockchain: ${error.message}`);
+      logger.warn('Continuing without blockchain connection');
+    }
+    
+    // Capability Taxonomy
+    const capabilityTaxonomy = new CapabilityTaxonomyImpl(config.capabilities.known);
+    
+    // EIP-712 signing domain, bound to the registry contract when one is deployed
+    // Nonces are single-use per signer across every signed request
+    const { agentRegistryAddress, chainId } = config.blockchain.ethereum;
+    const signingDomain = createSigningDomain(chainId, agentRegistryAddress);
+    const nonceStore = new InMemoryNonceStore();
+    
     // Agent Registry
-    const agentRegistry = new AgentRegistryImpl();
+    const registryOptions: AgentRegistryOptions = {
+      verificationTimeout: config.agents.verificationTimeout,
+      pendingAgentTtl: config.agents.pendingAgentTtl,
+      maxClockSkew: config.agents.liveness.maxClockSkew,
+      capabilityTaxonomy,
+      signingDomain
+    };
+    
+    // Anchor registry records on-chain if enabled
+    if (config.agents.anchoring.enabled) {
+      if (agentRegistryAddress) {
+        logger.info(`Anchoring agent registry records at ${agentRegistryAddress}`);
+        registryOptions.registryAnchor = new RegistryAnchor(blockchainConnector, agentRegistryAddress);
+      } else {
+        logger.warn('Agent anchoring is enabled but AGENT_REGISTRY_CONTRACT is not set');
+      }
+    }
+    
+    let agentRegistry: AgentRegistry;
+    if (config.agents.registry.backend === 'sqlite') {
+      logger.info(`Using SQLite agent registry at ${config.agents.registry.sqlitePath}`);
+      agentRegistry = new SqliteAgentRegistry(config.agents.registry.sqlitePath, registryOptions);
+    } else {
+      agentRegistry = new AgentRegistryImpl(registryOptions);
+    }
+    
+    // Periodically purge agents that never completed verification
+    const agentCleanup = setInterval(async () => {
+      try {
+        const purged = await agentRegistry.purgeUnverifiedAgents();
+        if (purged.length > 0) {
+          logger.info(`Purged ${purged.length} unverified agents`);
+        }
+      } catch (error) {
+        logger.error('Failed to purge unverified agents:', error);
+      }
+    }, config.agents.cleanupInterval);
+    
+    // Lift suspensions once they expire
+    const suspensionExpiry = setInterval(async () => {
+      try {
+        const reinstated = await agentRegistry.reinstateExpiredSuspensions();
+        if (reinstated.length > 0) {
+          logger.info(`Reinstated ${reinstated.length} agents with expired suspensions`);
+        }
+      } catch (error) {
+        logger.error('Failed to reinstate agents with expired suspensions:', error);
+      }
+    }, config.agents.suspensionCheckInterval);
+    
+    // Track confirmation of anchor transactions
+    const anchorRefresh = setInterval(async () => {
+      try {
+        await agentRegistry.refreshAnchors();
+      } catch (error) {
+        logger.error('Failed to refresh agent anchors:', error);
+      }
+    }, config.agents.anchoring.confirmationInterval);
+    
+    // Deactivate agents that stop sending heartbeats
+    const livenessMonitor = new AgentLivenessMonitor(agentRegistry, config.agents.liveness);
+    livenessMonitor.start();
     
     // Decision Engine
     const decisionEngine = new DecisionEngineImpl();
     
     // Agent Selector
-    const agentSelector = new AgentSelectorImpl();
+    const agentSelector = new AgentSelectorImpl({
+      silenceWindow: config.agents.liveness.silenceWindow
+    });
     
     // Workflow Engine
     const workflowEngine = new WorkflowEngineImpl();
     
+    // Templates, schedules and triggers are kept in the task store's database when it is SQLite
+    const { store } = config.tasks;
+    let templateVersionStore: TemplateVersionStore;
+    let scheduleStore: ScheduleStore;
+    let triggerStore: TriggerStore;
+    if (store.backend === 'sqlite') {
+      templateVersionStore = new SqliteTemplateVersionStore(store.sqlitePath);
+      scheduleStore = new SqliteScheduleStore(store.sqlitePath);
+      triggerStore = new SqliteTriggerStore(store.sqlitePath);
+    } else {
+      templateVersionStore = new InMemoryTemplateVersionStore();
+      scheduleStore = new InMemoryScheduleStore();
+      triggerStore = new InMemoryTriggerStore();
+    }
+    
+    // Workflow Template Store
+    const templateStore = new WorkflowTemplateStoreImpl(workflowEngine, templateVersionStore);
+    
+    // Step Dispatcher
+    const { dispatcher } = config.tasks;
+    let stepDispatcher: StepDispatcher;
+    if (dispatcher.type === 'simulated') {
+      logger.warn('Using the simulated step dispatcher; agents are never contacted');
+      stepDispatcher = new SimulatedStepDispatcher();
+    } else {
+      // The API still starts without a key, but steps fail to dispatch until one is set
+      if (!dispatcher.privateKey) {
+        logger.warn('ORCHESTRATOR_PRIVATE_KEY is not set; steps will fail to dispatch to agents');
+      }
+      stepDispatcher = new HttpStepDispatcher({
+        signer: dispatcher.privateKey ? new ethers.Wallet(dispatcher.privateKey) : undefined,
+        signingDomain,
+        callbackBaseUrl: dispatcher.callbackBaseUrl,
+        timeout: dispatcher.timeout
+      });
+    }
+    
+    // Task Store
+    let taskStore: TaskStore;
+    if (config.tasks.store.backend === 'sqlite') {
+      logger.info(`Using SQLite task store at ${config.tasks.store.sqlitePath}`);
+      taskStore = new SqliteTaskStore(config.tasks.store.sqlitePath);
+    } else {
+      taskStore = new InMemoryTaskStore();
+    }
+    
     // Task Orchestration Engine
     const taskOrchestration = new TaskOrchestrationEngineImpl(
       agentRegistry,
       agentSelector,
-      workflowEngine
+      workflowEngine,
+      {
+        stepDispatcher,
+        signingDomain,
+        nonceStore,
+        maxSignatureTtl: config.api.maxSignatureTtl,
+        defaultDeadline: config.tasks.defaultDeadline,
+        defaultStepTimeout: config.tasks.defaultStepTimeout,
+        deadlineAction: config.tasks.deadlineAction,
+        templateStore,
+        taskStore,
+        scheduling: config.tasks.scheduling
+      }
     );
     
-    // Agent Memory Store
-    const memoryStore = new AgentMemoryStoreImpl();
+    // Resume tasks that were running when the server stopped
+    const { resumedTasks, redispatchedSteps } = await taskOrchestration.recoverTasks();
+    if (resumedTasks.length > 0) {
+      logger.info(`Resumed ${resumedTasks.length} running tasks, redispatching ${redispatchedSteps.length} steps`);
+    }
     
-    // Blockchain Connector
-    const blockchainConnector = new BlockchainConnectorImpl(
-      config.blockchain.ethereum.rpcUrl,
-      config.blockchain.ethereum.privateKey
-    );
+    // Fail steps that time out and stop tasks that run past their deadline
+    const deadlineWatchdog = setInterval(async () => {
+      try {
+        const { timedOutSteps, overdueTasks } = await taskOrchestration.enforceDeadlines();
+        if (timedOutSteps.length > 0) {
+          logger.info(`Timed out ${timedOutSteps.length} steps`);
+        }
+        if (overdueTasks.length > 0) {
+          logger.info(`Stopped ${overdueTasks.length} tasks past their deadline`);
+        }
+      } catch (error) {
+        logger.error('Failed to enforce task deadlines:', error);
+      }
+    }, config.tasks.deadlineCheckInterval);
     
-    // Connect to blockchain
-    logger.info('Connecting to blockchain...');
-    try {
-      await blockchainConnector.connect();
-      logger.info('Successfully connected to blockchain');
-    } catch (error) {
-      logger.warn(`Failed to connect to blockchain: ${error.message}`);
-      logger.warn('Continuing without blockchain connection');
+    // Task Scheduler, starting tasks of due schedules
+    const taskScheduler = new TaskSchedulerImpl(taskOrchestration, templateStore, workflowEngine, scheduleStore);
+    const scheduleRunner = setInterval(async () => {
+      try {
+        const { startedTasks, skippedSchedules, failedSchedules } = await taskScheduler.runDueSchedules();
+        if (startedTasks.length > 0) {
+          logger.info(`Started ${startedTasks.length} scheduled tasks`);
+        }
+        if (skippedSchedules.length > 0) {
+          logger.info(`Skipped ${skippedSchedules.length} scheduled runs whose previous task is still active`);
+        }
+        if (failedSchedules.length > 0) {
+          logger.warn(`Failed to start ${failedSchedules.length} scheduled tasks`);
+        }
+      } catch (error) {
+        logger.error('Failed to run due schedules:', error);
+      }
+    }, config.tasks.scheduleCheckInterval);
+    
+    // Event Trigger Manager, starting tasks when contracts emit events
+    const triggerManager = new TriggerManagerImpl(blockchainConnector, taskOrchestration, templateStore, triggerStore);
+    
+    // Subscribe the triggers kept from before a restart
+    if (blockchainConnector.isConnected()) {
+      triggerManager.start();
+    } else {
+      logger.warn('Event triggers are not subscribed without a blockchain connection');
     }
     
+    // Agent Memory Store
+    const memoryStore = new AgentMemoryStoreImpl();
+    
     // Create Express app
     const app = createApp(
       agentRegistry,
       taskOrchestration,
       decisionEngine,
-      config.api
+      capabilityTaxonomy,
+      templateStore,
+      taskScheduler,
+      triggerManager,
+      {
+        ...config.api,
+        signingDomain,
+        nonceStore
+      }
     );
     
     // Start server
@@ -91,12 +314,43 @@ async function bootstrap() {
     async function shutdown() {
       logger.info('Shutting down AgentBlend server...');
       
+      clearInterval(agentCleanup);
+      clearInterval(suspensionExpiry);
+      clearInterval(anchorRefresh);
+      clearInterval(deadlineWatchdog);
+      clearInterval(scheduleRunner);
+      livenessMonitor.stop();
+      triggerManager.stop();
+      
       // Disconnect from blockchain
       if (blockchainConnector.isConnected()) {
         await blockchainConnector.disconnect();
         logger.info('Disconnected from blockchain');
       }
       
+      // Close the persistent registry
+      if (agentRegistry instanceof SqliteAgentRegistry) {
+        agentRegistry.close();
+        logger.info('Closed agent registry database');
+      }
+      
+      // Close the persistent task store
+      if (taskStore instanceof SqliteTaskStore) {
+        taskStore.close();
+        logger.info('Closed task store database');
+      }
+      
+      // Close the persistent template, schedule and trigger stores
+      if (templateVersionStore instanceof SqliteTemplateVersionStore) {
+        templateVersionStore.close();
+      }
+      if (scheduleStore instanceof SqliteScheduleStore) {
+        scheduleStore.close();
+      }
+      if (triggerStore instanceof SqliteTriggerStore) {
+        triggerStore.close();
+      }
+      
       // Additional cleanup can be added here
       
       process.exit(0);
@@ -0,0 +1,344 @@
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'net';
+import http from 'http';
+import express, { Request, Response } from 'express';
+import { ethers } from 'ethers';
+import { captureRawBody, ethSignatureAuth } from '../src/api/middleware/auth';
+import { createAgentRouter } from '../src/api/routes/agents';
+import { createTaskRouter } from '../src/api/routes/tasks';
+import { createTemplateRouter } from '../src/api/routes/templates';
+import { DefaultAgentSelector, InMemoryTaskOrchestrationEngine } from '../src/core/orchestration';
+import {
+  AgentRegistrationRequest,
+  InMemoryAgentRegistry,
+  agentVerificationValue
+} from '../src/core/registry';
+import {
+  API_REQUEST_TYPES,
+  AGENT_VERIFICATION_TYPES,
+  InMemoryNonceStore,
+  SigningDomain,
+  createSigningDomain
+} from '../src/core/signing';
+import { InMemoryWorkflowTemplateStore } from '../src/core/templates';
+import { Agent, AgentStatus, StepStatus } from '../src/core/types';
+
+const domain = createSigningDomain(31337);
+const owner = ethers.Wallet.createRandom();
+const registry = new InMemoryAgentRegistry({ signingDomain: domain });
+const templates = new InMemoryWorkflowTemplateStore();
+const engine = new InMemoryTaskOrchestrationEngine(registry, new DefaultAgentSelector());
+
+let server: http.Server;
+let baseUrl: string;
+
+interface SignedRequestOptions {
+  signer?: ethers.Wallet;
+  nonce?: string;
+  expiry?: number;
+  signedBody?: string; // Body the signature covers, when it differs from the one sent
+  signingDomain?: SigningDomain;
+  headers?: Record<string, string>;
+}
+
+function randomNonce(): string {
+  return ethers.BigNumber.from(ethers.utils.randomBytes(16)).toString();
+}
+
+// Sends a JSON request signed as EIP-712 ApiRequest typed data
+async function signedRequest(method: string, path: string, body?: any, options: SignedRequestOptions = {}) {
+  const signer = options.signer ?? owner;
+  const text = body === undefined ? undefined : JSON.stringify(body);
+  const nonce = options.nonce ?? randomNonce();
+  const expiry = options.expiry ?? Math.floor(Date.now() / 1000) + 60;
+  const signedBody = options.signedBody ?? text;
+
+  const signature = await signer._signTypedData(options.signingDomain ?? domain, API_REQUEST_TYPES, {
+    method,
+    path,
+    bodyHash: ethers.utils.keccak256(signedBody === undefined ? '0x' : ethers.utils.toUtf8Bytes(signedBody)),
+    nonce,
+    expiry
+  });
+
+  return fetch(`${baseUrl}${path}`, {
+    method,
+    body: text,
+    headers: {
+      'content-type': 'application/json',
+      signature,
+      address: signer.address,
+      nonce,
+      expiry: String(expiry),
+      ...options.headers
+    }
+  });
+}
+
+before(async () => {
+  const app = express();
+  const requireSignature = ethSignatureAuth(domain, new InMemoryNonceStore(), 5 * 60 * 1000);
+
+  app.use(express.json({ verify: captureRawBody }));
+  app.post('/api/echo', requireSignature, (req: Request, res: Response) => {
+    res.json({ signer: req.headers['verified-address'], body: req.body });
+  });
+  app.use('/api/agents', createAgentRouter(registry, requireSignature));
+  app.use('/api/tasks', createTaskRouter(engine, templates));
+  app.use('/api/templates', createTemplateRouter(templates, requireSignature));
+
+  server = app.listen(0);
+  await new Promise(resolve => server.once('listening', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.close();
+});
+
+test('accepts requests signed over their method, path and body', async () => {
+  const response = await signedRequest('POST', '/api/echo', { amount: '1.50' });
+
+  assert.equal(response.status, 200);
+  assert.deepEqual(await response.json(), { signer: owner.address, body: { amount: '1.50' } });
+});
+
+test('rejects replayed nonces', async () => {
+  const nonce = randomNonce();
+
+  assert.equal((await signedRequest('POST', '/api/echo', { n: 1 }, { nonce })).status, 200);
+
+  const replayed = await signedRequest('POST', '/api/echo', { n: 1 }, { nonce });
+  assert.equal(replayed.status, 401);
+  assert.match((await replayed.json()).error, /already been used/);
+});
+
+test('rejects signatures over a different body, domain or expiry window', async () => {
+  const tampered = await signedRequest('POST', '/api/echo', { amount: '100' }, { signedBody: '{"amount":"1"}' });
+  assert.equal(tampered.status, 401);
+
+  // Same JSON value, different bytes
+  const reformatted = await signedRequest('POST', '/api/echo', { amount: '1' }, { signedBody: '{ "amount": "1" }' });
+  assert.equal(reformatted.status, 401);
+
+  const otherChain = await signedRequest('POST', '/api/echo', {}, { signingDomain: createSigningDomain(1) });
+  assert.equal(otherChain.status, 401);
+  assert.match((await otherChain.json()).error, /on chain 31337/);
+
+  const expired = await signedRequest('POST', '/api/echo', {}, { expiry: Math.floor(Date.now() / 1000) - 1 });
+  assert.match((await expired.json()).error, /has expired/);
+
+  const distant = await signedRequest('POST', '/api/echo', {}, { expiry: Math.floor(Date.now() / 1000) + 60 * 60 });
+  assert.match((await distant.json()).error, /more than 300 seconds away/);
+});
+
+test('rejects unsigned requests', async () => {
+  const unsigned = await fetch(`${baseUrl}/api/echo`, {
+    method: 'POST',
+    body: '{}',
+    headers: { 'content-type': 'application/json' }
+  });
+
+  assert.equal(unsigned.status, 401);
+  assert.match((await unsigned.json()).error, /Missing authentication parameters/);
+});
+
+test('replaces a client-sent verified address with the signer', async () => {
+  const stranger = ethers.Wallet.createRandom();
+
+  const response = await signedRequest('POST', '/api/echo', {}, {
+    signer: stranger,
+    headers: { 'verified-address': owner.address }
+  });
+
+  assert.equal((await response.json()).signer, stranger.address);
+});
+
+async function activeAgent(): Promise<Agent> {
+  const request: AgentRegistrationRequest = {
+    name: 'Swap agent',
+    description: 'Swaps tokens',
+    owner: owner.address,
+    capabilities: ['defi.swap'],
+    supportedNetworks: ['ethereum'],
+    endpoint: 'http://localhost:4000',
+    publicKey: ethers.Wallet.createRandom().address
+  };
+  const registration = await registry.registerAgent(request);
+  const { agent } = registration;
+  const challenge = { challenge: registration.verificationChallenge, expiresAt: registration.challengeExpiresAt };
+  await registry.verifyAgent(
+    agent.id,
+    await owner._signTypedData(domain, AGENT_VERIFICATION_TYPES, agentVerificationValue(agent.id, owner.address, challenge))
+  );
+  return agent;
+}
+
+test('only lets the owner change the status of an agent', async () => {
+  const agent = await activeAgent();
+
+  const stranger = await signedRequest('PUT', `/api/agents/${agent.id}/status`, { status: AgentStatus.INACTIVE }, {
+    signer: ethers.Wallet.createRandom()
+  });
+  assert.equal(stranger.status, 401);
+  assert.equal((await registry.getAgent(agent.id))?.status, AgentStatus.ACTIVE);
+
+  const response = await signedRequest('PUT', `/api/agents/${agent.id}/status`, { status: AgentStatus.INACTIVE });
+  assert.equal(response.status, 200);
+  assert.equal((await registry.getAgent(agent.id))?.status, AgentStatus.INACTIVE);
+
+  const history = await registry.getStatusHistory(agent.id);
+  assert.equal(history[history.length - 1].actor, owner.address);
+});
+
+test('only lets the owner deregister an agent', async () => {
+  const agent = await activeAgent();
+
+  const unsigned = await fetch(`${baseUrl}/api/agents/${agent.id}`, { method: 'DELETE' });
+  assert.equal(unsigned.status, 401);
+
+  const stranger = await signedRequest('DELETE', `/api/agents/${agent.id}`, undefined, {
+    signer: ethers.Wallet.createRandom()
+  });
+  assert.equal(stranger.status, 401);
+  assert.ok(await registry.getAgent(agent.id));
+
+  const response = await signedRequest('DELETE', `/api/agents/${agent.id}`);
+  assert.equal(response.status, 200);
+  assert.equal(await registry.getAgent(agent.id), null);
+  assert.equal((await signedRequest('DELETE', `/api/agents/${agent.id}`)).status, 404);
+});
+
+const dcaTemplate = {
+  name: 'dca-buy',
+  version: '1.0.0',
+  parameters: [{ name: 'token', type: 'string' }, { name: 'amount', type: 'number', default: 100 }],
+  workflow: {
+    steps: [{
+      id: 'buy',
+      name: 'Buy',
+      agentRequirements: { capabilities: ['defi.swap'] },
+      input: { token: '{{params.token}}', amount: '{{params.amount}}' },
+      dependsOn: []
+    }]
+  }
+};
+
+test('publishes templates as the signer of the request', async () => {
+  const published = await signedRequest('POST', '/api/templates', { ...dcaTemplate, publisher: '0x0' });
+  assert.equal(published.status, 400); // The publisher is never taken from the body
+
+  const response = await signedRequest('POST', '/api/templates', dcaTemplate);
+  assert.equal(response.status, 201);
+  assert.equal((await response.json()).data.publisher, owner.address);
+
+  const taken = await signedRequest('POST', '/api/templates', { ...dcaTemplate, version: '1.1.0' }, {
+    signer: ethers.Wallet.createRandom()
+  });
+  assert.equal(taken.status, 401);
+  assert.match((await taken.json()).error, new RegExp(`published by ${owner.address}`));
+
+  const versions = await fetch(`${baseUrl}/api/templates/dca-buy/versions`);
+  assert.deepEqual((await versions.json()).data.map((template: any) => template.version), ['1.0.0']);
+});
+
+test('creates tasks from a template reference and parameter values', async () => {
+  const create = (body: any) => fetch(`${baseUrl}/api/tasks/create`, {
+    method: 'POST',
+    body: JSON.stringify({ name: 'DCA', description: 'Weekly buy', creator: owner.address, ...body }),
+    headers: { 'content-type': 'application/json' }
+  });
+
+  const response = await create({ template: 'dca-buy@^1', parameters: { token: 'ETH' } });
+  assert.equal(response.status, 201);
+
+  const task = (await response.json()).data;
+  assert.deepEqual(task.template, { name: 'dca-buy', version: '1.0.0' });
+  assert.deepEqual(task.workflow.steps[0].input, { token: 'ETH', amount: 100 });
+
+  const missing = await create({ template: 'dca-buy@^1', parameters: { amount: 5 } });
+  assert.equal(missing.status, 400);
+  assert.match((await missing.json()).error, /Missing value for template parameter token/);
+
+  assert.equal((await create({ template: 'dca-buy@^2' })).status, 404);
+
+  const deprecated = await signedRequest('POST', '/api/templates/dca-buy/versions/1.0.0/deprecate', { reason: 'Use dca-sell' });
+  assert.equal(deprecated.status, 200);
+  assert.equal((await create({ template: 'dca-buy@^1', parameters: { token: 'ETH' } })).status, 404);
+});
+
+test('validates the workflows nested in sub-workflow steps', async () => {
+  const swap = { id: 'swap', name: 'Swap', agentRequirements: { capabilities: ['defi.swap'] }, input: {}, dependsOn: [] };
+  const create = (nested: any) => fetch(`${baseUrl}/api/tasks/create`, {
+    method: 'POST',
+    body: JSON.stringify({
+      name: 'Rebalance',
+      description: 'Rebalance the portfolio',
+      creator: owner.address,
+      workflow: { steps: [{ ...swap, id: 'rebalance', name: 'Rebalance', subWorkflow: { workflow: { steps: [nested] } } }] }
+    }),
+    headers: { 'content-type': 'application/json' }
+  });
+
+  const response = await create(swap);
+  assert.equal(response.status, 201);
+
+  const task = await fetch(`${baseUrl}/api/tasks/${(await response.json()).data.id}`);
+  assert.equal((await task.json()).data.workflow.steps[0].subWorkflow.workflow.steps[0].id, 'swap');
+
+  const invalid = await create({ ...swap, agentRequirements: undefined });
+  assert.equal(invalid.status, 400);
+  assert.match((await invalid.json()).error, /agentRequirements/);
+});
+
+test('rejects workflows whose steps depend on each other in a cycle', async () => {
+  const step = (id: string, dependsOn: string[]) => ({ id, name: id, agentRequirements: { capabilities: ['defi.swap'] }, input: {}, dependsOn });
+  const response = await fetch(`${baseUrl}/api/tasks/create`, {
+    method: 'POST',
+    body: JSON.stringify({
+      name: 'Swap',
+      description: 'Swap tokens',
+      creator: owner.address,
+      workflow: { steps: [step('quote', ['swap']), step('swap', ['quote'])] }
+    }),
+    headers: { 'content-type': 'application/json' }
+  });
+
+  assert.equal(response.status, 400);
+  assert.match((await response.json()).error, /Invalid workflow: contains cycles/);
+});
+
+test('reports why a task cannot be paused, resumed or retried', async () => {
+  const task = await engine.createTask({
+    name: 'Swap',
+    description: 'Swap tokens',
+    creator: owner.address,
+    workflow: { steps: [{ id: 'swap', name: 'Swap', agentRequirements: { capabilities: ['defi.swap'] }, input: {}, dependsOn: [], status: StepStatus.PENDING }] }
+  });
+
+  for (const [action, error] of [['pause', /Only running tasks/], ['resume', /Only paused tasks/], ['retry', /Only failed tasks/]] as const) {
+    const response = await fetch(`${baseUrl}/api/tasks/${task.id}/${action}`, { method: 'POST' });
+
+    assert.equal(response.status, 400);
+    assert.match((await response.json()).error, error);
+  }
+});
+
+test('only accepts integer task priorities', async () => {
+  const create = (priority: any) => fetch(`${baseUrl}/api/tasks/create`, {
+    method: 'POST',
+    body: JSON.stringify({
+      name: 'Swap',
+      description: 'Swap tokens',
+      creator: owner.address,
+      priority,
+      workflow: { steps: [{ id: 'swap', name: 'Swap', agentRequirements: { capabilities: ['defi.swap'] }, input: {}, dependsOn: [] }] }
+    }),
+    headers: { 'content-type': 'application/json' }
+  });
+
+  assert.equal((await create(2)).status, 201);
+  assert.equal((await create(1.5)).status, 400);
+  assert.equal((await create('2')).status, 400);
+});
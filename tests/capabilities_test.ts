@@ -0,0 +1,57 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  InMemoryCapabilityTaxonomy,
+  capabilitySatisfies,
+  isValidCapabilityRequirement,
+  parseCapability
+} from '../src/core/capabilities';
+
+test('parses capability names and versions', () => {
+  assert.deepEqual(parseCapability('defi.swap.uniswap@2.1.0'), {
+    name: 'defi.swap.uniswap',
+    segments: ['defi', 'swap', 'uniswap'],
+    version: '2.1.0'
+  });
+  assert.equal(parseCapability('defi.swap').version, undefined);
+});
+
+test('matches descendants and version ranges', () => {
+  assert.equal(capabilitySatisfies('defi.swap.uniswap@2.1.0', 'defi.swap'), true);
+  assert.equal(capabilitySatisfies('defi.swap.uniswap@2.1.0', 'defi.swap@^2'), true);
+  assert.equal(capabilitySatisfies('defi.swap.uniswap@2.1.0', 'defi.swap.uniswap'), true);
+  assert.equal(capabilitySatisfies('defi.swap.uniswap@2.1.0', 'defi.swap@^3'), false);
+  assert.equal(capabilitySatisfies('defi.swap.uniswap@2.1.0', 'defi.lending'), false);
+  assert.equal(capabilitySatisfies('defi.swapper', 'defi.swap'), false);
+  assert.equal(capabilitySatisfies('defi.swap', 'defi.swap@^1'), false);
+});
+
+test('checks the syntax of requirements', () => {
+  assert.equal(isValidCapabilityRequirement('defi.swap@^2'), true);
+  assert.equal(isValidCapabilityRequirement('defi..swap'), false);
+  assert.equal(isValidCapabilityRequirement('defi.swap@not-a-range'), false);
+});
+
+test('accepts defined capabilities, their children and known versions', async () => {
+  const taxonomy = new InMemoryCapabilityTaxonomy([
+    { name: 'defi.swap', versions: ['1', '2.1.0'] },
+    { name: 'data.prices' }
+  ]);
+
+  await taxonomy.validate(['defi.swap@1.0.0', 'defi.swap.uniswap@2.1.0', 'data.prices.chainlink@0.4.0']);
+
+  await assert.rejects(taxonomy.validate(['defi.lending']), /Unknown capability: defi.lending/);
+  await assert.rejects(taxonomy.validate(['defi.swap@3.0.0']), /Unknown version 3.0.0/);
+  await assert.rejects(taxonomy.validate(['defi.swap@latest']), /Invalid version/);
+});
+
+test('defines and lists capabilities', async () => {
+  const taxonomy = new InMemoryCapabilityTaxonomy();
+
+  await taxonomy.define({ name: 'defi.swap', description: 'Token swaps' });
+
+  assert.equal((await taxonomy.get('defi.swap'))?.description, 'Token swaps');
+  assert.equal(await taxonomy.get('defi.lending'), null);
+  assert.deepEqual((await taxonomy.list()).map(definition => definition.name), ['defi.swap']);
+  await assert.rejects(taxonomy.define({ name: 'defi swap' }), /Invalid capability name/);
+});
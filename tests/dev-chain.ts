@@ -0,0 +1,47 @@
+import { ethers } from 'ethers';
+import { EthereumConnector } from '../src/blockchain';
+
+// Local development chain the on-chain tests run against, e.g. ganache --wallet.deterministic
+export const DEV_CHAIN_URL = process.env.ETH_RPC_URL || 'http://127.0.0.1:8545';
+
+// First deterministic ganache account; override with a funded key for other chains
+const DEV_CHAIN_KEY = process.env.ETH_PRIVATE_KEY || '0x4f3edf983ac636a65a842ce7c78d9aa706d3b113bce9c46f30d7d21715b23b1d';
+
+export interface DevChain {
+  connector: EthereumConnector;
+  wallet: ethers.Wallet;
+}
+
+/**
+ * Connect to the development chain
+ * Returns null when it is not running, so the tests using it can be skipped
+ */
+export async function connectDevChain(): Promise<DevChain | null> {
+  const provider = new ethers.providers.JsonRpcProvider(DEV_CHAIN_URL);
+
+  try {
+    await provider.getBlockNumber();
+  } catch (error) {
+    return null;
+  }
+
+  const connector = new EthereumConnector(DEV_CHAIN_URL, DEV_CHAIN_KEY, 100);
+  await connector.connect();
+
+  return { connector, wallet: new ethers.Wallet(DEV_CHAIN_KEY, provider) };
+}
+
+/**
+ * Deploy a contract with the given runtime bytecode and return its address
+ */
+export async function deployRuntime(wallet: ethers.Wallet, runtime: string): Promise<string> {
+  const code = ethers.utils.arrayify(runtime);
+  // PUSH1 size, DUP1, PUSH1 11, PUSH1 0, CODECOPY, PUSH1 0, RETURN, followed by the runtime
+  const init = ethers.utils.hexConcat([
+    `0x60${ethers.utils.hexlify(code.length).slice(2)}80600b6000396000f3`,
+    code
+  ]);
+
+  const receipt = await (await wallet.sendTransaction({ data: init })).wait();
+  return receipt.contractAddress;
+}
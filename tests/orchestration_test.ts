@@ -0,0 +1,1151 @@
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'net';
+import http from 'http';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import express, { Request, Response } from 'express';
+import { ethers } from 'ethers';
+import { captureRawBody, ethSignatureAuth } from '../src/api/middleware/auth';
+import {
+  AgentRegistrationRequest,
+  InMemoryAgentRegistry,
+  agentVerificationValue,
+  stepResultValue
+} from '../src/core/registry';
+import {
+  AGENT_VERIFICATION_TYPES,
+  InMemoryNonceStore,
+  STEP_RESULT_TYPES,
+  SignedPayload,
+  createSigningDomain
+} from '../src/core/signing';
+import {
+  DefaultAgentSelector,
+  DefaultWorkflowEngine,
+  HttpStepDispatcher,
+  InMemoryTaskOrchestrationEngine,
+  SqliteTaskStore,
+  StepCancellationRequest,
+  StepDispatchRequest,
+  StepDispatchResult,
+  StepDispatcher,
+  StepExecutionResult,
+  TaskOrchestrationOptions,
+  compareQueuedTasks,
+  evaluateStepCondition,
+  exclusiveDescendants,
+  findTemplateExpressions,
+  queuePosition,
+  retryDelay,
+  shouldRetryStep
+} from '../src/core/orchestration';
+import { InMemoryWorkflowTemplateStore } from '../src/core/templates';
+import { Agent, CompensationStatus, StepCondition, StepErrorKind, StepStatus, Task, TaskErrorCode, TaskStatus, WorkflowStep } from '../src/core/types';
+
+const domain = createSigningDomain(31337);
+const owner = ethers.Wallet.createRandom();
+const agentKey = ethers.Wallet.createRandom();
+
+type Answer = (request: StepDispatchRequest) => StepDispatchResult | Promise<StepDispatchResult>;
+
+const succeed: Answer = request => ({ accepted: true, result: { success: true, output: { step: request.step.id } } });
+
+// Hands steps to scripted agents and records what it was asked to do
+class ScriptedDispatcher implements StepDispatcher {
+  dispatched: StepDispatchRequest[] = [];
+  canceled: StepCancellationRequest[] = [];
+
+  constructor(public answer: Answer = succeed) {}
+
+  async dispatch(request: StepDispatchRequest): Promise<StepDispatchResult> {
+    this.dispatched.push(request);
+    return this.answer(request);
+  }
+
+  async cancel(request: StepCancellationRequest): Promise<void> {
+    this.canceled.push(request);
+  }
+
+  stepIds(): string[] {
+    return this.dispatched.map(request => request.step.id);
+  }
+}
+
+function step(id: string, overrides: Partial<WorkflowStep> = {}): WorkflowStep {
+  return {
+    id,
+    name: id,
+    agentRequirements: { capabilities: ['defi.swap'] },
+    input: {},
+    dependsOn: [],
+    status: StepStatus.PENDING,
+    ...overrides
+  };
+}
+
+async function activeAgent(
+  registry: InMemoryAgentRegistry,
+  overrides: Partial<AgentRegistrationRequest> = {}
+): Promise<Agent> {
+  const registration = await registry.registerAgent({
+    name: 'Swap agent',
+    description: 'Swaps tokens',
+    owner: owner.address,
+    capabilities: ['defi.swap'],
+    supportedNetworks: ['ethereum'],
+    endpoint: 'http://localhost:4000',
+    publicKey: agentKey.address,
+    ...overrides
+  });
+  const { agent } = registration;
+  const challenge = { challenge: registration.verificationChallenge, expiresAt: registration.challengeExpiresAt };
+
+  await registry.verifyAgent(
+    agent.id,
+    await owner._signTypedData(domain, AGENT_VERIFICATION_TYPES, agentVerificationValue(agent.id, owner.address, challenge))
+  );
+
+  return (await registry.getAgent(agent.id))!;
+}
+
+// An engine with one active agent and a scripted dispatcher
+async function setup(answer: Answer = succeed, options: TaskOrchestrationOptions = {}) {
+  const registry = new InMemoryAgentRegistry({ signingDomain: domain });
+  const agent = await activeAgent(registry);
+  const dispatcher = new ScriptedDispatcher(answer);
+  const engine = new InMemoryTaskOrchestrationEngine(registry, new DefaultAgentSelector(), undefined, {
+    stepDispatcher: dispatcher,
+    signingDomain: domain,
+    ...options
+  });
+
+  return { registry, agent, dispatcher, engine };
+}
+
+async function runTask(engine: InMemoryTaskOrchestrationEngine, steps: WorkflowStep[], creator = 'alice'): Promise<Task> {
+  const task = await engine.createTask({ name: 'Task', description: 'Test task', creator, workflow: { steps } });
+  const execution = await engine.executeTask(task.id);
+  assert.equal(execution.success, true, execution.error);
+  return task;
+}
+
+// Polls until the task reaches one of the statuses
+async function waitForStatus(
+  engine: InMemoryTaskOrchestrationEngine,
+  taskId: string,
+  ...statuses: TaskStatus[]
+): Promise<Task> {
+  const deadline = Date.now() + 5000;
+
+  for (;;) {
+    const task = await engine.getTask(taskId);
+
+    if (task && statuses.includes(task.status)) {
+      return task;
+    }
+
+    if (Date.now() > deadline) {
+      throw new Error(`Task ${taskId} is ${task?.status}, expected ${statuses.join(' or ')}`);
+    }
+
+    await delay(10);
+  }
+}
+
+async function waitFor(condition: () => boolean | Promise<boolean>, description: string): Promise<void> {
+  const deadline = Date.now() + 5000;
+
+  while (!(await condition())) {
+    if (Date.now() > deadline) {
+      throw new Error(`Timed out waiting for ${description}`);
+    }
+
+    await delay(10);
+  }
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function stepOf(task: Task, stepId: string): WorkflowStep {
+  return task.workflow.steps.find(candidate => candidate.id === stepId)!;
+}
+
+async function signResult(result: StepExecutionResult, signer = agentKey): Promise<SignedPayload> {
+  const payload = {
+    signature: '',
+    nonce: ethers.BigNumber.from(ethers.utils.randomBytes(16)).toString(),
+    expiry: Math.floor(Date.now() / 1000) + 60
+  };
+  payload.signature = await signer._signTypedData(
+    domain,
+    STEP_RESULT_TYPES,
+    stepResultValue(result.taskId, result.stepId, result.attempt!, result, payload)
+  );
+  return payload;
+}
+
+// A stand-in agent that checks the orchestrator's signature like a real one would
+const orchestrator = ethers.Wallet.createRandom();
+const received: { path: string; signer: string; body: any }[] = [];
+let agentServer: http.Server;
+let agentUrl: string;
+
+before(async () => {
+  const app = express();
+
+  app.use(express.json({ verify: captureRawBody }));
+  app.use(ethSignatureAuth(domain, new InMemoryNonceStore()));
+  app.use((req: Request, res: Response, next) => {
+    received.push({ path: req.path, signer: req.headers['verified-address'] as string, body: req.body });
+    next();
+  });
+  app.post('/sync', (req: Request, res: Response) => {
+    res.json({ success: true, output: { amountOut: '42' } });
+  });
+  app.post('/async', (req: Request, res: Response) => {
+    res.status(202).end();
+  });
+  app.post('/broken', (req: Request, res: Response) => {
+    res.status(500).end();
+  });
+  app.post('/invalid', (req: Request, res: Response) => {
+    res.json({ ok: true });
+  });
+  app.post('/slow', (req: Request, res: Response) => {
+    setTimeout(() => res.json({ success: true }), 1000);
+  });
+  app.post('/sync/cancel', (req: Request, res: Response) => {
+    res.json({ success: true });
+  });
+
+  agentServer = app.listen(0);
+  await new Promise(resolve => agentServer.once('listening', resolve));
+  agentUrl = `http://127.0.0.1:${(agentServer.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  agentServer.close();
+});
+
+test('dispatches steps over HTTP with a signed request', async () => {
+  const registry = new InMemoryAgentRegistry({ signingDomain: domain });
+  const agent = await activeAgent(registry, { endpoint: `${agentUrl}/sync` });
+  const dispatcher = new HttpStepDispatcher({
+    signer: orchestrator,
+    signingDomain: domain,
+    callbackBaseUrl: 'https://orchestrator.example.com/'
+  });
+  const task = { id: 'task-1' } as Task;
+
+  const result = await dispatcher.dispatch({ task, step: step('swap', { input: { amount: '1' } }), attempt: 2, agent });
+
+  assert.deepEqual(result, { accepted: true, result: { success: true, output: { amountOut: '42' }, error: undefined } });
+
+  const request = received[received.length - 1];
+  assert.equal(request.signer, orchestrator.address);
+  assert.deepEqual(request.body, {
+    taskId: 'task-1',
+    stepId: 'swap',
+    attempt: 2,
+    input: { amount: '1' },
+    callbackUrl: 'https://orchestrator.example.com/api/tasks/task-1/steps/swap/result'
+  });
+
+  await dispatcher.cancel({ task, step: step('swap'), agent, reason: 'Task canceled' });
+  assert.deepEqual(received[received.length - 1], {
+    path: '/sync/cancel',
+    signer: orchestrator.address,
+    body: { taskId: 'task-1', stepId: 'swap', reason: 'Task canceled' }
+  });
+});
+
+test('reports agents that defer, reject, misbehave or do not answer', async () => {
+  const registry = new InMemoryAgentRegistry({ signingDomain: domain });
+  const dispatcher = new HttpStepDispatcher({
+    signer: orchestrator,
+    signingDomain: domain,
+    callbackBaseUrl: 'https://orchestrator.example.com',
+    timeout: 500
+  });
+  const dispatchTo = async (endpoint: string) => dispatcher.dispatch({
+    task: { id: 'task-1' } as Task,
+    step: step('swap'),
+    attempt: 1,
+    agent: await activeAgent(registry, { endpoint })
+  });
+
+  assert.deepEqual(await dispatchTo(`${agentUrl}/async`), { accepted: true });
+  assert.match((await dispatchTo(`${agentUrl}/broken`)).error!, /rejected the step with HTTP 500/);
+  assert.match((await dispatchTo(`${agentUrl}/invalid`)).error!, /invalid step result/);
+  assert.match((await dispatchTo(`${agentUrl}/slow`)).error!, /did not answer within 500ms/);
+  assert.match((await dispatchTo('http://127.0.0.1:1/agent')).error!, /could not be reached/);
+});
+
+test('fails to dispatch steps without an orchestrator key', async () => {
+  const registry = new InMemoryAgentRegistry({ signingDomain: domain });
+  const dispatcher = new HttpStepDispatcher({ signingDomain: domain, callbackBaseUrl: 'https://orchestrator.example.com' });
+  const agent = await activeAgent(registry, { endpoint: `${agentUrl}/sync` });
+  const task = { id: 'task-1' } as Task;
+  const requests = received.length;
+
+  assert.deepEqual(await dispatcher.dispatch({ task, step: step('swap'), attempt: 1, agent }), {
+    accepted: false,
+    error: 'No orchestrator key is configured to sign requests to agents'
+  });
+  await assert.rejects(dispatcher.cancel({ task, step: step('swap'), agent, reason: 'Task canceled' }), /No orchestrator key/);
+  assert.equal(received.length, requests);
+});
+
+test('completes steps with results reported later by the agent', async () => {
+  const { engine } = await setup(() => ({ accepted: true }));
+  const task = await runTask(engine, [step('swap')]);
+
+  await waitFor(async () => stepOf((await engine.getTask(task.id))!, 'swap').status === StepStatus.RUNNING, 'the step to run');
+
+  const result = { taskId: task.id, stepId: 'swap', attempt: 1, success: true, output: { amountOut: '42' } };
+  const forged = await signResult(result, ethers.Wallet.createRandom());
+  await assert.rejects(engine.submitStepResult(result, forged), /not signed by the assigned agent key/);
+
+  const retried = { ...result, attempt: 2 };
+  await assert.rejects(engine.submitStepResult(retried, await signResult(retried)), /awaiting a result for attempt 1, not 2/);
+  await assert.rejects(engine.submitStepResult(result, await signResult(retried)), /not signed by the assigned agent key/);
+
+  const signed = await signResult(result);
+  await engine.submitStepResult(result, signed);
+
+  const completed = await waitForStatus(engine, task.id, TaskStatus.COMPLETED);
+  assert.deepEqual(stepOf(completed, 'swap').output, { amountOut: '42' });
+  await assert.rejects(engine.submitStepResult(result, signed), /not awaiting a result/);
+});
+
+test('fails steps that no agent accepts', async t => {
+  t.mock.method(console, 'error', () => {});
+  const { engine } = await setup(() => ({ accepted: false, error: 'Agent is busy' }));
+
+  const task = await runTask(engine, [step('swap')]);
+  const failed = await waitForStatus(engine, task.id, TaskStatus.FAILED);
+
+  assert.equal(stepOf(failed, 'swap').error, 'Agent is busy');
+});
+
+test('backs off exponentially up to the maximum delay', () => {
+  const policy = { maxAttempts: 5, backoff: { initialDelay: 100, maxDelay: 300 } };
+
+  assert.deepEqual([1, 2, 3, 4].map(failed => retryDelay(policy, failed)), [100, 200, 300, 300]);
+  assert.equal(retryDelay({ maxAttempts: 3, backoff: { initialDelay: 10, multiplier: 3 } }, 3), 90);
+});
+
+test('retries only the failures the policy names, never invalid input', () => {
+  const retrying = step('swap', {
+    retryPolicy: { maxAttempts: 2, retryOn: [StepErrorKind.TIMEOUT] },
+    attempts: [{ attempt: 1, startTime: new Date() }]
+  });
+
+  assert.equal(shouldRetryStep(retrying, StepErrorKind.TIMEOUT), true);
+  assert.equal(shouldRetryStep(retrying, StepErrorKind.STEP_FAILED), false);
+  assert.equal(shouldRetryStep(step('swap', { retryPolicy: { maxAttempts: 2 } }), StepErrorKind.INVALID_INPUT), false);
+  assert.equal(shouldRetryStep({ ...retrying, attempts: [...retrying.attempts!, ...retrying.attempts!] }, StepErrorKind.TIMEOUT), false);
+  assert.equal(shouldRetryStep(step('swap'), StepErrorKind.TIMEOUT), false);
+});
+
+test('retries failed steps until an attempt succeeds', async () => {
+  let calls = 0;
+  const { engine } = await setup(() => ++calls < 3
+    ? { accepted: true, result: { success: false, error: `Attempt ${calls} reverted` } }
+    : { accepted: true, result: { success: true, output: {} } });
+
+  const task = await runTask(engine, [step('swap', { retryPolicy: { maxAttempts: 3, backoff: { initialDelay: 10 } } })]);
+  const completed = await waitForStatus(engine, task.id, TaskStatus.COMPLETED);
+
+  assert.deepEqual(
+    stepOf(completed, 'swap').attempts!.map(attempt => [attempt.attempt, attempt.success, attempt.error]),
+    [[1, false, 'Attempt 1 reverted'], [2, false, 'Attempt 2 reverted'], [3, true, undefined]]
+  );
+});
+
+test('fails the step once its attempts run out', async () => {
+  const { engine, dispatcher } = await setup(() => ({ accepted: true, result: { success: false, error: 'Reverted' } }));
+
+  const task = await runTask(engine, [step('swap', { retryPolicy: { maxAttempts: 2, backoff: { initialDelay: 10 } } })]);
+  const failed = await waitForStatus(engine, task.id, TaskStatus.FAILED);
+
+  assert.equal(dispatcher.dispatched.length, 2);
+  assert.equal(stepOf(failed, 'swap').status, StepStatus.FAILED);
+});
+
+test('moves on to a fallback agent when the policy asks to', async () => {
+  const { engine, registry, agent: first } = await setup(request => ({
+    accepted: true,
+    result: request.agent.id === first.id ? { success: false, error: 'Out of liquidity' } : { success: true, output: {} }
+  }));
+  const fallback = await activeAgent(registry);
+
+  const task = await runTask(engine, [step('swap', {
+    retryPolicy: { maxAttempts: 2, backoff: { initialDelay: 10 }, switchAgent: true }
+  })]);
+  const completed = await waitForStatus(engine, task.id, TaskStatus.COMPLETED);
+
+  assert.deepEqual(stepOf(completed, 'swap').attempts!.map(attempt => attempt.agentId), [first.id, fallback.id]);
+});
+
+test('checks deadlines when tasks are created', async () => {
+  const { engine } = await setup(succeed, { defaultDeadline: 60 * 1000 });
+  const request = { name: 'Task', description: 'Test task', creator: 'alice', workflow: { steps: [step('swap')] } };
+
+  await assert.rejects(engine.createTask({ ...request, deadline: new Date(Date.now() - 1000) }), /must be in the future/);
+  await assert.rejects(engine.createTask({ ...request, deadline: new Date('soon') }), /must be a valid date/);
+
+  const task = await engine.createTask(request);
+  assert.ok(Math.abs(task.deadline!.getTime() - (Date.now() + 60 * 1000)) < 1000);
+});
+
+test('times out steps whose agent does not report back', async () => {
+  const { engine } = await setup(() => ({ accepted: true }));
+  const task = await runTask(engine, [step('swap', {
+    timeout: 1000,
+    retryPolicy: { maxAttempts: 2, backoff: { initialDelay: 10 }, retryOn: [StepErrorKind.TIMEOUT] }
+  })]);
+  await waitFor(async () => stepOf((await engine.getTask(task.id))!, 'swap').status === StepStatus.RUNNING, 'the step to run');
+
+  assert.deepEqual((await engine.enforceDeadlines()).timedOutSteps, []);
+
+  const first = await engine.enforceDeadlines(new Date(Date.now() + 2000));
+  assert.deepEqual(first.timedOutSteps, [{ taskId: task.id, stepId: 'swap' }]);
+
+  await waitFor(async () => stepOf((await engine.getTask(task.id))!, 'swap').attempts!.length === 2, 'the retry');
+  await waitFor(async () => stepOf((await engine.getTask(task.id))!, 'swap').status === StepStatus.RUNNING, 'the retry to run');
+  await engine.enforceDeadlines(new Date(Date.now() + 2000));
+
+  const failed = await waitForStatus(engine, task.id, TaskStatus.FAILED);
+  assert.deepEqual(
+    stepOf(failed, 'swap').attempts!.map(attempt => attempt.errorKind),
+    [StepErrorKind.TIMEOUT, StepErrorKind.TIMEOUT]
+  );
+});
+
+test('drops results that arrive after their attempt was stopped', async t => {
+  t.mock.method(console, 'error', () => {});
+  t.mock.method(console, 'warn', () => {});
+  const answers: { resolve: (result: StepDispatchResult) => void; reject: (error: Error) => void }[] = [];
+  const { engine } = await setup(() => new Promise((resolve, reject) => answers.push({ resolve, reject })));
+  const task = await runTask(engine, [step('swap', {
+    timeout: 1000,
+    retryPolicy: { maxAttempts: 3, backoff: { initialDelay: 10 }, retryOn: [StepErrorKind.TIMEOUT] }
+  })]);
+
+  for (let attempt = 1; attempt < 3; attempt++) {
+    await waitFor(() => answers.length === attempt, `attempt ${attempt} to dispatch`);
+    await engine.enforceDeadlines(new Date(Date.now() + 2000));
+  }
+  await waitFor(() => answers.length === 3, 'the last attempt to dispatch');
+
+  // The agents of the timed out attempts answer late
+  answers[0].resolve({ accepted: true, result: { success: true, output: { amountOut: '1' } } });
+  answers[1].reject(new Error('Connection reset'));
+  await engine.handleStepResult({ taskId: task.id, stepId: 'swap', attempt: 2, success: false, error: 'Reverted' });
+  await delay(50);
+
+  const waiting = stepOf((await engine.getTask(task.id))!, 'swap');
+  assert.equal(waiting.status, StepStatus.ASSIGNED);
+  assert.equal(waiting.attempts!.length, 3);
+  assert.equal(waiting.attempts![2].endTime, undefined);
+
+  answers[2].resolve({ accepted: true, result: { success: true, output: { amountOut: '3' } } });
+  const completed = await waitForStatus(engine, task.id, TaskStatus.COMPLETED);
+  assert.deepEqual(stepOf(completed, 'swap').output, { amountOut: '3' });
+
+  const canceled = await runTask(engine, [step('swap')]);
+  await waitFor(() => answers.length === 4, 'the step to dispatch');
+  await engine.cancelTask(canceled.id);
+  await engine.handleStepResult({ taskId: canceled.id, stepId: 'swap', success: true });
+
+  const stopped = (await engine.getTask(canceled.id))!;
+  assert.equal(stopped.status, TaskStatus.CANCELED);
+  assert.equal(stepOf(stopped, 'swap').status, StepStatus.FAILED);
+});
+
+test('stops running tasks past their deadline', async () => {
+  for (const deadlineAction of ['fail', 'cancel'] as const) {
+    const { engine, dispatcher } = await setup(() => ({ accepted: true }), { deadlineAction });
+    const task = await engine.createTask({
+      name: 'Task',
+      description: 'Test task',
+      creator: 'alice',
+      workflow: { steps: [step('swap')] },
+      deadline: new Date(Date.now() + 60 * 1000)
+    });
+    await engine.executeTask(task.id);
+    await waitFor(async () => stepOf((await engine.getTask(task.id))!, 'swap').status === StepStatus.RUNNING, 'the step to run');
+
+    const enforcement = await engine.enforceDeadlines(new Date(Date.now() + 2 * 60 * 1000));
+    const stopped = (await engine.getTask(task.id))!;
+
+    assert.deepEqual(enforcement.overdueTasks, [task.id]);
+    assert.equal(stopped.status, deadlineAction === 'cancel' ? TaskStatus.CANCELED : TaskStatus.FAILED);
+    assert.equal(stopped.errorCode, TaskErrorCode.DEADLINE_EXCEEDED);
+    assert.equal(stepOf(stopped, 'swap').status, StepStatus.FAILED);
+    await waitFor(() => dispatcher.canceled.length === 1, 'the agent to be told to stop');
+  }
+});
+
+test('only lets input expressions reference earlier steps and known task fields', () => {
+  const workflows = new DefaultWorkflowEngine();
+  const quote = step('quote');
+  const swap = step('swap', { dependsOn: ['quote'], input: { amount: '{{steps.quote.output.amountOut}}' } });
+
+  assert.equal(workflows.validateWorkflow({ steps: [quote, swap] }), true);
+  assert.equal(workflows.validateWorkflow({ steps: [quote, { ...swap, dependsOn: [] }] }), false);
+  assert.equal(workflows.validateWorkflow({ steps: [quote, { ...swap, input: { to: '{{task.owner}}' } }] }), false);
+  assert.equal(workflows.validateWorkflow({ steps: [quote, { ...swap, input: { amount: '{{steps.quote}}' } }] }), false);
+  assert.deepEqual(findTemplateExpressions({ memo: 'Pay {{ task.budget.amount }} to {{task.creator}}' }), [
+    'task.budget.amount',
+    'task.creator'
+  ]);
+});
+
+test('resolves step inputs from upstream outputs and task fields', async () => {
+  const { engine, dispatcher } = await setup(request => ({
+    accepted: true,
+    result: { success: true, output: request.step.id === 'quote' ? { route: { pool: '0xpool' }, amountOut: 42 } : {} }
+  }));
+  const task = await engine.createTask({
+    name: 'Task',
+    description: 'Test task',
+    creator: 'alice',
+    budget: { amount: '100', token: 'USDC' },
+    workflow: {
+      steps: [
+        step('quote'),
+        step('swap', {
+          dependsOn: ['quote'],
+          input: {
+            amount: '{{steps.quote.output.amountOut}}',
+            route: '{{steps.quote.output.route}}',
+            memo: 'Swap {{task.budget.amount}} {{task.budget.token}} via {{steps.quote.output.route}}'
+          }
+        })
+      ]
+    }
+  });
+  await engine.executeTask(task.id);
+  await waitForStatus(engine, task.id, TaskStatus.COMPLETED);
+
+  assert.deepEqual(dispatcher.dispatched[1].step.input, {
+    amount: 42,
+    route: { pool: '0xpool' },
+    memo: 'Swap 100 USDC via {"pool":"0xpool"}'
+  });
+});
+
+test('fails steps whose input references a missing field', async () => {
+  const { engine, dispatcher } = await setup(() => ({ accepted: true, result: { success: true, output: {} } }));
+  const task = await runTask(engine, [
+    step('quote'),
+    step('swap', {
+      dependsOn: ['quote'],
+      input: { amount: '{{steps.quote.output.amountOut}}' },
+      retryPolicy: { maxAttempts: 3, backoff: { initialDelay: 10 } }
+    })
+  ]);
+
+  const failed = await waitForStatus(engine, task.id, TaskStatus.FAILED);
+  const swap = stepOf(failed, 'swap');
+
+  assert.equal(swap.status, StepStatus.FAILED);
+  assert.match(swap.error!, /\{\{steps\.quote\.output\.amountOut\}\} references a missing field/);
+  assert.equal(swap.attempts!.length, 1);
+  assert.deepEqual(dispatcher.stepIds(), ['quote']);
+});
+
+test('evaluates conditions against upstream outputs', () => {
+  const task = {
+    budget: { amount: '100', token: 'USDC' },
+    workflow: { steps: [step('quote', { status: StepStatus.COMPLETED, output: { amountOut: '1.5', venue: 'uni' } })] }
+  } as Task;
+  const holds = (condition: StepCondition) => evaluateStepCondition(condition, task);
+
+  assert.equal(holds({ value: '{{steps.quote.output.amountOut}}', operator: 'gt', compareTo: 1.2 }), true);
+  assert.equal(holds({ value: '{{steps.quote.output.amountOut}}', operator: 'lt', compareTo: '1.2' }), false);
+  assert.equal(holds({ value: '{{steps.quote.output.venue}}', operator: 'in', compareTo: ['uni', 'curve'] }), true);
+  assert.equal(holds({ value: '{{steps.quote.output.fee}}', operator: 'exists' }), false);
+  assert.equal(holds({ value: '{{steps.quote.output.fee}}', operator: 'ne', compareTo: 0 }), true);
+  assert.equal(holds({ value: '{{steps.quote.output.venue}}', operator: 'gt', compareTo: 1 }), false);
+  assert.equal(holds({
+    all: [
+      { value: '{{task.budget.token}}', operator: 'eq', compareTo: 'USDC' },
+      { not: { any: [{ value: '{{task.budget.amount}}', operator: 'gte', compareTo: 1000 }] } }
+    ]
+  }), true);
+});
+
+test('only accepts conditions over earlier steps', () => {
+  const workflows = new DefaultWorkflowEngine();
+  const when: StepCondition = { value: '{{steps.quote.output.amountOut}}', operator: 'gt', compareTo: 1 };
+
+  assert.equal(workflows.validateWorkflow({ steps: [step('quote'), step('trade', { dependsOn: ['quote'], when })] }), true);
+  assert.equal(workflows.validateWorkflow({ steps: [step('quote'), step('trade', { when })] }), false);
+  assert.equal(workflows.validateWorkflow({
+    steps: [step('quote'), step('trade', { dependsOn: ['quote'], when: { ...when, operator: 'matches' as any } })]
+  }), false);
+});
+
+test('skips steps whose condition is false, and their exclusive descendants', async () => {
+  const workflow = {
+    steps: [
+      step('quote'),
+      step('trade', { dependsOn: ['quote'], skipDescendants: true }),
+      step('confirm', { dependsOn: ['trade'] }),
+      step('report', { dependsOn: ['trade', 'quote'] })
+    ]
+  };
+  assert.deepEqual(exclusiveDescendants('trade', workflow), ['confirm']);
+
+  for (const amountOut of [1.5, 1.1]) {
+    const { engine, dispatcher } = await setup(() => ({
+      accepted: true,
+      result: { success: true, output: { amountOut } }
+    }));
+    const task = await runTask(engine, [
+      step('quote'),
+      step('trade', {
+        dependsOn: ['quote'],
+        when: { value: '{{steps.quote.output.amountOut}}', operator: 'gt', compareTo: 1.2 },
+        skipDescendants: true
+      }),
+      step('confirm', { dependsOn: ['trade'] }),
+      step('report', { dependsOn: ['trade', 'quote'] })
+    ]);
+
+    const completed = await waitForStatus(engine, task.id, TaskStatus.COMPLETED);
+    const statuses = completed.workflow.steps.map(candidate => candidate.status);
+
+    if (amountOut > 1.2) {
+      assert.deepEqual(dispatcher.stepIds(), ['quote', 'trade', 'confirm', 'report']);
+      assert.deepEqual(statuses, [StepStatus.COMPLETED, StepStatus.COMPLETED, StepStatus.COMPLETED, StepStatus.COMPLETED]);
+    } else {
+      assert.deepEqual(dispatcher.stepIds(), ['quote', 'report']);
+      assert.deepEqual(statuses, [StepStatus.COMPLETED, StepStatus.SKIPPED, StepStatus.SKIPPED, StepStatus.COMPLETED]);
+    }
+  }
+});
+
+test('runs a map step once per element, at most concurrency at a time', async () => {
+  let running = 0;
+  let mostRunning = 0;
+  const { engine, dispatcher } = await setup(async request => {
+    if (request.step.id === 'list') {
+      return { accepted: true, result: { success: true, output: { tokens: ['ETH', 'BTC', 'SOL', 'ARB', 'OP'] } } };
+    }
+
+    running++;
+    mostRunning = Math.max(mostRunning, running);
+    await delay(20);
+    running--;
+    return { accepted: true, result: { success: true, output: { price: `${request.step.input!.token}/${request.step.input!.index}` } } };
+  });
+  const task = await runTask(engine, [
+    step('list'),
+    step('prices', {
+      dependsOn: ['list'],
+      map: { items: '{{steps.list.output.tokens}}', concurrency: 2 },
+      input: { token: '{{item}}', index: '{{index}}' }
+    })
+  ]);
+
+  const completed = await waitForStatus(engine, task.id, TaskStatus.COMPLETED);
+
+  assert.equal(mostRunning, 2);
+  assert.deepEqual(dispatcher.stepIds().slice(1).sort(), ['prices:0', 'prices:1', 'prices:2', 'prices:3', 'prices:4']);
+  assert.deepEqual(stepOf(completed, 'prices').output, {
+    results: ['ETH/0', 'BTC/1', 'SOL/2', 'ARB/3', 'OP/4'].map(price => ({ price })),
+    failures: []
+  });
+});
+
+test('tolerates up to maxFailures failed elements', async () => {
+  const failOn = (...tokens: string[]): Answer => request => (
+    tokens.includes(request.step.input!.token)
+      ? { accepted: true, result: { success: false, error: `No price for ${request.step.input!.token}` } }
+      : { accepted: true, result: { success: true, output: { token: request.step.input!.token } } }
+  );
+  const prices = step('prices', {
+    map: { items: ['ETH', 'BTC', 'SOL'], maxFailures: 1 },
+    input: { token: '{{item}}' }
+  });
+
+  const tolerated = await setup(failOn('BTC'));
+  const partial = await waitForStatus(
+    tolerated.engine,
+    (await runTask(tolerated.engine, [prices])).id,
+    TaskStatus.COMPLETED
+  );
+  assert.deepEqual(stepOf(partial, 'prices').output, {
+    results: [{ token: 'ETH' }, null, { token: 'SOL' }],
+    failures: [{ index: 1, error: 'No price for BTC' }]
+  });
+
+  const exceeded = await setup(failOn('BTC', 'SOL'));
+  const failed = await waitForStatus(
+    exceeded.engine,
+    (await runTask(exceeded.engine, [prices])).id,
+    TaskStatus.FAILED
+  );
+  assert.match(stepOf(failed, 'prices').error!, /2 of 3 items failed; item 1: No price for BTC/);
+});
+
+test('fails map steps whose items do not resolve to an array', async () => {
+  const { engine } = await setup(() => ({ accepted: true, result: { success: true, output: { tokens: 'ETH' } } }));
+  const task = await runTask(engine, [
+    step('list'),
+    step('prices', { dependsOn: ['list'], map: { items: '{{steps.list.output.tokens}}' }, input: { token: '{{item}}' } })
+  ]);
+
+  const failed = await waitForStatus(engine, task.id, TaskStatus.FAILED);
+  assert.match(stepOf(failed, 'prices').error!, /do not resolve to an array/);
+  assert.equal(new DefaultWorkflowEngine().validateWorkflow({ steps: [step('prices', { input: { token: '{{item}}' } })] }), false);
+});
+
+// Splits an amount between two swaps; {{params.amount}} is filled in from the parent step input
+const rebalance = {
+  steps: [
+    step('sell', { input: { amount: '{{params.amount}}' } }),
+    step('buy', { dependsOn: ['sell'], input: { amount: '{{steps.sell.output.amountOut}}' } })
+  ]
+};
+
+test('runs sub-workflows as child tasks and exposes their outputs', async () => {
+  const { engine, dispatcher } = await setup(request => ({
+    accepted: true,
+    result: { success: true, output: { amountOut: `${request.step.id}-out` } }
+  }));
+  const task = await runTask(engine, [
+    step('quote'),
+    step('rebalance', {
+      dependsOn: ['quote'],
+      input: { amount: '{{steps.quote.output.amountOut}}' },
+      subWorkflow: { workflow: rebalance }
+    }),
+    step('report', { dependsOn: ['rebalance'], input: { bought: '{{steps.rebalance.output.buy.amountOut}}' } })
+  ]);
+
+  const completed = await waitForStatus(engine, task.id, TaskStatus.COMPLETED);
+  const subWorkflowStep = stepOf(completed, 'rebalance');
+  const child = subWorkflowStep.childTask!;
+
+  assert.deepEqual(dispatcher.stepIds(), ['quote', 'sell', 'buy', 'report']);
+  assert.deepEqual(dispatcher.dispatched[1].step.input, { amount: 'quote-out' });
+  assert.deepEqual(dispatcher.dispatched[3].step.input, { bought: 'buy-out' });
+  assert.deepEqual(child.parent, { taskId: task.id, stepId: 'rebalance' });
+  assert.deepEqual(child.workflow.steps.map(candidate => candidate.status), [StepStatus.COMPLETED, StepStatus.COMPLETED]);
+  assert.deepEqual(subWorkflowStep.output, { sell: { amountOut: 'sell-out' }, buy: { amountOut: 'buy-out' } });
+});
+
+test('builds sub-workflows from templates and checks their parameters', async () => {
+  const templateStore = new InMemoryWorkflowTemplateStore();
+  await templateStore.publish({
+    name: 'rebalance',
+    version: '1.0.0',
+    publisher: owner.address,
+    parameters: [{ name: 'amount', type: 'string' }],
+    workflow: rebalance
+  });
+  const { engine } = await setup(() => ({ accepted: true, result: { success: true, output: { amountOut: '5' } } }), { templateStore });
+
+  const task = await runTask(engine, [step('rebalance', { input: { amount: '5' }, subWorkflow: { template: 'rebalance@^1' } })]);
+  const completed = await waitForStatus(engine, task.id, TaskStatus.COMPLETED);
+  assert.deepEqual(stepOf(completed, 'rebalance').childTask!.template, { name: 'rebalance', version: '1.0.0' });
+
+  const mistyped = await runTask(engine, [step('rebalance', { input: { amount: 5 } as any, subWorkflow: { template: 'rebalance' } })]);
+  const failed = await waitForStatus(engine, mistyped.id, TaskStatus.FAILED);
+  assert.match(stepOf(failed, 'rebalance').error!, /parameter amount must be of type string/);
+
+  await assert.rejects(
+    engine.createTask({
+      name: 'Task',
+      description: 'Test task',
+      creator: 'alice',
+      workflow: { steps: [step('rebalance', { subWorkflow: { template: 'rebalance@^2' } })] }
+    }),
+    /not found/
+  );
+});
+
+test('rejects sub-workflows that are invalid or nested too deep', async () => {
+  const { engine } = await setup();
+  const create = (steps: WorkflowStep[]) => engine.createTask({ name: 'Task', description: 'Test task', creator: 'alice', workflow: { steps } });
+
+  await assert.rejects(create([step('rebalance', { subWorkflow: { workflow: { steps: [step('buy', { dependsOn: ['sell'] })] } } })]));
+
+  let nested = { steps: [step('swap')] };
+  for (let depth = 0; depth < 6; depth++) {
+    nested = { steps: [step(`level${depth}`, { subWorkflow: { workflow: nested } })] };
+  }
+  await assert.rejects(create(nested.steps), /cannot be nested more than 5 levels deep/);
+});
+
+test('propagates failure up and cancellation down between parent and child tasks', async () => {
+  const failing = await setup(request => (
+    request.step.id === 'buy'
+      ? { accepted: true, result: { success: false, error: 'Slippage too high' } }
+      : { accepted: true, result: { success: true, output: { amountOut: '5' } } }
+  ));
+  const task = await runTask(failing.engine, [step('rebalance', { input: { amount: '5' }, subWorkflow: { workflow: rebalance } })]);
+  const failed = await waitForStatus(failing.engine, task.id, TaskStatus.FAILED);
+  assert.match(stepOf(failed, 'rebalance').error!, /^Sub-workflow failed/);
+  assert.equal(stepOf(stepOf(failed, 'rebalance').childTask!, 'buy').error, 'Slippage too high');
+
+  const hanging = await setup(() => ({ accepted: true }));
+  const canceledTask = await runTask(hanging.engine, [step('rebalance', { input: { amount: '5' }, subWorkflow: { workflow: rebalance } })]);
+  await waitFor(() => hanging.dispatcher.stepIds().includes('sell'), 'the child task to dispatch');
+  const childId = stepOf((await hanging.engine.getTask(canceledTask.id))!, 'rebalance').childTaskId!;
+
+  await hanging.engine.cancelTask(canceledTask.id);
+
+  assert.equal((await hanging.engine.getTask(childId))!.status, TaskStatus.CANCELED);
+  await waitFor(() => hanging.dispatcher.canceled.some(request => request.step.id === 'sell'), 'the agent to be told to stop');
+});
+
+test('SQLite task store keeps tasks and executions as written', () => {
+  const store = new SqliteTaskStore(':memory:');
+  try {
+    const now = new Date();
+    const task: Task = {
+      id: 'task-1',
+      name: 'Task',
+      description: 'Test task',
+      creator: 'alice',
+      status: TaskStatus.RUNNING,
+      workflow: {
+        steps: [step('swap', {
+          status: StepStatus.FAILED,
+          startTime: now,
+          endTime: now,
+          attempts: [{ attempt: 1, agentId: 'agent-1', startTime: now, endTime: now, success: false, error: 'Reverted' }]
+        })]
+      },
+      deadline: new Date(now.getTime() + 60 * 1000),
+      createdAt: now,
+      updatedAt: now,
+      startedAt: now
+    };
+    store.saveTask(task);
+    store.saveExecution({
+      taskId: task.id,
+      completedSteps: [],
+      failedSteps: ['swap'],
+      skippedSteps: [],
+      startTime: now,
+      queuedAt: now,
+      lastUpdated: now
+    });
+
+    const saved = store.getTask(task.id)!;
+    assert.equal(JSON.stringify(saved), JSON.stringify(task));
+    assert.deepEqual(saved.deadline, task.deadline);
+    assert.deepEqual(saved.workflow.steps[0].attempts![0].endTime, now);
+    assert.deepEqual(store.listTasks(TaskStatus.RUNNING).map(saved => saved.id), [task.id]);
+    assert.deepEqual(store.listTasks(TaskStatus.COMPLETED), []);
+    assert.deepEqual(store.getExecution(task.id)!.queuedAt, now);
+
+    store.saveTask({ ...task, status: TaskStatus.COMPLETED });
+    assert.equal(store.listTasks().length, 1);
+    assert.equal(store.getTask(task.id)!.status, TaskStatus.COMPLETED);
+
+    store.deleteTask(task.id);
+    assert.equal(store.getTask(task.id), undefined);
+    assert.equal(store.getExecution(task.id), undefined);
+  } finally {
+    store.close();
+  }
+});
+
+test('recovers running tasks after a restart', async () => {
+  const filename = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'tasks-')), 'tasks.db');
+  const registry = new InMemoryAgentRegistry({ signingDomain: domain });
+  const agent = await activeAgent(registry);
+  const start = (store: SqliteTaskStore, dispatcher: StepDispatcher) => new InMemoryTaskOrchestrationEngine(
+    registry,
+    new DefaultAgentSelector(),
+    undefined,
+    { stepDispatcher: dispatcher, signingDomain: domain, taskStore: store }
+  );
+
+  // Both steps are handed to an agent that answers later; the process then stops
+  const firstStore = new SqliteTaskStore(filename);
+  const first = start(firstStore, new ScriptedDispatcher(() => ({ accepted: true })));
+  const task = await runTask(first, [step('quote'), step('swap')]);
+  await waitFor(
+    async () => (await first.getTask(task.id))!.workflow.steps.every(candidate => candidate.status === StepStatus.RUNNING),
+    'both steps to run'
+  );
+  // The agent never acknowledged the swap before the restart
+  const stored = firstStore.getTask(task.id)!;
+  firstStore.saveTask({
+    ...stored,
+    workflow: { steps: stored.workflow.steps.map(candidate => candidate.id === 'swap' ? { ...candidate, status: StepStatus.ASSIGNED } : candidate) }
+  });
+  firstStore.close();
+
+  const secondStore = new SqliteTaskStore(filename);
+  try {
+    const dispatcher = new ScriptedDispatcher(() => ({ accepted: true }));
+    const second = start(secondStore, dispatcher);
+    const recovery = await second.recoverTasks();
+
+    assert.deepEqual(recovery.resumedTasks, [task.id]);
+    assert.deepEqual(recovery.redispatchedSteps, [{ taskId: task.id, stepId: 'swap' }]);
+    await waitFor(() => dispatcher.stepIds().includes('swap'), 'the swap to be dispatched again');
+    assert.deepEqual(dispatcher.stepIds(), ['swap']);
+
+    for (const stepId of ['quote', 'swap']) {
+      // The swap was dispatched again as a second attempt
+      const result = { taskId: task.id, stepId, attempt: stepId === 'swap' ? 2 : 1, success: true, output: { agent: agent.id } };
+      await second.submitStepResult(result, await signResult(result));
+    }
+
+    const completed = await waitForStatus(second, task.id, TaskStatus.COMPLETED);
+    assert.match(stepOf(completed, 'swap').attempts![0].error!, /Interrupted by a restart/);
+    assert.equal(secondStore.getTask(task.id)!.status, TaskStatus.COMPLETED);
+  } finally {
+    secondStore.close();
+  }
+});
+
+test('starts no new steps while a task is paused', async () => {
+  const { engine, dispatcher } = await setup(request => (request.step.id === 'quote' ? { accepted: true } : succeed(request)));
+  const task = await runTask(engine, [step('quote'), step('swap', { dependsOn: ['quote'] })]);
+  await waitFor(() => dispatcher.stepIds().includes('quote'), 'the quote to be dispatched');
+
+  const paused = await engine.pauseTask(task.id);
+  assert.equal(paused.task.status, TaskStatus.PAUSED);
+  assert.match((await engine.pauseTask(task.id)).error!, /Only running tasks can be paused/);
+
+  // The running step still reports back while the task is paused
+  const result = { taskId: task.id, stepId: 'quote', attempt: 1, success: true, output: { amountOut: '42' } };
+  await engine.submitStepResult(result, await signResult(result));
+  await delay(50);
+
+  const waiting = (await engine.getTask(task.id))!;
+  assert.equal(waiting.status, TaskStatus.PAUSED);
+  assert.equal(stepOf(waiting, 'quote').status, StepStatus.COMPLETED);
+  assert.deepEqual(dispatcher.stepIds(), ['quote']);
+
+  assert.equal((await engine.resumeTask(task.id)).task.status, TaskStatus.RUNNING);
+  await waitForStatus(engine, task.id, TaskStatus.COMPLETED);
+  assert.deepEqual(dispatcher.stepIds(), ['quote', 'swap']);
+  assert.match((await engine.resumeTask(task.id)).error!, /Only paused tasks can be resumed/);
+});
+
+test('reruns failed tasks from their failed steps', async () => {
+  let swaps = 0;
+  const { engine, dispatcher } = await setup(request => (
+    request.step.id === 'swap' && ++swaps === 1
+      ? { accepted: true, result: { success: false, error: 'Reverted' } }
+      : { accepted: true, result: { success: true, output: { amountOut: `${request.step.id}-${swaps}` } } }
+  ));
+  const task = await runTask(engine, [
+    step('quote'),
+    step('swap', { dependsOn: ['quote'] }),
+    step('report', { dependsOn: ['swap'] })
+  ]);
+  await waitForStatus(engine, task.id, TaskStatus.FAILED);
+  assert.match((await engine.resumeTask(task.id)).error!, /Only paused tasks can be resumed/);
+
+  const retried = await engine.retryFailed(task.id);
+  assert.equal(retried.success, true);
+  assert.equal(stepOf(retried.task, 'swap').status, StepStatus.PENDING);
+
+  const completed = await waitForStatus(engine, task.id, TaskStatus.COMPLETED);
+  assert.deepEqual(dispatcher.stepIds(), ['quote', 'swap', 'swap', 'report']);
+  assert.deepEqual(stepOf(completed, 'quote').output, { amountOut: 'quote-0' });
+  assert.equal(completed.error, undefined);
+  assert.match((await engine.retryFailed(task.id)).error!, /Only failed tasks can be retried/);
+});
+
+test('tells the agents holding steps of a canceled task to stop', async () => {
+  const { engine, dispatcher, agent } = await setup(() => ({ accepted: true }));
+  const task = await runTask(engine, [step('buy'), step('sell'), step('report', { dependsOn: ['buy', 'sell'] })]);
+  await waitFor(() => dispatcher.dispatched.length === 2, 'both swaps to be dispatched');
+
+  assert.equal(await engine.cancelTask(task.id), true);
+  await waitFor(() => dispatcher.canceled.length === 2, 'the agents to be told to stop');
+
+  const canceled = (await engine.getTask(task.id))!;
+  assert.equal(canceled.status, TaskStatus.CANCELED);
+  assert.deepEqual(dispatcher.canceled.map(request => request.step.id).sort(), ['buy', 'sell']);
+  assert.ok(dispatcher.canceled.every(request => request.agent.id === agent.id && request.reason));
+  assert.equal(stepOf(canceled, 'report').status, StepStatus.PENDING);
+  assert.equal(await engine.cancelTask(task.id), false);
+});
+
+test('compensates completed steps in reverse dependency order', async () => {
+  const { engine, dispatcher } = await setup(request => (
+    request.step.id === 'bridge'
+      ? { accepted: true, result: { success: false, error: 'Bridge is paused' } }
+      : { accepted: true, result: { success: true, output: { txHash: `0x${request.step.id}` } } }
+  ));
+  const task = await runTask(engine, [
+    step('approve', { compensate: { input: { revoke: '{{steps.approve.output.txHash}}' } } }),
+    step('swap', {
+      dependsOn: ['approve'],
+      compensate: { name: 'Swap back', input: { reverse: '{{steps.swap.output.txHash}}' } }
+    }),
+    step('notify'),
+    step('bridge', { dependsOn: ['swap'] })
+  ]);
+
+  await waitFor(async () => (await engine.getTask(task.id))!.compensationStatus === CompensationStatus.COMPLETED, 'compensation');
+  const failed = (await engine.getTask(task.id))!;
+
+  assert.equal(failed.status, TaskStatus.FAILED);
+  assert.deepEqual(dispatcher.stepIds().slice(-2), ['swap:compensate', 'approve:compensate']);
+  assert.deepEqual(dispatcher.dispatched.find(request => request.step.id === 'swap:compensate')!.step.input, { reverse: '0xswap' });
+  assert.equal(stepOf(failed, 'swap').compensation!.status, StepStatus.COMPLETED);
+  assert.equal(stepOf(failed, 'notify').compensation, undefined);
+  assert.match((await engine.retryFailed(task.id)).error!, /was compensated/);
+
+  // A compensation may only look at its own step and the steps before it
+  assert.equal(new DefaultWorkflowEngine().validateWorkflow({
+    steps: [
+      step('approve', { compensate: { input: { bridged: '{{steps.bridge.output.txHash}}' } } }),
+      step('bridge', { dependsOn: ['approve'] })
+    ]
+  }), false);
+});
+
+test('skips the compensations waiting on one that failed', async () => {
+  const { engine, dispatcher } = await setup(request => {
+    switch (request.step.id) {
+      case 'swap':
+        return { accepted: true };
+      case 'lend:compensate':
+        return { accepted: true, result: { success: false, error: 'Position is locked' } };
+      default:
+        return { accepted: true, result: { success: true, output: {} } };
+    }
+  });
+  const task = await runTask(engine, [
+    step('approve', { compensate: { input: {} } }),
+    step('lend', { dependsOn: ['approve'], compensate: { input: {} } }),
+    step('swap', { dependsOn: ['lend'] })
+  ]);
+  await waitFor(() => dispatcher.stepIds().includes('swap'), 'the swap to be dispatched');
+
+  await engine.cancelTask(task.id);
+  await waitFor(async () => (await engine.getTask(task.id))!.compensationStatus === CompensationStatus.FAILED, 'compensation');
+  const canceled = (await engine.getTask(task.id))!;
+
+  assert.equal(canceled.status, TaskStatus.CANCELED);
+  assert.equal(stepOf(canceled, 'lend').compensation!.error, 'Position is locked');
+  assert.equal(stepOf(canceled, 'approve').compensation!.status, StepStatus.SKIPPED);
+  assert.ok(!dispatcher.stepIds().includes('approve:compensate'));
+});
+
+test('orders the queue by priority, then by age', () => {
+  const queued = (id: string, priority: number | undefined, createdAt: number) => ({ id, priority, createdAt: new Date(createdAt) } as Task);
+  const tasks = [queued('old', undefined, 1), queued('urgent', 5, 3), queued('new', 0, 2), queued('low', -1, 0)];
+
+  assert.deepEqual([...tasks].sort(compareQueuedTasks).map(task => task.id), ['urgent', 'old', 'new', 'low']);
+  assert.equal(queuePosition(tasks[2], tasks), 3);
+  assert.equal(queuePosition(queued('running', 0, 0), tasks), undefined);
+});
+
+test('queues tasks beyond the running limit and starts them by priority', async () => {
+  const { engine, dispatcher } = await setup(() => ({ accepted: true }), { scheduling: { maxRunningTasks: 1 } });
+  const create = (name: string, priority?: number) => engine.createTask({
+    name,
+    description: 'Test task',
+    creator: 'alice',
+    workflow: { steps: [step('swap')] },
+    priority
+  });
+  const running = await create('running');
+  const normal = await create('normal');
+  const urgent = await create('urgent', 5);
+
+  for (const task of [running, normal, urgent]) {
+    assert.equal((await engine.executeTask(task.id)).success, true);
+  }
+  await waitFor(() => dispatcher.dispatched.length === 1, 'the first task to dispatch');
+
+  assert.equal((await engine.getTask(normal.id))!.status, TaskStatus.PENDING);
+  assert.equal((await engine.getTaskExecution(urgent.id))!.queuePosition, 1);
+  assert.equal((await engine.getTaskExecution(normal.id))!.queuePosition, 2);
+  assert.match((await engine.executeTask(normal.id)).error!, /already queued/);
+
+  await engine.handleStepResult({ taskId: running.id, stepId: 'swap', success: true });
+  await waitFor(() => dispatcher.dispatched.length === 2, 'the next task to dispatch');
+  assert.equal(dispatcher.dispatched[1].task.id, urgent.id);
+  assert.equal((await engine.getTaskExecution(urgent.id))!.queuePosition, undefined);
+
+  await engine.cancelTask(urgent.id);
+  await waitFor(() => dispatcher.dispatched.length === 3, 'the last task to dispatch');
+  assert.equal(dispatcher.dispatched[2].task.id, normal.id);
+
+  await assert.rejects(create('fractional', 1.5), /priority must be an integer/);
+});
+
+test('keeps each creator to their quota of running tasks', async () => {
+  const { engine, dispatcher } = await setup(() => ({ accepted: true }), { scheduling: { maxTasksPerCreator: 1 } });
+  const first = await runTask(engine, [step('swap')], 'alice');
+  const second = await runTask(engine, [step('swap')], 'alice');
+  const other = await runTask(engine, [step('swap')], 'bob');
+
+  await waitFor(() => dispatcher.dispatched.length === 2, 'the tasks within quota to dispatch');
+  assert.deepEqual(dispatcher.dispatched.map(request => request.task.id), [first.id, other.id]);
+  assert.equal((await engine.getTask(second.id))!.status, TaskStatus.PENDING);
+
+  await engine.handleStepResult({ taskId: first.id, stepId: 'swap', success: true });
+  await waitFor(() => dispatcher.dispatched.length === 3, 'the queued task to dispatch');
+  assert.equal(dispatcher.dispatched[2].task.id, second.id);
+});
+
+test('holds back steps beyond the step limits', async () => {
+  for (const scheduling of [{ maxRunningSteps: 1 }, { maxStepsPerAgent: 1 }]) {
+    const { engine, dispatcher } = await setup(() => ({ accepted: true }), { scheduling });
+    const task = await runTask(engine, [step('buy'), step('sell'), step('lend', { map: { items: [1, 2] } })]);
+    const finish = (stepId: string) => engine.handleStepResult({ taskId: task.id, stepId, success: true });
+
+    await waitFor(() => dispatcher.dispatched.length === 1, 'the first step to dispatch');
+    await delay(50);
+    assert.deepEqual(dispatcher.stepIds(), ['buy']);
+
+    await finish('buy');
+    await waitFor(() => dispatcher.dispatched.length === 2, 'the second step to dispatch');
+    await finish('sell');
+    await waitFor(() => dispatcher.dispatched.length === 3, 'the first element to dispatch');
+    await finish('lend:0');
+    await waitFor(() => dispatcher.dispatched.length === 4, 'the second element to dispatch');
+    await finish('lend:1');
+
+    await waitForStatus(engine, task.id, TaskStatus.COMPLETED);
+    assert.deepEqual(dispatcher.stepIds(), ['buy', 'sell', 'lend:0', 'lend:1']);
+  }
+});
+
+test('queues retried tasks within the running limit', async () => {
+  let attempts = 0;
+  const { engine, dispatcher } = await setup(
+    request => (request.task.name === 'flaky' && ++attempts === 1
+      ? { accepted: true, result: { success: false, error: 'Reverted' } }
+      : { accepted: true }),
+    { scheduling: { maxRunningTasks: 1 } }
+  );
+  const flaky = await engine.createTask({ name: 'flaky', description: 'Test task', creator: 'alice', workflow: { steps: [step('swap')] } });
+  await engine.executeTask(flaky.id);
+  await waitForStatus(engine, flaky.id, TaskStatus.FAILED);
+
+  const busy = await runTask(engine, [step('swap')]);
+  await waitFor(() => dispatcher.dispatched.length === 2, 'the other task to dispatch');
+
+  assert.equal((await engine.retryFailed(flaky.id)).task.status, TaskStatus.PENDING);
+  assert.equal((await engine.getTaskExecution(flaky.id))!.queuePosition, 1);
+
+  await engine.handleStepResult({ taskId: busy.id, stepId: 'swap', success: true });
+  await waitFor(() => dispatcher.dispatched.length === 3, 'the retried task to dispatch');
+  assert.equal(dispatcher.dispatched[2].task.id, flaky.id);
+});
@@ -0,0 +1,701 @@
+import { before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ethers } from 'ethers';
+import {
+  AgentRegistrationRequest,
+  AgentImportAction,
+  AgentLivenessMonitor,
+  AgentProfileUpdate,
+  AgentRegistrationResponse,
+  AgentRegistry,
+  AgentRegistryOptions,
+  InMemoryAgentRegistry,
+  RegistryAnchor,
+  SqliteAgentRegistry,
+  VerificationChallenge,
+  VerificationFailureReason,
+  agentIdToBytes32,
+  agentVerificationValue,
+  checkStepResult,
+  hashAgentProfile,
+  heartbeatMessage,
+  importAgentManifest,
+  keyRotationMessage,
+  manifestEntryToProfileUpdate,
+  ownershipAcceptanceMessage,
+  ownershipOfferMessage,
+  parseAgentManifest,
+  profileUpdateMessage,
+  stepResultValue,
+  suspensionAppealMessage
+} from '../src/core/registry';
+import { Agent, AgentStatus, AnchorAction, AnchorStatus } from '../src/core/types';
+import { InMemoryCapabilityTaxonomy } from '../src/core/capabilities';
+import { AGENT_VERIFICATION_TYPES, STEP_RESULT_TYPES, createSigningDomain } from '../src/core/signing';
+import { DEV_CHAIN_URL, DevChain, connectDevChain, deployRuntime } from './dev-chain';
+
+const owner = ethers.Wallet.createRandom();
+const agentKey = ethers.Wallet.createRandom();
+
+function registrationRequest(overrides: Partial<AgentRegistrationRequest> = {}): AgentRegistrationRequest {
+  return {
+    name: 'Swap agent',
+    description: 'Swaps tokens on Uniswap',
+    owner: owner.address,
+    capabilities: ['defi.swap'],
+    supportedNetworks: ['ethereum'],
+    endpoint: 'http://localhost:4000',
+    publicKey: agentKey.address,
+    ...overrides
+  };
+}
+
+function signChallenge(agentId: string, challenge: VerificationChallenge, signer = owner): Promise<string> {
+  return signer._signTypedData(
+    createSigningDomain(),
+    AGENT_VERIFICATION_TYPES,
+    agentVerificationValue(agentId, owner.address, challenge)
+  );
+}
+
+function challengeOf(registration: AgentRegistrationResponse): VerificationChallenge {
+  return { challenge: registration.verificationChallenge, expiresAt: registration.challengeExpiresAt };
+}
+
+// Registers an agent and verifies it, leaving it ACTIVE
+async function activeAgent(
+  registry: AgentRegistry,
+  overrides: Partial<AgentRegistrationRequest> = {}
+): Promise<Agent> {
+  const registration = await registry.registerAgent(registrationRequest(overrides));
+  const { agent } = registration;
+  await registry.verifyAgent(agent.id, await signChallenge(agent.id, challengeOf(registration)));
+  return (await registry.getAgent(agent.id))!;
+}
+
+async function sendHeartbeat(registry: AgentRegistry, agentId: string, timestamp = new Date(), signer = agentKey) {
+  return registry.recordHeartbeat(agentId, timestamp, await signer.signMessage(heartbeatMessage(agentId, timestamp)));
+}
+
+function signProfileUpdate(agent: Agent, update: AgentProfileUpdate, signer = owner): Promise<string> {
+  return signer.signMessage(profileUpdateMessage(agent.id, agent.version + 1, update));
+}
+
+function tempDatabase(): string {
+  return path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'agentblend-')), 'agents.db');
+}
+
+// Runs a test against both registry implementations
+function registryTest(
+  name: string,
+  run: (registry: AgentRegistry) => Promise<void>,
+  options: AgentRegistryOptions = {}
+): void {
+  test(`${name} (memory)`, () => run(new InMemoryAgentRegistry(options)));
+  test(`${name} (sqlite)`, async () => {
+    const registry = new SqliteAgentRegistry(':memory:', options);
+    try {
+      await run(registry);
+    } finally {
+      registry.close();
+    }
+  });
+}
+
+test('SQLite registry keeps agents across restarts', async () => {
+  const filename = tempDatabase();
+  const first = new SqliteAgentRegistry(filename);
+  const { agent } = await first.registerAgent(registrationRequest({ metadata: { tier: 'gold' } }));
+  first.close();
+
+  const second = new SqliteAgentRegistry(filename);
+  try {
+    const reloaded = await second.getAgent(agent.id);
+
+    assert.ok(reloaded);
+    assert.equal(reloaded.name, agent.name);
+    assert.equal(reloaded.status, AgentStatus.PENDING);
+    assert.deepEqual(reloaded.capabilities, ['defi.swap']);
+    assert.deepEqual(reloaded.metadata, { tier: 'gold' });
+    assert.equal(reloaded.createdAt.getTime(), agent.createdAt.getTime());
+  } finally {
+    second.close();
+  }
+});
+
+registryTest('finds agents by capability and network', async registry => {
+  const { agent: swapper } = await registry.registerAgent(registrationRequest());
+  await registry.registerAgent(registrationRequest({ capabilities: ['defi.lend'], supportedNetworks: ['polygon'] }));
+
+  const found = await registry.findAgents({ capabilities: ['defi.swap'], networks: ['ethereum'] });
+
+  assert.deepEqual(found.map(agent => agent.id), [swapper.id]);
+});
+
+registryTest('deregisters agents', async registry => {
+  const { agent } = await registry.registerAgent(registrationRequest());
+
+  assert.equal(await registry.deregisterAgent(agent.id), true);
+  assert.equal(await registry.getAgent(agent.id), null);
+  assert.equal(await registry.deregisterAgent(agent.id), false);
+});
+
+registryTest('verifies an agent with the owner signature of its challenge', async registry => {
+  const registration = await registry.registerAgent(registrationRequest());
+  const { agent } = registration;
+
+  const result = await registry.verifyAgent(agent.id, await signChallenge(agent.id, challengeOf(registration)));
+
+  assert.deepEqual(result, { verified: true });
+  assert.equal((await registry.getAgent(agent.id))?.status, AgentStatus.ACTIVE);
+});
+
+registryTest('uses a challenge once', async registry => {
+  const registration = await registry.registerAgent(registrationRequest());
+  const signature = await signChallenge(registration.agent.id, challengeOf(registration));
+
+  await registry.verifyAgent(registration.agent.id, signature);
+  const replayed = await registry.verifyAgent(registration.agent.id, signature);
+
+  assert.deepEqual(replayed, { verified: false, reason: VerificationFailureReason.NO_CHALLENGE });
+});
+
+registryTest('rejects challenges signed by someone else', async registry => {
+  const registration = await registry.registerAgent(registrationRequest());
+  const signature = await signChallenge(registration.agent.id, challengeOf(registration), ethers.Wallet.createRandom());
+
+  const result = await registry.verifyAgent(registration.agent.id, signature);
+
+  assert.deepEqual(result, { verified: false, reason: VerificationFailureReason.WRONG_SIGNER });
+  assert.equal((await registry.getAgent(registration.agent.id))?.status, AgentStatus.PENDING);
+});
+
+registryTest('rejects expired challenges', async registry => {
+  const registration = await registry.registerAgent(registrationRequest());
+
+  const result = await registry.verifyAgent(
+    registration.agent.id,
+    await signChallenge(registration.agent.id, challengeOf(registration))
+  );
+
+  assert.deepEqual(result, { verified: false, reason: VerificationFailureReason.CHALLENGE_EXPIRED });
+}, { verificationTimeout: 0 });
+
+registryTest('replaces the challenge when a fresh one is issued', async registry => {
+  const registration = await registry.registerAgent(registrationRequest());
+  const { agent } = registration;
+  const fresh = await registry.issueChallenge(agent.id);
+
+  assert.ok(fresh);
+  assert.notEqual(fresh.challenge, registration.verificationChallenge);
+
+  const stale = await registry.verifyAgent(agent.id, await signChallenge(agent.id, challengeOf(registration)));
+  assert.equal(stale.verified, false);
+
+  const current = await registry.verifyAgent(agent.id, await signChallenge(agent.id, fresh));
+  assert.equal(current.verified, true);
+  await assert.rejects(registry.issueChallenge(agent.id), /already verified/);
+});
+
+registryTest('purges agents that stay pending past the TTL', async registry => {
+  const pending = await registry.registerAgent(registrationRequest());
+  const verified = await registry.registerAgent(registrationRequest());
+  await registry.verifyAgent(verified.agent.id, await signChallenge(verified.agent.id, challengeOf(verified)));
+
+  const purged = await registry.purgeUnverifiedAgents();
+
+  assert.deepEqual(purged, [pending.agent.id]);
+  assert.equal(await registry.getAgent(pending.agent.id), null);
+  assert.ok(await registry.getAgent(verified.agent.id));
+}, { pendingAgentTtl: 0 });
+
+registryTest('records heartbeats signed by the agent key', async registry => {
+  const agent = await activeAgent(registry);
+  const timestamp = new Date();
+
+  const updated = await sendHeartbeat(registry, agent.id, timestamp);
+
+  assert.equal(updated?.lastSeenAt?.getTime(), timestamp.getTime());
+  assert.equal((await registry.getAgent(agent.id))?.lastSeenAt?.getTime(), timestamp.getTime());
+});
+
+registryTest('rejects replayed, stale and forged heartbeats', async registry => {
+  const agent = await activeAgent(registry);
+  const timestamp = new Date();
+  await sendHeartbeat(registry, agent.id, timestamp);
+
+  await assert.rejects(sendHeartbeat(registry, agent.id, timestamp), /not newer/);
+  await assert.rejects(sendHeartbeat(registry, agent.id, new Date(Date.now() - 60 * 60 * 1000)), /outside the accepted window/);
+  await assert.rejects(
+    sendHeartbeat(registry, agent.id, new Date(), ethers.Wallet.createRandom()),
+    /not signed by the agent key/
+  );
+  assert.equal(await sendHeartbeat(registry, 'missing', new Date()), null);
+});
+
+registryTest('deactivates silent agents and reactivates them on their next heartbeat', async registry => {
+  const silent = await activeAgent(registry);
+  const alive = await activeAgent(registry);
+  await sendHeartbeat(registry, silent.id, new Date(Date.now() - 40 * 1000));
+  await sendHeartbeat(registry, alive.id);
+
+  const monitor = new AgentLivenessMonitor(registry, { silenceWindow: 30 * 1000, checkInterval: 1000 });
+  const deactivated = await monitor.check();
+
+  assert.deepEqual(deactivated, [silent.id]);
+  assert.equal((await registry.getAgent(silent.id))?.status, AgentStatus.INACTIVE);
+  assert.equal((await registry.getAgent(alive.id))?.status, AgentStatus.ACTIVE);
+
+  await sendHeartbeat(registry, silent.id);
+
+  assert.equal((await registry.getAgent(silent.id))?.status, AgentStatus.ACTIVE);
+});
+
+registryTest('applies owner-signed profile updates and keeps their history', async registry => {
+  const agent = await activeAgent(registry);
+  const update: AgentProfileUpdate = { endpoint: 'http://localhost:5000', metadata: { region: 'eu' } };
+
+  const updated = await registry.updateAgent(agent.id, update, await signProfileUpdate(agent, update));
+
+  assert.equal(updated?.version, agent.version + 1);
+  assert.equal(updated?.endpoint, 'http://localhost:5000');
+  assert.deepEqual(updated?.capabilities, ['defi.swap']);
+
+  const history = await registry.getAgentHistory(agent.id);
+
+  assert.deepEqual(history.map(version => version.version), [agent.version, agent.version + 1]);
+  assert.equal(history[0].endpoint, 'http://localhost:4000');
+  assert.deepEqual(history[1].metadata, { region: 'eu' });
+});
+
+registryTest('rejects profile updates that are replayed or not signed by the owner', async registry => {
+  const agent = await activeAgent(registry);
+  const update: AgentProfileUpdate = { supportedNetworks: ['polygon'] };
+  const signature = await signProfileUpdate(agent, update);
+
+  await assert.rejects(
+    registry.updateAgent(agent.id, update, await signProfileUpdate(agent, update, ethers.Wallet.createRandom())),
+    /not signed by the agent owner/
+  );
+  await registry.updateAgent(agent.id, update, signature);
+  await assert.rejects(registry.updateAgent(agent.id, update, signature), /not signed by the agent owner/);
+  assert.equal((await registry.getAgentHistory(agent.id)).length, 2);
+});
+
+registryTest('matches agents on capability hierarchy and version ranges', async registry => {
+  const { agent: uniswap } = await registry.registerAgent(registrationRequest({ capabilities: ['defi.swap.uniswap@2.1.0'] }));
+  const { agent: legacy } = await registry.registerAgent(registrationRequest({ capabilities: ['defi.swap@1.4.0'] }));
+
+  const swappers = await registry.findAgents({ capabilities: ['defi.swap'] });
+  const current = await registry.findAgents({ capabilities: ['defi.swap@^2'] });
+
+  assert.deepEqual(swappers.map(agent => agent.id).sort(), [uniswap.id, legacy.id].sort());
+  assert.deepEqual(current.map(agent => agent.id), [uniswap.id]);
+});
+
+registryTest('rejects capabilities outside the taxonomy', async registry => {
+  await registry.registerAgent(registrationRequest({ capabilities: ['defi.swap.uniswap'] }));
+
+  await assert.rejects(
+    registry.registerAgent(registrationRequest({ capabilities: ['defi.lending'] })),
+    /Unknown capability: defi.lending/
+  );
+}, { capabilityTaxonomy: new InMemoryCapabilityTaxonomy([{ name: 'defi.swap' }]) });
+
+function manifestYaml(endpoint: string): string {
+  return [
+    'version: 1',
+    'agents:',
+    '  - name: Uniswap Trader',
+    '    description: Executes swaps on Uniswap',
+    `    owner: "${owner.address}"`,
+    `    publicKey: "${agentKey.address}"`,
+    '    capabilities: [defi.swap.uniswap@2.1.0]',
+    '    networks: [ethereum, arbitrum]',
+    `    endpoint: ${endpoint}`,
+    '    pricing:',
+    '      model: per-step',
+    '      amount: "0.001"',
+    '      token: ETH'
+  ].join('\n');
+}
+
+test('parses YAML manifests and rejects invalid ones', () => {
+  const [entry] = parseAgentManifest(manifestYaml('https://trader.example.com'));
+
+  assert.equal(entry.name, 'Uniswap Trader');
+  assert.deepEqual(entry.networks, ['ethereum', 'arbitrum']);
+  assert.throws(() => parseAgentManifest('version: 2\nagents: []'), /Invalid manifest/);
+  assert.throws(() => parseAgentManifest('agents: [unclosed'), /Invalid manifest/);
+});
+
+registryTest('imports manifests idempotently and updates agents with an owner signature', async registry => {
+  const [registered] = await importAgentManifest(registry, parseAgentManifest(manifestYaml('https://trader.example.com')));
+
+  assert.equal(registered.action, AgentImportAction.REGISTERED);
+  assert.ok(registered.verificationChallenge);
+
+  const agent = (await registry.getAgent(registered.agentId!))!;
+  assert.deepEqual(agent.metadata.pricing, { model: 'per-step', amount: '0.001', token: 'ETH' });
+
+  const [unchanged] = await importAgentManifest(registry, parseAgentManifest(manifestYaml('https://trader.example.com')));
+  assert.deepEqual(unchanged, { index: 0, name: 'Uniswap Trader', action: AgentImportAction.UNCHANGED, agentId: agent.id });
+
+  const [changed] = parseAgentManifest(manifestYaml('https://trader-v2.example.com'));
+  const [unsigned] = await importAgentManifest(registry, [changed]);
+  assert.equal(unsigned.action, AgentImportAction.FAILED);
+  assert.match(unsigned.error!, /owner signature is required/);
+
+  const signature = await owner.signMessage(
+    profileUpdateMessage(agent.id, agent.version + 1, manifestEntryToProfileUpdate(changed))
+  );
+  const [updated] = await importAgentManifest(registry, [{ ...changed, signature }]);
+
+  assert.equal(updated.action, AgentImportAction.UPDATED);
+  assert.equal((await registry.getAgent(agent.id))?.endpoint, 'https://trader-v2.example.com');
+});
+
+test('encodes agent IDs as bytes32 and hashes profiles deterministically', async () => {
+  const { agent } = await new InMemoryAgentRegistry().registerAgent(registrationRequest({ metadata: { b: 1, a: 2 } }));
+
+  assert.equal(agentIdToBytes32(agent.id), `0x${'0'.repeat(32)}${agent.id.replace(/-/g, '')}`);
+  assert.equal(hashAgentProfile(agent), hashAgentProfile({ ...agent, metadata: { a: 2, b: 1 }, status: AgentStatus.ACTIVE }));
+  assert.notEqual(hashAgentProfile(agent), hashAgentProfile({ ...agent, endpoint: 'http://localhost:5000' }));
+});
+
+let chain: DevChain | null = null;
+
+before(async () => {
+  chain = await connectDevChain();
+});
+
+test('anchors registry actions on the dev chain', async t => {
+  if (!chain) {
+    t.skip(`no dev chain at ${DEV_CHAIN_URL}`);
+    return;
+  }
+
+  const { connector, wallet } = chain;
+  // Accepts any call
+  const contractAddress = await deployRuntime(wallet, '0x00');
+  const anchor = new RegistryAnchor(connector, contractAddress);
+  const anchorAbi = new ethers.utils.Interface([
+    'function anchorAgentRecord(bytes32 agentId, uint8 action, bytes32 profileHash) returns (bool)'
+  ]);
+
+  for (const registry of [
+    new InMemoryAgentRegistry({ registryAnchor: anchor }),
+    new SqliteAgentRegistry(':memory:', { registryAnchor: anchor })
+  ]) {
+    // Unverified registrations are not anchored, not even when deregistered
+    const unverified = await registry.registerAgent(registrationRequest());
+    assert.equal(unverified.agent.anchor, undefined);
+    await registry.deregisterAgent(unverified.agent.id);
+    assert.deepEqual(await registry.getAnchors(unverified.agent.id), []);
+
+    const registration = await registry.registerAgent(registrationRequest());
+    const { registryTxHash } = await registry.verifyAgent(
+      registration.agent.id,
+      await signChallenge(registration.agent.id, challengeOf(registration))
+    );
+    const agent = (await registry.getAgent(registration.agent.id))!;
+
+    assert.ok(registryTxHash);
+    assert.equal(agent.anchor?.txHash, registryTxHash);
+    assert.equal(agent.anchor?.status, AnchorStatus.PENDING);
+
+    const transaction = await wallet.provider.getTransaction(registryTxHash);
+    const [agentId, action, profileHash] = anchorAbi.decodeFunctionData('anchorAgentRecord', transaction.data);
+
+    assert.equal(transaction.to, contractAddress);
+    assert.equal(agentId, agentIdToBytes32(agent.id));
+    assert.equal(action, 1);
+    assert.equal(profileHash, hashAgentProfile(agent));
+
+    await transaction.wait();
+    assert.equal(await registry.refreshAnchors(), 1);
+    assert.equal(await registry.refreshAnchors(), 0);
+
+    const [confirmed] = await registry.getAnchors(agent.id);
+    assert.equal(confirmed.action, AnchorAction.VERIFIED);
+    assert.equal(confirmed.status, AnchorStatus.CONFIRMED);
+    assert.equal((await registry.getAgent(agent.id))?.anchor?.status, AnchorStatus.CONFIRMED);
+
+    await registry.deregisterAgent(agent.id);
+    assert.deepEqual(
+      (await registry.getAnchors(agent.id)).map(record => record.action),
+      [AnchorAction.VERIFIED, AnchorAction.DEREGISTERED]
+    );
+
+    if (registry instanceof SqliteAgentRegistry) {
+      registry.close();
+    }
+  }
+});
+
+test('records anchors that fail to submit without failing the verification', async t => {
+  if (!chain) {
+    t.skip(`no dev chain at ${DEV_CHAIN_URL}`);
+    return;
+  }
+
+  const { connector, wallet } = chain;
+  // Reverts every call
+  const contractAddress = await deployRuntime(wallet, '0x60006000fd');
+  const registry = new InMemoryAgentRegistry({ registryAnchor: new RegistryAnchor(connector, contractAddress) });
+  t.mock.method(console, 'error', () => {});
+
+  const registration = await registry.registerAgent(registrationRequest());
+  const verification = await registry.verifyAgent(
+    registration.agent.id,
+    await signChallenge(registration.agent.id, challengeOf(registration))
+  );
+  const agent = (await registry.getAgent(registration.agent.id))!;
+
+  assert.deepEqual(verification, { verified: true });
+  assert.equal(agent.status, AgentStatus.ACTIVE);
+  assert.equal(agent.anchor?.status, AnchorStatus.FAILED);
+  assert.ok(agent.anchor?.error);
+});
+
+async function offerTransfer(registry: AgentRegistry, agent: Agent, newOwner: string, expiresAt: Date) {
+  const signature = await owner.signMessage(ownershipOfferMessage(agent.id, agent.version + 1, newOwner, expiresAt));
+  return registry.offerOwnershipTransfer(agent.id, newOwner, expiresAt, signature);
+}
+
+registryTest('transfers ownership once the new owner accepts the offer', async registry => {
+  const agent = await activeAgent(registry);
+  const newOwner = ethers.Wallet.createRandom();
+
+  const offer = await offerTransfer(registry, agent, newOwner.address, new Date(Date.now() + 60 * 1000));
+  assert.equal(offer?.newOwner, newOwner.address);
+  assert.equal((await registry.getAgent(agent.id))?.owner, owner.address);
+
+  const acceptance = ownershipAcceptanceMessage(agent.id, agent.version + 1, newOwner.address);
+  await assert.rejects(
+    registry.acceptOwnershipTransfer(agent.id, await ethers.Wallet.createRandom().signMessage(acceptance)),
+    /not signed by the new owner/
+  );
+
+  const transferred = await registry.acceptOwnershipTransfer(agent.id, await newOwner.signMessage(acceptance));
+
+  assert.equal(transferred?.owner, newOwner.address);
+  assert.equal(transferred?.version, agent.version + 1);
+  await assert.rejects(
+    registry.acceptOwnershipTransfer(agent.id, await newOwner.signMessage(acceptance)),
+    /no pending ownership transfer/
+  );
+});
+
+registryTest('rejects invalid and expired ownership offers', async registry => {
+  const agent = await activeAgent(registry);
+  const newOwner = ethers.Wallet.createRandom();
+
+  await assert.rejects(offerTransfer(registry, agent, owner.address, new Date(Date.now() + 60 * 1000)), /must differ/);
+  await assert.rejects(offerTransfer(registry, agent, newOwner.address, new Date(Date.now() - 1000)), /in the future/);
+
+  await offerTransfer(registry, agent, newOwner.address, new Date(Date.now() + 50));
+  await new Promise(resolve => setTimeout(resolve, 100));
+
+  const acceptance = await newOwner.signMessage(ownershipAcceptanceMessage(agent.id, agent.version + 1, newOwner.address));
+  await assert.rejects(registry.acceptOwnershipTransfer(agent.id, acceptance), /has expired/);
+  assert.equal((await registry.getAgent(agent.id))?.owner, owner.address);
+});
+
+registryTest('rotates the agent key with a signature from the current key', async registry => {
+  const agent = await activeAgent(registry);
+  const newKey = ethers.Wallet.createRandom();
+  const message = keyRotationMessage(agent.id, agent.version + 1, newKey.address);
+
+  await assert.rejects(
+    registry.rotateAgentKey(agent.id, newKey.address, await owner.signMessage(message)),
+    /not signed by the current agent key/
+  );
+
+  const rotated = await registry.rotateAgentKey(agent.id, newKey.address, await agentKey.signMessage(message));
+
+  assert.equal(rotated?.publicKey, newKey.address);
+  await assert.rejects(sendHeartbeat(registry, agent.id, new Date(), agentKey), /not signed by the agent key/);
+  assert.ok(await sendHeartbeat(registry, agent.id, new Date(), newKey));
+});
+
+registryTest('pages through search results with a cursor', async registry => {
+  const registered: string[] = [];
+  for (let i = 0; i < 5; i++) {
+    registered.push((await registry.registerAgent(registrationRequest({ name: `Agent ${i}` }))).agent.id);
+  }
+
+  const seen: string[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await registry.searchAgents({ sortBy: 'createdAt', sortOrder: 'asc', limit: 2, cursor });
+    assert.ok(page.agents.length <= 2);
+    seen.push(...page.agents.map(agent => agent.id));
+    cursor = page.nextCursor;
+  } while (cursor);
+
+  assert.equal(seen.length, 5);
+  assert.deepEqual([...seen].sort(), [...registered].sort());
+
+  const first = await registry.searchAgents({ sortOrder: 'asc', limit: 2 });
+  await assert.rejects(registry.searchAgents({ sortOrder: 'desc', cursor: first.nextCursor }), /Invalid cursor for this sort/);
+  await assert.rejects(registry.searchAgents({ limit: 0 }), /Limit must be between/);
+});
+
+registryTest('sorts search results by performance', async registry => {
+  const reliable = await activeAgent(registry, { name: 'Reliable' });
+  const flaky = await activeAgent(registry, { name: 'Flaky' });
+  await registry.recordStepOutcome(reliable.id, true, 100);
+  await registry.recordStepOutcome(flaky.id, false, 100);
+
+  const { agents } = await registry.searchAgents({ sortBy: 'performance', sortOrder: 'desc' });
+
+  assert.deepEqual(agents.map(agent => agent.name), ['Reliable', 'Flaky']);
+});
+
+registryTest('searches names and descriptions and filters on typed metadata', async registry => {
+  const { agent: gold } = await registry.registerAgent(registrationRequest({
+    name: 'Gold trader',
+    metadata: { tier: 2, pricing: { model: 'per-step' }, regions: ['eu', 'us'], audited: true }
+  }));
+  const { agent: basic } = await registry.registerAgent(registrationRequest({
+    name: 'Basic trader',
+    description: 'Cheap SWAPS',
+    metadata: { tier: '2', regions: ['us'] }
+  }));
+
+  const ids = async (query: Parameters<AgentRegistry['findAgents']>[0]) =>
+    (await registry.findAgents(query)).map(agent => agent.id).sort();
+
+  assert.deepEqual(await ids({ text: 'gold' }), [gold.id]);
+  assert.deepEqual(await ids({ text: 'cheap swaps' }), [basic.id]);
+  assert.deepEqual(await ids({ metadata: [{ field: 'tier', operator: 'eq', value: 2 }] }), [gold.id]);
+  assert.deepEqual(await ids({ metadata: [{ field: 'tier', operator: 'gte', value: 1 }] }), [gold.id]);
+  assert.deepEqual(await ids({ metadata: [{ field: 'pricing.model', operator: 'in', value: ['per-step', 'per-task'] }] }), [gold.id]);
+  assert.deepEqual(await ids({ metadata: [{ field: 'regions', operator: 'contains', value: 'us' }] }), [gold.id, basic.id].sort());
+  assert.deepEqual(await ids({ metadata: [{ field: 'audited', operator: 'exists' }] }), [gold.id]);
+  assert.deepEqual(await ids({ metadata: [{ field: 'tier', operator: 'ne', value: 2 }] }), [basic.id]);
+  await assert.rejects(registry.findAgents({ metadata: [{ field: 'audited', operator: 'gt', value: true }] }), /cannot order booleans/);
+});
+
+registryTest('only changes status through verification and the suspension workflow', async registry => {
+  const { agent: pending } = await registry.registerAgent(registrationRequest());
+  const agent = await activeAgent(registry);
+
+  await assert.rejects(registry.updateAgentStatus(pending.id, AgentStatus.ACTIVE), /must be verified first/);
+  await assert.rejects(registry.updateAgentStatus(agent.id, AgentStatus.PENDING), /only pending until/);
+  await assert.rejects(registry.updateAgentStatus(agent.id, AgentStatus.SUSPENDED), /suspension workflow/);
+
+  assert.equal((await registry.updateAgentStatus(agent.id, AgentStatus.INACTIVE, owner.address))?.status, AgentStatus.INACTIVE);
+});
+
+registryTest('suspends agents and reinstates them to their previous status', async registry => {
+  const agent = await activeAgent(registry);
+  await registry.updateAgentStatus(agent.id, AgentStatus.INACTIVE, owner.address);
+
+  await assert.rejects(registry.suspendAgent(agent.id, { reason: ' ', actor: 'admin' }), /requires a reason/);
+
+  const suspended = await registry.suspendAgent(agent.id, { reason: 'Failed payouts', actor: 'admin' });
+
+  assert.equal(suspended?.status, AgentStatus.SUSPENDED);
+  assert.equal(suspended?.suspension?.reason, 'Failed payouts');
+  await assert.rejects(registry.suspendAgent(agent.id, { reason: 'Again', actor: 'admin' }), /already suspended/);
+  await assert.rejects(registry.updateAgentStatus(agent.id, AgentStatus.ACTIVE), /reinstated first/);
+
+  const reinstated = await registry.reinstateAgent(agent.id, 'admin', 'Payouts fixed');
+
+  assert.equal(reinstated?.status, AgentStatus.INACTIVE);
+  assert.equal(reinstated?.suspension, undefined);
+  await assert.rejects(registry.reinstateAgent(agent.id, 'admin'), /is not suspended/);
+
+  const history = await registry.getStatusHistory(agent.id);
+  assert.deepEqual(
+    history.map(change => [change.previousStatus, change.status, change.actor]),
+    [
+      [undefined, AgentStatus.PENDING, 'system'],
+      [AgentStatus.PENDING, AgentStatus.ACTIVE, 'system'],
+      [AgentStatus.ACTIVE, AgentStatus.INACTIVE, owner.address],
+      [AgentStatus.INACTIVE, AgentStatus.SUSPENDED, 'admin'],
+      [AgentStatus.SUSPENDED, AgentStatus.INACTIVE, 'admin']
+    ]
+  );
+  assert.equal(history[3].reason, 'Failed payouts');
+  assert.equal(history[4].reason, 'Payouts fixed');
+});
+
+registryTest('accepts one owner-signed appeal per suspension', async registry => {
+  const agent = await activeAgent(registry);
+  const suspended = (await registry.suspendAgent(agent.id, { reason: 'Spam', actor: 'admin' }))!;
+  const message = suspensionAppealMessage(agent.id, suspended.suspension!.suspendedAt, 'Not spam');
+
+  await assert.rejects(
+    registry.appealSuspension(agent.id, 'Not spam', await agentKey.signMessage(message)),
+    /not signed by the agent owner/
+  );
+
+  const appealed = await registry.appealSuspension(agent.id, 'Not spam', await owner.signMessage(message));
+
+  assert.equal(appealed?.suspension?.appeal?.note, 'Not spam');
+  assert.equal((await registry.getStatusHistory(agent.id)).at(-1)?.appeal?.note, 'Not spam');
+  await assert.rejects(
+    registry.appealSuspension(agent.id, 'Not spam', await owner.signMessage(message)),
+    /already been appealed/
+  );
+});
+
+registryTest('reinstates agents when their suspension expires', async registry => {
+  const expiring = await activeAgent(registry);
+  const indefinite = await activeAgent(registry);
+  await registry.suspendAgent(expiring.id, { reason: 'Cooling off', actor: 'admin', expiresAt: new Date(Date.now() + 50) });
+  await registry.suspendAgent(indefinite.id, { reason: 'Abuse', actor: 'admin' });
+  await new Promise(resolve => setTimeout(resolve, 100));
+
+  assert.deepEqual(await registry.reinstateExpiredSuspensions(), [expiring.id]);
+  assert.equal((await registry.getAgent(expiring.id))?.status, AgentStatus.ACTIVE);
+  assert.equal((await registry.getAgent(indefinite.id))?.status, AgentStatus.SUSPENDED);
+  assert.equal((await registry.getStatusHistory(expiring.id)).at(-1)?.reason, 'Suspension expired');
+});
+
+registryTest('rejects verification signatures made for another chain', async registry => {
+  const registration = await registry.registerAgent(registrationRequest());
+  const { agent } = registration;
+
+  const mainnet = await registry.verifyAgent(agent.id, await signChallenge(agent.id, challengeOf(registration)));
+  assert.deepEqual(mainnet, { verified: false, reason: VerificationFailureReason.WRONG_SIGNER });
+
+  const signature = await owner._signTypedData(
+    createSigningDomain(31337),
+    AGENT_VERIFICATION_TYPES,
+    agentVerificationValue(agent.id, owner.address, challengeOf(registration))
+  );
+  assert.deepEqual(await registry.verifyAgent(agent.id, signature), { verified: true });
+}, { signingDomain: createSigningDomain(31337) });
+
+test('checks step results signed as typed data by the agent key', async () => {
+  const { agent } = await new InMemoryAgentRegistry().registerAgent(registrationRequest());
+  const domain = createSigningDomain(31337);
+  const result = { success: true, output: { amountOut: '42' } };
+  const payload = { signature: '', nonce: '7', expiry: Math.floor(Date.now() / 1000) + 60 };
+  payload.signature = await agentKey._signTypedData(
+    domain,
+    STEP_RESULT_TYPES,
+    stepResultValue('task-1', 'swap', 1, result, payload)
+  );
+
+  checkStepResult(domain, agent, 'task-1', 'swap', 1, result, payload);
+
+  assert.throws(
+    () => checkStepResult(domain, agent, 'task-1', 'swap', 1, { success: true, output: { amountOut: '43' } }, payload),
+    /not signed by the assigned agent key/
+  );
+  assert.throws(() => checkStepResult(domain, agent, 'task-1', 'other', 1, result, payload), /assigned agent key/);
+  assert.throws(() => checkStepResult(domain, agent, 'task-1', 'swap', 2, result, payload), /assigned agent key/);
+  assert.throws(() => checkStepResult(createSigningDomain(), agent, 'task-1', 'swap', 1, result, payload), /on chain 1\b/);
+  assert.throws(
+    () => checkStepResult(domain, agent, 'task-1', 'swap', 1, result, { ...payload, signature: '0x1234' }),
+    /Malformed step result signature/
+  );
+});
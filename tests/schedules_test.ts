@@ -0,0 +1,290 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  CreateScheduleRequest,
+  InMemoryScheduleStore,
+  InMemoryTaskScheduler,
+  ScheduleStatus,
+  ScheduleStore,
+  SqliteScheduleStore,
+  isValidCron,
+  nextCronRun,
+  parseCron
+} from '../src/core/schedules';
+import { CreateTaskRequest, TaskExecutionResult, TaskOrchestrationEngine } from '../src/core/orchestration';
+import { InMemoryWorkflowTemplateStore } from '../src/core/templates';
+import { StepStatus, Task, TaskStatus, Workflow } from '../src/core/types';
+
+const workflow: Workflow = {
+  steps: [{
+    id: 'rebalance',
+    name: 'Rebalance',
+    agentRequirements: { capabilities: ['defi.swap'] },
+    input: {},
+    dependsOn: [],
+    status: StepStatus.PENDING
+  }]
+};
+
+// Records the tasks schedules start; they keep running until finished by the test
+class RecordingOrchestration {
+  tasks: Task[] = [];
+  refuse?: string; // Fails executions with this error when set
+
+  async createTask(request: CreateTaskRequest): Promise<Task> {
+    const now = new Date();
+    const task = { ...request, id: `task-${this.tasks.length + 1}`, status: TaskStatus.CREATED, createdAt: now, updatedAt: now } as Task;
+    this.tasks.push(task);
+    return task;
+  }
+
+  async executeTask(id: string): Promise<TaskExecutionResult> {
+    const task = this.tasks.find(candidate => candidate.id === id)!;
+
+    if (this.refuse) {
+      return { task, success: false, error: this.refuse };
+    }
+
+    task.status = TaskStatus.RUNNING;
+    return { task, success: true };
+  }
+
+  async getTask(id: string): Promise<Task | null> {
+    return this.tasks.find(candidate => candidate.id === id) || null;
+  }
+
+  finish(): void {
+    this.tasks.forEach(task => { task.status = TaskStatus.COMPLETED; });
+  }
+}
+
+function setup(scheduleStore?: ScheduleStore) {
+  const orchestration = new RecordingOrchestration();
+  const templates = new InMemoryWorkflowTemplateStore();
+  const scheduler = new InMemoryTaskScheduler(
+    orchestration as unknown as TaskOrchestrationEngine,
+    templates,
+    undefined,
+    scheduleStore
+  );
+
+  return { orchestration, templates, scheduler };
+}
+
+function scheduleRequest(overrides: Partial<CreateScheduleRequest> = {}): CreateScheduleRequest {
+  return {
+    name: 'Hourly rebalance',
+    description: 'Rebalances the portfolio',
+    creator: 'alice',
+    workflow,
+    cron: '0 * * * *',
+    ...overrides
+  };
+}
+
+const at = (iso: string) => new Date(iso);
+
+test('finds the next run of cron expressions in UTC', () => {
+  assert.deepEqual(nextCronRun('*/15 * * * *', at('2026-03-02T10:07:30Z')), at('2026-03-02T10:15:00Z'));
+  assert.deepEqual(nextCronRun('0 * * * *', at('2026-03-02T10:00:00Z')), at('2026-03-02T11:00:00Z'));
+  assert.deepEqual(nextCronRun('30 9 * * 1-5', at('2026-03-06T10:00:00Z')), at('2026-03-09T09:30:00Z')); // Friday to Monday
+  assert.deepEqual(nextCronRun('0 0 * * 7', at('2026-03-02T00:00:00Z')), at('2026-03-08T00:00:00Z')); // 7 is Sunday
+  assert.deepEqual(nextCronRun('0 12 31 * *', at('2026-04-01T00:00:00Z')), at('2026-05-31T12:00:00Z'));
+  assert.deepEqual(nextCronRun('0 0 29 2 *', at('2026-03-01T00:00:00Z')), at('2028-02-29T00:00:00Z'));
+  assert.equal(nextCronRun('0 0 30 2 *', at('2026-03-01T00:00:00Z')), null);
+});
+
+test('matches either day field when both are restricted', () => {
+  // The 15th, or any Monday
+  assert.deepEqual(nextCronRun('0 0 15 * 1', at('2026-03-10T12:00:00Z')), at('2026-03-15T00:00:00Z'));
+  assert.deepEqual(nextCronRun('0 0 15 * 1', at('2026-03-15T12:00:00Z')), at('2026-03-16T00:00:00Z'));
+});
+
+test('rejects malformed cron expressions', () => {
+  assert.throws(() => parseCron('0 * * *'), /must have 5 fields/);
+
+  for (const expression of ['60 * * * *', '* 24 * * *', '* * 0 * *', '5-1 * * * *', '*/0 * * * *', 'a * * * *', '1,,2 * * * *']) {
+    assert.throws(() => parseCron(expression), /Invalid cron field/, expression);
+  }
+
+  assert.deepEqual([...parseCron('0-30/10,45 * * * *').minutes.values], [0, 10, 20, 30, 45]);
+  assert.equal(isValidCron('0 0 30 2 *'), false);
+  assert.equal(isValidCron('0 9 * * 1-5'), true);
+});
+
+test('checks schedules when they are created', async () => {
+  const { scheduler } = setup();
+  const soon = new Date(Date.now() + 60 * 1000);
+
+  await assert.rejects(scheduler.createSchedule(scheduleRequest({ workflow: undefined })), /either a workflow or a template/);
+  await assert.rejects(scheduler.createSchedule(scheduleRequest({ template: 'rebalance' })), /either a workflow or a template/);
+  await assert.rejects(scheduler.createSchedule(scheduleRequest({ cron: undefined })), /start time or a cron expression/);
+  await assert.rejects(scheduler.createSchedule(scheduleRequest({ cron: undefined, startAt: new Date(Date.now() - 1000) })), /must be in the future/);
+  await assert.rejects(scheduler.createSchedule(scheduleRequest({ cron: '0 * * *' })), /must have 5 fields/);
+  await assert.rejects(scheduler.createSchedule(scheduleRequest({ cron: '0 0 30 2 *' })), /never matches/);
+  await assert.rejects(scheduler.createSchedule(scheduleRequest({ runDeadline: 1.5 })), /Run deadline/);
+  await assert.rejects(scheduler.createSchedule(scheduleRequest({ template: 'rebalance@^1', workflow: undefined })), /not found/);
+
+  const schedule = await scheduler.createSchedule(scheduleRequest({ cron: undefined, startAt: soon }));
+  assert.deepEqual(schedule.nextRunAt, soon);
+  assert.equal(schedule.status, ScheduleStatus.ACTIVE);
+});
+
+test('runs one-off schedules once at their start time', async () => {
+  const { scheduler, orchestration } = setup();
+  const startAt = new Date(Date.now() + 60 * 1000);
+  const schedule = await scheduler.createSchedule(scheduleRequest({ cron: undefined, startAt, runDeadline: 5 * 60 * 1000, priority: 2 }));
+
+  assert.deepEqual(await scheduler.runDueSchedules(new Date(startAt.getTime() - 1)), { startedTasks: [], skippedSchedules: [], failedSchedules: [] });
+
+  const result = await scheduler.runDueSchedules(startAt);
+  const [task] = orchestration.tasks;
+  const ran = (await scheduler.getSchedule(schedule.id))!;
+
+  assert.deepEqual(result.startedTasks, [task.id]);
+  assert.equal(task.status, TaskStatus.RUNNING);
+  assert.equal(task.schedule, schedule.id);
+  assert.equal(task.priority, 2);
+  assert.equal(task.deadline!.getTime() - ran.lastRun!.startedAt.getTime(), 5 * 60 * 1000);
+  assert.equal(ran.status, ScheduleStatus.COMPLETED);
+  assert.equal(ran.nextRunAt, undefined);
+  assert.deepEqual(ran.lastRun!.scheduledFor, startAt);
+  assert.equal(ran.runCount, 1);
+
+  orchestration.finish();
+  assert.deepEqual((await scheduler.runDueSchedules(new Date(startAt.getTime() + 60 * 60 * 1000))).startedTasks, []);
+});
+
+test('skips cron runs while the previous task is still underway', async () => {
+  const { scheduler, orchestration } = setup();
+  const schedule = await scheduler.createSchedule(scheduleRequest({ startAt: at('2030-01-01T00:00:00Z') }));
+  assert.deepEqual(schedule.nextRunAt, at('2030-01-01T00:00:00Z'));
+
+  assert.equal((await scheduler.runDueSchedules(at('2030-01-01T00:00:10Z'))).startedTasks.length, 1);
+  assert.deepEqual((await scheduler.getSchedule(schedule.id))!.nextRunAt, at('2030-01-01T01:00:00Z'));
+
+  const overlapping = await scheduler.runDueSchedules(at('2030-01-01T01:00:00Z'));
+  assert.deepEqual(overlapping.skippedSchedules, [schedule.id]);
+  assert.equal(orchestration.tasks.length, 1);
+
+  // Runs missed meanwhile collapse into one
+  orchestration.finish();
+  const caughtUp = await scheduler.runDueSchedules(at('2030-01-01T04:30:00Z'));
+  const latest = (await scheduler.getSchedule(schedule.id))!;
+
+  assert.equal(caughtUp.startedTasks.length, 1);
+  assert.deepEqual(latest.lastRun!.scheduledFor, at('2030-01-01T02:00:00Z'));
+  assert.deepEqual(latest.nextRunAt, at('2030-01-01T05:00:00Z'));
+  assert.equal(latest.runCount, 2);
+  assert.equal(latest.skippedRuns, 1);
+  assert.equal(latest.lastTaskId, orchestration.tasks[1].id);
+});
+
+test('starts no runs while a schedule is paused', async () => {
+  const { scheduler, orchestration } = setup();
+  const schedule = await scheduler.createSchedule(scheduleRequest({ cron: '* * * * *' }));
+
+  await scheduler.pauseSchedule(schedule.id);
+  await assert.rejects(scheduler.pauseSchedule(schedule.id), /Schedule is paused/);
+  assert.deepEqual((await scheduler.runDueSchedules(new Date(Date.now() + 10 * 60 * 1000))).startedTasks, []);
+
+  const resumed = await scheduler.resumeSchedule(schedule.id);
+  assert.equal(resumed.status, ScheduleStatus.ACTIVE);
+  assert.ok(resumed.nextRunAt!.getTime() > Date.now());
+  await assert.rejects(scheduler.resumeSchedule(schedule.id), /not paused/);
+
+  assert.equal(await scheduler.deleteSchedule(schedule.id), true);
+  assert.deepEqual((await scheduler.runDueSchedules(new Date(Date.now() + 10 * 60 * 1000))).startedTasks, []);
+  assert.equal(orchestration.tasks.length, 0);
+  assert.equal(await scheduler.getSchedule(schedule.id), null);
+});
+
+test('builds each run from the current version of its template', async () => {
+  const { scheduler, orchestration, templates } = setup();
+  const publish = (version: string) => templates.publish({
+    name: 'rebalance',
+    version,
+    publisher: 'alice',
+    parameters: [{ name: 'target', type: 'string' }],
+    workflow: { steps: [{ ...workflow.steps[0], input: { target: '{{params.target}}', version } }] }
+  });
+  await publish('1.0.0');
+  const schedule = await scheduler.createSchedule(scheduleRequest({
+    workflow: undefined,
+    template: 'rebalance@^1',
+    parameters: { target: '60/40' },
+    startAt: at('2030-01-01T00:00:00Z')
+  }));
+
+  await scheduler.runDueSchedules(at('2030-01-01T00:00:00Z'));
+  orchestration.finish();
+  await publish('1.1.0');
+  await scheduler.runDueSchedules(at('2030-01-01T01:00:00Z'));
+
+  assert.deepEqual(orchestration.tasks.map(task => task.template), [
+    { name: 'rebalance', version: '1.0.0' },
+    { name: 'rebalance', version: '1.1.0' }
+  ]);
+  assert.deepEqual(orchestration.tasks[1].workflow.steps[0].input, { target: '60/40', version: '1.1.0' });
+  assert.equal((await scheduler.getSchedule(schedule.id))!.runCount, 2);
+});
+
+test('records runs whose task could not be executed', async () => {
+  const { scheduler, orchestration } = setup();
+  const schedule = await scheduler.createSchedule(scheduleRequest({ startAt: at('2030-01-01T00:00:00Z') }));
+  orchestration.refuse = 'Budget exceeded';
+
+  const result = await scheduler.runDueSchedules(at('2030-01-01T00:00:00Z'));
+  const failed = (await scheduler.getSchedule(schedule.id))!;
+
+  assert.deepEqual(result.failedSchedules, [schedule.id]);
+  assert.match(failed.lastRun!.error!, /Budget exceeded/);
+  assert.equal(failed.lastRun!.taskId, undefined);
+  assert.equal(failed.runCount, 0);
+  assert.deepEqual(failed.nextRunAt, at('2030-01-01T01:00:00Z'));
+});
+
+test('SQLite schedules survive a restart', async () => {
+  const filename = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'schedules-')), 'schedules.db');
+  const first = new SqliteScheduleStore(filename);
+  const { scheduler } = setup(first);
+  const schedule = await scheduler.createSchedule(scheduleRequest({ startAt: at('2030-01-01T00:00:00Z') }));
+  await scheduler.runDueSchedules(at('2030-01-01T00:00:00Z'));
+  first.close();
+
+  const second = new SqliteScheduleStore(filename);
+  try {
+    const reloaded = second.getSchedule(schedule.id)!;
+
+    assert.deepEqual(reloaded.nextRunAt, at('2030-01-01T01:00:00Z'));
+    assert.deepEqual(reloaded.startAt, at('2030-01-01T00:00:00Z'));
+    assert.deepEqual(reloaded.lastRun!.scheduledFor, at('2030-01-01T00:00:00Z'));
+    assert.ok(reloaded.createdAt instanceof Date);
+    assert.deepEqual(reloaded.workflow, workflow);
+    assert.equal(reloaded.runCount, 1);
+
+    assert.equal(second.deleteSchedule(schedule.id), true);
+    assert.equal(second.deleteSchedule(schedule.id), false);
+    assert.deepEqual(second.listSchedules(), []);
+  } finally {
+    second.close();
+  }
+});
+
+test('schedule stores replace saved schedules in place', async () => {
+  for (const store of [new InMemoryScheduleStore(), new SqliteScheduleStore(':memory:')]) {
+    const { scheduler } = setup(store);
+    const schedule = await scheduler.createSchedule(scheduleRequest());
+    await scheduler.pauseSchedule(schedule.id);
+
+    assert.equal(store.listSchedules().length, 1);
+    assert.equal(store.getSchedule(schedule.id)!.status, ScheduleStatus.PAUSED);
+
+    if (store instanceof SqliteScheduleStore) {
+      store.close();
+    }
+  }
+});
@@ -0,0 +1,182 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  InMemoryTemplateVersionStore,
+  InMemoryWorkflowTemplateStore,
+  PublishTemplateRequest,
+  SqliteTemplateVersionStore,
+  TemplateVersionStore,
+  WorkflowTemplateStore,
+  parseTemplateReference,
+  resolveParameterValues
+} from '../src/core/templates';
+import { StepStatus, WorkflowStep } from '../src/core/types';
+import { AuthorizationError, NotFoundError, TaskError, ValidationError } from '../src/utils/errors';
+
+const publisher = '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd';
+
+function step(id: string, overrides: Partial<WorkflowStep> = {}): WorkflowStep {
+  return {
+    id,
+    name: id,
+    agentRequirements: { capabilities: ['defi.swap'] },
+    input: {},
+    dependsOn: [],
+    status: StepStatus.PENDING,
+    ...overrides
+  };
+}
+
+function publication(overrides: Partial<PublishTemplateRequest> = {}): PublishTemplateRequest {
+  return {
+    name: 'dca-buy',
+    version: '1.0.0',
+    publisher,
+    parameters: [
+      { name: 'token', type: 'string' },
+      { name: 'amount', type: 'number', default: 100 }
+    ],
+    workflow: { steps: [step('buy', { input: { token: '{{params.token}}', amount: '{{params.amount}}' } })] },
+    ...overrides
+  };
+}
+
+// Runs a test against the template store backed by both version stores
+function templateTest(name: string, run: (templates: WorkflowTemplateStore) => Promise<void>): void {
+  test(`${name} (memory)`, () => run(new InMemoryWorkflowTemplateStore(undefined, new InMemoryTemplateVersionStore())));
+  test(`${name} (sqlite)`, async () => {
+    const versions = new SqliteTemplateVersionStore(':memory:');
+    try {
+      await run(new InMemoryWorkflowTemplateStore(undefined, versions));
+    } finally {
+      versions.close();
+    }
+  });
+}
+
+test('parses template references', () => {
+  assert.deepEqual(parseTemplateReference('dca-buy'), { name: 'dca-buy', version: undefined });
+  assert.deepEqual(parseTemplateReference('dca-buy@^1.2'), { name: 'dca-buy', version: '^1.2' });
+  assert.deepEqual(parseTemplateReference('team.dca-buy@1.0.0'), { name: 'team.dca-buy', version: '1.0.0' });
+});
+
+test('checks parameter values against their declarations', () => {
+  const parameters = publication().parameters!;
+
+  assert.deepEqual(resolveParameterValues(parameters, { token: 'ETH' }), { token: 'ETH', amount: 100 });
+  assert.deepEqual(resolveParameterValues(parameters, { token: 'ETH', amount: 5 }), { token: 'ETH', amount: 5 });
+  assert.throws(() => resolveParameterValues(parameters, {}), /Missing value for template parameter token/);
+  assert.throws(() => resolveParameterValues(parameters, { token: 1 }), /token must be of type string/);
+  assert.throws(() => resolveParameterValues(parameters, { token: 'ETH', slippage: 1 }), /has no parameter slippage/);
+  assert.deepEqual(resolveParameterValues([{ name: 'memo', type: 'string', required: false }]), {});
+});
+
+templateTest('publishes versions and resolves references to the highest match', async templates => {
+  await templates.publish(publication());
+  await templates.publish(publication({ version: '1.2.0' }));
+  await templates.publish(publication({ version: '2.0.0' }));
+
+  assert.equal((await templates.resolve('dca-buy')).version, '2.0.0');
+  assert.equal((await templates.resolve('dca-buy@^1')).version, '1.2.0');
+  assert.equal((await templates.resolve('dca-buy@1.0.0')).version, '1.0.0');
+  assert.deepEqual((await templates.listVersions('dca-buy')).map(template => template.version), ['2.0.0', '1.2.0', '1.0.0']);
+  assert.deepEqual((await templates.list()).map(template => `${template.name}@${template.version}`), ['dca-buy@2.0.0']);
+
+  await assert.rejects(templates.resolve('dca-buy@^3'), NotFoundError);
+  await assert.rejects(templates.resolve('dca-buy@latest'), /Invalid template version: latest/);
+  await assert.rejects(templates.publish(publication({ version: '1.2.0' })), /already published/);
+});
+
+templateTest('keeps template names to their first publisher', async templates => {
+  await templates.publish(publication());
+
+  await assert.rejects(
+    templates.publish(publication({ version: '1.1.0', publisher: '0x2222222222222222222222222222222222222222' })),
+    AuthorizationError
+  );
+  await templates.publish(publication({ version: '1.1.0', publisher: `0x${publisher.slice(2).toUpperCase()}` }));
+  await assert.rejects(
+    templates.deprecate('dca-buy', '1.0.0', '0x2222222222222222222222222222222222222222'),
+    AuthorizationError
+  );
+});
+
+templateTest('rejects malformed templates', async templates => {
+  await assert.rejects(templates.publish(publication({ name: 'dca buy' })), /Invalid template name/);
+  await assert.rejects(templates.publish(publication({ version: 'v1' })), /Invalid template version/);
+  await assert.rejects(
+    templates.publish(publication({ parameters: [{ name: 'token', type: 'string' }] })),
+    /undeclared template parameter amount/
+  );
+  await assert.rejects(
+    templates.publish(publication({ parameters: [{ name: 'token', type: 'string' }, { name: 'amount', type: 'number', default: 'all' }] })),
+    /Default of template parameter amount/
+  );
+  await assert.rejects(
+    templates.publish(publication({ workflow: { steps: [step('buy', { dependsOn: ['quote'] })] } })),
+    ValidationError
+  );
+});
+
+templateTest('stops resolving deprecated versions', async templates => {
+  await templates.publish(publication());
+  await templates.publish(publication({ version: '1.1.0' }));
+
+  const deprecated = await templates.deprecate('dca-buy', '1.1.0', publisher, 'Overpays on fees');
+
+  assert.equal(deprecated.deprecation!.reason, 'Overpays on fees');
+  assert.equal((await templates.get('dca-buy', '1.1.0'))!.deprecation!.reason, 'Overpays on fees');
+  assert.equal((await templates.resolve('dca-buy@^1')).version, '1.0.0');
+  await assert.rejects(templates.resolve('dca-buy@1.1.0'), TaskError);
+  await assert.rejects(templates.resolve('dca-buy@1.1.0'), /is deprecated: Overpays on fees/);
+  await assert.rejects(templates.deprecate('dca-buy', '1.1.0', publisher), /already deprecated/);
+});
+
+templateTest('builds workflows from parameter values', async templates => {
+  await templates.publish(publication());
+
+  const instance = await templates.instantiate('dca-buy@^1', { token: 'ETH' });
+
+  assert.equal(instance.template.version, '1.0.0');
+  assert.deepEqual(instance.workflow.steps[0].input, { token: 'ETH', amount: 100 });
+  await assert.rejects(templates.instantiate('dca-buy', { amount: 5 }), /Missing value for template parameter token/);
+});
+
+test('SQLite template versions survive a restart', async () => {
+  const filename = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'templates-')), 'templates.db');
+  const first = new SqliteTemplateVersionStore(filename);
+  const templates = new InMemoryWorkflowTemplateStore(undefined, first);
+  await templates.publish(publication());
+  await templates.deprecate('dca-buy', '1.0.0', publisher);
+  first.close();
+
+  const second = new SqliteTemplateVersionStore(filename);
+  try {
+    const reloaded = await new InMemoryWorkflowTemplateStore(undefined, second).get('dca-buy', '1.0.0');
+
+    assert.ok(reloaded!.publishedAt instanceof Date);
+    assert.ok(reloaded!.deprecation!.deprecatedAt instanceof Date);
+    assert.deepEqual(reloaded!.workflow, publication().workflow);
+  } finally {
+    second.close();
+  }
+});
+
+test('version stores replace saved versions in place', () => {
+  const stores: TemplateVersionStore[] = [new InMemoryTemplateVersionStore(), new SqliteTemplateVersionStore(':memory:')];
+
+  for (const store of stores) {
+    const template = { ...publication(), parameters: [], publishedAt: new Date() };
+    store.saveVersion(template);
+    store.saveVersion({ ...template, description: 'Buys on a schedule' });
+
+    assert.equal(store.listVersions('dca-buy').length, 1);
+    assert.equal(store.listVersions('dca-buy')[0].description, 'Buys on a schedule');
+    assert.deepEqual(store.listNames(), ['dca-buy']);
+  }
+
+  (stores[1] as SqliteTemplateVersionStore).close();
+});
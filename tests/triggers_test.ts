@@ -0,0 +1,304 @@
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ethers } from 'ethers';
+import { BlockchainConnector, ChainLog, EthereumConnector } from '../src/blockchain';
+import { InMemoryAgentRegistry } from '../src/core/registry';
+import { DefaultAgentSelector, InMemoryTaskOrchestrationEngine } from '../src/core/orchestration';
+import { InMemoryWorkflowTemplateStore } from '../src/core/templates';
+import {
+  CreateTriggerRequest,
+  InMemoryTriggerManager,
+  InMemoryTriggerStore,
+  SqliteTriggerStore,
+  TriggerStatus,
+  applyEventData,
+  decodeEvent,
+  eventTopic,
+  isValidEventCondition,
+  isValidTopicFilter,
+  parseEventSignature
+} from '../src/core/triggers';
+import { StepStatus, Task } from '../src/core/types';
+import { DEV_CHAIN_URL, DevChain, connectDevChain, deployRuntime } from './dev-chain';
+
+const TRANSFER = 'Transfer(address indexed from, address indexed to, uint256 value)';
+const transfer = parseEventSignature(TRANSFER);
+
+// Emits LOG3 with the first three words of the calldata as topics and the rest as data
+const EMITTER_RUNTIME = '0x604035602035600035606036038060606000376000a300';
+
+const pad = (address: string) => ethers.utils.hexZeroPad(address, 32).toLowerCase();
+
+function transferLog(from: string, to: string, value: number) {
+  return {
+    address: '0x5fbdb2315678afecb367f032d93f642f64180aa3',
+    topics: [eventTopic(transfer), pad(from), pad(to)],
+    data: ethers.utils.defaultAbiCoder.encode(['uint256'], [value]),
+    blockNumber: 7,
+    blockHash: ethers.constants.HashZero,
+    transactionHash: ethers.utils.id('tx'),
+    logIndex: 2
+  };
+}
+
+async function setup(connector: BlockchainConnector) {
+  const templates = new InMemoryWorkflowTemplateStore();
+  await templates.publish({
+    name: 'sweep',
+    version: '1.0.0',
+    publisher: 'alice',
+    parameters: [{ name: 'amount', type: 'string' }, { name: 'source', type: 'string' }],
+    workflow: {
+      steps: [{
+        id: 'sweep',
+        name: 'Sweep',
+        agentRequirements: { capabilities: ['defi.swap'] },
+        input: { amount: '{{params.amount}}', source: '{{params.source}}' },
+        dependsOn: [],
+        status: StepStatus.PENDING
+      }]
+    }
+  });
+  // No agents are registered, so started tasks fail; only their creation matters here
+  const engine = new InMemoryTaskOrchestrationEngine(new InMemoryAgentRegistry(), new DefaultAgentSelector());
+  const triggers = new InMemoryTriggerManager(connector, engine, templates);
+
+  return { engine, templates, triggers };
+}
+
+function triggerRequest(overrides: Partial<CreateTriggerRequest> = {}): CreateTriggerRequest {
+  return {
+    name: 'Sweep large transfers',
+    description: 'Sweeps tokens sent to the vault',
+    creator: 'alice',
+    event: TRANSFER,
+    template: 'sweep@^1',
+    parameters: { amount: '{{event.args.value}}', source: '{{event.transactionHash}}' },
+    ...overrides
+  };
+}
+
+async function waitFor(condition: () => boolean | Promise<boolean>, description: string): Promise<void> {
+  const deadline = Date.now() + 10000;
+
+  while (!(await condition())) {
+    if (Date.now() > deadline) {
+      throw new Error(`Timed out waiting for ${description}`);
+    }
+
+    await new Promise(resolve => setTimeout(resolve, 50));
+  }
+}
+
+test('parses event signatures into their topic', () => {
+  assert.equal(eventTopic(transfer), ethers.utils.id('Transfer(address,address,uint256)'));
+  assert.equal(eventTopic(parseEventSignature(`event ${TRANSFER}`)), eventTopic(transfer));
+  assert.throws(() => parseEventSignature('Transfer(address indexed from'), /Invalid event signature/);
+  assert.throws(() => parseEventSignature('Ping(uint256 value) anonymous'), /Anonymous events/);
+});
+
+test('checks topic filters and event conditions', () => {
+  const vault = pad('0x00000000000000000000000000000000000000aa');
+
+  assert.equal(isValidTopicFilter([null, vault], transfer), true);
+  assert.equal(isValidTopicFilter([[vault, vault]], transfer), true);
+  assert.equal(isValidTopicFilter([null, null, null], transfer), false); // value is not indexed
+  assert.equal(isValidTopicFilter(['0xaa'], transfer), false);
+  assert.equal(isValidTopicFilter([[]], transfer), false);
+
+  assert.equal(isValidEventCondition({ value: '{{event.args.value}}', operator: 'gte', compareTo: '1000' }), true);
+  assert.equal(isValidEventCondition({ value: '{{steps.quote.output.amountOut}}', operator: 'exists' }), false);
+  assert.equal(isValidEventCondition({ value: '{{event.args.value}}', operator: 'near', compareTo: 1 } as any), false);
+});
+
+test('decodes logs and fills event data into values', () => {
+  const from = ethers.Wallet.createRandom().address;
+  const to = ethers.Wallet.createRandom().address;
+  const event = decodeEvent(transfer, transferLog(from, to, 1500));
+
+  assert.deepEqual(event.args, { from, to, value: '1500' });
+  assert.equal(event.name, 'Transfer');
+  assert.equal(event.logIndex, 2);
+  assert.deepEqual(
+    applyEventData({ amount: '{{event.args.value}}', memo: 'From {{event.args.from}} in block {{event.blockNumber}}', missing: '{{event.args.fee}}' }, event),
+    { amount: '1500', memo: `From ${from} in block 7`, missing: undefined }
+  );
+  assert.throws(() => decodeEvent(transfer, { ...transferLog(from, to, 1), topics: [eventTopic(transfer), pad(from)] }));
+});
+
+test('checks triggers when they are created', async () => {
+  const { triggers } = await setup(new EthereumConnector(DEV_CHAIN_URL));
+
+  await assert.rejects(triggers.createTrigger(triggerRequest({ event: 'Transfer(' })), /Invalid event signature/);
+  await assert.rejects(triggers.createTrigger(triggerRequest({ address: '0x1234' })), /Invalid contract address/);
+  await assert.rejects(triggers.createTrigger(triggerRequest({ topics: ['0x1234'] })), /Topics must be 32-byte hex values/);
+  await assert.rejects(
+    triggers.createTrigger(triggerRequest({ where: { value: '{{task.budget.amount}}', operator: 'exists' } })),
+    /may only reference \{\{event...\}\} fields/
+  );
+  await assert.rejects(triggers.createTrigger(triggerRequest({ runDeadline: 0 })), /Run deadline/);
+  await assert.rejects(triggers.createTrigger(triggerRequest({ template: 'sweep@^2' })), /not found/);
+  await assert.rejects(triggers.createTrigger(triggerRequest({ parameters: { amount: '{{event.args.value}}' } })), /Missing value/);
+  await assert.rejects(triggers.createTrigger(triggerRequest()), /Not connected to ethereum/);
+});
+
+test('SQLite triggers survive a restart', () => {
+  const filename = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'triggers-')), 'triggers.db');
+  const now = new Date();
+  const first = new SqliteTriggerStore(filename);
+  first.saveTrigger({
+    ...triggerRequest(),
+    id: 'trigger-1',
+    status: TriggerStatus.ACTIVE,
+    firedCount: 1,
+    lastBlock: 12,
+    lastFired: { event: decodeEvent(transfer, transferLog(ethers.constants.AddressZero, ethers.constants.AddressZero, 1)), firedAt: now, taskId: 'task-1' },
+    createdAt: now,
+    updatedAt: now
+  });
+  first.close();
+
+  const second = new SqliteTriggerStore(filename);
+  try {
+    const reloaded = second.getTrigger('trigger-1')!;
+
+    assert.deepEqual(reloaded.lastFired!.firedAt, now);
+    assert.deepEqual(reloaded.createdAt, now);
+    assert.equal(reloaded.lastFired!.event.args.value, '1');
+    assert.equal(reloaded.lastBlock, 12);
+    assert.deepEqual(second.listTriggers().map(trigger => trigger.id), ['trigger-1']);
+    assert.equal(second.deleteTrigger('trigger-1'), true);
+    assert.equal(second.deleteTrigger('trigger-1'), false);
+  } finally {
+    second.close();
+  }
+});
+
+test('does not start a task twice for a block handled in part before a restart', async () => {
+  let latest = 4;
+  let deliver: (log: ChainLog) => void = () => {};
+  const from = ethers.Wallet.createRandom().address;
+  const first = { ...transferLog(from, from, 10), blockNumber: 5, transactionHash: ethers.utils.id('first'), logIndex: 0 };
+  const second = { ...transferLog(from, from, 20), blockNumber: 5, transactionHash: ethers.utils.id('second'), logIndex: 1 };
+  const connector = {
+    getName: () => 'ethereum',
+    isConnected: () => true,
+    getBlockNumber: async () => latest,
+    getLogs: async (filter: any, fromBlock: number, toBlock: number) => [first, second]
+      .filter(log => log.blockNumber >= fromBlock && log.blockNumber <= toBlock),
+    subscribeToLogs: (filter: any, listener: (log: ChainLog) => void) => {
+      deliver = listener;
+      return () => {};
+    }
+  } as unknown as BlockchainConnector;
+  const { engine, templates } = await setup(connector);
+  const store = new InMemoryTriggerStore();
+  const amounts = async () => (await engine.listTasks())
+    .map((task: Task) => task.workflow.steps[0].input!.amount)
+    .sort();
+
+  const triggers = new InMemoryTriggerManager(connector, engine, templates, store);
+  const trigger = await triggers.createTrigger(triggerRequest());
+  deliver(first);
+  await waitFor(async () => (await amounts()).length === 1, 'the first log to be handled');
+  await waitFor(() => store.getTrigger(trigger.id)!.handledLogs !== undefined, 'the first log to be recorded');
+  triggers.stop();
+
+  assert.equal(store.getTrigger(trigger.id)!.lastBlock, 4);
+  assert.deepEqual(store.getTrigger(trigger.id)!.handledLogs, [`${first.transactionHash}:0`]);
+
+  // The restarted manager catches up on block 5, whose second log it has not handled
+  latest = 5;
+  const restarted = new InMemoryTriggerManager(connector, engine, templates, store);
+  restarted.start();
+  await waitFor(() => store.getTrigger(trigger.id)!.lastBlock === 5, 'block 5 to be caught up');
+  restarted.stop();
+
+  assert.deepEqual(await amounts(), ['10', '20']);
+  assert.equal(store.getTrigger(trigger.id)!.firedCount, 2);
+  assert.equal(store.getTrigger(trigger.id)!.handledLogs, undefined);
+});
+
+let chain: DevChain | null = null;
+let stopTriggers: (() => void) | undefined;
+
+before(async () => {
+  chain = await connectDevChain();
+});
+
+after(async () => {
+  stopTriggers?.();
+  await chain?.connector.disconnect();
+});
+
+test('starts tasks from matching events on the dev chain', async t => {
+  if (!chain) {
+    t.skip(`no dev chain at ${DEV_CHAIN_URL}`);
+    return;
+  }
+
+  const { connector, wallet } = chain;
+  const { engine, triggers } = await setup(connector);
+  stopTriggers = () => triggers.stop();
+
+  const emitter = await deployRuntime(wallet, EMITTER_RUNTIME);
+  const vault = ethers.Wallet.createRandom().address;
+  const emit = async (from: string, value: number) => {
+    const data = ethers.utils.hexConcat([
+      eventTopic(transfer),
+      pad(from),
+      pad(vault),
+      ethers.utils.defaultAbiCoder.encode(['uint256'], [value])
+    ]);
+    return (await wallet.sendTransaction({ to: emitter, data })).wait();
+  };
+
+  const trigger = await triggers.createTrigger(triggerRequest({
+    address: emitter,
+    topics: [pad(wallet.address)],
+    where: { value: '{{event.args.value}}', operator: 'gte', compareTo: '10' },
+    runDeadline: 60 * 1000
+  }));
+  const fired = async () => (await triggers.getTrigger(trigger.id))!.firedCount;
+  const startedTasks = async () => (await engine.listTasks())
+    .filter((task: Task) => task.trigger === trigger.id)
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+
+  await emit(wallet.address, 5); // Too small
+  await emit(ethers.Wallet.createRandom().address, 50); // From another sender
+  const receipt = await emit(wallet.address, 20);
+
+  await waitFor(async () => (await fired()) === 1, 'the trigger to fire');
+  const [first] = await startedTasks();
+  const { lastFired, lastBlock } = (await triggers.getTrigger(trigger.id))!;
+
+  assert.deepEqual(first.workflow.steps[0].input, { amount: '20', source: receipt.transactionHash });
+  assert.deepEqual(first.template, { name: 'sweep', version: '1.0.0' });
+  assert.equal(first.deadline!.getTime() - lastFired!.firedAt.getTime(), 60 * 1000);
+  assert.deepEqual(lastFired!.event.args, { from: wallet.address, to: vault, value: '20' });
+  assert.equal(lastFired!.event.address, emitter);
+  assert.equal(lastFired!.taskId, first.id);
+  assert.ok(lastBlock! >= receipt.blockNumber - 1);
+
+  // Events emitted while paused are caught up on resume
+  await triggers.pauseTrigger(trigger.id);
+  await emit(wallet.address, 30);
+  await assert.rejects(triggers.pauseTrigger(trigger.id), /already paused/);
+  await triggers.resumeTrigger(trigger.id);
+  await waitFor(async () => (await fired()) === 2, 'the missed event to be caught up');
+
+  await emit(wallet.address, 40);
+  await waitFor(async () => (await fired()) === 3, 'the trigger to fire again');
+  await new Promise(resolve => setTimeout(resolve, 500));
+
+  assert.equal(await fired(), 3);
+  assert.deepEqual((await startedTasks()).map(task => task.workflow.steps[0].input!.amount), ['20', '30', '40']);
+
+  assert.equal(await triggers.deleteTrigger(trigger.id), true);
+  await emit(wallet.address, 60);
+  await new Promise(resolve => setTimeout(resolve, 500));
+  assert.equal((await startedTasks()).length, 3);
+});